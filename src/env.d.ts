@@ -19,6 +19,15 @@ interface ImportMetaEnv {
   readonly MIDTRANS_CLIENT_KEY: string;
   readonly MIDTRANS_ENVIRONMENT: string;
   readonly MIDTRANS_MERCHANT_ID: string;
+  readonly PAYMENT_GATEWAY?: string;
+  readonly XENDIT_API_KEY?: string;
+  readonly XENDIT_CALLBACK_TOKEN?: string;
+  readonly XENDIT_ENVIRONMENT?: string;
+  readonly MOCK_GATEWAY_SERVER_KEY?: string;
+  readonly VA_COMPANY_CODE_BCA?: string;
+  readonly VA_COMPANY_CODE_BNI?: string;
+  readonly VA_COMPANY_CODE_MANDIRI?: string;
+  readonly VA_CALLBACK_TOKEN?: string;
   readonly ENCRYPTION_PASSWORD: string;
   readonly DEV: string;
   readonly LOG_LEVEL: string;
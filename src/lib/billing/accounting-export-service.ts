@@ -0,0 +1,443 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../payments/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { toCsv, type CsvValue } from './csv';
+import {
+  DEFAULT_CHART_OF_ACCOUNTS,
+  EFAKTUR_HEADER_ROWS,
+  GENERAL_JOURNAL_HEADERS,
+  buildCreditNoteJournal,
+  buildInvoiceJournal,
+  buildPaymentJournal,
+  buildRefundJournal,
+  efakturRows,
+  generalJournalRows,
+  isExportableInvoice,
+  type AccountKey,
+  type AccountingExportType,
+  type ChartOfAccounts,
+  type EfakturCustomer,
+} from './accounting';
+import type {
+  AccountingExportRun,
+  CreditLedgerEntry,
+  CreditNote,
+} from './types';
+
+export const ACCOUNTING_EXPORT_TYPES: AccountingExportType[] = [
+  'general_journal',
+  'efaktur',
+];
+
+// Rows fetched per page while collecting a period
+const PAGE_SIZE = 500;
+
+const RUN_COLUMNS =
+  'id, export_type, period_start, period_end, row_count, invoice_count, payment_count, filename, exported_by, voided_at, voided_by, void_reason, created_at';
+
+export interface AccountingExportRequest {
+  exportType: AccountingExportType;
+  /** First day of the period, YYYY-MM-DD */
+  periodStart: string;
+  /** Last day of the period, inclusive */
+  periodEnd: string;
+  exportedBy?: string;
+}
+
+export interface AccountingExport {
+  run: AccountingExportRun;
+  content: string;
+}
+
+type StoredExportRun = AccountingExportRun & { content: string };
+
+function toExport(row: StoredExportRun): AccountingExport {
+  const { content, ...run } = row;
+  return { run, content };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parsePeriodDate(value: string, field: string): Date {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (!DATE_PATTERN.test(value) || Number.isNaN(date.getTime())) {
+    throw ErrorFactory.validationFailed(`${field} must be YYYY-MM-DD`, field);
+  }
+  return date;
+}
+
+export class AccountingExportService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+  }
+
+  /** Configured account codes, with defaults for any key not mapped */
+  async getChartOfAccounts(): Promise<ChartOfAccounts> {
+    const { data, error } = await this.supabase
+      .from('accounting_account_mappings')
+      .select('account_key, account_code, account_name');
+
+    if (error) {
+      throw new Error(`Failed to fetch account mappings: ${error.message}`);
+    }
+
+    const accounts = { ...DEFAULT_CHART_OF_ACCOUNTS };
+    for (const row of data || []) {
+      if (row.account_key in accounts) {
+        accounts[row.account_key as AccountKey] = {
+          code: row.account_code,
+          name: row.account_name,
+        };
+      }
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Builds the CSV for a period and records the run. A period overlapping a
+   * run of the same type that has not been voided is refused, so nothing is
+   * posted to the ledger or uploaded to DJP twice.
+   */
+  async createExport(
+    request: AccountingExportRequest
+  ): Promise<AccountingExport> {
+    const from = parsePeriodDate(request.periodStart, 'period_start');
+    const lastDay = parsePeriodDate(request.periodEnd, 'period_end');
+    const to = new Date(lastDay.getTime() + 24 * 60 * 60 * 1000 - 1);
+
+    if (to < from) {
+      throw ErrorFactory.validationFailed(
+        'period_end must not be before period_start',
+        'period_end'
+      );
+    }
+
+    const overlapping = await this.findOverlappingRun(request);
+    if (overlapping) {
+      throw ErrorFactory.invalidOperation(
+        `${request.periodStart} to ${request.periodEnd} overlaps the ${overlapping.period_start} to ${overlapping.period_end} export; void it first to export again`
+      );
+    }
+
+    const invoices = (
+      await this.fetchAll(offset =>
+        this.paymentService.getInvoicesCreatedBetween(
+          from,
+          to,
+          PAGE_SIZE,
+          offset
+        )
+      )
+    ).filter(isExportableInvoice);
+
+    let rows: CsvValue[][];
+    let paymentCount = 0;
+    if (request.exportType === 'general_journal') {
+      const [payments, creditNotes, refunds, accounts] = await Promise.all([
+        this.fetchAll(offset =>
+          this.paymentService.getSettledTransactionsBetween(
+            from,
+            to,
+            PAGE_SIZE,
+            offset
+          )
+        ),
+        this.fetchAll(offset => this.getCreditNotesBetween(from, to, offset)),
+        this.fetchAll(offset => this.getRefundsBetween(from, to, offset)),
+        this.getChartOfAccounts(),
+      ]);
+      paymentCount = payments.length;
+
+      rows = generalJournalRows(
+        [
+          ...invoices.flatMap(buildInvoiceJournal),
+          ...payments.flatMap(buildPaymentJournal),
+          ...creditNotes.flatMap(buildCreditNoteJournal),
+          ...refunds.flatMap(buildRefundJournal),
+        ],
+        accounts
+      );
+    } else {
+      const customers = await this.getEfakturCustomers([
+        ...new Set(invoices.map(invoice => invoice.userId)),
+      ]);
+      rows = invoices.flatMap(invoice =>
+        efakturRows(
+          invoice,
+          customers[invoice.userId] || { name: invoice.userId }
+        )
+      );
+    }
+
+    const [headers, ...headerRows] =
+      request.exportType === 'general_journal'
+        ? [GENERAL_JOURNAL_HEADERS]
+        : EFAKTUR_HEADER_ROWS;
+    const content = toCsv(headers, [...headerRows, ...rows]);
+    const filename = `${request.exportType.replace('_', '-')}-${request.periodStart}-${request.periodEnd}.csv`;
+
+    const { data, error } = await this.supabase.rpc(
+      'record_accounting_export_run',
+      {
+        p_export_type: request.exportType,
+        p_period_start: request.periodStart,
+        p_period_end: request.periodEnd,
+        p_row_count: rows.length,
+        p_invoice_count: invoices.length,
+        p_payment_count: paymentCount,
+        p_filename: filename,
+        p_content: content,
+        p_exported_by: request.exportedBy || null,
+      }
+    );
+
+    if (error || !data) {
+      throw new Error(`Failed to record accounting export: ${error?.message}`);
+    }
+
+    logger.info('Accounting export created', {
+      module: 'billing',
+      submodule: 'accounting-export',
+      operation: 'createExport',
+      exportType: request.exportType,
+      periodStart: request.periodStart,
+      periodEnd: request.periodEnd,
+      rowCount: rows.length,
+      invoiceCount: invoices.length,
+      paymentCount,
+    });
+
+    return toExport(data as StoredExportRun);
+  }
+
+  async listRuns(
+    limit = 20,
+    offset = 0
+  ): Promise<{ runs: AccountingExportRun[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from('accounting_export_runs')
+      .select(RUN_COLUMNS, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list accounting exports: ${error.message}`);
+    }
+
+    return { runs: (data || []) as AccountingExportRun[], total: count || 0 };
+  }
+
+  /** The run with the CSV exactly as it was first delivered */
+  async getExport(runId: string): Promise<AccountingExport> {
+    const { data, error } = await this.supabase
+      .from('accounting_export_runs')
+      .select('*')
+      .eq('id', runId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch accounting export: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Accounting export', runId);
+    }
+
+    return toExport(data as StoredExportRun);
+  }
+
+  /** Releases the period so it can be exported again */
+  async voidRun(
+    runId: string,
+    voidedBy: string,
+    reason: string
+  ): Promise<AccountingExportRun> {
+    const { run } = await this.getExport(runId);
+    if (run.voided_at) {
+      throw ErrorFactory.invalidOperation('Export has already been voided');
+    }
+
+    const { data, error } = await this.supabase
+      .from('accounting_export_runs')
+      .update({
+        voided_at: new Date().toISOString(),
+        voided_by: voidedBy,
+        void_reason: reason,
+      })
+      .eq('id', runId)
+      .is('voided_at', null)
+      .select(RUN_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to void accounting export: ${error.message}`);
+    }
+
+    logger.info('Accounting export voided', {
+      module: 'billing',
+      submodule: 'accounting-export',
+      operation: 'voidRun',
+      runId,
+      exportType: run.export_type,
+      voidedBy,
+    });
+
+    return data as AccountingExportRun;
+  }
+
+  private async findOverlappingRun(
+    request: AccountingExportRequest
+  ): Promise<AccountingExportRun | null> {
+    const { data, error } = await this.supabase
+      .from('accounting_export_runs')
+      .select(RUN_COLUMNS)
+      .eq('export_type', request.exportType)
+      .is('voided_at', null)
+      .lte('period_start', request.periodEnd)
+      .gte('period_end', request.periodStart)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to check accounting exports: ${error.message}`);
+    }
+
+    return data as AccountingExportRun | null;
+  }
+
+  private async fetchAll<T>(
+    fetchPage: (offset: number) => Promise<T[]>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (;;) {
+      const page = await fetchPage(rows.length);
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  private async getCreditNotesBetween(
+    from: Date,
+    to: Date,
+    offset: number
+  ): Promise<CreditNote[]> {
+    const { data, error } = await this.supabase
+      .from('credit_notes')
+      .select('*')
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch credit notes: ${error.message}`);
+    }
+
+    return (data || []) as CreditNote[];
+  }
+
+  private async getRefundsBetween(
+    from: Date,
+    to: Date,
+    offset: number
+  ): Promise<CreditLedgerEntry[]> {
+    const { data, error } = await this.supabase
+      .from('customer_credit_ledger')
+      .select('*')
+      .eq('entry_type', 'payment_refund')
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch refunds: ${error.message}`);
+    }
+
+    return (data || []) as CreditLedgerEntry[];
+  }
+
+  /**
+   * Buyer identity for each invoice: the registered business name and NPWP
+   * from billing preferences, falling back to the customer's own name.
+   */
+  private async getEfakturCustomers(
+    userIds: string[]
+  ): Promise<Record<string, EfakturCustomer>> {
+    if (userIds.length === 0) return {};
+
+    const [profileResult, preferencesResult, addressResult] = await Promise.all(
+      [
+        this.supabase
+          .from('customer_profiles')
+          .select('user_id, first_name, last_name')
+          .in('user_id', userIds),
+        this.supabase
+          .from('billing_preferences')
+          .select('user_id, tax_information')
+          .in('user_id', userIds),
+        this.supabase
+          .from('service_addresses')
+          .select(
+            'user_id, is_primary, address_line1, address_line2, city, province, postal_code'
+          )
+          .in('user_id', userIds)
+          .order('is_primary', { ascending: false }),
+      ]
+    );
+
+    const failed =
+      profileResult.error || preferencesResult.error || addressResult.error;
+    if (failed) {
+      throw new Error(
+        `Failed to fetch customer tax details: ${failed.message}`
+      );
+    }
+
+    const customers: Record<string, EfakturCustomer> = {};
+    for (const profile of profileResult.data || []) {
+      customers[profile.user_id] = {
+        name: `${profile.first_name} ${profile.last_name}`.trim(),
+      };
+    }
+
+    for (const preferences of preferencesResult.data || []) {
+      const taxInformation = (preferences.tax_information || {}) as {
+        business_name?: string;
+        tax_id?: string;
+      };
+      const customer = (customers[preferences.user_id] ||= {
+        name: preferences.user_id,
+      });
+      if (taxInformation.business_name) {
+        customer.name = taxInformation.business_name;
+      }
+      customer.npwp = taxInformation.tax_id || undefined;
+    }
+
+    for (const address of addressResult.data || []) {
+      const customer = (customers[address.user_id] ||= {
+        name: address.user_id,
+      });
+      // Primary addresses come first
+      customer.address ||= [
+        address.address_line1,
+        address.address_line2,
+        address.city,
+        address.province,
+        address.postal_code,
+      ]
+        .filter(Boolean)
+        .join(', ');
+    }
+
+    return customers;
+  }
+}
@@ -0,0 +1,390 @@
+import type { Invoice, PaymentTransaction } from '../payments/types';
+import type { TaxCategory } from './tax';
+import type { CsvValue } from './csv';
+import type {
+  AccountingExportRun,
+  CreditLedgerEntry,
+  CreditNote,
+} from './types';
+
+export type AccountingExportType = AccountingExportRun['export_type'];
+
+export type AccountKey =
+  | 'accounts_receivable'
+  | 'cash_clearing'
+  | 'vat_output'
+  | 'pph23_prepaid'
+  | 'customer_credits'
+  | 'sales_discounts'
+  | `revenue_${TaxCategory}`;
+
+export interface AccountMapping {
+  code: string;
+  name: string;
+}
+
+export type ChartOfAccounts = Record<AccountKey, AccountMapping>;
+
+/**
+ * Used for any key missing from accounting_account_mappings. Revenue is
+ * keyed by invoice line tax category, so deposits map to a liability.
+ */
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartOfAccounts = {
+  accounts_receivable: { code: '1-1300', name: 'Piutang Usaha' },
+  cash_clearing: {
+    code: '1-1150',
+    name: 'Kas Dalam Perjalanan - Payment Gateway',
+  },
+  pph23_prepaid: { code: '1-1520', name: 'PPh 23 Dibayar Dimuka' },
+  vat_output: { code: '2-1410', name: 'PPN Keluaran' },
+  customer_credits: { code: '2-1600', name: 'Kredit Pelanggan' },
+  sales_discounts: { code: '4-1900', name: 'Potongan Penjualan' },
+  revenue_recurring_service: {
+    code: '4-1100',
+    name: 'Pendapatan Layanan Internet',
+  },
+  revenue_installation: { code: '4-1200', name: 'Pendapatan Instalasi' },
+  revenue_equipment_rental: {
+    code: '4-1300',
+    name: 'Pendapatan Sewa Perangkat',
+  },
+  revenue_deposit: { code: '2-1700', name: 'Uang Jaminan Pelanggan' },
+  revenue_late_fee: { code: '4-1400', name: 'Pendapatan Denda Keterlambatan' },
+  revenue_adjustment: { code: '4-1500', name: 'Penyesuaian Pendapatan' },
+};
+
+export interface JournalLine {
+  date: Date;
+  reference: string;
+  description: string;
+  accountKey: AccountKey;
+  debit: number;
+  credit: number;
+}
+
+/** Lawan transaksi details for the e-Faktur FK record */
+export interface EfakturCustomer {
+  name: string;
+  npwp?: string;
+  address?: string;
+}
+
+/** Placeholder NPWP e-Faktur expects for buyers without one */
+export const EMPTY_NPWP = '000000000000000';
+
+const EXCLUDED_STATUSES: Invoice['status'][] = ['draft', 'cancelled', 'void'];
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Invoices that have been issued to the customer */
+export function isExportableInvoice(invoice: Invoice): boolean {
+  return !EXCLUDED_STATUSES.includes(invoice.status);
+}
+
+/**
+ * Posts an issued invoice: receivable and prepaid PPh 23 against revenue by
+ * tax category and PPN Keluaran. Credit lines draw down customer credit and
+ * promotion discounts are booked as sales discounts.
+ * Invoices without stored lines book their subtotal as service revenue.
+ */
+export function buildInvoiceJournal(invoice: Invoice): JournalLine[] {
+  const line = (
+    accountKey: AccountKey,
+    debit: number,
+    credit: number
+  ): JournalLine => ({
+    date: invoice.createdAt,
+    reference: invoice.invoiceNumber,
+    description: `Invoice ${invoice.invoiceNumber}`,
+    accountKey,
+    debit: roundAmount(debit),
+    credit: roundAmount(credit),
+  });
+
+  const lines: JournalLine[] = [line('accounts_receivable', invoice.total, 0)];
+
+  const withheld = Number(invoice.taxWithheld || 0);
+  if (withheld > 0) {
+    lines.push(line('pph23_prepaid', withheld, 0));
+  }
+
+  const revenue = new Map<AccountKey, number>();
+  let credits = 0;
+  let discounts = 0;
+  const items = invoice.items.filter(item => item.itemType !== 'tax');
+
+  for (const item of items) {
+    if (item.itemType === 'credit') {
+      credits += Math.abs(Number(item.total));
+      continue;
+    }
+    if (item.itemType === 'discount') {
+      discounts += Math.abs(Number(item.total));
+      continue;
+    }
+    const key =
+      `revenue_${item.taxCategory || 'recurring_service'}` as AccountKey;
+    revenue.set(key, (revenue.get(key) || 0) + Number(item.total));
+  }
+
+  if (items.length === 0) {
+    revenue.set('revenue_recurring_service', Number(invoice.subtotal));
+  }
+
+  if (credits > 0) {
+    lines.push(line('customer_credits', credits, 0));
+  }
+  if (discounts > 0) {
+    lines.push(line('sales_discounts', discounts, 0));
+  }
+  for (const [key, amount] of revenue) {
+    lines.push(line(key, 0, amount));
+  }
+  if (Number(invoice.tax) > 0) {
+    lines.push(line('vat_output', 0, Number(invoice.tax)));
+  }
+
+  return lines;
+}
+
+/** Posts a payment received against the customer's receivable */
+export function buildPaymentJournal(
+  payment: PaymentTransaction
+): JournalLine[] {
+  const base = {
+    date: payment.updatedAt,
+    reference: payment.orderId,
+    description: `Payment ${payment.orderId} - ${payment.paymentMethod?.name || 'Online Payment'}`,
+  };
+  const amount = roundAmount(Number(payment.amount));
+
+  return [
+    { ...base, accountKey: 'cash_clearing', debit: amount, credit: 0 },
+    { ...base, accountKey: 'accounts_receivable', debit: 0, credit: amount },
+  ];
+}
+
+const CREDIT_NOTE_DEBIT_ACCOUNTS: Partial<
+  Record<CreditNote['reason'], AccountKey>
+> = {
+  overpayment: 'accounts_receivable',
+  deposit_release: 'revenue_deposit',
+};
+
+/**
+ * Posts a credit note. Goodwill and corrections are a sales discount;
+ * overpayment credit re-books cash already taken against the receivable,
+ * and a released deposit moves from the deposit liability to credit.
+ */
+export function buildCreditNoteJournal(note: CreditNote): JournalLine[] {
+  const base = {
+    date: new Date(note.created_at),
+    reference: note.credit_note_number,
+    description: `Credit note ${note.credit_note_number} - ${note.reason.replace('_', ' ')}`,
+  };
+  const amount = roundAmount(Number(note.amount));
+
+  return [
+    {
+      ...base,
+      accountKey: CREDIT_NOTE_DEBIT_ACCOUNTS[note.reason] || 'sales_discounts',
+      debit: amount,
+      credit: 0,
+    },
+    { ...base, accountKey: 'customer_credits', debit: 0, credit: amount },
+  ];
+}
+
+/** Posts a gateway refund from the credit ledger, reversing the receipt */
+export function buildRefundJournal(entry: CreditLedgerEntry): JournalLine[] {
+  const reference = entry.transaction_id || entry.id;
+  const base = {
+    date: new Date(entry.created_at),
+    reference,
+    description: entry.description || `Refund ${reference}`,
+  };
+  const amount = roundAmount(Number(entry.amount));
+
+  return [
+    { ...base, accountKey: 'accounts_receivable', debit: amount, credit: 0 },
+    { ...base, accountKey: 'cash_clearing', debit: 0, credit: amount },
+  ];
+}
+
+export const GENERAL_JOURNAL_HEADERS = [
+  'Date',
+  'Reference',
+  'Description',
+  'Account Code',
+  'Account Name',
+  'Debit',
+  'Credit',
+];
+
+export function generalJournalRows(
+  lines: JournalLine[],
+  accounts: ChartOfAccounts
+): CsvValue[][] {
+  return [...lines]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(line => [
+      formatDate(line.date),
+      line.reference,
+      line.description,
+      accounts[line.accountKey].code,
+      accounts[line.accountKey].name,
+      line.debit.toFixed(2),
+      line.credit.toFixed(2),
+    ]);
+}
+
+/** Digits only, as the e-Faktur import expects; empty NPWP becomes zeros */
+export function normalizeNpwp(npwp?: string): string {
+  const digits = (npwp || '').replace(/\D/g, '');
+  return digits.length === 15 || digits.length === 16 ? digits : EMPTY_NPWP;
+}
+
+export const EFAKTUR_HEADER_ROWS: string[][] = [
+  [
+    'FK',
+    'KD_JENIS_TRANSAKSI',
+    'FG_PENGGANTI',
+    'NOMOR_FAKTUR',
+    'MASA_PAJAK',
+    'TAHUN_PAJAK',
+    'TANGGAL_FAKTUR',
+    'NPWP',
+    'NAMA',
+    'ALAMAT_LENGKAP',
+    'JUMLAH_DPP',
+    'JUMLAH_PPN',
+    'JUMLAH_PPNBM',
+    'ID_KETERANGAN_TAMBAHAN',
+    'FG_UANG_MUKA',
+    'UANG_MUKA_DPP',
+    'UANG_MUKA_PPN',
+    'UANG_MUKA_PPNBM',
+    'REFERENSI',
+    'KODE_DOKUMEN_PENDUKUNG',
+  ],
+  [
+    'LT',
+    'NPWP',
+    'NAMA',
+    'JALAN',
+    'BLOK',
+    'NOMOR',
+    'RT',
+    'RW',
+    'KECAMATAN',
+    'KELURAHAN',
+    'KABUPATEN',
+    'PROPINSI',
+    'KODE_POS',
+    'NOMOR_TELEPON',
+  ],
+  [
+    'OF',
+    'KODE_OBJEK',
+    'NAMA',
+    'HARGA_SATUAN',
+    'JUMLAH_BARANG',
+    'HARGA_TOTAL',
+    'DISKON',
+    'DPP',
+    'PPN',
+    'TARIF_PPNBM',
+    'PPNBM',
+  ],
+];
+
+/**
+ * FK and OF records for one invoice, or none when it carries no PPN.
+ * Credit and discount lines become a DISKON spread over the taxable lines in
+ * proportion to their value. e-Faktur works in whole rupiah and rounds
+ * PPN down. NOMOR_FAKTUR is left empty for the e-Faktur app to assign from
+ * the NSFP range.
+ */
+export function efakturRows(
+  invoice: Invoice,
+  customer: EfakturCustomer
+): CsvValue[][] {
+  if (!(Number(invoice.tax) > 0)) return [];
+
+  const taxable = invoice.items.filter(
+    item => (item.itemType || 'charge') === 'charge' && Number(item.taxRate) > 0
+  );
+  if (taxable.length === 0) return [];
+
+  const credits = invoice.items
+    .filter(item => item.itemType === 'credit' || item.itemType === 'discount')
+    .reduce((sum, item) => sum + Math.abs(Number(item.total)), 0);
+  const gross = taxable.reduce((sum, item) => sum + Number(item.total), 0);
+
+  let discountLeft = Math.min(Math.floor(credits), Math.floor(gross));
+  const objects = taxable.map((item, index) => {
+    const total = Math.floor(Number(item.total));
+    const discount =
+      index === taxable.length - 1
+        ? discountLeft
+        : Math.min(discountLeft, Math.floor((credits * total) / gross));
+    discountLeft -= discount;
+
+    const dpp = total - discount;
+    return {
+      item,
+      total,
+      discount,
+      dpp,
+      ppn: Math.floor(roundAmount(dpp * Number(item.taxRate))),
+    };
+  });
+
+  const [year, month, day] = formatDate(invoice.createdAt).split('-');
+  const header: CsvValue[] = [
+    'FK',
+    '01',
+    '0',
+    '',
+    Number(month),
+    Number(year),
+    `${day}/${month}/${year}`,
+    normalizeNpwp(customer.npwp),
+    customer.name,
+    customer.address || '',
+    objects.reduce((sum, object) => sum + object.dpp, 0),
+    objects.reduce((sum, object) => sum + object.ppn, 0),
+    0,
+    '',
+    0,
+    0,
+    0,
+    0,
+    invoice.invoiceNumber,
+    '',
+  ];
+
+  return [
+    header,
+    ...objects.map(object => [
+      'OF',
+      '',
+      // e-Faktur object names are single-line; drop any detail lines
+      object.item.description.split('\n')[0],
+      Math.floor(Number(object.item.unitPrice)),
+      Number(object.item.quantity),
+      object.total,
+      object.discount,
+      object.dpp,
+      object.ppn,
+      0,
+      0,
+    ]),
+  ];
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  PACKAGE_CATEGORIES,
+  UNASSIGNED_REGION,
+  buildRevenueReport,
+  monthBounds,
+  type PackageCategory,
+  type RevenueReport,
+} from './analytics';
+
+interface AddressRow {
+  id: string;
+  user_id: string;
+  province: string | null;
+  is_primary: boolean | null;
+}
+
+export interface RevenueReportQuery {
+  /** YYYY-MM */
+  from: string;
+  /** YYYY-MM */
+  to: string;
+  region?: string | null;
+}
+
+function categoryOf(value: unknown): PackageCategory {
+  return PACKAGE_CATEGORIES.includes(value as PackageCategory)
+    ? (value as PackageCategory)
+    : 'home';
+}
+
+export class AnalyticsService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * MRR, churn, ARPU and collection by month and region. Regions are the
+   * province of the service address, or of the customer's primary address
+   * when a subscription has none.
+   */
+  async getRevenueReport(query: RevenueReportQuery): Promise<RevenueReport> {
+    const start = monthBounds(query.from).start.toISOString();
+    const end = monthBounds(query.to).end.toISOString();
+
+    const [subscriptions, lifecycles, invoices, payments] = await Promise.all([
+      this.supabase
+        .from('service_subscriptions')
+        .select(
+          'user_id, monthly_amount, created_at, ended_at, service_address_id, packages (category)'
+        )
+        .lt('created_at', end)
+        .or(`ended_at.is.null,ended_at.gte.${start}`),
+      // Earlier services are needed to place customers in their cohort
+      this.supabase
+        .from('customer_subscriptions')
+        .select(
+          'user_id, status, start_date, end_date, updated_at, service_address_id'
+        )
+        .neq('status', 'pending')
+        .lt('start_date', end),
+      this.supabase
+        .from('invoices')
+        .select('user_id, total, status, created_at')
+        .gte('created_at', start)
+        .lt('created_at', end),
+      this.supabase
+        .from('payment_transactions')
+        .select('user_id, amount, updated_at')
+        .eq('status', 'success')
+        .gte('updated_at', start)
+        .lt('updated_at', end),
+    ]);
+
+    for (const [name, result] of [
+      ['subscriptions', subscriptions],
+      ['customer subscriptions', lifecycles],
+      ['invoices', invoices],
+      ['payments', payments],
+    ] as const) {
+      if (result.error) {
+        throw new Error(`Failed to fetch ${name}: ${result.error.message}`);
+      }
+    }
+
+    const userIds = new Set<string>(
+      [
+        ...(subscriptions.data || []),
+        ...(lifecycles.data || []),
+        ...(invoices.data || []),
+        ...(payments.data || []),
+      ].map(row => row.user_id)
+    );
+    const regionOf = await this.getRegionLookup([...userIds]);
+
+    return buildRevenueReport(
+      {
+        subscriptions: (subscriptions.data || []).map(row => {
+          const packageRow = row.packages as unknown as {
+            category: string;
+          } | null;
+          return {
+            userId: row.user_id,
+            monthlyAmount: Number(row.monthly_amount),
+            category: categoryOf(packageRow?.category),
+            region: regionOf(row.user_id, row.service_address_id),
+            startedAt: new Date(row.created_at),
+            endedAt: row.ended_at ? new Date(row.ended_at) : null,
+          };
+        }),
+        lifecycles: (lifecycles.data || []).map(row => {
+          // Cancellations recorded without an end date ended when cancelled
+          const endedAt =
+            row.end_date ||
+            (row.status === 'cancelled' ? row.updated_at : null);
+          return {
+            userId: row.user_id,
+            region: regionOf(row.user_id, row.service_address_id),
+            startedAt: new Date(row.start_date),
+            endedAt: endedAt ? new Date(endedAt) : null,
+          };
+        }),
+        invoices: (invoices.data || []).map(row => ({
+          userId: row.user_id,
+          region: regionOf(row.user_id),
+          total: Number(row.total),
+          status: row.status,
+          issuedAt: new Date(row.created_at),
+        })),
+        payments: (payments.data || []).map(row => ({
+          userId: row.user_id,
+          region: regionOf(row.user_id),
+          amount: Number(row.amount),
+          paidAt: new Date(row.updated_at),
+        })),
+      },
+      query.from,
+      query.to,
+      query.region || null
+    );
+  }
+
+  /**
+   * Region for a user, or for one of their service addresses when known.
+   */
+  private async getRegionLookup(
+    userIds: string[]
+  ): Promise<(userId: string, addressId?: string | null) => string> {
+    if (userIds.length === 0) return () => UNASSIGNED_REGION;
+
+    const { data, error } = await this.supabase
+      .from('service_addresses')
+      .select('id, user_id, province, is_primary')
+      .in('user_id', userIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch service addresses: ${error.message}`);
+    }
+
+    const byId = new Map<string, string>();
+    const byUser = new Map<string, string>();
+    for (const address of (data || []) as AddressRow[]) {
+      const province = address.province?.trim();
+      if (!province) continue;
+
+      byId.set(address.id, province);
+      if (address.is_primary || !byUser.has(address.user_id)) {
+        byUser.set(address.user_id, province);
+      }
+    }
+
+    return (userId, addressId) =>
+      (addressId && byId.get(addressId)) ||
+      byUser.get(userId) ||
+      UNASSIGNED_REGION;
+  }
+}
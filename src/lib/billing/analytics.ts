@@ -0,0 +1,315 @@
+import type { Invoice } from '../payments/types';
+
+export type PackageCategory = 'home' | 'soho' | 'corporate';
+
+export const PACKAGE_CATEGORIES: PackageCategory[] = [
+  'home',
+  'soho',
+  'corporate',
+];
+
+/** Region of customers without a service address */
+export const UNASSIGNED_REGION = 'Unassigned';
+
+export const DEFAULT_REPORT_MONTHS = 12;
+export const MAX_REPORT_MONTHS = 36;
+
+/** Invoices that were never really issued don't count as billed */
+const UNBILLED_STATUSES: Invoice['status'][] = ['draft', 'cancelled', 'void'];
+
+/** A billed subscription over the time it was active */
+export interface RevenueSubscription {
+  userId: string;
+  monthlyAmount: number;
+  category: PackageCategory;
+  region: string;
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
+/** A customer's service from installation to cancellation */
+export interface ServiceLifecycle {
+  userId: string;
+  region: string;
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
+export interface RevenueInvoice {
+  userId: string;
+  region: string;
+  total: number;
+  status: Invoice['status'];
+  issuedAt: Date;
+}
+
+export interface RevenuePayment {
+  userId: string;
+  region: string;
+  amount: number;
+  paidAt: Date;
+}
+
+export interface RevenueData {
+  subscriptions: RevenueSubscription[];
+  lifecycles: ServiceLifecycle[];
+  invoices: RevenueInvoice[];
+  payments: RevenuePayment[];
+}
+
+export interface MonthlyRevenue {
+  /** YYYY-MM */
+  month: string;
+  mrr: number;
+  newMrr: number;
+  churnedMrr: number;
+  /** MRR at month end less MRR at month start */
+  netNewMrr: number;
+  /** Customers with service at month end */
+  customers: number;
+  churnedCustomers: number;
+  /** Share of the customers at month start who left during the month */
+  churnRate: number;
+  arpu: number;
+  arpuByCategory: Record<PackageCategory, number>;
+  /** Total of invoices issued in the month */
+  invoiced: number;
+  /** How much of that has been paid */
+  collected: number;
+  collectionRate: number;
+  /** Gateway payments received in the month, for any invoice */
+  cashReceived: number;
+}
+
+export interface RevenueCohort {
+  /** Month the customers' service started */
+  cohort: string;
+  customers: number;
+  /** Share still with service at the end of each month since */
+  retention: number[];
+}
+
+export interface RevenueReport {
+  from: string;
+  to: string;
+  /** Region the report is limited to, or null for all */
+  region: string | null;
+  regions: string[];
+  months: MonthlyRevenue[];
+  byRegion: Array<{ region: string; months: MonthlyRevenue[] }>;
+  cohorts: RevenueCohort[];
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function roundRate(rate: number): number {
+  return Math.round(rate * 10000) / 10000;
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? roundRate(part / whole) : 0;
+}
+
+function sum(amounts: number[]): number {
+  return roundAmount(amounts.reduce((total, amount) => total + amount, 0));
+}
+
+/** The YYYY-MM month a date falls in (UTC) */
+export function monthOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/** First instant of the month, and of the month after it */
+export function monthBounds(month: string): { start: Date; end: Date } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1)),
+  };
+}
+
+/** Every month from `from` to `to`, inclusive */
+export function monthRange(from: string, to: string): string[] {
+  const months: string[] = [];
+  let cursor = monthBounds(from).start;
+  const last = monthBounds(to).start;
+
+  while (cursor <= last) {
+    months.push(monthOf(cursor));
+    cursor = monthBounds(monthOf(cursor)).end;
+  }
+  return months;
+}
+
+/** Active at an instant: started before it and not yet ended */
+function activeAt(
+  span: { startedAt: Date; endedAt: Date | null },
+  instant: Date
+): boolean {
+  return span.startedAt < instant && (!span.endedAt || span.endedAt >= instant);
+}
+
+function customersAt(lifecycles: ServiceLifecycle[], instant: Date) {
+  return new Set(
+    lifecycles.filter(span => activeAt(span, instant)).map(span => span.userId)
+  );
+}
+
+/** Average revenue per customer over a set of active subscriptions */
+function arpuOf(subscriptions: RevenueSubscription[]): number {
+  const customers = new Set(subscriptions.map(s => s.userId)).size;
+  return customers > 0
+    ? roundAmount(sum(subscriptions.map(s => s.monthlyAmount)) / customers)
+    : 0;
+}
+
+/**
+ * One month's metrics. MRR is taken at month end from subscription prices
+ * as they stand; churn counts customers whose service ended during the
+ * month without another service running.
+ */
+export function computeMonth(month: string, data: RevenueData): MonthlyRevenue {
+  const { start, end } = monthBounds(month);
+  const inMonth = (date: Date) => date >= start && date < end;
+
+  const activeAtStart = data.subscriptions.filter(s => activeAt(s, start));
+  const activeAtEnd = data.subscriptions.filter(s => activeAt(s, end));
+
+  const mrr = sum(activeAtEnd.map(s => s.monthlyAmount));
+  const newMrr = sum(
+    activeAtEnd.filter(s => inMonth(s.startedAt)).map(s => s.monthlyAmount)
+  );
+  const churnedMrr = sum(
+    activeAtStart
+      .filter(s => s.endedAt && inMonth(s.endedAt))
+      .map(s => s.monthlyAmount)
+  );
+
+  const startingCustomers = customersAt(data.lifecycles, start);
+  const endingCustomers = customersAt(data.lifecycles, end);
+  const churnedCustomers = [...startingCustomers].filter(
+    userId => !endingCustomers.has(userId)
+  ).length;
+
+  const arpuByCategory = Object.fromEntries(
+    PACKAGE_CATEGORIES.map(category => [
+      category,
+      arpuOf(activeAtEnd.filter(s => s.category === category)),
+    ])
+  ) as Record<PackageCategory, number>;
+
+  const issued = data.invoices.filter(
+    invoice =>
+      inMonth(invoice.issuedAt) && !UNBILLED_STATUSES.includes(invoice.status)
+  );
+  const invoiced = sum(issued.map(invoice => invoice.total));
+  const collected = sum(
+    issued
+      .filter(invoice => invoice.status === 'paid')
+      .map(invoice => invoice.total)
+  );
+
+  return {
+    month,
+    mrr,
+    newMrr,
+    churnedMrr,
+    netNewMrr: roundAmount(mrr - sum(activeAtStart.map(s => s.monthlyAmount))),
+    customers: endingCustomers.size,
+    churnedCustomers,
+    churnRate: ratio(churnedCustomers, startingCustomers.size),
+    arpu: arpuOf(activeAtEnd),
+    arpuByCategory,
+    invoiced,
+    collected,
+    collectionRate: ratio(collected, invoiced),
+    cashReceived: sum(
+      data.payments
+        .filter(payment => inMonth(payment.paidAt))
+        .map(payment => payment.amount)
+    ),
+  };
+}
+
+/**
+ * Customers grouped by the month their service started, with the share
+ * still connected at the end of each following month of the report.
+ */
+export function buildCohorts(
+  lifecycles: ServiceLifecycle[],
+  months: string[]
+): RevenueCohort[] {
+  const firstStart = new Map<string, Date>();
+  for (const span of lifecycles) {
+    const current = firstStart.get(span.userId);
+    if (!current || span.startedAt < current) {
+      firstStart.set(span.userId, span.startedAt);
+    }
+  }
+
+  return months.map((cohort, index) => {
+    const members = [...firstStart]
+      .filter(([, startedAt]) => monthOf(startedAt) === cohort)
+      .map(([userId]) => userId);
+
+    return {
+      cohort,
+      customers: members.length,
+      retention: months.slice(index).map(month => {
+        const connected = customersAt(lifecycles, monthBounds(month).end);
+        return ratio(
+          members.filter(userId => connected.has(userId)).length,
+          members.length
+        );
+      }),
+    };
+  });
+}
+
+function inRegion(data: RevenueData, region: string): RevenueData {
+  return {
+    subscriptions: data.subscriptions.filter(s => s.region === region),
+    lifecycles: data.lifecycles.filter(s => s.region === region),
+    invoices: data.invoices.filter(i => i.region === region),
+    payments: data.payments.filter(p => p.region === region),
+  };
+}
+
+/**
+ * Monthly metrics for the whole base and for each region, plus cohort
+ * retention. Passing a region limits everything to it.
+ */
+export function buildRevenueReport(
+  data: RevenueData,
+  from: string,
+  to: string,
+  region: string | null = null
+): RevenueReport {
+  const months = monthRange(from, to);
+  const regions = [
+    ...new Set([
+      ...data.subscriptions.map(s => s.region),
+      ...data.lifecycles.map(s => s.region),
+      ...data.invoices.map(i => i.region),
+    ]),
+  ].sort();
+  const scoped = region ? inRegion(data, region) : data;
+
+  return {
+    from,
+    to,
+    region,
+    regions,
+    months: months.map(month => computeMonth(month, scoped)),
+    byRegion: (region ? [region] : regions).map(name => {
+      const regional = inRegion(data, name);
+      return {
+        region: name,
+        months: months.map(month => computeMonth(month, regional)),
+      };
+    }),
+    cohorts: buildCohorts(scoped.lifecycles, months),
+  };
+}
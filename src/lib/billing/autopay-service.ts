@@ -0,0 +1,411 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getPaymentManager } from '../payments';
+import type { PaymentManager } from '../payments/manager';
+import { isSoftDecline } from '../payments/declines';
+import type { SavedPaymentMethod } from '../payments/types';
+import { emailService } from '../email/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/** Hours to wait before each retry after a soft decline */
+export const AUTOPAY_RETRY_DELAYS_HOURS = [24, 72];
+export const MAX_AUTOPAY_ATTEMPTS = AUTOPAY_RETRY_DELAYS_HOURS.length + 1;
+
+export type AutopayMailer = Pick<
+  typeof emailService,
+  'sendServiceNotification'
+>;
+
+export type AutopayStatus = 'succeeded' | 'pending' | 'failed' | 'skipped';
+
+export interface AutopayResult {
+  status: AutopayStatus;
+  attempt: number;
+  retryAt?: Date | null;
+  reason?: string;
+}
+
+export interface AutopayInvoice {
+  id: string;
+  user_id: string;
+  invoice_number: string;
+  total: number;
+  status: string;
+}
+
+/**
+ * When to retry a failed charge, or null when the failure is final: hard
+ * declines are never retried and soft declines stop after the last retry.
+ */
+export function nextAutopayRetry(
+  attempt: number,
+  softDecline: boolean,
+  now: Date
+): Date | null {
+  if (!softDecline || attempt >= MAX_AUTOPAY_ATTEMPTS) {
+    return null;
+  }
+  return new Date(
+    now.getTime() + AUTOPAY_RETRY_DELAYS_HOURS[attempt - 1] * MS_PER_HOUR
+  );
+}
+
+export class AutopayService {
+  private supabase: SupabaseClient;
+  private paymentManager?: PaymentManager;
+  private mailer: AutopayMailer;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    options: { paymentManager?: PaymentManager; mailer?: AutopayMailer } = {}
+  ) {
+    this.supabase = supabaseClient;
+    this.paymentManager = options.paymentManager;
+    this.mailer = options.mailer || emailService;
+  }
+
+  /**
+   * The customer's autopay method: the default payment method, if autopay
+   * is switched on and the method carries an unexpired gateway token.
+   */
+  async getSavedMethod(userId: string): Promise<SavedPaymentMethod | null> {
+    const { data: preferences } = await this.supabase
+      .from('billing_preferences')
+      .select('auto_payment, default_payment_method')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!preferences?.auto_payment || !preferences.default_payment_method) {
+      return null;
+    }
+
+    const { data: method } = await this.supabase
+      .from('payment_methods')
+      .select(
+        'id, type, provider, display_name, gateway_token, token_expires_at, metadata'
+      )
+      .eq('id', preferences.default_payment_method)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!method?.gateway_token) {
+      return null;
+    }
+
+    if (
+      method.token_expires_at &&
+      new Date(method.token_expires_at) <= new Date()
+    ) {
+      return null;
+    }
+
+    return {
+      id: method.id,
+      type: method.type,
+      provider: method.provider,
+      token: method.gateway_token,
+      displayName: method.display_name,
+      metadata: method.metadata || {},
+    };
+  }
+
+  /**
+   * Charges an invoice to the customer's autopay method. Customers without
+   * autopay are skipped and pay through the normal payment link.
+   */
+  async chargeInvoice(
+    invoice: AutopayInvoice,
+    attempt = 1,
+    now: Date = new Date()
+  ): Promise<AutopayResult> {
+    const method = await this.getSavedMethod(invoice.user_id);
+    if (!method) {
+      return { status: 'skipped', attempt, reason: 'Autopay is not set up' };
+    }
+
+    const orderId = `AUTOPAY-${invoice.invoice_number}-${attempt}`;
+    const amount = Number(invoice.total);
+    let status: AutopayStatus = 'failed';
+    let transactionId: string | null = null;
+    let declineCode: string | undefined;
+    let errorMessage: string | undefined;
+
+    try {
+      const customerDetails = await this.getCustomerDetails(invoice.user_id);
+      const { transaction, paymentResponse } =
+        await this.getPaymentManager().chargeSavedMethod(
+          {
+            orderId,
+            amount,
+            customerDetails,
+            itemDetails: [
+              {
+                id: invoice.id,
+                price: amount,
+                quantity: 1,
+                name: `Invoice ${invoice.invoice_number}`,
+              },
+            ],
+            paymentMethod: method.type,
+            invoiceId: invoice.id,
+          },
+          invoice.user_id,
+          method
+        );
+
+      transactionId = transaction.id;
+      declineCode = paymentResponse.declineCode;
+      if (paymentResponse.status === 'success') {
+        status = 'succeeded';
+      } else if (paymentResponse.status === 'pending') {
+        status = 'pending';
+      } else {
+        errorMessage = paymentResponse.statusMessage;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const softDecline = status === 'failed' ? isSoftDecline(declineCode) : null;
+    const retryAt =
+      status === 'failed'
+        ? nextAutopayRetry(attempt, !!softDecline, now)
+        : null;
+
+    let customerNotified = false;
+    if (status === 'failed' && !retryAt) {
+      customerNotified = await this.notifyFailure(invoice, method);
+    }
+
+    const { error } = await this.supabase.from('autopay_attempts').insert({
+      invoice_id: invoice.id,
+      user_id: invoice.user_id,
+      payment_method_id: method.id,
+      transaction_id: transactionId,
+      order_id: orderId,
+      attempt,
+      status,
+      decline_code: declineCode ?? null,
+      soft_decline: softDecline,
+      error_message: errorMessage ?? null,
+      next_retry_at: retryAt ? retryAt.toISOString() : null,
+      customer_notified: customerNotified,
+    });
+
+    if (error) {
+      logger.error(
+        'Failed to record autopay attempt',
+        new Error(error.message),
+        {
+          module: 'billing',
+          submodule: 'autopay',
+          operation: 'chargeInvoice',
+          invoiceId: invoice.id,
+          attempt,
+        }
+      );
+    }
+
+    logger.info('Autopay attempt completed', {
+      module: 'billing',
+      submodule: 'autopay',
+      operation: 'chargeInvoice',
+      invoiceId: invoice.id,
+      userId: invoice.user_id,
+      attempt,
+      status,
+      declineCode,
+      retryAt: retryAt?.toISOString(),
+    });
+
+    return { status, attempt, retryAt, reason: errorMessage };
+  }
+
+  /**
+   * Retries charges whose soft-decline retry has come due. Invoices paid in
+   * the meantime are left alone.
+   */
+  async retryDue(now: Date = new Date()): Promise<{
+    success: boolean;
+    processed: number;
+    succeeded: number;
+    errors: string[];
+  }> {
+    const result = {
+      success: true,
+      processed: 0,
+      succeeded: 0,
+      errors: [] as string[],
+    };
+
+    const { data: due, error } = await this.supabase
+      .from('autopay_attempts')
+      .select(
+        'id, attempt, invoices (id, user_id, invoice_number, total, status)'
+      )
+      .not('next_retry_at', 'is', null)
+      .lte('next_retry_at', now.toISOString());
+
+    if (error) {
+      result.success = false;
+      result.errors.push(`Failed to fetch autopay retries: ${error.message}`);
+      return result;
+    }
+
+    for (const row of due || []) {
+      const invoice = (
+        Array.isArray(row.invoices) ? row.invoices[0] : row.invoices
+      ) as AutopayInvoice | null;
+
+      try {
+        // Claim the retry so an overlapping run cannot charge twice
+        const { data: claimed } = await this.supabase
+          .from('autopay_attempts')
+          .update({ next_retry_at: null })
+          .eq('id', row.id)
+          .not('next_retry_at', 'is', null)
+          .select('id');
+
+        if (!claimed?.length || !invoice) continue;
+        if (invoice.status !== 'sent' && invoice.status !== 'overdue') continue;
+
+        const attempt = await this.chargeInvoice(invoice, row.attempt + 1, now);
+        result.processed++;
+        if (attempt.status === 'succeeded') result.succeeded++;
+      } catch (retryError) {
+        const errorMsg = `Failed to retry autopay for invoice ${invoice?.id}: ${retryError instanceof Error ? retryError.message : 'Unknown error'}`;
+        result.errors.push(errorMsg);
+        logger.error(errorMsg);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Turns autopay on for a saved, tokenized payment method, or off.
+   */
+  async configure(
+    userId: string,
+    enabled: boolean,
+    paymentMethodId?: string
+  ): Promise<void> {
+    if (enabled) {
+      if (!paymentMethodId) {
+        throw ErrorFactory.validationFailed(
+          'A payment method is required to enable autopay',
+          'payment_method_id'
+        );
+      }
+
+      const { data: method } = await this.supabase
+        .from('payment_methods')
+        .select('id, is_active, gateway_token')
+        .eq('id', paymentMethodId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!method) {
+        throw ErrorFactory.resourceNotFound('Payment method', paymentMethodId);
+      }
+
+      if (!method.is_active || !method.gateway_token) {
+        throw ErrorFactory.invalidOperation(
+          'Autopay requires an active payment method saved with the payment gateway'
+        );
+      }
+    }
+
+    const { error } = await this.supabase.from('billing_preferences').upsert(
+      {
+        user_id: userId,
+        auto_payment: enabled,
+        ...(enabled ? { default_payment_method: paymentMethodId } : {}),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+    if (error) {
+      throw new Error(`Failed to update autopay settings: ${error.message}`);
+    }
+  }
+
+  async getAttempts(userId: string, limit = 20) {
+    const { data, error } = await this.supabase
+      .from('autopay_attempts')
+      .select(
+        'id, invoice_id, order_id, attempt, status, decline_code, error_message, next_retry_at, created_at'
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch autopay attempts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private getPaymentManager(): PaymentManager {
+    if (!this.paymentManager) {
+      this.paymentManager = getPaymentManager();
+    }
+    return this.paymentManager;
+  }
+
+  private async getCustomerDetails(userId: string) {
+    const [{ data: profile }, { data: userData }] = await Promise.all([
+      this.supabase
+        .from('customer_profiles')
+        .select('first_name, last_name, phone')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      this.supabase.auth.admin.getUserById(userId),
+    ]);
+
+    return {
+      firstName: profile?.first_name || '',
+      lastName: profile?.last_name || '',
+      email: userData?.user?.email || '',
+      phone: profile?.phone || '',
+    };
+  }
+
+  private async notifyFailure(
+    invoice: AutopayInvoice,
+    method: SavedPaymentMethod
+  ): Promise<boolean> {
+    const { data } = await this.supabase.auth.admin.getUserById(
+      invoice.user_id
+    );
+    const email = data?.user?.email;
+    if (!email) return false;
+
+    try {
+      await this.mailer.sendServiceNotification(
+        email,
+        `Autopay failed for invoice ${invoice.invoice_number}`,
+        `We could not charge ${method.displayName} for invoice ${invoice.invoice_number} (Rp ${Number(invoice.total).toLocaleString('id-ID')}). Please pay the invoice at ${process.env.SITE_URL}/billing/invoices or update your payment method to avoid service interruption.`,
+        'warning'
+      );
+      return true;
+    } catch (error) {
+      logger.error(
+        'Failed to send autopay failure email',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'billing',
+          submodule: 'autopay',
+          operation: 'notifyFailure',
+          invoiceId: invoice.id,
+        }
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,403 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import type {
+  BillingAccount,
+  BillingAccountContact,
+  ServiceSubscription,
+} from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+/** NET terms a billing account can be invoiced on */
+export const PAYMENT_TERMS_DAYS = [30, 45];
+
+export type BillingAccountInput = Pick<
+  BillingAccount,
+  'payer_user_id' | 'account_name'
+> &
+  Partial<
+    Pick<
+      BillingAccount,
+      | 'company_name'
+      | 'npwp'
+      | 'billing_address'
+      | 'po_number'
+      | 'payment_terms_days'
+      | 'billing_day'
+    >
+  >;
+
+export type BillingAccountChanges = Partial<
+  Pick<
+    BillingAccount,
+    | 'account_name'
+    | 'company_name'
+    | 'npwp'
+    | 'billing_address'
+    | 'po_number'
+    | 'payment_terms_days'
+    | 'is_active'
+  >
+>;
+
+export type BillingContactInput = Pick<
+  BillingAccountContact,
+  'name' | 'email'
+> &
+  Partial<
+    Pick<
+      BillingAccountContact,
+      'phone' | 'role' | 'is_primary' | 'receives_invoices'
+    >
+  >;
+
+/** A subscription in an account, with the site it serves */
+export interface BillingAccountSite {
+  subscription: ServiceSubscription;
+  siteLabel: string;
+}
+
+interface SiteAddressRow {
+  address_line1: string;
+  city: string;
+}
+
+/** The first billing date on or after `from` falling on `billingDay` */
+export function firstBillingDate(from: Date, billingDay: number): Date {
+  const date = new Date(from);
+  date.setHours(0, 0, 0, 0);
+  if (date.getDate() > billingDay) {
+    date.setMonth(date.getMonth() + 1);
+  }
+  date.setDate(billingDay);
+  return date;
+}
+
+/** Heading for a site's lines on the consolidated invoice */
+export function siteLabel(
+  subscriptionId: string,
+  address: SiteAddressRow | null
+): string {
+  return address
+    ? `${address.address_line1}, ${address.city}`
+    : `Subscription ${subscriptionId.slice(0, 8)}`;
+}
+
+export class BillingAccountService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  async listAccounts(
+    limit = 20,
+    offset = 0
+  ): Promise<{ accounts: BillingAccount[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from('billing_accounts')
+      .select('*', { count: 'exact' })
+      .order('account_name', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list billing accounts: ${error.message}`);
+    }
+
+    return { accounts: (data || []) as BillingAccount[], total: count || 0 };
+  }
+
+  async getAccountsForPayer(userId: string): Promise<BillingAccount[]> {
+    const { data, error } = await this.supabase
+      .from('billing_accounts')
+      .select('*')
+      .eq('payer_user_id', userId)
+      .order('account_name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch billing accounts: ${error.message}`);
+    }
+
+    return (data || []) as BillingAccount[];
+  }
+
+  async getAccount(accountId: string): Promise<{
+    account: BillingAccount;
+    contacts: BillingAccountContact[];
+    sites: BillingAccountSite[];
+  }> {
+    const { data: account, error } = await this.supabase
+      .from('billing_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch billing account: ${error.message}`);
+    }
+    if (!account) {
+      throw ErrorFactory.resourceNotFound('Billing account', accountId);
+    }
+
+    const [contacts, sites] = await Promise.all([
+      this.getContacts(accountId),
+      this.getSites(accountId),
+    ]);
+
+    return { account: account as BillingAccount, contacts, sites };
+  }
+
+  async createAccount(
+    input: BillingAccountInput,
+    createdBy?: string
+  ): Promise<BillingAccount> {
+    const billingDay = input.billing_day ?? 1;
+
+    const { data, error } = await this.supabase
+      .from('billing_accounts')
+      .insert({
+        ...input,
+        billing_day: billingDay,
+        next_billing_date: firstBillingDate(
+          new Date(),
+          billingDay
+        ).toISOString(),
+        created_by: createdBy || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create billing account: ${error.message}`);
+    }
+
+    return data as BillingAccount;
+  }
+
+  /** PO number and terms changes apply from the next invoice */
+  async updateAccount(
+    accountId: string,
+    changes: BillingAccountChanges
+  ): Promise<BillingAccount> {
+    const { data, error } = await this.supabase
+      .from('billing_accounts')
+      .update(changes)
+      .eq('id', accountId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update billing account: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Billing account', accountId);
+    }
+
+    return data as BillingAccount;
+  }
+
+  async getContacts(accountId: string): Promise<BillingAccountContact[]> {
+    const { data, error } = await this.supabase
+      .from('billing_account_contacts')
+      .select('*')
+      .eq('billing_account_id', accountId)
+      .order('is_primary', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch billing contacts: ${error.message}`);
+    }
+
+    return (data || []) as BillingAccountContact[];
+  }
+
+  async addContact(
+    accountId: string,
+    input: BillingContactInput
+  ): Promise<BillingAccountContact> {
+    if (input.is_primary) {
+      await this.clearPrimaryContact(accountId);
+    }
+
+    const { data, error } = await this.supabase
+      .from('billing_account_contacts')
+      .insert({ ...input, billing_account_id: accountId })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw ErrorFactory.duplicateResource('Billing contact');
+      }
+      throw new Error(`Failed to add billing contact: ${error.message}`);
+    }
+
+    return data as BillingAccountContact;
+  }
+
+  async removeContact(accountId: string, contactId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('billing_account_contacts')
+      .delete()
+      .eq('id', contactId)
+      .eq('billing_account_id', accountId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove billing contact: ${error.message}`);
+    }
+    if ((data || []).length === 0) {
+      throw ErrorFactory.resourceNotFound('Billing contact', contactId);
+    }
+  }
+
+  /** Where invoices and reminders for the account are sent */
+  async getInvoiceContact(
+    accountId: string
+  ): Promise<BillingAccountContact | null> {
+    const contacts = await this.getContacts(accountId);
+    return contacts.find(contact => contact.receives_invoices) || null;
+  }
+
+  /**
+   * Moves a subscription onto the account's invoice from its next cycle,
+   * optionally recording the site it serves.
+   */
+  async assignSubscription(
+    accountId: string,
+    subscriptionId: string,
+    serviceAddressId?: string | null
+  ): Promise<ServiceSubscription> {
+    const { account } = await this.getAccount(accountId);
+
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
+      .update({
+        billing_account_id: account.id,
+        // Sites share the account's cycle
+        next_billing_date: account.next_billing_date,
+        ...(serviceAddressId !== undefined && {
+          service_address_id: serviceAddressId,
+        }),
+      })
+      .eq('id', subscriptionId)
+      .eq('is_active', true)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to assign subscription: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound(
+        'Active subscription',
+        subscriptionId
+      );
+    }
+
+    return data as ServiceSubscription;
+  }
+
+  /** The subscription goes back to being invoiced on its own */
+  async removeSubscription(
+    accountId: string,
+    subscriptionId: string
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
+      .update({ billing_account_id: null })
+      .eq('id', subscriptionId)
+      .eq('billing_account_id', accountId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove subscription: ${error.message}`);
+    }
+    if ((data || []).length === 0) {
+      throw ErrorFactory.resourceNotFound(
+        'Account subscription',
+        subscriptionId
+      );
+    }
+  }
+
+  /** Active subscriptions billed on the account, ordered by site */
+  async getSites(accountId: string): Promise<BillingAccountSite[]> {
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
+      .select('*, service_addresses (address_line1, city)')
+      .eq('billing_account_id', accountId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch account sites: ${error.message}`);
+    }
+
+    return (data || [])
+      .map(({ service_addresses, ...subscription }) => ({
+        subscription: subscription as ServiceSubscription,
+        siteLabel: siteLabel(
+          subscription.id,
+          service_addresses as SiteAddressRow | null
+        ),
+      }))
+      .sort((a, b) => a.siteLabel.localeCompare(b.siteLabel));
+  }
+
+  async getDueAccounts(today: Date): Promise<BillingAccount[]> {
+    const { data, error } = await this.supabase
+      .from('billing_accounts')
+      .select('*')
+      .eq('is_active', true)
+      .lte('next_billing_date', today.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to fetch billing accounts: ${error.message}`);
+    }
+
+    return (data || []) as BillingAccount[];
+  }
+
+  /** Moves the account and its sites on to the next cycle */
+  async advanceBillingDate(account: BillingAccount): Promise<void> {
+    const next = new Date();
+    next.setMonth(next.getMonth() + 1);
+    next.setDate(account.billing_day);
+
+    const { error } = await this.supabase
+      .from('billing_accounts')
+      .update({ next_billing_date: next.toISOString() })
+      .eq('id', account.id);
+
+    if (error) {
+      throw new Error(
+        `Failed to update account billing date: ${error.message}`
+      );
+    }
+
+    const { error: sitesError } = await this.supabase
+      .from('service_subscriptions')
+      .update({ next_billing_date: next.toISOString() })
+      .eq('billing_account_id', account.id)
+      .eq('is_active', true);
+
+    if (sitesError) {
+      throw new Error(
+        `Failed to update site billing dates: ${sitesError.message}`
+      );
+    }
+  }
+
+  private async clearPrimaryContact(accountId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('billing_account_contacts')
+      .update({ is_primary: false })
+      .eq('billing_account_id', accountId)
+      .eq('is_primary', true);
+
+    if (error) {
+      throw new Error(`Failed to update billing contacts: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { CreditService } from './credit-service';
+import { DEFAULT_CHARGE_TAX_CATEGORY, chargeDue } from './charges';
+import type { CustomerCharge, CustomerDeposit } from './types';
+
+export type CustomerChargeInput = Pick<
+  CustomerCharge,
+  | 'user_id'
+  | 'subscription_id'
+  | 'charge_type'
+  | 'description'
+  | 'unit_price'
+  | 'frequency'
+> &
+  Partial<
+    Pick<CustomerCharge, 'tax_category' | 'quantity' | 'starts_on' | 'ends_on'>
+  >;
+
+export interface AccountClosureResult {
+  subscriptionsClosed: number;
+  chargesCancelled: number;
+  depositsReleased: number;
+  /** Deposit credit returned to the customer's balance */
+  creditReturned: number;
+}
+
+export class CustomerChargeService {
+  private supabase: SupabaseClient;
+  private creditService: CreditService;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+    this.creditService = new CreditService(supabaseClient);
+  }
+
+  async listCharges(userId: string): Promise<CustomerCharge[]> {
+    const { data, error } = await this.supabase
+      .from('customer_charges')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list customer charges: ${error.message}`);
+    }
+
+    return (data || []) as CustomerCharge[];
+  }
+
+  /** Deposits are always one-time and carry no PPN */
+  async createCharge(
+    input: CustomerChargeInput,
+    createdBy?: string
+  ): Promise<CustomerCharge> {
+    const isDeposit = input.charge_type === 'deposit';
+    if (isDeposit && input.frequency !== 'one_time') {
+      throw ErrorFactory.validationFailed(
+        'Deposits are billed once',
+        'frequency'
+      );
+    }
+
+    const { data: subscription } = await this.supabase
+      .from('service_subscriptions')
+      .select('id')
+      .eq('id', input.subscription_id)
+      .eq('user_id', input.user_id)
+      .maybeSingle();
+
+    if (!subscription) {
+      throw ErrorFactory.resourceNotFound(
+        'Subscription',
+        input.subscription_id
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('customer_charges')
+      .insert({
+        ...input,
+        tax_category: isDeposit
+          ? 'deposit'
+          : input.tax_category ||
+            DEFAULT_CHARGE_TAX_CATEGORY[input.charge_type],
+        created_by: createdBy || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create customer charge: ${error.message}`);
+    }
+
+    return data as CustomerCharge;
+  }
+
+  /** Stops a charge from being billed again; billed invoices are unaffected */
+  async cancelCharge(chargeId: string): Promise<CustomerCharge> {
+    const { data, error } = await this.supabase
+      .from('customer_charges')
+      .update({ status: 'cancelled' })
+      .eq('id', chargeId)
+      .eq('status', 'active')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to cancel customer charge: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Active charge', chargeId);
+    }
+
+    return data as CustomerCharge;
+  }
+
+  /** Charges to add to the subscription's invoice for the cycle billed on `period` */
+  async getDueCharges(
+    subscriptionId: string,
+    period: string
+  ): Promise<CustomerCharge[]> {
+    const { data, error } = await this.supabase
+      .from('customer_charges')
+      .select('*')
+      .eq('subscription_id', subscriptionId)
+      .eq('status', 'active')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch customer charges: ${error.message}`);
+    }
+
+    return ((data || []) as CustomerCharge[]).filter(charge =>
+      chargeDue(charge, period)
+    );
+  }
+
+  async listDeposits(userId: string): Promise<CustomerDeposit[]> {
+    const { data, error } = await this.supabase
+      .from('customer_deposits')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list deposits: ${error.message}`);
+    }
+
+    return (data || []) as CustomerDeposit[];
+  }
+
+  /**
+   * Closes a customer's account: ends their subscriptions and charges, and
+   * returns paid deposits as account credit, which offsets any final
+   * invoice or is refunded. Deposits whose invoice was never paid are
+   * cancelled instead.
+   */
+  async closeAccount(
+    userId: string,
+    closedBy?: string
+  ): Promise<AccountClosureResult> {
+    const { data: subscriptions, error: subscriptionError } =
+      await this.supabase
+        .from('service_subscriptions')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .select('id');
+
+    if (subscriptionError) {
+      throw new Error(
+        `Failed to close subscriptions: ${subscriptionError.message}`
+      );
+    }
+
+    const { data: charges, error: chargeError } = await this.supabase
+      .from('customer_charges')
+      .update({ status: 'cancelled' })
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .select('id');
+
+    if (chargeError) {
+      throw new Error(
+        `Failed to cancel customer charges: ${chargeError.message}`
+      );
+    }
+
+    const result: AccountClosureResult = {
+      subscriptionsClosed: (subscriptions || []).length,
+      chargesCancelled: (charges || []).length,
+      depositsReleased: 0,
+      creditReturned: 0,
+    };
+
+    const deposits = (await this.listDeposits(userId)).filter(
+      deposit => deposit.status === 'billed'
+    );
+    for (const deposit of deposits) {
+      const released = await this.releaseDeposit(deposit, closedBy);
+      if (released) {
+        result.depositsReleased++;
+        result.creditReturned += Number(deposit.amount);
+      }
+    }
+
+    logger.info('Customer account closed', {
+      module: 'billing',
+      submodule: 'charges',
+      operation: 'closeAccount',
+      userId,
+      closedBy,
+      ...result,
+    });
+
+    return result;
+  }
+
+  /** Returns true if the deposit was paid and has been returned as credit */
+  private async releaseDeposit(
+    deposit: CustomerDeposit,
+    releasedBy?: string
+  ): Promise<boolean> {
+    const { data: invoice, error } = await this.supabase
+      .from('invoices')
+      .select('status, invoice_number')
+      .eq('id', deposit.invoice_id)
+      .single();
+
+    if (error || !invoice) {
+      throw new Error(`Failed to fetch deposit invoice: ${error?.message}`);
+    }
+
+    // Claim the deposit first so a concurrent closure can't return it twice
+    const paid = invoice.status === 'paid';
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('customer_deposits')
+      .update({
+        status: paid ? 'released' : 'cancelled',
+        released_at: new Date().toISOString(),
+        released_by: releasedBy || null,
+      })
+      .eq('id', deposit.id)
+      .eq('status', 'billed')
+      .select('id');
+
+    if (claimError) {
+      throw new Error(`Failed to release deposit: ${claimError.message}`);
+    }
+    if (!paid || (claimed || []).length === 0) return false;
+
+    const { creditNote } = await this.creditService.issueCreditNote({
+      userId: deposit.user_id,
+      amount: Number(deposit.amount),
+      reason: 'deposit_release',
+      description: `Deposit returned on account closure (invoice ${invoice.invoice_number})`,
+      invoiceId: deposit.invoice_id,
+      issuedBy: releasedBy,
+    });
+
+    const { error: updateError } = await this.supabase
+      .from('customer_deposits')
+      .update({ release_credit_note_id: creditNote.id })
+      .eq('id', deposit.id);
+
+    if (updateError) {
+      throw new Error(`Failed to release deposit: ${updateError.message}`);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,56 @@
+import type { TaxableLine, TaxCategory } from './tax';
+import type { CustomerCharge, CustomerChargeType } from './types';
+
+/** Tax category a charge is billed under unless set explicitly */
+export const DEFAULT_CHARGE_TAX_CATEGORY: Record<
+  CustomerChargeType,
+  TaxCategory
+> = {
+  installation: 'installation',
+  equipment_rental: 'equipment_rental',
+  static_ip: 'recurring_service',
+  deposit: 'deposit',
+  other: 'recurring_service',
+};
+
+/**
+ * Whether a charge belongs on the invoice for the subscription cycle billed
+ * on `period` (YYYY-MM-DD). One-time charges are billed once; monthly
+ * charges once per cycle until they end.
+ */
+export function chargeDue(
+  charge: Pick<
+    CustomerCharge,
+    'status' | 'frequency' | 'starts_on' | 'ends_on' | 'last_billed_period'
+  >,
+  period: string
+): boolean {
+  if (charge.status !== 'active') return false;
+  if (charge.starts_on > period) return false;
+
+  if (charge.frequency === 'one_time') {
+    return charge.last_billed_period === null;
+  }
+
+  if (charge.ends_on && charge.ends_on <= period) return false;
+  return !charge.last_billed_period || charge.last_billed_period < period;
+}
+
+export function chargeLine(
+  charge: Pick<
+    CustomerCharge,
+    'description' | 'frequency' | 'unit_price' | 'quantity' | 'tax_category'
+  >
+): TaxableLine {
+  const unitPrice = Number(charge.unit_price);
+  return {
+    description:
+      charge.frequency === 'monthly'
+        ? `${charge.description} - Monthly`
+        : charge.description,
+    quantity: charge.quantity,
+    unitPrice,
+    total: unitPrice * charge.quantity,
+    category: charge.tax_category,
+  };
+}
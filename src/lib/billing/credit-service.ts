@@ -0,0 +1,307 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import type {
+  CreditLedgerEntry,
+  CreditLedgerEntryType,
+  CreditNote,
+  CreditNoteReason,
+  CreditStatement,
+} from './types';
+
+export interface IssueCreditNoteInput {
+  userId: string;
+  amount: number;
+  reason: CreditNoteReason;
+  description?: string;
+  invoiceId?: string;
+  issuedBy?: string;
+}
+
+export interface RecordRefundInput {
+  userId: string;
+  transactionId: string;
+  amount: number;
+  invoiceId?: string | null;
+  description?: string;
+  createdBy?: string;
+}
+
+export interface CreditPaymentInput {
+  userId: string;
+  transactionId: string;
+  amount: number;
+  /** The invoice the payment was meant for */
+  invoiceId?: string | null;
+  description: string;
+}
+
+interface LedgerEntryInput {
+  userId: string;
+  entryType: CreditLedgerEntryType;
+  amount: number;
+  balanceChange: number;
+  creditNoteId?: string;
+  invoiceId?: string | null;
+  transactionId?: string;
+  description?: string;
+  createdBy?: string;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * How much of a credit balance to apply to a chargeable amount. Credits are
+ * net of PPN, like plan change credits, and never take an invoice below zero.
+ */
+export function creditToApply(balance: number, chargeable: number): number {
+  return roundAmount(Math.max(0, Math.min(balance, chargeable)));
+}
+
+/** What is left to refund on a payment after earlier partial refunds */
+export function remainingRefundable(paid: number, refunded: number): number {
+  return roundAmount(Math.max(0, paid - refunded));
+}
+
+export class CreditService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  async getBalance(userId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('customer_credit_ledger')
+      .select('balance_after')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch credit balance: ${error.message}`);
+    }
+
+    return Number(data?.balance_after || 0);
+  }
+
+  async getStatement(userId: string, limit = 50): Promise<CreditStatement> {
+    const { data, error } = await this.supabase
+      .from('customer_credit_ledger')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch credit statement: ${error.message}`);
+    }
+
+    const entries = (data || []) as CreditLedgerEntry[];
+    return {
+      balance: Number(entries[0]?.balance_after || 0),
+      entries,
+    };
+  }
+
+  async getCreditNotes(userId: string): Promise<CreditNote[]> {
+    const { data, error } = await this.supabase
+      .from('credit_notes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch credit notes: ${error.message}`);
+    }
+
+    return (data || []) as CreditNote[];
+  }
+
+  /**
+   * Issues a credit note and adds it to the customer's balance. The note may
+   * reference the invoice it compensates for.
+   */
+  async issueCreditNote(
+    input: IssueCreditNoteInput
+  ): Promise<{ creditNote: CreditNote; entry: CreditLedgerEntry }> {
+    const amount = roundAmount(input.amount);
+    if (!(amount > 0)) {
+      throw ErrorFactory.validationFailed(
+        'Credit amount must be greater than zero',
+        'amount'
+      );
+    }
+
+    if (input.invoiceId) {
+      const { data: invoice } = await this.supabase
+        .from('invoices')
+        .select('id')
+        .eq('id', input.invoiceId)
+        .eq('user_id', input.userId)
+        .maybeSingle();
+
+      if (!invoice) {
+        throw ErrorFactory.resourceNotFound('Invoice', input.invoiceId);
+      }
+    }
+
+    const { data: creditNote, error } = await this.supabase
+      .from('credit_notes')
+      .insert({
+        user_id: input.userId,
+        invoice_id: input.invoiceId || null,
+        amount,
+        reason: input.reason,
+        description: input.description || null,
+        issued_by: input.issuedBy || null,
+      })
+      .select()
+      .single();
+
+    if (error || !creditNote) {
+      throw new Error(`Failed to create credit note: ${error?.message}`);
+    }
+
+    const entry = await this.recordEntry({
+      userId: input.userId,
+      entryType: 'credit_note',
+      amount,
+      balanceChange: amount,
+      creditNoteId: creditNote.id,
+      invoiceId: input.invoiceId,
+      description: `Credit note ${creditNote.credit_note_number}`,
+      createdBy: input.issuedBy,
+    });
+
+    logger.info('Credit note issued', {
+      module: 'billing',
+      submodule: 'credits',
+      operation: 'issueCreditNote',
+      userId: input.userId,
+      creditNoteId: creditNote.id,
+      amount,
+      reason: input.reason,
+    });
+
+    return { creditNote: creditNote as CreditNote, entry };
+  }
+
+  /**
+   * Draws down the balance for credit shown on a newly generated invoice.
+   */
+  async applyToInvoice(
+    userId: string,
+    invoiceId: string,
+    invoiceNumber: string,
+    amount: number
+  ): Promise<CreditLedgerEntry> {
+    return this.recordEntry({
+      userId,
+      entryType: 'invoice_application',
+      amount: roundAmount(amount),
+      balanceChange: -roundAmount(amount),
+      invoiceId,
+      description: `Applied to invoice ${invoiceNumber}`,
+    });
+  }
+
+  /**
+   * Adds a payment that had nothing left to pay to the customer's balance,
+   * as an overpayment credit note. Returns null if the payment was credited
+   * already, so settling it again changes nothing.
+   */
+  async creditPayment(input: CreditPaymentInput): Promise<CreditNote | null> {
+    const amount = roundAmount(input.amount);
+    const { data, error } = await this.supabase.rpc(
+      'credit_unapplied_payment',
+      {
+        p_user_id: input.userId,
+        p_transaction_id: input.transactionId,
+        p_amount: amount,
+        p_invoice_id: input.invoiceId || null,
+        p_description: input.description,
+      }
+    );
+
+    if (error) {
+      throw new Error(`Failed to credit payment: ${error.message}`);
+    }
+    // A composite NULL comes back as a row of nulls
+    if (!data?.id) return null;
+
+    logger.info('Payment credited to balance', {
+      module: 'billing',
+      submodule: 'credits',
+      operation: 'creditPayment',
+      userId: input.userId,
+      transactionId: input.transactionId,
+      creditNoteId: data.id,
+      amount,
+    });
+
+    return data as CreditNote;
+  }
+
+  /** Total already refunded through the gateway for a transaction */
+  async getRefundedAmount(transactionId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('customer_credit_ledger')
+      .select('amount')
+      .eq('transaction_id', transactionId)
+      .eq('entry_type', 'payment_refund');
+
+    if (error) {
+      throw new Error(`Failed to fetch refunds: ${error.message}`);
+    }
+
+    return roundAmount(
+      (data || []).reduce((sum, row) => sum + Number(row.amount), 0)
+    );
+  }
+
+  /**
+   * Records a refund paid back through the gateway. It leaves the credit
+   * balance unchanged but keeps the refund on the customer's statement.
+   */
+  async recordRefund(input: RecordRefundInput): Promise<CreditLedgerEntry> {
+    return this.recordEntry({
+      userId: input.userId,
+      entryType: 'payment_refund',
+      amount: roundAmount(input.amount),
+      balanceChange: 0,
+      invoiceId: input.invoiceId,
+      transactionId: input.transactionId,
+      description: input.description,
+      createdBy: input.createdBy,
+    });
+  }
+
+  private async recordEntry(
+    input: LedgerEntryInput
+  ): Promise<CreditLedgerEntry> {
+    const { data, error } = await this.supabase.rpc(
+      'record_customer_credit_entry',
+      {
+        p_user_id: input.userId,
+        p_entry_type: input.entryType,
+        p_amount: input.amount,
+        p_balance_change: input.balanceChange,
+        p_credit_note_id: input.creditNoteId || null,
+        p_invoice_id: input.invoiceId || null,
+        p_transaction_id: input.transactionId || null,
+        p_description: input.description || null,
+        p_created_by: input.createdBy || null,
+      }
+    );
+
+    if (error || !data) {
+      throw new Error(`Failed to record credit entry: ${error?.message}`);
+    }
+
+    return data as CreditLedgerEntry;
+  }
+}
@@ -0,0 +1,267 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import { PaymentService } from '../payments/service';
+import type { PaymentTransaction } from '../payments/types';
+import { BillingAccountService } from './billing-account-service';
+import {
+  renderInvoicePdf,
+  renderReceiptPdf,
+  type BillingDocumentCustomer,
+  type PaymentReference,
+} from './invoice-pdf';
+
+export interface BillingDocument {
+  filename: string;
+  content: Uint8Array<ArrayBuffer>;
+}
+
+interface CustomerProfileRow {
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+}
+
+interface ServiceAddressRow {
+  address_line1: string;
+  address_line2: string | null;
+  city: string;
+  province: string;
+  postal_code: string;
+}
+
+const PAYMENT_TYPE_LABELS: Record<string, string> = {
+  credit_card: 'Credit Card',
+  bank_transfer: 'Bank Transfer',
+  echannel: 'Mandiri Bill Payment',
+  gopay: 'GoPay',
+  shopeepay: 'ShopeePay',
+  qris: 'QRIS',
+  cstore: 'Convenience Store',
+};
+
+function parseNotification(
+  value: unknown
+): { transaction_id?: string; payment_type?: string } | null {
+  if (typeof value !== 'string') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the payment reference printed on invoices and receipts from the
+ * gateway data stored on the transaction.
+ */
+export function toPaymentReference(
+  transaction: PaymentTransaction
+): PaymentReference {
+  const metadata = transaction.metadata || {};
+  const notification = parseNotification(metadata.webhookNotification);
+  const paymentType =
+    (typeof metadata.paymentType === 'string' && metadata.paymentType) ||
+    notification?.payment_type ||
+    '';
+  const gatewayTransactionId =
+    (typeof metadata.gatewayTransactionId === 'string' &&
+      metadata.gatewayTransactionId) ||
+    notification?.transaction_id;
+
+  return {
+    orderId: transaction.orderId,
+    method:
+      PAYMENT_TYPE_LABELS[paymentType] ||
+      transaction.paymentMethod?.name ||
+      'Online Payment',
+    gatewayTransactionId,
+    amount: Number(transaction.amount),
+    paidAt: transaction.updatedAt,
+  };
+}
+
+export class BillingDocumentService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+  private billingAccountService: BillingAccountService;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.billingAccountService = new BillingAccountService(supabaseClient);
+  }
+
+  async getInvoicePdf(
+    invoiceId: string,
+    userId: string
+  ): Promise<BillingDocument> {
+    const invoice = await this.paymentService.getInvoiceById(invoiceId);
+    if (!invoice || invoice.userId !== userId) {
+      throw ErrorFactory.resourceNotFound('Invoice', invoiceId);
+    }
+
+    const [customer, transaction] = await Promise.all([
+      invoice.billingAccountId
+        ? this.getAccountCustomer(invoice.billingAccountId, userId)
+        : this.getCustomer(userId),
+      invoice.transactionId
+        ? this.paymentService.getTransactionById(invoice.transactionId)
+        : Promise.resolve(null),
+    ]);
+
+    const content = renderInvoicePdf({
+      invoiceNumber: invoice.invoiceNumber,
+      status: invoice.status,
+      issuedAt: invoice.createdAt,
+      dueDate: invoice.dueDate,
+      customer,
+      items: invoice.items,
+      subtotal: Number(invoice.subtotal),
+      tax: Number(invoice.tax),
+      taxWithheld: Number(invoice.taxWithheld || 0),
+      taxDetails: invoice.taxDetails || [],
+      total: Number(invoice.total),
+      payment:
+        transaction?.status === 'success'
+          ? toPaymentReference(transaction)
+          : undefined,
+      poNumber: invoice.poNumber || undefined,
+      paymentTermsDays: invoice.paymentTermsDays || undefined,
+    });
+
+    return { filename: `invoice-${invoice.invoiceNumber}.pdf`, content };
+  }
+
+  /**
+   * Renders the kwitansi for a successful payment. Only the paying
+   * customer can download it.
+   */
+  async getReceiptPdf(
+    transactionId: string,
+    userId: string
+  ): Promise<BillingDocument> {
+    const transaction =
+      await this.paymentService.getTransactionById(transactionId);
+    if (!transaction || transaction.userId !== userId) {
+      throw ErrorFactory.resourceNotFound('Payment', transactionId);
+    }
+
+    if (transaction.status !== 'success') {
+      throw ErrorFactory.invalidOperation(
+        'Receipts are only issued for successful payments'
+      );
+    }
+
+    const [customer, invoice] = await Promise.all([
+      this.getCustomer(userId),
+      this.paymentService.getInvoiceByTransactionId(transaction.id),
+    ]);
+
+    const receiptNumber = `KW-${transaction.orderId}`;
+    const content = renderReceiptPdf({
+      receiptNumber,
+      customer,
+      payment: toPaymentReference(transaction),
+      description:
+        invoice?.items.find(item => item.itemType !== 'tax')?.description ||
+        'Internet service',
+      invoiceNumber: invoice?.invoiceNumber,
+    });
+
+    return { filename: `kwitansi-${transaction.orderId}.pdf`, content };
+  }
+
+  /**
+   * Bill-to for a billing account invoice: the payer company and its
+   * billing contact, falling back to the payer's own details.
+   */
+  async getAccountCustomer(
+    accountId: string,
+    userId: string
+  ): Promise<BillingDocumentCustomer> {
+    const [customer, { account, contacts }] = await Promise.all([
+      this.getCustomer(userId),
+      this.billingAccountService.getAccount(accountId),
+    ]);
+    const contact = contacts.find(entry => entry.receives_invoices);
+
+    return {
+      name: contact?.name || customer.name,
+      email: contact?.email || customer.email,
+      phone: contact?.phone || customer.phone,
+      businessName: account.company_name || account.account_name,
+      npwp: account.npwp || customer.npwp,
+      address: account.billing_address || customer.address,
+    };
+  }
+
+  async getCustomer(userId: string): Promise<BillingDocumentCustomer> {
+    const [profileResult, preferencesResult, addressResult, userResult] =
+      await Promise.all([
+        this.supabase
+          .from('customer_profiles')
+          .select('first_name, last_name, phone')
+          .eq('user_id', userId)
+          .maybeSingle(),
+        this.supabase
+          .from('billing_preferences')
+          .select('tax_information')
+          .eq('user_id', userId)
+          .maybeSingle(),
+        this.supabase
+          .from('service_addresses')
+          .select('address_line1, address_line2, city, province, postal_code')
+          .eq('user_id', userId)
+          .order('is_primary', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        this.supabase.auth.admin.getUserById(userId),
+      ]);
+
+    const profile = profileResult.data as CustomerProfileRow | null;
+    const address = addressResult.data as ServiceAddressRow | null;
+    const taxInformation = (preferencesResult.data?.tax_information || {}) as {
+      business_name?: string;
+      tax_id?: string;
+    };
+    const email = userResult.data?.user?.email;
+
+    const name = profile
+      ? `${profile.first_name} ${profile.last_name}`.trim()
+      : email || 'Customer';
+
+    return {
+      name,
+      email,
+      phone: profile?.phone || undefined,
+      businessName: taxInformation.business_name || undefined,
+      npwp: taxInformation.tax_id || undefined,
+      address: address
+        ? [
+            address.address_line1,
+            address.address_line2,
+            address.city,
+            address.province,
+            address.postal_code,
+          ]
+            .filter(Boolean)
+            .join(', ')
+        : undefined,
+    };
+  }
+}
+
+export function createDocumentResponse(
+  document: BillingDocument,
+  disposition: 'attachment' | 'inline' = 'attachment'
+): Response {
+  return new Response(document.content, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${disposition}; filename="${document.filename}"`,
+      'Content-Length': String(document.content.byteLength),
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
@@ -0,0 +1,558 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../payments/service';
+import { emailService } from '../email/service';
+import { logger } from '../logger';
+import { BillingAccountService } from './billing-account-service';
+import {
+  DEFAULT_DUNNING_POLICY,
+  REACTIVATION_STEP,
+  SUSPENSION_STEP,
+  planDunning,
+} from './dunning';
+import { InstallmentService } from './installment-service';
+import { formatDocumentDate } from './invoice-pdf';
+import { LateFeeService } from './late-fee-service';
+import type { DunningLogEntry, DunningPolicy, DunningRunResult } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const NON_PAYMENT_SUSPENSION = 'non_payment';
+
+/** The parts of EmailService dunning relies on */
+export type DunningMailer = Pick<
+  typeof emailService,
+  'sendBillingReminder' | 'sendServiceNotification'
+>;
+
+interface DunningInvoice {
+  id: string;
+  user_id: string;
+  invoice_number: string;
+  total: number;
+  due_date: string;
+  status: 'sent' | 'overdue';
+  billing_account_id: string | null;
+}
+
+interface DunningLogInput {
+  invoice: Pick<DunningInvoice, 'id' | 'user_id'>;
+  step: string;
+  offsetDays?: number;
+  channel: DunningLogEntry['channel'];
+  status: DunningLogEntry['status'];
+  recipient?: string;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export class DunningService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+  private billingAccountService: BillingAccountService;
+  private lateFeeService: LateFeeService;
+  private installmentService: InstallmentService;
+  private mailer: DunningMailer;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    mailer: DunningMailer = emailService
+  ) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.billingAccountService = new BillingAccountService(supabaseClient);
+    this.lateFeeService = new LateFeeService(supabaseClient);
+    this.installmentService = new InstallmentService(supabaseClient);
+    this.mailer = mailer;
+  }
+
+  async getPolicy(): Promise<DunningPolicy> {
+    const { data, error } = await this.supabase
+      .from('dunning_policies')
+      .select('reminder_offsets, grace_period_days')
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) {
+      return DEFAULT_DUNNING_POLICY;
+    }
+
+    return {
+      reminderOffsets: (data.reminder_offsets || []).map(Number),
+      gracePeriodDays: Number(data.grace_period_days),
+    };
+  }
+
+  /**
+   * Sends due reminders, marks invoices overdue, adds late fees and
+   * suspends subscriptions whose invoices are still unpaid after the grace
+   * period. Invoices on an installment plan that is being kept up are left
+   * alone.
+   */
+  async run(today: Date = new Date()): Promise<DunningRunResult> {
+    const result: DunningRunResult = {
+      success: true,
+      processed: 0,
+      reminders: 0,
+      suspended: 0,
+      lateFees: 0,
+      paused: 0,
+      errors: [],
+    };
+
+    try {
+      const policy = await this.getPolicy();
+
+      // Earliest reminder is sent before the due date
+      const leadDays = Math.max(0, -Math.min(0, ...policy.reminderOffsets));
+      const horizon = new Date(today.getTime() + leadDays * MS_PER_DAY);
+      horizon.setHours(23, 59, 59, 999);
+
+      const { data: invoices, error } = await this.supabase
+        .from('invoices')
+        .select(
+          'id, user_id, invoice_number, total, due_date, status, billing_account_id'
+        )
+        .in('status', ['sent', 'overdue'])
+        // Prepaid invoices wait for a top-up instead of being chased
+        .eq('prepaid', false)
+        .lte('due_date', horizon.toISOString())
+        .order('due_date', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch unpaid invoices: ${error.message}`);
+      }
+
+      for (const invoice of (invoices || []) as DunningInvoice[]) {
+        try {
+          const outcome = await this.processInvoice(invoice, policy, today);
+          result.processed++;
+          if (outcome.paused) result.paused++;
+          if (outcome.reminded) result.reminders++;
+          if (outcome.suspended) result.suspended++;
+          result.lateFees += outcome.lateFees;
+        } catch (error) {
+          const errorMsg = `Failed to run dunning for invoice ${invoice.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMsg);
+          logger.error(errorMsg);
+        }
+      }
+
+      logger.info('Dunning run completed', {
+        module: 'billing',
+        submodule: 'dunning',
+        operation: 'run',
+        processed: result.processed,
+        reminders: result.reminders,
+        suspended: result.suspended,
+        lateFees: result.lateFees,
+        paused: result.paused,
+        errors: result.errors.length,
+      });
+
+      return result;
+    } catch (error) {
+      result.success = false;
+      result.errors.push(
+        `Dunning error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      logger.error(
+        'Dunning run failed',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return result;
+    }
+  }
+
+  /**
+   * Lifts a non-payment suspension once the invoice that caused it is paid,
+   * or an installment puts its plan back on schedule, unless another
+   * invoice is still unpaid past the grace period.
+   */
+  async handleInvoicePaid(invoiceId: string): Promise<boolean> {
+    const { data: invoice, error } = await this.supabase
+      .from('invoices')
+      .select('id, user_id')
+      .eq('id', invoiceId)
+      .maybeSingle();
+
+    if (error || !invoice) {
+      return false;
+    }
+
+    const { data: suspended } = await this.supabase
+      .from('customer_subscriptions')
+      .select('id')
+      .eq('user_id', invoice.user_id)
+      .eq('status', 'suspended')
+      .eq('suspension_reason', NON_PAYMENT_SUSPENSION);
+
+    if (!suspended || suspended.length === 0) {
+      return false;
+    }
+
+    const policy = await this.getPolicy();
+    const graceCutoff = new Date(
+      Date.now() - (policy.gracePeriodDays + 1) * MS_PER_DAY
+    );
+    const { data: unpaid } = await this.supabase
+      .from('invoices')
+      .select('id, invoice_number')
+      .eq('user_id', invoice.user_id)
+      .in('status', ['sent', 'overdue'])
+      .lt('due_date', graceCutoff.toISOString());
+
+    // Invoices on a plan that is being kept up don't hold service back
+    const stillOverdue: { id: string; invoice_number: string }[] = [];
+    for (const other of unpaid || []) {
+      const standing = await this.installmentService.getPlanStanding(
+        other.id,
+        new Date()
+      );
+      if (standing !== 'honored') stillOverdue.push(other);
+    }
+
+    if (stillOverdue.length > 0) {
+      await this.log({
+        invoice,
+        step: REACTIVATION_STEP,
+        channel: 'system',
+        status: 'skipped',
+        message: 'Other invoices are still unpaid past the grace period',
+        details: {
+          outstandingInvoices: stillOverdue.map(i => i.invoice_number),
+        },
+      });
+      return false;
+    }
+
+    const subscriptionIds = suspended.map(s => s.id);
+    const { error: updateError } = await this.supabase
+      .from('customer_subscriptions')
+      .update({
+        status: 'active',
+        suspended_at: null,
+        suspension_reason: null,
+        suspended_invoice_id: null,
+      })
+      .in('id', subscriptionIds);
+
+    if (updateError) {
+      throw new Error(
+        `Failed to reactivate subscriptions: ${updateError.message}`
+      );
+    }
+
+    await this.log({
+      invoice,
+      step: REACTIVATION_STEP,
+      channel: 'system',
+      status: 'sent',
+      message: 'Service reactivated after payment',
+      details: { subscriptionIds },
+    });
+
+    logger.info('Subscriptions reactivated after payment', {
+      module: 'billing',
+      submodule: 'dunning',
+      operation: 'handleInvoicePaid',
+      invoiceId,
+      userId: invoice.user_id,
+      subscriptionIds: subscriptionIds.join(','),
+    });
+
+    return true;
+  }
+
+  async getLog(invoiceId: string): Promise<DunningLogEntry[]> {
+    const { data, error } = await this.supabase
+      .from('invoice_dunning_log')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch dunning log: ${error.message}`);
+    }
+
+    return (data || []) as DunningLogEntry[];
+  }
+
+  private async processInvoice(
+    invoice: DunningInvoice,
+    policy: DunningPolicy,
+    today: Date
+  ): Promise<{
+    reminded: boolean;
+    suspended: boolean;
+    lateFees: number;
+    paused: boolean;
+  }> {
+    const standing = await this.installmentService.getPlanStanding(
+      invoice.id,
+      today
+    );
+    if (standing === 'honored') {
+      return { reminded: false, suspended: false, lateFees: 0, paused: true };
+    }
+
+    const completed = await this.getCompletedSteps(invoice.id);
+    const plan = planDunning(
+      policy,
+      new Date(invoice.due_date),
+      today,
+      completed
+    );
+
+    if (plan.daysPastDue > 0 && invoice.status === 'sent') {
+      await this.paymentService.updateInvoiceStatus(invoice.id, 'overdue');
+    }
+
+    // The plan covers the balance it was agreed on; no fees on top of it
+    let lateFees = 0;
+    if (plan.daysPastDue > 0 && standing === 'none') {
+      const fees = await this.lateFeeService.applyLateFees(
+        invoice,
+        plan.daysPastDue
+      );
+      lateFees = fees.length;
+      // Reminders quote the total including the new fees
+      invoice = {
+        ...invoice,
+        total: fees.reduce(
+          (total, fee) => total + Number(fee.amount),
+          Number(invoice.total)
+        ),
+      };
+    }
+
+    let reminded = false;
+    if (plan.reminder) {
+      reminded = await this.sendReminder(
+        invoice,
+        plan.reminder.step,
+        plan.reminder.offsetDays
+      );
+    }
+
+    let suspended = false;
+    if (plan.suspend) {
+      suspended = await this.suspend(invoice, plan.daysPastDue);
+    }
+
+    return { reminded, suspended, lateFees, paused: false };
+  }
+
+  private async sendReminder(
+    invoice: DunningInvoice,
+    step: string,
+    offsetDays: number
+  ): Promise<boolean> {
+    const { data: preferences } = await this.supabase
+      .from('billing_preferences')
+      .select('payment_reminders, overdue_reminders, email_notifications')
+      .eq('user_id', invoice.user_id)
+      .maybeSingle();
+
+    const optedIn =
+      offsetDays > 0
+        ? preferences?.overdue_reminders !== false
+        : preferences?.payment_reminders !== false;
+
+    if (!optedIn || preferences?.email_notifications === false) {
+      await this.log({
+        invoice,
+        step,
+        offsetDays,
+        channel: 'email',
+        status: 'skipped',
+        message: 'Customer has turned off billing reminders',
+      });
+      return false;
+    }
+
+    const email = await this.getRecipientEmail(invoice);
+    if (!email) {
+      await this.log({
+        invoice,
+        step,
+        offsetDays,
+        channel: 'email',
+        status: 'skipped',
+        message: 'No email address on file',
+      });
+      return false;
+    }
+
+    const amount = Number(invoice.total);
+    const dueDate = formatDocumentDate(new Date(invoice.due_date));
+
+    try {
+      let subject: string;
+      let emailId: string;
+
+      if (offsetDays > 0) {
+        subject = `Invoice ${invoice.invoice_number} is ${offsetDays} days overdue`;
+        emailId = await this.mailer.sendServiceNotification(
+          email,
+          subject,
+          `Your invoice of Rp ${amount.toLocaleString('id-ID')} was due on ${dueDate}. Please pay now to avoid service suspension.`,
+          'warning'
+        );
+      } else {
+        subject = `Billing Reminder - Invoice ${invoice.invoice_number}`;
+        emailId = await this.mailer.sendBillingReminder(email, {
+          invoiceNumber: invoice.invoice_number,
+          amount,
+          dueDate,
+          productName: 'Internet service',
+        });
+      }
+
+      await this.log({
+        invoice,
+        step,
+        offsetDays,
+        channel: 'email',
+        status: 'sent',
+        recipient: email,
+        message: subject,
+        details: { emailId },
+      });
+      return true;
+    } catch (error) {
+      await this.log({
+        invoice,
+        step,
+        offsetDays,
+        channel: 'email',
+        status: 'failed',
+        recipient: email,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private async suspend(
+    invoice: DunningInvoice,
+    daysPastDue: number
+  ): Promise<boolean> {
+    const { data: subscriptions, error } = await this.supabase
+      .from('customer_subscriptions')
+      .update({
+        status: 'suspended',
+        suspended_at: new Date().toISOString(),
+        suspension_reason: NON_PAYMENT_SUSPENSION,
+        suspended_invoice_id: invoice.id,
+      })
+      .eq('user_id', invoice.user_id)
+      .eq('status', 'active')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to suspend subscriptions: ${error.message}`);
+    }
+
+    const subscriptionIds = (subscriptions || []).map(s => s.id);
+    const email = await this.getCustomerEmail(invoice.user_id);
+    let notice: DunningLogEntry['status'] = 'skipped';
+
+    if (email && subscriptionIds.length > 0) {
+      try {
+        await this.mailer.sendServiceNotification(
+          email,
+          'Service suspended',
+          `Your internet service has been suspended because invoice ${invoice.invoice_number} is ${daysPastDue} days overdue. Service is restored automatically once the invoice is paid.`,
+          'error'
+        );
+        notice = 'sent';
+      } catch {
+        notice = 'failed';
+      }
+    }
+
+    await this.log({
+      invoice,
+      step: SUSPENSION_STEP,
+      offsetDays: daysPastDue,
+      channel: 'system',
+      status: subscriptionIds.length > 0 ? 'sent' : 'skipped',
+      recipient: email || undefined,
+      message:
+        subscriptionIds.length > 0
+          ? `Suspended ${subscriptionIds.length} subscription(s)`
+          : 'No active subscriptions to suspend',
+      details: { subscriptionIds, notice },
+    });
+
+    if (subscriptionIds.length > 0) {
+      logger.info('Subscriptions suspended for non-payment', {
+        module: 'billing',
+        submodule: 'dunning',
+        operation: 'suspend',
+        invoiceId: invoice.id,
+        userId: invoice.user_id,
+        subscriptionIds: subscriptionIds.join(','),
+      });
+    }
+
+    return subscriptionIds.length > 0;
+  }
+
+  private async getCompletedSteps(invoiceId: string): Promise<string[]> {
+    const { data } = await this.supabase
+      .from('invoice_dunning_log')
+      .select('step')
+      .eq('invoice_id', invoiceId)
+      .neq('status', 'failed');
+
+    return (data || []).map(entry => entry.step);
+  }
+
+  /** Account invoices go to the account's billing contact when it has one */
+  private async getRecipientEmail(
+    invoice: DunningInvoice
+  ): Promise<string | null> {
+    if (invoice.billing_account_id) {
+      const contact = await this.billingAccountService.getInvoiceContact(
+        invoice.billing_account_id
+      );
+      if (contact) return contact.email;
+    }
+    return this.getCustomerEmail(invoice.user_id);
+  }
+
+  private async getCustomerEmail(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.auth.admin.getUserById(userId);
+    if (error || !data.user) {
+      return null;
+    }
+    return data.user.email || null;
+  }
+
+  private async log(entry: DunningLogInput): Promise<void> {
+    const { error } = await this.supabase.from('invoice_dunning_log').insert({
+      invoice_id: entry.invoice.id,
+      user_id: entry.invoice.user_id,
+      step: entry.step,
+      offset_days: entry.offsetDays ?? null,
+      channel: entry.channel,
+      status: entry.status,
+      recipient: entry.recipient ?? null,
+      message: entry.message ?? null,
+      details: entry.details ?? {},
+    });
+
+    if (error) {
+      logger.error('Failed to write dunning log', new Error(error.message), {
+        module: 'billing',
+        submodule: 'dunning',
+        operation: 'log',
+        invoiceId: entry.invoice.id,
+        step: entry.step,
+      });
+    }
+  }
+}
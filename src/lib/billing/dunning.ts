@@ -0,0 +1,50 @@
+import { daysBetween } from './proration';
+import type { DunningPlan, DunningPolicy } from './types';
+
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  reminderOffsets: [-3, 0, 3, 7],
+  gracePeriodDays: 7,
+};
+
+export const SUSPENSION_STEP = 'suspension';
+export const REACTIVATION_STEP = 'reactivation';
+
+/**
+ * Log step code for a reminder, e.g. reminder_d-3, reminder_d0, reminder_d+7.
+ */
+export function reminderStep(offsetDays: number): string {
+  return `reminder_d${offsetDays > 0 ? '+' : ''}${offsetDays}`;
+}
+
+/**
+ * Works out what is owed to an unpaid invoice today. Only the most recent
+ * reminder that has come due is sent, so a missed scheduler run does not
+ * deliver several reminders at once. Suspension happens on the day after
+ * the grace period ends, leaving the last reminder as a final warning.
+ */
+export function planDunning(
+  policy: DunningPolicy,
+  dueDate: Date,
+  today: Date,
+  completedSteps: string[]
+): DunningPlan {
+  const daysPastDue = daysBetween(dueDate, today);
+  const completed = new Set(completedSteps);
+
+  const dueOffsets = [...policy.reminderOffsets]
+    .sort((a, b) => a - b)
+    .filter(offset => offset <= daysPastDue);
+  const latest = dueOffsets[dueOffsets.length - 1];
+
+  const plan: DunningPlan = {
+    daysPastDue,
+    suspend:
+      daysPastDue > policy.gracePeriodDays && !completed.has(SUSPENSION_STEP),
+  };
+
+  if (latest !== undefined && !completed.has(reminderStep(latest))) {
+    plan.reminder = { step: reminderStep(latest), offsetDays: latest };
+  }
+
+  return plan;
+}
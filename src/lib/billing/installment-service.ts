@@ -0,0 +1,426 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { emailService } from '../email/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { formatDocumentDate } from './invoice-pdf';
+import {
+  installmentPaymentUrl,
+  isPlanHonored,
+  scheduleProblem,
+  type InstallmentScheduleEntry,
+} from './installments';
+import type { Installment, InstallmentPlan } from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+/** The parts of EmailService installment plans rely on */
+export type InstallmentMailer = Pick<
+  typeof emailService,
+  'sendServiceNotification'
+>;
+
+export interface InstallmentPlanInput {
+  invoiceId: string;
+  schedule: InstallmentScheduleEntry[];
+  notes?: string | null;
+  createdBy?: string;
+}
+
+export type PayableInstallment = Installment & { payment_url: string };
+
+export interface InstallmentPlanDetail {
+  plan: InstallmentPlan;
+  installments: PayableInstallment[];
+}
+
+/** Where an invoice with a plan stands for dunning */
+export type PlanStanding = 'none' | 'honored' | 'behind';
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export class InstallmentService {
+  private supabase: SupabaseClient;
+  private mailer: InstallmentMailer;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    mailer: InstallmentMailer = emailService
+  ) {
+    this.supabase = supabaseClient;
+    this.mailer = mailer;
+  }
+
+  /**
+   * Splits an unpaid invoice into installments and emails the customer the
+   * schedule with a payment link for each. The installments must add up to
+   * the invoice total.
+   */
+  async createPlan(
+    input: InstallmentPlanInput
+  ): Promise<InstallmentPlanDetail> {
+    const { data: invoice, error: invoiceError } = await this.supabase
+      .from('invoices')
+      .select('id, user_id, invoice_number, total, status')
+      .eq('id', input.invoiceId)
+      .maybeSingle();
+
+    if (invoiceError) {
+      throw new Error(`Failed to fetch invoice: ${invoiceError.message}`);
+    }
+    if (!invoice) {
+      throw ErrorFactory.resourceNotFound('Invoice', input.invoiceId);
+    }
+    if (invoice.status !== 'sent' && invoice.status !== 'overdue') {
+      throw ErrorFactory.invalidOperation(
+        `Invoice ${invoice.invoice_number} is ${invoice.status} and cannot be paid in installments`
+      );
+    }
+
+    const problem = scheduleProblem(
+      Number(invoice.total),
+      input.schedule,
+      today()
+    );
+    if (problem) {
+      throw ErrorFactory.validationFailed(problem, 'installments');
+    }
+
+    const { data: plan, error } = await this.supabase
+      .from('installment_plans')
+      .insert({
+        invoice_id: invoice.id,
+        user_id: invoice.user_id,
+        total_amount: invoice.total,
+        installment_count: input.schedule.length,
+        notes: input.notes ?? null,
+        created_by: input.createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw ErrorFactory.duplicateResource(
+          'Installment plan for this invoice'
+        );
+      }
+      throw new Error(`Failed to create installment plan: ${error.message}`);
+    }
+
+    const { data: installments, error: installmentsError } = await this.supabase
+      .from('invoice_installments')
+      .insert(
+        input.schedule.map((entry, index) => ({
+          plan_id: plan.id,
+          invoice_id: invoice.id,
+          user_id: invoice.user_id,
+          sequence: index + 1,
+          amount: entry.amount,
+          due_date: entry.dueDate,
+        }))
+      )
+      .select();
+
+    if (installmentsError) {
+      // Don't leave a plan that pauses dunning with nothing to pay
+      await this.supabase
+        .from('installment_plans')
+        .update({ status: 'cancelled' })
+        .eq('id', plan.id);
+      throw new Error(
+        `Failed to create installments: ${installmentsError.message}`
+      );
+    }
+
+    const detail = this.withPaymentLinks(
+      plan as InstallmentPlan,
+      (installments || []) as Installment[]
+    );
+    await this.sendSchedule(invoice.invoice_number, detail);
+
+    logger.info('Installment plan created', {
+      module: 'billing',
+      submodule: 'installments',
+      operation: 'createPlan',
+      planId: plan.id,
+      invoiceId: invoice.id,
+      userId: invoice.user_id,
+      installments: input.schedule.length,
+      createdBy: input.createdBy,
+    });
+
+    return detail;
+  }
+
+  /** The invoice's active plan, or else its most recent one */
+  async getPlan(invoiceId: string): Promise<InstallmentPlanDetail | null> {
+    const { data: plans, error } = await this.supabase
+      .from('installment_plans')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch installment plan: ${error.message}`);
+    }
+
+    const all = (plans || []) as InstallmentPlan[];
+    const plan = all.find(p => p.status === 'active') || all[0];
+    if (!plan) return null;
+
+    return this.withPaymentLinks(plan, await this.getInstallments(plan.id));
+  }
+
+  /**
+   * Withdraws the invoice's active plan so dunning resumes. Plans with
+   * installments already paid can't be cancelled, since the invoice would
+   * then be owed in full again.
+   */
+  async cancelPlan(invoiceId: string): Promise<InstallmentPlan> {
+    const detail = await this.getPlan(invoiceId);
+    if (!detail || detail.plan.status !== 'active') {
+      throw ErrorFactory.resourceNotFound('Active installment plan', invoiceId);
+    }
+    if (
+      detail.installments.some(installment => installment.status === 'paid')
+    ) {
+      throw ErrorFactory.invalidOperation(
+        'Installments have already been paid on this plan'
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('installment_plans')
+      .update({ status: 'cancelled' })
+      .eq('id', detail.plan.id)
+      .eq('status', 'active')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to cancel installment plan: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Active installment plan', invoiceId);
+    }
+
+    const { error: installmentsError } = await this.supabase
+      .from('invoice_installments')
+      .update({ status: 'cancelled' })
+      .eq('plan_id', detail.plan.id)
+      .eq('status', 'pending');
+
+    if (installmentsError) {
+      throw new Error(
+        `Failed to cancel installments: ${installmentsError.message}`
+      );
+    }
+
+    return data as InstallmentPlan;
+  }
+
+  /**
+   * Whether dunning should hold off on an invoice: 'honored' while its
+   * active plan has no overdue installment, 'behind' once one is missed.
+   */
+  async getPlanStanding(invoiceId: string, now: Date): Promise<PlanStanding> {
+    const { data: plan, error } = await this.supabase
+      .from('installment_plans')
+      .select('id')
+      .eq('invoice_id', invoiceId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch installment plan: ${error.message}`);
+    }
+    if (!plan) return 'none';
+
+    return isPlanHonored(await this.getInstallments(plan.id), now)
+      ? 'honored'
+      : 'behind';
+  }
+
+  /**
+   * Checks an installment can be paid by the customer for the amount
+   * asked, returning it.
+   */
+  async assertPayable(
+    installmentId: string,
+    userId: string,
+    amount: number
+  ): Promise<Installment> {
+    const { data, error } = await this.supabase
+      .from('invoice_installments')
+      .select('*, installment_plans (status)')
+      .eq('id', installmentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch installment: ${error.message}`);
+    }
+
+    const installment = data as
+      | (Installment & {
+          installment_plans: Pick<InstallmentPlan, 'status'> | null;
+        })
+      | null;
+    if (!installment || installment.user_id !== userId) {
+      throw ErrorFactory.resourceNotFound('Installment', installmentId);
+    }
+    if (
+      installment.status !== 'pending' ||
+      installment.installment_plans?.status !== 'active'
+    ) {
+      throw ErrorFactory.invalidOperation(
+        `Installment ${installment.sequence} is not open for payment`
+      );
+    }
+    if (Number(installment.amount) !== Number(amount)) {
+      throw ErrorFactory.validationFailed(
+        `Installment ${installment.sequence} is for ${Number(installment.amount)}`,
+        'amount'
+      );
+    }
+
+    return installment;
+  }
+
+  /**
+   * Marks an installment paid by a settled transaction. Returns null if it
+   * was already recorded; planCompleted is set when it was the last one.
+   */
+  async recordPayment(
+    installmentId: string,
+    transactionId: string
+  ): Promise<{ invoiceId: string; planCompleted: boolean } | null> {
+    // Claim the installment first so a repeated notification can't count twice
+    const { data: paid, error } = await this.supabase
+      .from('invoice_installments')
+      .update({
+        status: 'paid',
+        transaction_id: transactionId,
+        paid_at: new Date().toISOString(),
+      })
+      .eq('id', installmentId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to record installment payment: ${error.message}`);
+    }
+    if (!paid) return null;
+
+    const installment = paid as Installment;
+    const remaining = (await this.getInstallments(installment.plan_id)).filter(
+      other => other.status === 'pending'
+    );
+
+    let planCompleted = false;
+    if (remaining.length === 0) {
+      const { data: completed, error: planError } = await this.supabase
+        .from('installment_plans')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', installment.plan_id)
+        .eq('status', 'active')
+        .select('id');
+
+      if (planError) {
+        throw new Error(
+          `Failed to complete installment plan: ${planError.message}`
+        );
+      }
+      planCompleted = (completed || []).length > 0;
+    }
+
+    logger.info('Installment paid', {
+      module: 'billing',
+      submodule: 'installments',
+      operation: 'recordPayment',
+      installmentId,
+      planId: installment.plan_id,
+      invoiceId: installment.invoice_id,
+      transactionId,
+      planCompleted,
+    });
+
+    return { invoiceId: installment.invoice_id, planCompleted };
+  }
+
+  private async getInstallments(planId: string): Promise<Installment[]> {
+    const { data, error } = await this.supabase
+      .from('invoice_installments')
+      .select('*')
+      .eq('plan_id', planId)
+      .order('sequence', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch installments: ${error.message}`);
+    }
+
+    return (data || []) as Installment[];
+  }
+
+  private withPaymentLinks(
+    plan: InstallmentPlan,
+    installments: Installment[]
+  ): InstallmentPlanDetail {
+    const siteUrl = process.env.SITE_URL || '';
+    return {
+      plan,
+      installments: installments.map(installment => ({
+        ...installment,
+        payment_url: installmentPaymentUrl(siteUrl, installment),
+      })),
+    };
+  }
+
+  private async sendSchedule(
+    invoiceNumber: string,
+    detail: InstallmentPlanDetail
+  ): Promise<void> {
+    const email = await this.getCustomerEmail(detail.plan.user_id);
+    if (!email) {
+      logger.warn(`No email for installment plan ${detail.plan.id}`);
+      return;
+    }
+
+    const schedule = detail.installments
+      .map(
+        installment =>
+          `${installment.sequence}. Rp ${Number(installment.amount).toLocaleString('id-ID')} due ${formatDocumentDate(new Date(installment.due_date))} - pay at ${installment.payment_url}`
+      )
+      .join('\n');
+
+    try {
+      await this.mailer.sendServiceNotification(
+        email,
+        `Payment plan for invoice ${invoiceNumber}`,
+        `Invoice ${invoiceNumber} will be paid in ${detail.installments.length} installments:\n${schedule}\nReminders and suspension are paused while each installment is paid by its due date.`
+      );
+    } catch (error) {
+      // The plan stands; the schedule is also shown with the invoice
+      logger.error(
+        'Error sending installment schedule',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'billing',
+          submodule: 'installments',
+          operation: 'sendSchedule',
+          planId: detail.plan.id,
+        }
+      );
+    }
+  }
+
+  private async getCustomerEmail(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.auth.admin.getUserById(userId);
+    if (error || !data.user) {
+      return null;
+    }
+    return data.user.email || null;
+  }
+}
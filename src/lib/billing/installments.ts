@@ -0,0 +1,104 @@
+import { daysBetween } from './proration';
+import type { Installment } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const MIN_INSTALLMENTS = 2;
+export const MAX_INSTALLMENTS = 12;
+
+/** Days between installments when an agent only picks how many */
+export const DEFAULT_INSTALLMENT_INTERVAL_DAYS = 30;
+
+export interface InstallmentScheduleEntry {
+  amount: number;
+  /** YYYY-MM-DD */
+  dueDate: string;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function addDays(date: string, days: number): string {
+  const start = new Date(`${date}T00:00:00Z`);
+  return new Date(start.getTime() + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Splits a balance into `count` installments `intervalDays` apart. Each is
+ * a whole rupiah amount; the last one takes what is left over.
+ */
+export function splitInstallments(
+  balance: number,
+  count: number,
+  firstDueDate: string,
+  intervalDays: number = DEFAULT_INSTALLMENT_INTERVAL_DAYS
+): InstallmentScheduleEntry[] {
+  const share = Math.floor(balance / count);
+
+  return Array.from({ length: count }, (_, index) => ({
+    amount:
+      index === count - 1 ? roundAmount(balance - share * (count - 1)) : share,
+    dueDate: addDays(firstDueDate, index * intervalDays),
+  }));
+}
+
+/**
+ * Why a schedule can't be used for the balance, or null if it can. Due
+ * dates must be in order and not in the past, and the installments must add
+ * up to the balance exactly.
+ */
+export function scheduleProblem(
+  balance: number,
+  schedule: InstallmentScheduleEntry[],
+  today: string
+): string | null {
+  if (
+    schedule.length < MIN_INSTALLMENTS ||
+    schedule.length > MAX_INSTALLMENTS
+  ) {
+    return `A plan needs ${MIN_INSTALLMENTS} to ${MAX_INSTALLMENTS} installments`;
+  }
+  if (schedule.some(entry => !(entry.amount > 0))) {
+    return 'Every installment must be for a positive amount';
+  }
+  if (schedule[0].dueDate < today) {
+    return 'Installments cannot be due in the past';
+  }
+  for (let i = 1; i < schedule.length; i++) {
+    if (schedule[i].dueDate <= schedule[i - 1].dueDate) {
+      return 'Installment due dates must be in order';
+    }
+  }
+
+  const total = roundAmount(
+    schedule.reduce((sum, entry) => sum + entry.amount, 0)
+  );
+  if (total !== roundAmount(balance)) {
+    return `Installments add up to ${total} but the balance is ${roundAmount(balance)}`;
+  }
+
+  return null;
+}
+
+/** A plan is honored while no unpaid installment is past its due date */
+export function isPlanHonored(
+  installments: Pick<Installment, 'status' | 'due_date'>[],
+  today: Date
+): boolean {
+  return !installments.some(
+    installment =>
+      installment.status === 'pending' &&
+      daysBetween(new Date(installment.due_date), today) > 0
+  );
+}
+
+/** Where the customer pays one installment */
+export function installmentPaymentUrl(
+  siteUrl: string,
+  installment: Pick<Installment, 'id' | 'invoice_id'>
+): string {
+  return `${siteUrl}/billing/payment?invoice_id=${installment.invoice_id}&installment_id=${installment.id}`;
+}
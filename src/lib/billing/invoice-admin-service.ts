@@ -0,0 +1,590 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../payments/service';
+import type { Invoice } from '../payments/types';
+import { emailService } from '../email/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { securityAuditLogger } from '../security/audit';
+import { SecurityMiddleware } from '../security/middleware';
+import { SecurityAction, type AuditDetails } from '../security/types';
+import { BillingAccountService } from './billing-account-service';
+import {
+  MAX_BULK_RESEND,
+  OPEN_INVOICE_STATUSES,
+  adjustmentProblem,
+  correctionProblem,
+  reissueLines,
+  type CorrectedLine,
+} from './invoice-admin';
+import { formatDocumentDate, formatRupiah } from './invoice-pdf';
+import { TaxService } from './tax-service';
+import type { CreditNote, InvoiceAdjustment } from './types';
+
+export type InvoiceAdminMailer = Pick<
+  typeof emailService,
+  'sendServiceNotification'
+>;
+
+export type InvoiceAuditor = Pick<
+  typeof securityAuditLogger,
+  'logSecurityAction'
+>;
+
+/** The admin an action is audited against */
+export interface AdminActor {
+  userId: string;
+  ipAddress: string;
+  userAgent: string;
+}
+
+export interface ReissueInput {
+  reason: string;
+  /** Replaces the original's charges; copied as they were when omitted */
+  lines?: CorrectedLine[];
+  /** Keeps the original due date when omitted */
+  dueDate?: Date;
+}
+
+export interface AdjustmentInput {
+  description: string;
+  /** Positive adds to the invoice, negative takes off it */
+  amount: number;
+}
+
+export interface BulkResendFilter {
+  statuses: Invoice['status'][];
+  /** Province of the customer's service address */
+  region?: string;
+  /** Invoices created on or after */
+  from?: Date;
+  /** Invoices created before */
+  to?: Date;
+  userId?: string;
+  billingAccountId?: string;
+}
+
+export interface BulkResendResult {
+  matched: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+interface ResendInvoice {
+  id: string;
+  invoice_number: string;
+  user_id: string;
+  total: number;
+  due_date: string;
+  status: Invoice['status'];
+  billing_account_id: string | null;
+}
+
+/** Who is acting, from where, for the audit log */
+export function auditActor(request: Request, userId: string): AdminActor {
+  return {
+    userId,
+    ipAddress: SecurityMiddleware.getClientIP(request),
+    userAgent: request.headers.get('user-agent') || 'unknown',
+  };
+}
+
+/**
+ * Corrections finance makes to issued invoices: voiding, reissuing a
+ * corrected copy, manual adjustment lines and resending invoice emails.
+ * Every action, including refused ones, is written to the security audit
+ * log against the admin who made it.
+ */
+export class InvoiceAdminService {
+  private supabase: SupabaseClient;
+  private mailer: InvoiceAdminMailer;
+  private auditor: InvoiceAuditor;
+  private paymentService: PaymentService;
+  private taxService: TaxService;
+  private billingAccountService: BillingAccountService;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    mailer: InvoiceAdminMailer = emailService,
+    auditor: InvoiceAuditor = securityAuditLogger
+  ) {
+    this.supabase = supabaseClient;
+    this.mailer = mailer;
+    this.auditor = auditor;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.taxService = new TaxService(supabaseClient);
+    this.billingAccountService = new BillingAccountService(supabaseClient);
+  }
+
+  /**
+   * Voids an unpaid invoice. It keeps its number; any account credit
+   * applied to it is given back as a credit note in the same transaction.
+   */
+  async voidInvoice(
+    invoiceId: string,
+    reason: string,
+    actor: AdminActor
+  ): Promise<{ invoice: Invoice; creditNote: CreditNote | null }> {
+    return this.audited(
+      actor,
+      `invoices/${invoiceId}`,
+      { operation: 'void', invoice_id: invoiceId, reason },
+      async () => {
+        const invoice = await this.requireInvoice(invoiceId);
+        await this.assertNoActivePlan(invoice);
+
+        const result = await this.paymentService.voidInvoice(
+          invoiceId,
+          reason,
+          actor.userId
+        );
+        if (!result) {
+          throw ErrorFactory.invalidOperation(
+            `Invoice ${invoice.invoiceNumber} is ${invoice.status} and cannot be voided`
+          );
+        }
+        const { invoice: voided, creditNote } = result;
+
+        logger.info('Invoice voided', {
+          module: 'billing',
+          submodule: 'invoice-admin',
+          operation: 'void',
+          invoiceId,
+          invoiceNumber: voided.invoiceNumber,
+          adminId: actor.userId,
+          creditReturned: creditNote?.amount ?? 0,
+        });
+
+        return { invoice: voided, creditNote };
+      },
+      ({ invoice, creditNote }) => ({
+        invoice_number: invoice.invoiceNumber,
+        credit_returned: creditNote?.amount ?? 0,
+      })
+    );
+  }
+
+  /**
+   * Voids an open invoice and issues a corrected copy under a new number
+   * that points back at it. Tax is worked out again on the corrected
+   * lines, and credit applied to the original moves to the copy. The void
+   * and the copy are written together, so neither happens without the
+   * other.
+   */
+  async reissue(
+    invoiceId: string,
+    input: ReissueInput,
+    actor: AdminActor
+  ): Promise<{ invoice: Invoice; original: Invoice }> {
+    return this.audited(
+      actor,
+      `invoices/${invoiceId}`,
+      {
+        operation: 'reissue',
+        invoice_id: invoiceId,
+        reason: input.reason,
+        corrected_lines: input.lines?.length ?? 0,
+      },
+      async () => {
+        const original = await this.requireInvoice(invoiceId);
+        if (!OPEN_INVOICE_STATUSES.includes(original.status)) {
+          throw ErrorFactory.invalidOperation(
+            `Invoice ${original.invoiceNumber} is ${original.status} and cannot be reissued`
+          );
+        }
+        await this.assertNoActivePlan(original);
+
+        const lines = reissueLines(original, input.lines);
+        const problem = input.lines && correctionProblem(input.lines, lines);
+        if (problem) {
+          throw ErrorFactory.validationFailed(problem, 'lines');
+        }
+
+        const taxCalculation = await this.taxService.calculateInvoiceTax(
+          original.userId,
+          lines
+        );
+
+        const reissued = await this.paymentService.reissueInvoice(
+          invoiceId,
+          `Reissued: ${input.reason}`,
+          {
+            userId: original.userId,
+            transactionId: null,
+            amount: taxCalculation.subtotal,
+            subtotal: taxCalculation.subtotal,
+            tax: taxCalculation.vat,
+            total: taxCalculation.total,
+            taxWithheld: taxCalculation.withheld,
+            taxDetails: taxCalculation.applied,
+            dueDate: input.dueDate ?? original.dueDate,
+            status: taxCalculation.total > 0 ? 'sent' : 'paid',
+            items: taxCalculation.items,
+            billingAccountId: original.billingAccountId,
+            poNumber: original.poNumber,
+            paymentTermsDays: original.paymentTermsDays,
+            prepaid: original.prepaid,
+            reissuedFrom: original.id,
+          },
+          actor.userId
+        );
+        if (!reissued) {
+          throw ErrorFactory.invalidOperation(
+            `Invoice ${original.invoiceNumber} was settled before it could be reissued`
+          );
+        }
+        const { invoice, original: voided, creditReturned } = reissued;
+
+        logger.info('Invoice reissued', {
+          module: 'billing',
+          submodule: 'invoice-admin',
+          operation: 'reissue',
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          originalInvoiceId: original.id,
+          originalInvoiceNumber: original.invoiceNumber,
+          adminId: actor.userId,
+          originalTotal: Number(original.total),
+          total: invoice.total,
+          creditReturned,
+        });
+
+        return { invoice, original: voided };
+      },
+      ({ invoice, original }) => ({
+        invoice_number: original.invoiceNumber,
+        reissued_invoice_id: invoice.id,
+        reissued_invoice_number: invoice.invoiceNumber,
+        original_total: Number(original.total),
+        reissued_total: invoice.total,
+      })
+    );
+  }
+
+  async getAdjustments(invoiceId: string): Promise<InvoiceAdjustment[]> {
+    const { data, error } = await this.supabase
+      .from('invoice_adjustments')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch invoice adjustments: ${error.message}`);
+    }
+
+    return (data || []) as InvoiceAdjustment[];
+  }
+
+  /**
+   * Adds a manual line to an open invoice and moves its total by the same
+   * amount. Adjustments sit outside the tax base; corrections that change
+   * tax are made by reissuing the invoice.
+   */
+  async adjust(
+    invoiceId: string,
+    input: AdjustmentInput,
+    actor: AdminActor
+  ): Promise<InvoiceAdjustment> {
+    return this.audited(
+      actor,
+      `invoices/${invoiceId}`,
+      {
+        operation: 'adjust',
+        invoice_id: invoiceId,
+        description: input.description,
+        amount: input.amount,
+      },
+      async () => {
+        const invoice = await this.requireInvoice(invoiceId);
+        if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+          throw ErrorFactory.invalidOperation(
+            `Invoice ${invoice.invoiceNumber} is ${invoice.status} and cannot be adjusted`
+          );
+        }
+
+        const problem = adjustmentProblem(Number(invoice.total), input.amount);
+        if (problem) {
+          throw ErrorFactory.validationFailed(problem, 'amount');
+        }
+        await this.assertNoActivePlan(invoice);
+
+        const { data: adjustmentId, error } = await this.supabase.rpc(
+          'add_invoice_adjustment',
+          {
+            p_invoice_id: invoiceId,
+            p_amount: input.amount,
+            p_description: input.description,
+            p_created_by: actor.userId,
+          }
+        );
+
+        if (error) {
+          throw new Error(`Failed to adjust invoice: ${error.message}`);
+        }
+        if (!adjustmentId) {
+          throw ErrorFactory.invalidOperation(
+            `Invoice ${invoice.invoiceNumber} was settled before it could be adjusted`
+          );
+        }
+
+        const { data, error: fetchError } = await this.supabase
+          .from('invoice_adjustments')
+          .select('*')
+          .eq('id', adjustmentId)
+          .single();
+
+        if (fetchError) {
+          throw new Error(
+            `Failed to fetch invoice adjustment: ${fetchError.message}`
+          );
+        }
+
+        logger.info('Invoice adjusted', {
+          module: 'billing',
+          submodule: 'invoice-admin',
+          operation: 'adjust',
+          invoiceId,
+          invoiceNumber: invoice.invoiceNumber,
+          adminId: actor.userId,
+          amount: input.amount,
+        });
+
+        return data as InvoiceAdjustment;
+      },
+      adjustment => ({ adjustment_id: adjustment.id })
+    );
+  }
+
+  /**
+   * Emails every invoice matching the filter to its recipient again: the
+   * account's invoice contact for consolidated invoices, otherwise the
+   * customer. Filters matching more than MAX_BULK_RESEND invoices are
+   * refused rather than sent in part.
+   */
+  async bulkResend(
+    filter: BulkResendFilter,
+    actor: AdminActor
+  ): Promise<BulkResendResult> {
+    return this.audited(
+      actor,
+      'invoices',
+      {
+        operation: 'bulk_resend',
+        statuses: filter.statuses.join(','),
+        region: filter.region,
+        from: filter.from?.toISOString(),
+        to: filter.to?.toISOString(),
+        user_id: filter.userId,
+        billing_account_id: filter.billingAccountId,
+      },
+      async () => {
+        const invoices = await this.findResendInvoices(filter);
+        const result: BulkResendResult = {
+          matched: invoices.length,
+          sent: 0,
+          skipped: 0,
+          failed: 0,
+        };
+        const recipients = new Map<string, string | null>();
+
+        for (const invoice of invoices) {
+          const key = invoice.billing_account_id
+            ? `account:${invoice.billing_account_id}`
+            : `user:${invoice.user_id}`;
+          if (!recipients.has(key)) {
+            recipients.set(key, await this.getRecipientEmail(invoice));
+          }
+
+          const email = recipients.get(key);
+          if (!email) {
+            result.skipped++;
+            continue;
+          }
+
+          try {
+            await this.sendInvoiceEmail(email, invoice);
+            result.sent++;
+          } catch (error) {
+            result.failed++;
+            logger.warn('Failed to resend invoice', {
+              module: 'billing',
+              submodule: 'invoice-admin',
+              operation: 'bulkResend',
+              invoiceId: invoice.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
+        logger.info('Invoices resent', {
+          module: 'billing',
+          submodule: 'invoice-admin',
+          operation: 'bulkResend',
+          adminId: actor.userId,
+          ...result,
+        });
+
+        return result;
+      },
+      result => ({ ...result })
+    );
+  }
+
+  private async findResendInvoices(
+    filter: BulkResendFilter
+  ): Promise<ResendInvoice[]> {
+    let query = this.supabase
+      .from('invoices')
+      .select(
+        'id, invoice_number, user_id, total, due_date, status, billing_account_id'
+      )
+      .in('status', filter.statuses);
+
+    if (filter.region) {
+      const userIds = await this.getRegionUserIds(filter.region);
+      if (userIds.length === 0) return [];
+      query = query.in('user_id', userIds);
+    }
+    if (filter.userId) query = query.eq('user_id', filter.userId);
+    if (filter.billingAccountId) {
+      query = query.eq('billing_account_id', filter.billingAccountId);
+    }
+    if (filter.from) query = query.gte('created_at', filter.from.toISOString());
+    if (filter.to) query = query.lt('created_at', filter.to.toISOString());
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(MAX_BULK_RESEND + 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch invoices: ${error.message}`);
+    }
+
+    const invoices = (data || []) as ResendInvoice[];
+    if (invoices.length > MAX_BULK_RESEND) {
+      throw ErrorFactory.validationFailed(
+        `More than ${MAX_BULK_RESEND} invoices match; narrow the filter and resend in batches`
+      );
+    }
+    return invoices;
+  }
+
+  private async getRegionUserIds(region: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('service_addresses')
+      .select('user_id')
+      .eq('province', region);
+
+    if (error) {
+      throw new Error(`Failed to fetch service addresses: ${error.message}`);
+    }
+
+    return [...new Set((data || []).map(row => row.user_id as string))];
+  }
+
+  private async sendInvoiceEmail(
+    email: string,
+    invoice: ResendInvoice
+  ): Promise<void> {
+    const amount = formatRupiah(Number(invoice.total));
+    const link = `${process.env.SITE_URL}/billing/invoices`;
+
+    await this.mailer.sendServiceNotification(
+      email,
+      `Invoice ${invoice.invoice_number}`,
+      invoice.status === 'paid'
+        ? `Here is a copy of invoice ${invoice.invoice_number} for ${amount}, which has been paid. You can download it at ${link}.`
+        : `Invoice ${invoice.invoice_number} for ${amount} is due on ${formatDocumentDate(new Date(invoice.due_date))}. You can view and pay it at ${link}.`,
+      invoice.status === 'overdue' ? 'warning' : 'info'
+    );
+  }
+
+  private async requireInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.paymentService.getInvoiceById(invoiceId);
+    if (!invoice) {
+      throw ErrorFactory.resourceNotFound('Invoice', invoiceId);
+    }
+    return invoice;
+  }
+
+  /** An invoice being paid off in installments has to keep its total */
+  private async assertNoActivePlan(invoice: Invoice): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('installment_plans')
+      .select('id')
+      .eq('invoice_id', invoice.id)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch installment plan: ${error.message}`);
+    }
+    if (data) {
+      throw ErrorFactory.invalidOperation(
+        `Invoice ${invoice.invoiceNumber} has an active installment plan; cancel the plan first`
+      );
+    }
+  }
+
+  private async getRecipientEmail(
+    invoice: ResendInvoice
+  ): Promise<string | null> {
+    if (invoice.billing_account_id) {
+      const contact = await this.billingAccountService.getInvoiceContact(
+        invoice.billing_account_id
+      );
+      if (contact) return contact.email;
+    }
+    return this.getCustomerEmail(invoice.user_id);
+  }
+
+  private async getCustomerEmail(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.auth.admin.getUserById(userId);
+    if (error || !data.user) {
+      return null;
+    }
+    return data.user.email || null;
+  }
+
+  /**
+   * Runs an admin action and records it in the security audit log, with
+   * the outcome on success or the error on failure, which is rethrown.
+   */
+  private async audited<T>(
+    actor: AdminActor,
+    resource: string,
+    details: AuditDetails,
+    action: () => Promise<T>,
+    outcome: (result: T) => AuditDetails
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await action();
+    } catch (error) {
+      await this.auditor.logSecurityAction(
+        actor.userId,
+        SecurityAction.ADMIN_ACTION,
+        resource,
+        actor.ipAddress,
+        actor.userAgent,
+        false,
+        {
+          ...details,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      );
+      throw error;
+    }
+
+    await this.auditor.logSecurityAction(
+      actor.userId,
+      SecurityAction.ADMIN_ACTION,
+      resource,
+      actor.ipAddress,
+      actor.userAgent,
+      true,
+      { ...details, ...outcome(result) }
+    );
+    return result;
+  }
+}
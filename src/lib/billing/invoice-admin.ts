@@ -0,0 +1,144 @@
+import type { Invoice, InvoiceItem } from '../payments/types';
+import type { TaxableLine, TaxCategory } from './tax';
+
+/** Invoices still owed can be reissued or adjusted */
+export const OPEN_INVOICE_STATUSES: Invoice['status'][] = ['sent', 'overdue'];
+
+/** Paid invoices are resent as a copy for the customer's records */
+export const RESENDABLE_STATUSES: Invoice['status'][] = [
+  'sent',
+  'overdue',
+  'paid',
+];
+
+/** Most invoices one bulk resend will email; narrower filters go further */
+export const MAX_BULK_RESEND = 500;
+
+export const CORRECTION_CATEGORIES: TaxCategory[] = [
+  'recurring_service',
+  'installation',
+  'equipment_rental',
+  'deposit',
+  'late_fee',
+  'adjustment',
+];
+
+/** A line of a corrected invoice, before tax */
+export interface CorrectedLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  category?: TaxCategory;
+  itemType?: Extract<InvoiceItem['itemType'], 'charge' | 'discount'>;
+  siteLabel?: string;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toTaxableLine(item: InvoiceItem): TaxableLine {
+  return {
+    description: item.description,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unitPrice),
+    total: Number(item.total),
+    category: (item.taxCategory as TaxCategory) || 'recurring_service',
+    itemType: item.itemType || 'charge',
+    ...(item.siteLabel && { siteLabel: item.siteLabel }),
+  };
+}
+
+/**
+ * The lines of a reissued invoice, before tax. Corrected lines replace the
+ * original's charges and discounts; without them those are copied as they
+ * were. Credit the customer was given on the original always carries over.
+ */
+export function reissueLines(
+  original: Pick<Invoice, 'items'>,
+  corrected?: CorrectedLine[]
+): TaxableLine[] {
+  const items = original.items.filter(item => item.itemType !== 'tax');
+  const credits = items
+    .filter(item => item.itemType === 'credit')
+    .map(toTaxableLine);
+
+  if (!corrected) {
+    return [
+      ...items.filter(item => item.itemType !== 'credit').map(toTaxableLine),
+      ...credits,
+    ];
+  }
+
+  return [
+    ...corrected.map(line => {
+      const itemType = line.itemType || 'charge';
+      const total = roundAmount(
+        Math.abs(line.quantity * line.unitPrice) *
+          (itemType === 'discount' ? -1 : 1)
+      );
+      return {
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: roundAmount(total / line.quantity),
+        total,
+        category: line.category || 'recurring_service',
+        itemType,
+        ...(line.siteLabel && { siteLabel: line.siteLabel }),
+      };
+    }),
+    ...credits,
+  ];
+}
+
+/**
+ * Why corrected lines can't be used, or null if they can. The corrected
+ * charges have to cover the credit carried over from the original.
+ */
+export function correctionProblem(
+  corrected: CorrectedLine[],
+  lines: TaxableLine[]
+): string | null {
+  if (corrected.length === 0) {
+    return 'A corrected invoice needs at least one line';
+  }
+
+  for (const line of corrected) {
+    if (!line.description?.trim()) {
+      return 'Every line needs a description';
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      return `Quantity for "${line.description}" must be a whole number of at least 1`;
+    }
+    if (!Number.isFinite(line.unitPrice) || line.unitPrice < 0) {
+      return `Unit price for "${line.description}" must not be negative`;
+    }
+    if (line.category && !CORRECTION_CATEGORIES.includes(line.category)) {
+      return `Category for "${line.description}" must be one of: ${CORRECTION_CATEGORIES.join(', ')}`;
+    }
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  if (roundAmount(subtotal) < 0) {
+    return 'The corrected lines must cover the credit already applied to the invoice';
+  }
+
+  return null;
+}
+
+/**
+ * Why an adjustment can't be added to an invoice of `total`, or null if
+ * it can. Reductions may bring the invoice down to zero but not below.
+ */
+export function adjustmentProblem(
+  total: number,
+  amount: number
+): string | null {
+  if (!Number.isFinite(amount) || roundAmount(amount) === 0) {
+    return 'amount must be a non-zero number';
+  }
+  if (roundAmount(Number(total) + amount) < 0) {
+    return `A reduction of Rp ${Math.abs(amount).toLocaleString('id-ID')} would take the invoice below zero`;
+  }
+  return null;
+}
@@ -0,0 +1,834 @@
+import {
+  A4_HEIGHT,
+  A4_WIDTH,
+  PdfDocument,
+  type PdfColor,
+} from '../pdf/document';
+import type { Invoice, InvoiceItem, InvoiceTaxDetail } from '../payments/types';
+import {
+  AGING_BUCKETS,
+  type AgingReport,
+  type StatementOfAccount,
+} from './receivables';
+import { terbilang } from './terbilang';
+
+export interface BillingCompany {
+  name: string;
+  tagline: string;
+  address: string;
+  phone: string;
+  email: string;
+  npwp: string;
+}
+
+export const BILLING_COMPANY: BillingCompany = {
+  name: 'Maskom Network',
+  tagline: 'Internet Service Provider',
+  address: 'Jakarta, Indonesia',
+  phone: '+62-21-1234-5678',
+  email: 'billing@maskom.co.id',
+  npwp: '01.234.567.8-012.000',
+};
+
+export interface BillingDocumentCustomer {
+  name: string;
+  email?: string;
+  phone?: string;
+  businessName?: string;
+  npwp?: string;
+  address?: string;
+}
+
+export interface PaymentReference {
+  orderId: string;
+  method: string;
+  gatewayTransactionId?: string;
+  amount: number;
+  paidAt: Date;
+}
+
+export interface InvoiceDocumentData {
+  invoiceNumber: string;
+  status: Invoice['status'];
+  issuedAt: Date;
+  dueDate: Date;
+  customer: BillingDocumentCustomer;
+  items: InvoiceItem[];
+  subtotal: number;
+  tax: number;
+  taxWithheld: number;
+  taxDetails: InvoiceTaxDetail[];
+  total: number;
+  payment?: PaymentReference;
+  /** Billing account invoices: the payer's PO and NET terms */
+  poNumber?: string;
+  paymentTermsDays?: number;
+}
+
+export interface ReceiptDocumentData {
+  receiptNumber: string;
+  customer: BillingDocumentCustomer;
+  payment: PaymentReference;
+  description: string;
+  invoiceNumber?: string;
+}
+
+const BRAND: PdfColor = [0.231, 0.51, 0.965];
+const DARK: PdfColor = [0.216, 0.255, 0.318];
+const MUTED: PdfColor = [0.42, 0.447, 0.502];
+const LIGHT: PdfColor = [0.953, 0.957, 0.965];
+const BORDER: PdfColor = [0.898, 0.906, 0.922];
+const WHITE: PdfColor = [1, 1, 1];
+const STAMP_RED: PdfColor = [0.863, 0.149, 0.149];
+
+const MARGIN = 40;
+const ROW_HEIGHT = 20;
+const DETAIL_LINE_HEIGHT = 11;
+const FOOTER_TOP = A4_HEIGHT - 70;
+
+export function formatRupiah(amount: number): string {
+  const value = Math.round(Math.abs(amount)).toLocaleString('id-ID');
+  return `${amount < 0 ? '-' : ''}Rp ${value}`;
+}
+
+export function formatDocumentDate(date: Date): string {
+  return date.toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Asia/Jakarta',
+  });
+}
+
+/**
+ * Shortens text with an ellipsis so it fits in the given width.
+ */
+function fitText(
+  doc: PdfDocument,
+  text: string,
+  maxWidth: number,
+  size: number
+): string {
+  if (doc.measureText(text, size) <= maxWidth) return text;
+
+  let fitted = text;
+  while (
+    fitted.length > 0 &&
+    doc.measureText(`${fitted}...`, size) > maxWidth
+  ) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+function wrapText(
+  doc: PdfDocument,
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: 'regular' | 'bold' = 'regular'
+): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && doc.measureText(candidate, size, font) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Maps an offset (dx to the right, dy down) in a frame rotated
+ * counter-clockwise by `degrees` around (cx, cy) back to page coordinates.
+ */
+function rotatedPoint(
+  cx: number,
+  cy: number,
+  dx: number,
+  dy: number,
+  degrees: number
+): [number, number] {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [cx + dx * cos + dy * sin, cy - dx * sin + dy * cos];
+}
+
+function drawStamp(
+  doc: PdfDocument,
+  cx: number,
+  cy: number,
+  label: string,
+  caption?: string
+): void {
+  const angle = 18;
+  const labelSize = 34;
+  const width = doc.measureText(label, labelSize, 'bold') + 36;
+  const height = caption ? 70 : 54;
+
+  doc.rect(cx - width / 2, cy - height / 2, width, height, {
+    stroke: STAMP_RED,
+    lineWidth: 3,
+    rotate: angle,
+  });
+
+  const labelOffset = caption ? 6 : 12;
+  const [labelX, labelY] = rotatedPoint(cx, cy, 0, labelOffset, angle);
+  doc.text(label, labelX, labelY, {
+    font: 'bold',
+    size: labelSize,
+    color: STAMP_RED,
+    align: 'center',
+    rotate: angle,
+  });
+
+  if (caption) {
+    const [captionX, captionY] = rotatedPoint(cx, cy, 0, 24, angle);
+    doc.text(caption, captionX, captionY, {
+      font: 'bold',
+      size: 9,
+      color: STAMP_RED,
+      align: 'center',
+      rotate: angle,
+    });
+  }
+}
+
+function drawHeader(
+  doc: PdfDocument,
+  company: BillingCompany,
+  title: string,
+  subtitle: string,
+  height: number
+): void {
+  doc.rect(0, 0, doc.width, height, { fill: BRAND });
+  doc.text(company.name.toUpperCase(), MARGIN, height / 2 + 2, {
+    font: 'bold',
+    size: 20,
+    color: WHITE,
+  });
+  doc.text(company.tagline, MARGIN, height / 2 + 18, {
+    size: 10,
+    color: WHITE,
+  });
+  doc.text(title, doc.width - MARGIN, height / 2 + 2, {
+    font: 'bold',
+    size: 22,
+    color: WHITE,
+    align: 'right',
+  });
+  doc.text(subtitle, doc.width - MARGIN, height / 2 + 18, {
+    size: 10,
+    color: WHITE,
+    align: 'right',
+  });
+}
+
+function drawFooter(doc: PdfDocument, company: BillingCompany): void {
+  const centre = doc.width / 2;
+  doc.line(MARGIN, FOOTER_TOP, doc.width - MARGIN, FOOTER_TOP, {
+    color: BORDER,
+  });
+  doc.text('Thank you for your business!', centre, FOOTER_TOP + 18, {
+    size: 9,
+    color: MUTED,
+    align: 'center',
+  });
+  doc.text(
+    `For questions, contact us at ${company.email} or ${company.phone}`,
+    centre,
+    FOOTER_TOP + 31,
+    { size: 9, color: MUTED, align: 'center' }
+  );
+  doc.text(
+    'This is a computer-generated document and requires no signature.',
+    centre,
+    FOOTER_TOP + 44,
+    { size: 8, color: MUTED, align: 'center' }
+  );
+}
+
+function customerLines(customer: BillingDocumentCustomer): string[] {
+  return [
+    customer.businessName,
+    customer.npwp && `NPWP: ${customer.npwp}`,
+    customer.address,
+    customer.email,
+    customer.phone,
+  ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Renders an invoice as a branded A4 PDF. Tax lines are shown in the totals
+ * block rather than the item table; paid invoices get a LUNAS stamp.
+ */
+export function renderInvoicePdf(
+  data: InvoiceDocumentData,
+  company: BillingCompany = BILLING_COMPANY
+): Uint8Array<ArrayBuffer> {
+  const doc = new PdfDocument({
+    title: `Invoice ${data.invoiceNumber}`,
+    author: company.name,
+    subject: 'Invoice',
+  });
+  const right = doc.width - MARGIN;
+
+  drawHeader(doc, company, 'INVOICE', data.invoiceNumber, 80);
+  drawFooter(doc, company);
+
+  // Seller and invoice details
+  let y = 110;
+  doc.text(company.name, MARGIN, y, { font: 'bold', size: 10, color: DARK });
+  [
+    company.address,
+    company.phone,
+    company.email,
+    `NPWP: ${company.npwp}`,
+  ].forEach((line, index) => {
+    doc.text(line, MARGIN, y + 14 * (index + 1), { size: 9, color: MUTED });
+  });
+
+  const meta: Array<[string, string]> = [
+    ['Invoice Date', formatDocumentDate(data.issuedAt)],
+    ['Due Date', formatDocumentDate(data.dueDate)],
+    ['Status', data.status.toUpperCase()],
+  ];
+  if (data.paymentTermsDays) {
+    meta.splice(2, 0, ['Terms', `NET ${data.paymentTermsDays}`]);
+  }
+  if (data.poNumber) {
+    meta.splice(2, 0, ['PO Number', data.poNumber]);
+  }
+  meta.forEach(([label, value], index) => {
+    const rowY = y + 14 * index;
+    doc.text(`${label}:`, right - 150, rowY, { size: 9, color: MUTED });
+    doc.text(value, right, rowY, {
+      font: 'bold',
+      size: 9,
+      color: DARK,
+      align: 'right',
+    });
+  });
+
+  // Bill to
+  y = 200;
+  doc.text('BILL TO', MARGIN, y, { font: 'bold', size: 9, color: BRAND });
+  doc.text(data.customer.name, MARGIN, y + 16, {
+    font: 'bold',
+    size: 11,
+    color: DARK,
+  });
+  const billTo = customerLines(data.customer);
+  billTo.forEach((line, index) => {
+    doc.text(fitText(doc, line, 300, 9), MARGIN, y + 30 + 13 * index, {
+      size: 9,
+      color: MUTED,
+    });
+  });
+
+  // Item table
+  const columns = {
+    description: MARGIN + 8,
+    quantity: 330,
+    unitPrice: 440,
+    total: right - 8,
+  };
+  const drawTableHeader = (top: number): number => {
+    doc.rect(MARGIN, top, right - MARGIN, ROW_HEIGHT + 2, { fill: LIGHT });
+    const baseline = top + 14;
+    const style = { font: 'bold' as const, size: 9, color: DARK };
+    doc.text('Description', columns.description, baseline, style);
+    doc.text('Qty', columns.quantity, baseline, { ...style, align: 'right' });
+    doc.text('Unit Price', columns.unitPrice, baseline, {
+      ...style,
+      align: 'right',
+    });
+    doc.text('Total', columns.total, baseline, { ...style, align: 'right' });
+    return top + ROW_HEIGHT + 2;
+  };
+
+  y = drawTableHeader(Math.max(270, y + 44 + 13 * billTo.length));
+  const lines = data.items.filter(item => item.itemType !== 'tax');
+  // Consolidated invoices group lines under the site they were billed for
+  const bySite = lines.some(item => item.siteLabel);
+  let site: string | null = null;
+
+  for (const item of lines) {
+    if (bySite && (item.siteLabel || 'Account') !== site) {
+      site = item.siteLabel || 'Account';
+      if (y + ROW_HEIGHT * 2 > FOOTER_TOP - 20) {
+        doc.addPage();
+        drawFooter(doc, company);
+        y = drawTableHeader(MARGIN);
+      }
+      doc.text(
+        fitText(doc, site, right - MARGIN - 16, 9),
+        columns.description,
+        y + 14,
+        { font: 'bold', size: 9, color: BRAND }
+      );
+      y += ROW_HEIGHT;
+    }
+
+    // Lines after the first are details, e.g. a usage breakdown
+    const [title, ...details] = item.description.split('\n');
+    const rowHeight = ROW_HEIGHT + DETAIL_LINE_HEIGHT * details.length;
+    if (y + rowHeight > FOOTER_TOP - 20) {
+      doc.addPage();
+      drawFooter(doc, company);
+      y = drawTableHeader(MARGIN);
+    }
+
+    const baseline = y + 14;
+    const color =
+      item.itemType === 'credit' || item.itemType === 'discount' ? MUTED : DARK;
+    doc.text(
+      fitText(doc, title, columns.quantity - 60, 9),
+      columns.description,
+      baseline,
+      { size: 9, color }
+    );
+    details.forEach((detail, index) => {
+      doc.text(
+        fitText(doc, detail, columns.quantity - 60, 8),
+        columns.description,
+        baseline + DETAIL_LINE_HEIGHT * (index + 1),
+        { size: 8, color: MUTED }
+      );
+    });
+    doc.text(String(item.quantity), columns.quantity, baseline, {
+      size: 9,
+      color,
+      align: 'right',
+    });
+    doc.text(formatRupiah(item.unitPrice), columns.unitPrice, baseline, {
+      size: 9,
+      color,
+      align: 'right',
+    });
+    doc.text(formatRupiah(item.total), columns.total, baseline, {
+      size: 9,
+      color,
+      align: 'right',
+    });
+    doc.line(MARGIN, y + rowHeight, right, y + rowHeight, { color: BORDER });
+    y += rowHeight;
+  }
+
+  // Totals
+  const totals: Array<[string, number]> = [['Subtotal', data.subtotal]];
+  if (data.taxDetails.length > 0) {
+    for (const tax of data.taxDetails) {
+      const rate = `${Number((tax.rate * 100).toFixed(2))}%`;
+      totals.push(
+        tax.kind === 'vat'
+          ? [`${tax.code} ${rate}`, tax.amount]
+          : [`${tax.name} withheld (${rate})`, -tax.amount]
+      );
+    }
+  } else {
+    if (data.tax) totals.push(['Tax', data.tax]);
+    if (data.taxWithheld) totals.push(['Tax withheld', -data.taxWithheld]);
+  }
+
+  const paymentBlockHeight = data.payment ? 90 : 40;
+  if (y + 24 + (totals.length + 1) * 16 + paymentBlockHeight > FOOTER_TOP) {
+    doc.addPage();
+    drawFooter(doc, company);
+    y = MARGIN;
+  }
+
+  const totalsTop = y + 10;
+  y = totalsTop + 14;
+  for (const [label, amount] of totals) {
+    doc.text(label, columns.unitPrice - 60, y, { size: 9, color: MUTED });
+    doc.text(formatRupiah(amount), columns.total, y, {
+      size: 9,
+      color: DARK,
+      align: 'right',
+    });
+    y += 16;
+  }
+  doc.line(columns.unitPrice - 60, y - 8, right, y - 8, {
+    color: DARK,
+    lineWidth: 1.5,
+  });
+  y += 8;
+  doc.text('Total', columns.unitPrice - 60, y, {
+    font: 'bold',
+    size: 11,
+    color: DARK,
+  });
+  doc.text(formatRupiah(data.total), columns.total, y, {
+    font: 'bold',
+    size: 11,
+    color: DARK,
+    align: 'right',
+  });
+
+  if (data.status === 'paid') {
+    drawStamp(
+      doc,
+      MARGIN + 120,
+      totalsTop + 40,
+      'LUNAS',
+      data.payment ? formatDocumentDate(data.payment.paidAt) : undefined
+    );
+  } else if (data.status === 'void') {
+    drawStamp(doc, MARGIN + 120, totalsTop + 40, 'BATAL');
+  }
+
+  // Payment reference
+  y += 34;
+  doc.text('PAYMENT', MARGIN, y, { font: 'bold', size: 9, color: BRAND });
+  if (data.payment) {
+    const reference: Array<[string, string | undefined]> = [
+      ['Reference', data.payment.orderId],
+      ['Method', data.payment.method],
+      ['Gateway Transaction ID', data.payment.gatewayTransactionId],
+      ['Paid On', formatDocumentDate(data.payment.paidAt)],
+      ['Amount Received', formatRupiah(data.payment.amount)],
+    ];
+    reference
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+      .forEach(([label, value], index) => {
+        const rowY = y + 15 + 13 * index;
+        doc.text(`${label}:`, MARGIN, rowY, { size: 9, color: MUTED });
+        doc.text(value, MARGIN + 130, rowY, { size: 9, color: DARK });
+      });
+  } else {
+    doc.text(
+      `Please pay ${formatRupiah(data.total)} before ${formatDocumentDate(data.dueDate)} through the Maskom customer portal.`,
+      MARGIN,
+      y + 15,
+      { size: 9, color: DARK }
+    );
+  }
+
+  return doc.toBytes();
+}
+
+/**
+ * Renders a kwitansi (official payment receipt) for a single successful
+ * payment on an A5 landscape page.
+ */
+export function renderReceiptPdf(
+  data: ReceiptDocumentData,
+  company: BillingCompany = BILLING_COMPANY
+): Uint8Array<ArrayBuffer> {
+  const doc = new PdfDocument(
+    {
+      title: `Kwitansi ${data.receiptNumber}`,
+      author: company.name,
+      subject: 'Kwitansi',
+    },
+    A4_WIDTH,
+    A4_HEIGHT / 2
+  );
+  const right = doc.width - MARGIN;
+  const valueX = MARGIN + 150;
+
+  drawHeader(doc, company, 'KWITANSI', 'Official Receipt', 64);
+
+  let y = 94;
+  const field = (label: string, value: string): void => {
+    doc.text(label, MARGIN, y, { size: 9, color: MUTED });
+    doc.text(':', valueX - 10, y, { size: 9, color: MUTED });
+    doc.text(fitText(doc, value, right - valueX, 10), valueX, y, {
+      font: 'bold',
+      size: 10,
+      color: DARK,
+    });
+    y += 20;
+  };
+
+  field('No. Kwitansi', data.receiptNumber);
+  field('Telah terima dari', data.customer.businessName || data.customer.name);
+
+  // Amount in words, boxed as on a paper kwitansi
+  doc.text('Uang sejumlah', MARGIN, y, { size: 9, color: MUTED });
+  doc.text(':', valueX - 10, y, { size: 9, color: MUTED });
+  const words = wrapText(
+    doc,
+    terbilang(data.payment.amount),
+    right - valueX - 16,
+    10,
+    'bold'
+  );
+  const wordsHeight = 10 + 14 * words.length;
+  doc.rect(valueX - 4, y - 13, right - valueX + 4, wordsHeight, {
+    fill: LIGHT,
+  });
+  words.forEach((line, index) => {
+    doc.text(line, valueX + 4, y + 14 * index, {
+      font: 'bold',
+      size: 10,
+      color: DARK,
+    });
+  });
+  y += wordsHeight + 8;
+
+  field(
+    'Untuk pembayaran',
+    data.invoiceNumber
+      ? `${data.description} (Invoice ${data.invoiceNumber})`
+      : data.description
+  );
+  field('Metode pembayaran', data.payment.method);
+  field(
+    'Referensi',
+    data.payment.gatewayTransactionId
+      ? `${data.payment.orderId} / ${data.payment.gatewayTransactionId}`
+      : data.payment.orderId
+  );
+
+  // Amount box and signature block
+  y += 10;
+  doc.rect(MARGIN, y, 200, 36, { fill: BRAND });
+  doc.text(formatRupiah(data.payment.amount), MARGIN + 100, y + 23, {
+    font: 'bold',
+    size: 16,
+    color: WHITE,
+    align: 'center',
+  });
+
+  const signatureX = right - 90;
+  doc.text(
+    `Jakarta, ${formatDocumentDate(data.payment.paidAt)}`,
+    signatureX,
+    y + 4,
+    { size: 9, color: DARK, align: 'center' }
+  );
+  drawStamp(doc, signatureX, y + 38, 'LUNAS');
+  doc.text(company.name, signatureX, y + 86, {
+    font: 'bold',
+    size: 9,
+    color: DARK,
+    align: 'center',
+  });
+
+  doc.text(
+    'This receipt is computer-generated and valid without a signature.',
+    doc.width / 2,
+    doc.height - 20,
+    { size: 8, color: MUTED, align: 'center' }
+  );
+
+  return doc.toBytes();
+}
+
+interface ReportColumn {
+  header: string;
+  x: number;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Draws a report table, repeating the header on each new page. The last
+ * row is bolded when `totalRow` is set. Returns the y below the table.
+ */
+function drawReportTable(
+  doc: PdfDocument,
+  company: BillingCompany,
+  columns: ReportColumn[],
+  rows: string[][],
+  top: number,
+  totalRow = false
+): number {
+  const right = doc.width - MARGIN;
+  const drawTableHeader = (tableTop: number): number => {
+    doc.rect(MARGIN, tableTop, right - MARGIN, ROW_HEIGHT + 2, {
+      fill: LIGHT,
+    });
+    columns.forEach(column => {
+      doc.text(column.header, column.x, tableTop + 14, {
+        font: 'bold',
+        size: 8,
+        color: DARK,
+        align: column.align,
+      });
+    });
+    return tableTop + ROW_HEIGHT + 2;
+  };
+
+  let y = drawTableHeader(top);
+  rows.forEach((row, rowIndex) => {
+    if (y + ROW_HEIGHT > FOOTER_TOP - 20) {
+      doc.addPage();
+      drawFooter(doc, company);
+      y = drawTableHeader(MARGIN);
+    }
+
+    const bold = totalRow && rowIndex === rows.length - 1;
+    columns.forEach((column, index) => {
+      doc.text(
+        fitText(doc, row[index] || '', column.width, 8),
+        column.x,
+        y + 14,
+        {
+          font: bold ? 'bold' : 'regular',
+          size: 8,
+          color: DARK,
+          align: column.align,
+        }
+      );
+    });
+    doc.line(MARGIN, y + ROW_HEIGHT, right, y + ROW_HEIGHT, { color: BORDER });
+    y += ROW_HEIGHT;
+  });
+
+  return y;
+}
+
+/**
+ * Renders the accounts receivable aging report: outstanding amounts per
+ * customer bucketed by days past due.
+ */
+export function renderAgingReportPdf(
+  report: AgingReport,
+  company: BillingCompany = BILLING_COMPANY
+): Uint8Array<ArrayBuffer> {
+  const doc = new PdfDocument({
+    title: 'Accounts Receivable Aging',
+    author: company.name,
+    subject: 'AR Aging',
+  });
+  const right = doc.width - MARGIN;
+
+  drawHeader(
+    doc,
+    company,
+    'AR AGING',
+    `As of ${formatDocumentDate(report.asOf)}`,
+    80
+  );
+  drawFooter(doc, company);
+
+  // Customer name, then one right-aligned column per bucket and the total
+  const amountWidth = 62;
+  const columns: ReportColumn[] = [
+    { header: 'Customer', x: MARGIN + 6, width: 120 },
+    ...[...AGING_BUCKETS.map(bucket => bucket.label), 'Total'].map(
+      (header, index, headers) => ({
+        header,
+        x: right - 6 - amountWidth * (headers.length - 1 - index),
+        width: amountWidth - 6,
+        align: 'right' as const,
+      })
+    ),
+  ];
+
+  const amount = (value: number): string =>
+    value ? Math.round(value).toLocaleString('id-ID') : '-';
+
+  const rows = report.customers.map(customer => [
+    customer.customerName,
+    ...AGING_BUCKETS.map(bucket => amount(customer.buckets[bucket.key])),
+    amount(customer.total),
+  ]);
+  rows.push([
+    'Total',
+    ...AGING_BUCKETS.map(bucket => amount(report.totals[bucket.key])),
+    amount(report.totals.total),
+  ]);
+
+  doc.text('Amounts in Rupiah', MARGIN, 106, { size: 9, color: MUTED });
+  drawReportTable(doc, company, columns, rows, 116, true);
+
+  return doc.toBytes();
+}
+
+/**
+ * Renders a customer's statement of account with a running balance.
+ */
+export function renderStatementPdf(
+  statement: StatementOfAccount,
+  company: BillingCompany = BILLING_COMPANY
+): Uint8Array<ArrayBuffer> {
+  const doc = new PdfDocument({
+    title: `Statement of Account - ${statement.customerName}`,
+    author: company.name,
+    subject: 'Statement of Account',
+  });
+  const right = doc.width - MARGIN;
+
+  const period = statement.from
+    ? `${formatDocumentDate(statement.from)} - ${formatDocumentDate(statement.to)}`
+    : `To ${formatDocumentDate(statement.to)}`;
+  drawHeader(doc, company, 'STATEMENT', period, 80);
+  drawFooter(doc, company);
+
+  let y = 110;
+  doc.text('CUSTOMER', MARGIN, y, { font: 'bold', size: 9, color: BRAND });
+  doc.text(statement.customerName, MARGIN, y + 16, {
+    font: 'bold',
+    size: 11,
+    color: DARK,
+  });
+
+  const summary: Array<[string, number]> = [
+    ['Opening Balance', statement.openingBalance],
+    ['Closing Balance', statement.closingBalance],
+  ];
+  summary.forEach(([label, value], index) => {
+    const rowY = y + 14 * index;
+    doc.text(`${label}:`, right - 170, rowY, { size: 9, color: MUTED });
+    doc.text(formatRupiah(value), right, rowY, {
+      font: 'bold',
+      size: 9,
+      color: DARK,
+      align: 'right',
+    });
+  });
+
+  const columns: ReportColumn[] = [
+    { header: 'Date', x: MARGIN + 6, width: 60 },
+    { header: 'Reference', x: MARGIN + 70, width: 95 },
+    { header: 'Description', x: MARGIN + 170, width: 135 },
+    { header: 'Debit', x: right - 166, width: 70, align: 'right' },
+    { header: 'Credit', x: right - 86, width: 70, align: 'right' },
+    { header: 'Balance', x: right - 6, width: 74, align: 'right' },
+  ];
+
+  const shortDate = (date: Date): string =>
+    date.toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta' });
+
+  const rows = [
+    ['', '', 'Opening balance', '', '', formatRupiah(statement.openingBalance)],
+    ...statement.lines.map(line => [
+      shortDate(line.date),
+      line.reference,
+      line.description,
+      line.debit ? formatRupiah(line.debit) : '',
+      line.credit ? formatRupiah(line.credit) : '',
+      formatRupiah(line.balance),
+    ]),
+  ];
+
+  y = drawReportTable(doc, company, columns, rows, 160);
+
+  if (y + 40 > FOOTER_TOP) {
+    doc.addPage();
+    drawFooter(doc, company);
+    y = MARGIN;
+  }
+  doc.text(
+    statement.closingBalance > 0
+      ? `Amount due: ${formatRupiah(statement.closingBalance)}`
+      : `Amount in credit: ${formatRupiah(-statement.closingBalance)}`,
+    right,
+    y + 24,
+    { font: 'bold', size: 11, color: DARK, align: 'right' }
+  );
+
+  return doc.toBytes();
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import type { InvoiceNumberSeries } from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+export type InvoiceSeriesInput = Pick<InvoiceNumberSeries, 'code' | 'name'> &
+  Partial<
+    Pick<
+      InvoiceNumberSeries,
+      'prefix' | 'branch_code' | 'reset_yearly' | 'padding' | 'is_default'
+    >
+  >;
+
+/**
+ * Invoice numbering series. Numbers themselves are allocated by the
+ * database when an invoice is inserted; this only manages configuration.
+ */
+export class InvoiceSeriesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  async listSeries(): Promise<InvoiceNumberSeries[]> {
+    const { data, error } = await this.supabase
+      .from('invoice_number_series')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('code', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list invoice series: ${error.message}`);
+    }
+
+    return (data || []) as InvoiceNumberSeries[];
+  }
+
+  async createSeries(input: InvoiceSeriesInput): Promise<InvoiceNumberSeries> {
+    const { is_default, ...series } = input;
+
+    const { data, error } = await this.supabase
+      .from('invoice_number_series')
+      .insert(series)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw ErrorFactory.duplicateResource('Invoice series code');
+      }
+      throw new Error(`Failed to create invoice series: ${error.message}`);
+    }
+
+    return is_default
+      ? this.setDefault(data.id)
+      : (data as InvoiceNumberSeries);
+  }
+
+  /**
+   * Prefix and branch changes apply to numbers issued from now on. The
+   * yearly reset can't change once a series has issued numbers, since the
+   * counters are keyed by it.
+   */
+  async updateSeries(
+    seriesId: string,
+    changes: Partial<
+      Pick<
+        InvoiceNumberSeries,
+        'name' | 'prefix' | 'branch_code' | 'padding' | 'is_active'
+      >
+    >
+  ): Promise<InvoiceNumberSeries> {
+    const { data, error } = await this.supabase
+      .from('invoice_number_series')
+      .update(changes)
+      .eq('id', seriesId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update invoice series: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Invoice series', seriesId);
+    }
+
+    return data as InvoiceNumberSeries;
+  }
+
+  /** Makes a series the one used by invoices that don't name a series */
+  async setDefault(seriesId: string): Promise<InvoiceNumberSeries> {
+    const { error: clearError } = await this.supabase
+      .from('invoice_number_series')
+      .update({ is_default: false })
+      .eq('is_default', true)
+      .neq('id', seriesId);
+
+    if (clearError) {
+      throw new Error(
+        `Failed to update default invoice series: ${clearError.message}`
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('invoice_number_series')
+      .update({ is_default: true, is_active: true })
+      .eq('id', seriesId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `Failed to update default invoice series: ${error.message}`
+      );
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Invoice series', seriesId);
+    }
+
+    return data as InvoiceNumberSeries;
+  }
+}
@@ -0,0 +1,303 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../logger';
+import type { BillingJobName, BillingJobRun } from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+/** Held for the whole scheduled billing run */
+export const BILLING_RUN_LOCK = 'scheduled_billing';
+
+/**
+ * A crashed run frees the lock after this long; live runs renew it between
+ * jobs and, through keepLease, while a long job works through its items.
+ */
+export const LOCK_LEASE_SECONDS = 15 * 60;
+
+export interface JobTrigger {
+  trigger: BillingJobRun['trigger'];
+  triggeredBy?: string;
+}
+
+/**
+ * What a job reports back to the ledger. A successful job that still
+ * reports errors is recorded as partial.
+ */
+export interface JobOutcome {
+  success: boolean;
+  processed: number;
+  errors: string[];
+  details?: Record<string, string | number | boolean | null>;
+}
+
+/** The Asia/Jakarta calendar day of `now`, as YYYY-MM-DD */
+export function billingPeriod(now: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'Asia/Jakarta',
+  }).format(now);
+}
+
+export class JobRunService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Takes the lock, or renews it if `holder` already has it. Returns false
+   * while another holder's lease is still running.
+   */
+  async acquireLock(
+    holder: string,
+    lockName: string = BILLING_RUN_LOCK,
+    leaseSeconds: number = LOCK_LEASE_SECONDS
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc(
+      'acquire_billing_job_lock',
+      {
+        p_lock_name: lockName,
+        p_holder: holder,
+        p_lease_seconds: leaseSeconds,
+      }
+    );
+
+    if (error) {
+      throw new Error(`Failed to acquire job lock: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Returns a function a long job calls between items. It renews `holder`'s
+   * lease once a third of it has passed, and throws if the lock was lost.
+   */
+  keepLease(
+    holder: string,
+    lockName: string = BILLING_RUN_LOCK,
+    leaseSeconds: number = LOCK_LEASE_SECONDS
+  ): () => Promise<void> {
+    let renewedAt = Date.now();
+
+    return async () => {
+      if (Date.now() - renewedAt < (leaseSeconds * 1000) / 3) return;
+
+      if (!(await this.acquireLock(holder, lockName, leaseSeconds))) {
+        throw new Error('Billing run lock was lost');
+      }
+      renewedAt = Date.now();
+    };
+  }
+
+  async releaseLock(
+    holder: string,
+    lockName: string = BILLING_RUN_LOCK
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('billing_job_locks')
+      .delete()
+      .eq('lock_name', lockName)
+      .eq('holder', holder);
+
+    if (error) {
+      throw new Error(`Failed to release job lock: ${error.message}`);
+    }
+  }
+
+  /**
+   * Runs a job and records it in the ledger. A job that already succeeded
+   * for the period is recorded as skipped instead of running again; failed
+   * and partial runs are retried.
+   */
+  async runJob(
+    jobName: BillingJobName,
+    period: string,
+    trigger: JobTrigger,
+    task: (run: BillingJobRun) => Promise<JobOutcome>
+  ): Promise<BillingJobRun> {
+    if (await this.hasSucceeded(jobName, period)) {
+      const skipped = await this.startRun(jobName, period, trigger, 'skipped');
+      logger.info(`Billing job ${jobName} already ran for ${period}`);
+      return skipped;
+    }
+
+    const run = await this.startRun(jobName, period, trigger);
+
+    let outcome: JobOutcome;
+    try {
+      outcome = await task(run);
+    } catch (error) {
+      outcome = {
+        success: false,
+        processed: 0,
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      };
+    }
+
+    return this.finishRun(run.id, outcome);
+  }
+
+  async hasSucceeded(
+    jobName: BillingJobName,
+    period: string
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('billing_job_runs')
+      .select('id')
+      .eq('job_name', jobName)
+      .eq('period', period)
+      .eq('status', 'succeeded')
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to check job runs: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async listRuns(
+    limit = 50,
+    offset = 0
+  ): Promise<{ runs: BillingJobRun[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from('billing_job_runs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch job runs: ${error.message}`);
+    }
+
+    return { runs: (data || []) as BillingJobRun[], total: count || 0 };
+  }
+
+  /**
+   * Claims the billing cycle starting on `period` for the subscriptions
+   * about to be invoiced together. Returns false, claiming nothing, if any
+   * of them has already been billed for it.
+   */
+  async claimPeriod(
+    subscriptionIds: string[],
+    period: string,
+    jobRunId?: string
+  ): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('subscription_billing_periods')
+      .insert(
+        subscriptionIds.map(subscriptionId => ({
+          subscription_id: subscriptionId,
+          period,
+          job_run_id: jobRunId ?? null,
+        }))
+      );
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return false;
+      throw new Error(`Failed to claim billing period: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  async recordPeriodInvoice(
+    subscriptionIds: string[],
+    period: string,
+    invoiceId: string
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('subscription_billing_periods')
+      .update({ invoice_id: invoiceId })
+      .in('subscription_id', subscriptionIds)
+      .eq('period', period);
+
+    if (error) {
+      throw new Error(`Failed to record billed period: ${error.message}`);
+    }
+  }
+
+  /** Gives back a claim whose invoice was never created */
+  async releasePeriod(
+    subscriptionIds: string[],
+    period: string
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('subscription_billing_periods')
+      .delete()
+      .in('subscription_id', subscriptionIds)
+      .eq('period', period)
+      .is('invoice_id', null);
+
+    if (error) {
+      throw new Error(`Failed to release billing period: ${error.message}`);
+    }
+  }
+
+  private async startRun(
+    jobName: BillingJobName,
+    period: string,
+    trigger: JobTrigger,
+    status: 'running' | 'skipped' = 'running'
+  ): Promise<BillingJobRun> {
+    const { data, error } = await this.supabase
+      .from('billing_job_runs')
+      .insert({
+        job_name: jobName,
+        period,
+        trigger: trigger.trigger,
+        triggered_by: trigger.triggeredBy ?? null,
+        status,
+        ...(status === 'skipped' && { finished_at: new Date().toISOString() }),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record job run: ${error.message}`);
+    }
+
+    return data as BillingJobRun;
+  }
+
+  private async finishRun(
+    runId: string,
+    outcome: JobOutcome
+  ): Promise<BillingJobRun> {
+    const { data, error } = await this.supabase
+      .from('billing_job_runs')
+      .update({
+        status: !outcome.success
+          ? 'failed'
+          : outcome.errors.length > 0
+            ? 'partial'
+            : 'succeeded',
+        processed: outcome.processed,
+        error_count: outcome.errors.length,
+        errors: outcome.errors,
+        details: outcome.details ?? {},
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', runId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to finish job run: ${error.message}`);
+    }
+
+    const run = data as BillingJobRun;
+    logger.info('Billing job finished', {
+      module: 'billing',
+      submodule: 'jobs',
+      operation: run.job_name,
+      jobRunId: run.id,
+      period: run.period,
+      status: run.status,
+      processed: run.processed,
+      errors: run.error_count,
+    });
+
+    return run;
+  }
+}
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import {
+  calculateLateFee,
+  dueLateFeeRules,
+  lateFeeDescription,
+} from './late-fees';
+import type { InvoiceLateFee, LateFeeRule } from './types';
+
+export type LateFeeRuleInput = Pick<
+  LateFeeRule,
+  'name' | 'fee_type' | 'days_after_due'
+> &
+  Partial<Pick<LateFeeRule, 'amount' | 'rate' | 'max_amount' | 'is_active'>>;
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export class LateFeeService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  async listRules(activeOnly = false): Promise<LateFeeRule[]> {
+    let query = this.supabase
+      .from('late_fee_rules')
+      .select('*')
+      .order('days_after_due', { ascending: true });
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch late fee rules: ${error.message}`);
+    }
+
+    return (data || []) as LateFeeRule[];
+  }
+
+  async createRule(input: LateFeeRuleInput): Promise<LateFeeRule> {
+    const { data, error } = await this.supabase
+      .from('late_fee_rules')
+      .insert({
+        name: input.name,
+        fee_type: input.fee_type,
+        amount: input.fee_type === 'flat' ? input.amount : null,
+        rate: input.fee_type === 'percentage' ? input.rate : null,
+        max_amount:
+          input.fee_type === 'percentage' ? (input.max_amount ?? null) : null,
+        days_after_due: input.days_after_due,
+        is_active: input.is_active ?? true,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create late fee rule: ${error.message}`);
+    }
+
+    return data as LateFeeRule;
+  }
+
+  /** Changes apply to fees added from now on; fees already charged stand */
+  async updateRule(
+    ruleId: string,
+    updates: Partial<LateFeeRuleInput>
+  ): Promise<LateFeeRule> {
+    const { data, error } = await this.supabase
+      .from('late_fee_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update late fee rule: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Late fee rule', ruleId);
+    }
+
+    return data as LateFeeRule;
+  }
+
+  async getInvoiceFees(invoiceId: string): Promise<InvoiceLateFee[]> {
+    const { data, error } = await this.supabase
+      .from('invoice_late_fees')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch late fees: ${error.message}`);
+    }
+
+    return (data || []) as InvoiceLateFee[];
+  }
+
+  /**
+   * Adds a line for each active rule whose waiting period has passed and
+   * that hasn't charged the invoice yet, raising the invoice total. Returns
+   * the fees added.
+   */
+  async applyLateFees(
+    invoice: { id: string; total: number },
+    daysPastDue: number
+  ): Promise<InvoiceLateFee[]> {
+    const rules = await this.listRules(true);
+    if (rules.length === 0) return [];
+
+    const charged = await this.getInvoiceFees(invoice.id);
+    const due = dueLateFeeRules(
+      rules,
+      daysPastDue,
+      charged.map(fee => fee.rule_id)
+    );
+
+    const base = roundAmount(
+      Number(invoice.total) -
+        charged.reduce((sum, fee) => sum + Number(fee.amount), 0)
+    );
+
+    const added: InvoiceLateFee[] = [];
+    for (const rule of due) {
+      const amount = calculateLateFee(rule, base);
+      if (!(amount > 0)) continue;
+
+      const { data: feeId, error } = await this.supabase.rpc(
+        'add_invoice_late_fee',
+        {
+          p_invoice_id: invoice.id,
+          p_rule_id: rule.id,
+          p_amount: amount,
+          p_description: lateFeeDescription(rule),
+        }
+      );
+
+      if (error) {
+        throw new Error(`Failed to add late fee: ${error.message}`);
+      }
+      // Paid meanwhile, or another run charged it first
+      if (!feeId) continue;
+
+      const { data: fee, error: feeError } = await this.supabase
+        .from('invoice_late_fees')
+        .select('*')
+        .eq('id', feeId)
+        .single();
+
+      if (feeError) {
+        throw new Error(`Failed to fetch late fee: ${feeError.message}`);
+      }
+      added.push(fee as InvoiceLateFee);
+
+      logger.info('Late fee added', {
+        module: 'billing',
+        submodule: 'late_fees',
+        operation: 'applyLateFees',
+        invoiceId: invoice.id,
+        ruleId: rule.id,
+        amount,
+        daysPastDue,
+      });
+    }
+
+    return added;
+  }
+}
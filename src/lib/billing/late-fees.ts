@@ -0,0 +1,48 @@
+import type { LateFeeRule, LateFeeType } from './types';
+
+export const LATE_FEE_TYPES: LateFeeType[] = ['flat', 'percentage'];
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The fee a rule charges on an invoice of `total`. Percentage fees are
+ * capped at the rule's max_amount; late fees already added are not part of
+ * the total they are worked out on.
+ */
+export function calculateLateFee(
+  rule: Pick<LateFeeRule, 'fee_type' | 'amount' | 'rate' | 'max_amount'>,
+  total: number
+): number {
+  if (rule.fee_type === 'flat') {
+    return roundAmount(Number(rule.amount || 0));
+  }
+
+  const fee = roundAmount(total * Number(rule.rate || 0));
+  return rule.max_amount != null
+    ? Math.min(fee, roundAmount(Number(rule.max_amount)))
+    : fee;
+}
+
+/**
+ * Active rules whose waiting period has passed and that have not yet
+ * charged the invoice.
+ */
+export function dueLateFeeRules(
+  rules: LateFeeRule[],
+  daysPastDue: number,
+  chargedRuleIds: string[]
+): LateFeeRule[] {
+  const charged = new Set(chargedRuleIds);
+  return rules.filter(
+    rule =>
+      rule.is_active &&
+      daysPastDue >= rule.days_after_due &&
+      !charged.has(rule.id)
+  );
+}
+
+export function lateFeeDescription(rule: Pick<LateFeeRule, 'name'>): string {
+  return `Late payment fee - ${rule.name}`;
+}
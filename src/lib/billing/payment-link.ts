@@ -0,0 +1,43 @@
+import type { CustomerDetails, PaymentRequest } from '../payments/types';
+
+/** What a payment link asks the customer to pay */
+export interface PaymentLinkTarget {
+  invoiceId: string;
+  invoiceNumber: string;
+  /** The invoice total, or the installment amount for installment links */
+  amount: number;
+  installmentId?: string;
+  installmentSequence?: number;
+}
+
+/**
+ * The request the payment page sends to /api/payments/create for a link.
+ * The amount is exactly what is due, which is all the server accepts.
+ */
+export function paymentLinkRequest(
+  target: PaymentLinkTarget,
+  customerDetails: CustomerDetails,
+  paymentMethod?: string,
+  now: number = Date.now()
+): PaymentRequest {
+  const name = target.installmentId
+    ? `Installment ${target.installmentSequence ?? ''} of invoice ${target.invoiceNumber}`
+    : `Invoice ${target.invoiceNumber}`;
+
+  return {
+    orderId: `${target.installmentId ? 'INST' : 'INV'}-${now}-${(target.installmentId || target.invoiceId).slice(0, 8)}`,
+    amount: target.amount,
+    customerDetails,
+    itemDetails: [
+      {
+        id: target.installmentId || target.invoiceId,
+        price: target.amount,
+        quantity: 1,
+        name: name.replace(/\s+/g, ' '),
+      },
+    ],
+    paymentMethod,
+    invoiceId: target.invoiceId,
+    ...(target.installmentId && { installmentId: target.installmentId }),
+  };
+}
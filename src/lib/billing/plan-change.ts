@@ -0,0 +1,258 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../payments/service';
+import type { Invoice, NewInvoice } from '../payments/types';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { calculateProration } from './proration';
+import { TaxService } from './tax-service';
+import { PricePlanService } from './price-plan-service';
+import type { TaxableLine } from './tax';
+import type {
+  BillingPackage,
+  PlanChangePreview,
+  ProrationResult,
+  ServiceSubscription,
+} from './types';
+
+const PLAN_CHANGE_DUE_DAYS = 7;
+
+export class PlanChangeService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+  private taxService: TaxService;
+  private pricePlanService: PricePlanService;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.taxService = new TaxService(supabaseClient);
+    this.pricePlanService = new PricePlanService(supabaseClient);
+  }
+
+  /**
+   * Computes what a plan change would cost today without writing anything.
+   */
+  async previewPlanChange(
+    userId: string,
+    subscriptionId: string,
+    newPackageId: string,
+    changeDate: Date = new Date()
+  ): Promise<PlanChangePreview> {
+    const subscription = await this.getSubscription(userId, subscriptionId);
+
+    if (subscription.package_id === newPackageId) {
+      throw ErrorFactory.invalidOperation(
+        'Subscription is already on the requested package'
+      );
+    }
+
+    const [fromPackage, toPackage] = await Promise.all([
+      this.getPackage(subscription.package_id),
+      this.getPackage(newPackageId, true),
+    ]);
+
+    const proration = calculateProration({
+      oldMonthlyAmount: Number(subscription.monthly_amount),
+      newMonthlyAmount: toPackage.price,
+      changeDate,
+      nextBillingDate: new Date(subscription.next_billing_date),
+    });
+
+    let tax = 0;
+    let taxWithheld = 0;
+    let amountDueToday = 0;
+    if (proration.net > 0) {
+      const taxCalculation = await this.taxService.calculateInvoiceTax(
+        userId,
+        this.buildLines(fromPackage, toPackage, proration),
+        changeDate
+      );
+      tax = taxCalculation.vat;
+      taxWithheld = taxCalculation.withheld;
+      amountDueToday = taxCalculation.total;
+    }
+
+    return {
+      ...proration,
+      subscriptionId: subscription.id,
+      fromPackage,
+      toPackage,
+      tax,
+      taxWithheld,
+      amountDueToday,
+      carriedCredit: Math.max(0, -proration.net),
+    };
+  }
+
+  /**
+   * Switches the subscription to a new package. Upgrades are invoiced
+   * immediately with a credit line for the unused part of the old plan;
+   * downgrades leave a credit on the subscription for the next cycle.
+   * The invoice, the switch and its record are written in one
+   * transaction.
+   */
+  async applyPlanChange(
+    userId: string,
+    subscriptionId: string,
+    newPackageId: string,
+    changeDate: Date = new Date()
+  ): Promise<{ preview: PlanChangePreview; invoice: Invoice | null }> {
+    const preview = await this.previewPlanChange(
+      userId,
+      subscriptionId,
+      newPackageId,
+      changeDate
+    );
+
+    const invoiceData =
+      preview.net > 0 ? await this.prorationInvoice(userId, preview) : null;
+
+    const { data, error } = await this.supabase.rpc('apply_plan_change', {
+      p_subscription_id: subscriptionId,
+      p_from_package_id: preview.fromPackage.id,
+      p_to_package_id: preview.toPackage.id,
+      p_monthly_amount: preview.toPackage.price,
+      p_price_plan_id: preview.toPackage.pricePlanId ?? null,
+      p_carried_credit: preview.carriedCredit,
+      p_change: {
+        days_remaining: preview.daysRemaining,
+        days_in_cycle: preview.daysInCycle,
+        credit_amount: preview.credit,
+        charge_amount: preview.charge,
+        effective_date: changeDate.toISOString(),
+      },
+      ...(invoiceData && this.paymentService.invoiceRpcParams(invoiceData)),
+    });
+
+    if (error) {
+      throw ErrorFactory.databaseError(
+        `Failed to apply plan change: ${error.message}`
+      );
+    }
+    if (!data) {
+      throw ErrorFactory.invalidOperation(
+        'Subscription was changed while the plan change was being applied'
+      );
+    }
+
+    const invoice: Invoice | null = data.invoice
+      ? this.paymentService.transformInvoiceData(data.invoice)
+      : null;
+
+    // Price changes announced for the old package no longer apply
+    await this.pricePlanService.cancelPendingChanges(subscriptionId);
+
+    logger.info('Plan change applied', {
+      module: 'billing',
+      submodule: 'plan-change',
+      subscriptionId,
+      userId,
+      fromPackageId: preview.fromPackage.id,
+      toPackageId: preview.toPackage.id,
+      net: preview.net,
+    });
+
+    return { preview, invoice };
+  }
+
+  private buildLines(
+    fromPackage: BillingPackage,
+    toPackage: BillingPackage,
+    proration: ProrationResult
+  ): TaxableLine[] {
+    const days = `${proration.daysRemaining} of ${proration.daysInCycle} days`;
+
+    return [
+      {
+        description: `Unused time on ${fromPackage.name} (${days})`,
+        quantity: 1,
+        unitPrice: -proration.credit,
+        total: -proration.credit,
+        category: 'recurring_service',
+        itemType: 'credit',
+      },
+      {
+        description: `${toPackage.name} - Remaining cycle (${days})`,
+        quantity: 1,
+        unitPrice: proration.charge,
+        total: proration.charge,
+        category: 'recurring_service',
+      },
+    ];
+  }
+
+  private async prorationInvoice(
+    userId: string,
+    preview: PlanChangePreview
+  ): Promise<NewInvoice> {
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + PLAN_CHANGE_DUE_DAYS);
+
+    const taxCalculation = await this.taxService.calculateInvoiceTax(
+      userId,
+      this.buildLines(preview.fromPackage, preview.toPackage, preview)
+    );
+
+    return {
+      userId,
+      transactionId: null,
+      amount: taxCalculation.subtotal,
+      subtotal: taxCalculation.subtotal,
+      tax: taxCalculation.vat,
+      total: taxCalculation.total,
+      taxWithheld: taxCalculation.withheld,
+      taxDetails: taxCalculation.applied,
+      dueDate,
+      status: 'sent',
+      items: taxCalculation.items,
+    };
+  }
+
+  private async getSubscription(
+    userId: string,
+    subscriptionId: string
+  ): Promise<ServiceSubscription> {
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
+      .select('*')
+      .eq('id', subscriptionId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single();
+
+    if (error || !data) {
+      throw ErrorFactory.resourceNotFound('Subscription', subscriptionId);
+    }
+
+    return data as ServiceSubscription;
+  }
+
+  /**
+   * The package at the price a new subscriber would pay today. Customers
+   * can stay on a withdrawn package but not change to one.
+   */
+  private async getPackage(
+    packageId: string,
+    forNewSubscribers = false
+  ): Promise<BillingPackage> {
+    const { data, error } = await this.supabase
+      .from('packages')
+      .select('id, name, price, is_active')
+      .eq('id', packageId)
+      .single();
+
+    if (error || !data) {
+      throw ErrorFactory.resourceNotFound('Package', packageId);
+    }
+    if (forNewSubscribers && !data.is_active) {
+      throw ErrorFactory.invalidOperation(
+        `Package ${data.name} is no longer available`
+      );
+    }
+
+    const { price, pricePlanId } =
+      await this.pricePlanService.getPackagePrice(packageId);
+
+    return { id: data.id, name: data.name, price, pricePlanId };
+  }
+}
@@ -0,0 +1,111 @@
+import type { InvoiceItem } from '../payments/types';
+import type { CsvValue } from './csv';
+
+export type PreviewAnomaly =
+  'missing_package' | 'zero_amount' | 'large_change' | 'error';
+
+/** Invoice totals moving more than this fraction from last month are flagged */
+export const LARGE_CHANGE_RATIO = 0.5;
+
+/** One invoice the next billing run would create */
+export interface BillingPreviewEntry {
+  userId: string;
+  billingAccountId: string | null;
+  subscriptionIds: string[];
+  /** Billing cycle the invoice is for (YYYY-MM-DD) */
+  period: string;
+  subtotal: number;
+  tax: number;
+  taxWithheld: number;
+  total: number;
+  items: InvoiceItem[];
+  /** The customer's last invoice, to compare against */
+  previousTotal: number | null;
+  anomalies: PreviewAnomaly[];
+  /** Why the invoice could not be computed */
+  error?: string;
+}
+
+export interface BillingPreview {
+  generatedAt: string;
+  invoiceCount: number;
+  subtotal: number;
+  tax: number;
+  taxWithheld: number;
+  total: number;
+  flaggedCount: number;
+  entries: BillingPreviewEntry[];
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** Anomalies in a computed invoice; missing packages and errors are flagged by the caller */
+export function findAnomalies(
+  total: number,
+  previousTotal: number | null
+): PreviewAnomaly[] {
+  const anomalies: PreviewAnomaly[] = [];
+  if (!(total > 0)) {
+    anomalies.push('zero_amount');
+  }
+  if (
+    previousTotal !== null &&
+    previousTotal > 0 &&
+    Math.abs(total - previousTotal) / previousTotal > LARGE_CHANGE_RATIO
+  ) {
+    anomalies.push('large_change');
+  }
+  return anomalies;
+}
+
+export function summarizePreview(
+  entries: BillingPreviewEntry[],
+  generatedAt: Date = new Date()
+): BillingPreview {
+  const computed = entries.filter(entry => !entry.error);
+  const sum = (pick: (entry: BillingPreviewEntry) => number) =>
+    roundAmount(computed.reduce((total, entry) => total + pick(entry), 0));
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    invoiceCount: computed.length,
+    subtotal: sum(entry => entry.subtotal),
+    tax: sum(entry => entry.tax),
+    taxWithheld: sum(entry => entry.taxWithheld),
+    total: sum(entry => entry.total),
+    flaggedCount: entries.filter(entry => entry.anomalies.length > 0).length,
+    entries,
+  };
+}
+
+export const PREVIEW_CSV_HEADERS = [
+  'Customer ID',
+  'Billing Account ID',
+  'Subscription IDs',
+  'Period',
+  'Subtotal',
+  'Tax',
+  'Tax Withheld',
+  'Total',
+  'Previous Total',
+  'Anomalies',
+  'Error',
+];
+
+export function previewCsvRows(preview: BillingPreview): CsvValue[][] {
+  return preview.entries.map(entry => [
+    entry.userId,
+    entry.billingAccountId,
+    entry.subscriptionIds.join(' '),
+    entry.period,
+    entry.subtotal.toFixed(2),
+    entry.tax.toFixed(2),
+    entry.taxWithheld.toFixed(2),
+    entry.total.toFixed(2),
+    entry.previousTotal?.toFixed(2),
+    entry.anomalies.join(' '),
+    entry.error,
+  ]);
+}
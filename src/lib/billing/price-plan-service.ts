@@ -0,0 +1,426 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { emailService } from '../email/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { formatDocumentDate } from './invoice-pdf';
+import {
+  DEFAULT_NOTICE_DAYS,
+  existingSubscriberEffectiveDate,
+  planInEffect,
+} from './price-plans';
+import type {
+  PackagePricePlan,
+  ServiceSubscription,
+  SubscriptionPriceChange,
+} from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+/** The parts of EmailService price changes rely on */
+export type PriceChangeMailer = Pick<
+  typeof emailService,
+  'sendPriceChangeNotice'
+>;
+
+export type PricePlanInput = Pick<
+  PackagePricePlan,
+  'package_id' | 'monthly_price' | 'effective_from'
+> &
+  Partial<
+    Pick<
+      PackagePricePlan,
+      'notice_days' | 'grandfather_existing' | 'description'
+    >
+  >;
+
+type ScheduledChangeRow = SubscriptionPriceChange & {
+  package_price_plans: Pick<
+    PackagePricePlan,
+    'effective_from' | 'notice_days'
+  > & { packages: { name: string } | null };
+};
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export class PricePlanService {
+  private supabase: SupabaseClient;
+  private mailer: PriceChangeMailer;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    mailer: PriceChangeMailer = emailService
+  ) {
+    this.supabase = supabaseClient;
+    this.mailer = mailer;
+  }
+
+  async listPlans(packageId?: string): Promise<PackagePricePlan[]> {
+    let query = this.supabase
+      .from('package_price_plans')
+      .select('*')
+      .order('effective_from', { ascending: false });
+    if (packageId) {
+      query = query.eq('package_id', packageId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch price plans: ${error.message}`);
+    }
+
+    return (data || []) as PackagePricePlan[];
+  }
+
+  /**
+   * The monthly price a new subscription to the package gets on `date`:
+   * the plan in effect, or the package's list price if it has none yet.
+   */
+  async getPackagePrice(
+    packageId: string,
+    date: string = today()
+  ): Promise<{ price: number; pricePlanId: string | null }> {
+    const plan = planInEffect(await this.listPlans(packageId), date);
+    if (plan) {
+      return { price: Number(plan.monthly_price), pricePlanId: plan.id };
+    }
+
+    const { data, error } = await this.supabase
+      .from('packages')
+      .select('price')
+      .eq('id', packageId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch package: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Package', packageId);
+    }
+
+    return { price: Number(data.price), pricePlanId: null };
+  }
+
+  /**
+   * Adds a price plan and schedules it for the package's existing
+   * subscribers, who are grandfathered if the plan or their subscription
+   * says so. Notices go out with sendNotices.
+   */
+  async createPlan(
+    input: PricePlanInput,
+    createdBy?: string
+  ): Promise<{
+    plan: PackagePricePlan;
+    scheduled: number;
+    grandfathered: number;
+  }> {
+    const { data, error } = await this.supabase
+      .from('package_price_plans')
+      .insert({
+        package_id: input.package_id,
+        monthly_price: input.monthly_price,
+        effective_from: input.effective_from,
+        notice_days: input.notice_days ?? DEFAULT_NOTICE_DAYS,
+        grandfather_existing: input.grandfather_existing ?? false,
+        description: input.description ?? null,
+        created_by: createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw ErrorFactory.duplicateResource('Price plan for this date');
+      }
+      throw new Error(`Failed to create price plan: ${error.message}`);
+    }
+
+    const plan = data as PackagePricePlan;
+
+    const { data: subscriptions, error: subscriptionsError } =
+      await this.supabase
+        .from('service_subscriptions')
+        .select('id, user_id, monthly_amount, price_locked')
+        .eq('package_id', plan.package_id)
+        .eq('is_active', true);
+
+    if (subscriptionsError) {
+      throw new Error(
+        `Failed to fetch subscriptions: ${subscriptionsError.message}`
+      );
+    }
+
+    const changes = (
+      (subscriptions || []) as Pick<
+        ServiceSubscription,
+        'id' | 'user_id' | 'monthly_amount' | 'price_locked'
+      >[]
+    )
+      .filter(
+        subscription =>
+          Number(subscription.monthly_amount) !== Number(plan.monthly_price)
+      )
+      .map(subscription => ({
+        subscription_id: subscription.id,
+        user_id: subscription.user_id,
+        price_plan_id: plan.id,
+        old_amount: subscription.monthly_amount,
+        new_amount: plan.monthly_price,
+        status:
+          plan.grandfather_existing || subscription.price_locked
+            ? 'grandfathered'
+            : 'scheduled',
+      }));
+
+    if (changes.length > 0) {
+      const { error: changesError } = await this.supabase
+        .from('subscription_price_changes')
+        .insert(changes);
+
+      if (changesError) {
+        throw new Error(
+          `Failed to schedule price changes: ${changesError.message}`
+        );
+      }
+    }
+
+    const grandfathered = changes.filter(
+      change => change.status === 'grandfathered'
+    ).length;
+
+    logger.info('Price plan created', {
+      module: 'billing',
+      submodule: 'price_plans',
+      operation: 'createPlan',
+      pricePlanId: plan.id,
+      packageId: plan.package_id,
+      effectiveFrom: plan.effective_from,
+      scheduled: changes.length - grandfathered,
+      grandfathered,
+    });
+
+    return {
+      plan,
+      scheduled: changes.length - grandfathered,
+      grandfathered,
+    };
+  }
+
+  /**
+   * Withdraws a plan. Subscribers not yet moved to it keep their price;
+   * those already on it stay there.
+   */
+  async cancelPlan(planId: string): Promise<PackagePricePlan> {
+    const { data, error } = await this.supabase
+      .from('package_price_plans')
+      .update({ status: 'cancelled' })
+      .eq('id', planId)
+      .eq('status', 'active')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to cancel price plan: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Active price plan', planId);
+    }
+
+    const { error: changesError } = await this.supabase
+      .from('subscription_price_changes')
+      .update({ status: 'cancelled' })
+      .eq('price_plan_id', planId)
+      .eq('status', 'scheduled');
+
+    if (changesError) {
+      throw new Error(
+        `Failed to cancel price changes: ${changesError.message}`
+      );
+    }
+
+    return data as PackagePricePlan;
+  }
+
+  async getChanges(planId: string): Promise<SubscriptionPriceChange[]> {
+    const { data, error } = await this.supabase
+      .from('subscription_price_changes')
+      .select('*')
+      .eq('price_plan_id', planId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch price changes: ${error.message}`);
+    }
+
+    return (data || []) as SubscriptionPriceChange[];
+  }
+
+  /**
+   * Grandfathers a subscription at its current price, or releases it so
+   * future price plans apply. Changes already scheduled follow suit.
+   */
+  async setPriceLock(
+    subscriptionId: string,
+    locked: boolean
+  ): Promise<ServiceSubscription> {
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
+      .update({ price_locked: locked })
+      .eq('id', subscriptionId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update price lock: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Subscription', subscriptionId);
+    }
+
+    // Customers already given notice keep the date they were told
+    const { error: changesError } = await this.supabase
+      .from('subscription_price_changes')
+      .update({ status: locked ? 'grandfathered' : 'scheduled' })
+      .eq('subscription_id', subscriptionId)
+      .eq('status', locked ? 'scheduled' : 'grandfathered');
+
+    if (changesError) {
+      throw new Error(
+        `Failed to update price changes: ${changesError.message}`
+      );
+    }
+
+    return data as ServiceSubscription;
+  }
+
+  /** Drops pending changes, e.g. when the subscription moves package */
+  async cancelPendingChanges(subscriptionId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('subscription_price_changes')
+      .update({ status: 'cancelled' })
+      .eq('subscription_id', subscriptionId)
+      .eq('status', 'scheduled');
+
+    if (error) {
+      throw new Error(`Failed to cancel price changes: ${error.message}`);
+    }
+  }
+
+  /**
+   * Emails notice of every scheduled change not yet announced. The notice
+   * period starts when the email is sent, which fixes the effective date.
+   */
+  async sendNotices(now: Date = new Date()): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('subscription_price_changes')
+      .select(
+        '*, package_price_plans (effective_from, notice_days, packages (name))'
+      )
+      .eq('status', 'scheduled')
+      .is('notice_sent_at', null);
+
+    if (error) {
+      throw new Error(`Failed to fetch pending notices: ${error.message}`);
+    }
+
+    let sent = 0;
+    for (const change of (data || []) as ScheduledChangeRow[]) {
+      const email = await this.getCustomerEmail(change.user_id);
+      if (!email) {
+        logger.warn(`No email for price change notice ${change.id}`);
+        continue;
+      }
+
+      const effectiveOn = existingSubscriberEffectiveDate(
+        change.package_price_plans,
+        now
+      );
+
+      await this.mailer.sendPriceChangeNotice(email, {
+        packageName: change.package_price_plans.packages?.name || 'Internet',
+        oldAmount: Number(change.old_amount),
+        newAmount: Number(change.new_amount),
+        effectiveDate: formatDocumentDate(new Date(effectiveOn)),
+      });
+
+      const { error: updateError } = await this.supabase
+        .from('subscription_price_changes')
+        .update({
+          notice_sent_at: now.toISOString(),
+          effective_on: effectiveOn,
+        })
+        .eq('id', change.id)
+        .is('notice_sent_at', null);
+
+      if (updateError) {
+        throw new Error(
+          `Failed to record price change notice: ${updateError.message}`
+        );
+      }
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Moves subscribers whose notice period has ended onto the new price, so
+   * their next invoice uses it.
+   */
+  async applyDueChanges(date: string = today()): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('subscription_price_changes')
+      .select('*')
+      .eq('status', 'scheduled')
+      .not('notice_sent_at', 'is', null)
+      .lte('effective_on', date);
+
+    if (error) {
+      throw new Error(`Failed to fetch due price changes: ${error.message}`);
+    }
+
+    let applied = 0;
+    for (const change of (data || []) as SubscriptionPriceChange[]) {
+      // Claim the change first so a repeated run can't apply it twice
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('subscription_price_changes')
+        .update({ status: 'applied', applied_at: new Date().toISOString() })
+        .eq('id', change.id)
+        .eq('status', 'scheduled')
+        .select('id');
+
+      if (claimError) {
+        throw new Error(`Failed to apply price change: ${claimError.message}`);
+      }
+      if ((claimed || []).length === 0) continue;
+
+      const { error: updateError } = await this.supabase
+        .from('service_subscriptions')
+        .update({
+          monthly_amount: change.new_amount,
+          price_plan_id: change.price_plan_id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', change.subscription_id);
+
+      if (updateError) {
+        throw new Error(
+          `Failed to update subscription price: ${updateError.message}`
+        );
+      }
+      applied++;
+    }
+
+    return applied;
+  }
+
+  private async getCustomerEmail(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.auth.admin.getUserById(userId);
+    if (error || !data.user) {
+      return null;
+    }
+    return data.user.email || null;
+  }
+}
@@ -0,0 +1,36 @@
+import type { PackagePricePlan } from './types';
+
+/** Notice existing subscribers get when a plan doesn't say otherwise */
+export const DEFAULT_NOTICE_DAYS = 30;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The plan new subscriptions get on `date` (YYYY-MM-DD), if any */
+export function planInEffect(
+  plans: PackagePricePlan[],
+  date: string
+): PackagePricePlan | null {
+  return (
+    plans
+      .filter(plan => plan.status === 'active' && plan.effective_from <= date)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0] ||
+    null
+  );
+}
+
+/**
+ * When an existing subscriber starts paying the plan's price: the plan date,
+ * or the end of the notice period counted from when notice was sent,
+ * whichever is later.
+ */
+export function existingSubscriberEffectiveDate(
+  plan: Pick<PackagePricePlan, 'effective_from' | 'notice_days'>,
+  noticeSentAt: Date
+): string {
+  const noticeEnds = new Date(noticeSentAt);
+  noticeEnds.setUTCDate(noticeEnds.getUTCDate() + plan.notice_days);
+  const earliest = toDateString(noticeEnds);
+  return earliest > plan.effective_from ? earliest : plan.effective_from;
+}
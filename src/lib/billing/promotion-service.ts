@@ -0,0 +1,319 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import {
+  generateReferralCode,
+  normalizePromoCode,
+  promotionUnavailableReason,
+  type RedeemedPromotion,
+} from './promotions';
+import type {
+  CustomerReferralCode,
+  Promotion,
+  PromotionRedemption,
+} from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Attempts at drawing a referral code nobody else holds
+const REFERRAL_CODE_ATTEMPTS = 5;
+
+export type PromotionInput = Pick<
+  Promotion,
+  'name' | 'discount_type' | 'discount_value'
+> &
+  Partial<
+    Pick<
+      Promotion,
+      | 'code'
+      | 'description'
+      | 'applies_to'
+      | 'duration_months'
+      | 'eligible_package_ids'
+      | 'max_redemptions'
+      | 'starts_at'
+      | 'ends_at'
+      | 'is_active'
+      | 'is_referral'
+      | 'referrer_credit_amount'
+    >
+  >;
+
+/** A code entered at sign-up, resolved to what it redeems */
+export interface ResolvedPromoCode {
+  promotion: Promotion;
+  /** Set when the code was a customer's referral code */
+  referredBy: string | null;
+}
+
+export class PromotionService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  async listPromotions(
+    limit = 20,
+    offset = 0
+  ): Promise<{ promotions: Promotion[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from('promotions')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list promotions: ${error.message}`);
+    }
+
+    return { promotions: (data || []) as Promotion[], total: count || 0 };
+  }
+
+  async createPromotion(
+    input: PromotionInput,
+    createdBy?: string
+  ): Promise<Promotion> {
+    const { data, error } = await this.supabase
+      .from('promotions')
+      .insert({
+        ...input,
+        code: input.code ? normalizePromoCode(input.code) : null,
+        created_by: createdBy || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw ErrorFactory.duplicateResource('Promotion code');
+      }
+      throw new Error(`Failed to create promotion: ${error.message}`);
+    }
+
+    return data as Promotion;
+  }
+
+  /** Ending or extending a promotion only affects new redemptions */
+  async updatePromotion(
+    promotionId: string,
+    changes: Partial<
+      Pick<
+        Promotion,
+        'name' | 'description' | 'max_redemptions' | 'ends_at' | 'is_active'
+      >
+    >
+  ): Promise<Promotion> {
+    const { data, error } = await this.supabase
+      .from('promotions')
+      .update(changes)
+      .eq('id', promotionId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update promotion: ${error.message}`);
+    }
+    if (!data) {
+      throw ErrorFactory.resourceNotFound('Promotion', promotionId);
+    }
+
+    return data as Promotion;
+  }
+
+  /**
+   * Looks up a promo code or a customer's referral code. Referral codes
+   * redeem the current referral promotion on behalf of the referrer.
+   */
+  async resolveCode(
+    code: string,
+    now: Date = new Date()
+  ): Promise<ResolvedPromoCode> {
+    const normalized = normalizePromoCode(code);
+
+    const { data: promotion, error } = await this.supabase
+      .from('promotions')
+      .select('*')
+      .eq('code', normalized)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up promotion: ${error.message}`);
+    }
+
+    let resolved: ResolvedPromoCode | null = promotion
+      ? { promotion: promotion as Promotion, referredBy: null }
+      : null;
+
+    if (!resolved) {
+      const { data: referral } = await this.supabase
+        .from('customer_referral_codes')
+        .select('user_id')
+        .eq('code', normalized)
+        .maybeSingle();
+
+      const referralPromotion = referral
+        ? await this.getReferralPromotion()
+        : null;
+      if (referral && referralPromotion) {
+        resolved = {
+          promotion: referralPromotion,
+          referredBy: referral.user_id,
+        };
+      }
+    }
+
+    if (!resolved) {
+      throw ErrorFactory.validationFailed(
+        'Promo code not recognised',
+        'promoCode'
+      );
+    }
+
+    const unavailable = promotionUnavailableReason(resolved.promotion, now);
+    if (unavailable) {
+      throw ErrorFactory.validationFailed(unavailable, 'promoCode');
+    }
+
+    return resolved;
+  }
+
+  /** Redeems a code for a customer, who can hold each promotion once */
+  async redeemCode(
+    userId: string,
+    code: string,
+    now: Date = new Date()
+  ): Promise<PromotionRedemption> {
+    const { promotion, referredBy } = await this.resolveCode(code, now);
+
+    if (referredBy === userId) {
+      throw ErrorFactory.invalidOperation(
+        'You cannot use your own referral code'
+      );
+    }
+
+    const { data, error } = await this.supabase.rpc('redeem_promotion', {
+      p_promotion_id: promotion.id,
+      p_user_id: userId,
+      p_referred_by: referredBy,
+    });
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw ErrorFactory.invalidOperation(
+          'This promotion has already been redeemed'
+        );
+      }
+      throw new Error(`Failed to redeem promotion: ${error?.message}`);
+    }
+
+    logger.info('Promotion redeemed', {
+      module: 'billing',
+      submodule: 'promotions',
+      operation: 'redeemCode',
+      userId,
+      promotionId: promotion.id,
+      referredBy: referredBy ?? undefined,
+    });
+
+    return data as PromotionRedemption;
+  }
+
+  /** Promotions the customer holds that can still discount an invoice */
+  async getActiveRedemptions(userId: string): Promise<RedeemedPromotion[]> {
+    const { data, error } = await this.supabase
+      .from('promotion_redemptions')
+      .select('*, promotions (*)')
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .order('redeemed_at', { ascending: true });
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch promotion redemptions: ${error.message}`
+      );
+    }
+
+    return (data || [])
+      .filter(row => row.promotions)
+      .map(({ promotions, ...redemption }) => ({
+        redemption: redemption as PromotionRedemption,
+        promotion: promotions as Promotion,
+      }));
+  }
+
+  /** The customer's referral code, created on first request */
+  async getReferralCode(userId: string): Promise<CustomerReferralCode> {
+    const { data: existing, error } = await this.supabase
+      .from('customer_referral_codes')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch referral code: ${error.message}`);
+    }
+    if (existing) return existing as CustomerReferralCode;
+
+    for (let attempt = 0; attempt < REFERRAL_CODE_ATTEMPTS; attempt++) {
+      const { data, error: insertError } = await this.supabase
+        .from('customer_referral_codes')
+        .insert({ user_id: userId, code: generateReferralCode() })
+        .select()
+        .single();
+
+      if (!insertError) return data as CustomerReferralCode;
+      if (insertError.code !== UNIQUE_VIOLATION) {
+        throw new Error(
+          `Failed to create referral code: ${insertError.message}`
+        );
+      }
+
+      // Another request may have created this customer's code meanwhile
+      const { data: raced } = await this.supabase
+        .from('customer_referral_codes')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (raced) return raced as CustomerReferralCode;
+    }
+
+    throw new Error('Failed to create a unique referral code');
+  }
+
+  /** Customers who signed up with the referrer's code */
+  async getReferrals(
+    referrerId: string
+  ): Promise<{ referred: number; rewarded: number }> {
+    const { data, error } = await this.supabase
+      .from('promotion_redemptions')
+      .select('id, referrer_credit_note_id')
+      .eq('referred_by', referrerId);
+
+    if (error) {
+      throw new Error(`Failed to fetch referrals: ${error.message}`);
+    }
+
+    return {
+      referred: (data || []).length,
+      rewarded: (data || []).filter(row => row.referrer_credit_note_id).length,
+    };
+  }
+
+  private async getReferralPromotion(): Promise<Promotion | null> {
+    const { data, error } = await this.supabase
+      .from('promotions')
+      .select('*')
+      .eq('is_referral', true)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch referral promotion: ${error.message}`);
+    }
+
+    return data as Promotion | null;
+  }
+}
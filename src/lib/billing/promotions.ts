@@ -0,0 +1,136 @@
+import crypto from 'node:crypto';
+import type { TaxableLine } from './tax';
+import type { Promotion, PromotionRedemption } from './types';
+
+// Referral codes avoid characters that are easy to misread (0/O, 1/I/L)
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+
+export interface RedeemedPromotion {
+  redemption: PromotionRedemption;
+  promotion: Promotion;
+}
+
+export interface AppliedDiscount extends RedeemedPromotion {
+  amount: number;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function generateReferralCode(): string {
+  let code = '';
+  for (let i = 0; i < REFERRAL_CODE_LENGTH; i++) {
+    code +=
+      REFERRAL_CODE_ALPHABET[crypto.randomInt(REFERRAL_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Why a promotion can't be redeemed right now, or null if it can. Only
+ * affects new redemptions; customers keep a promotion they already hold.
+ */
+export function promotionUnavailableReason(
+  promotion: Promotion,
+  now: Date
+): string | null {
+  if (!promotion.is_active) return 'This promotion is no longer available';
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) {
+    return 'This promotion has not started yet';
+  }
+  if (promotion.ends_at && new Date(promotion.ends_at) < now) {
+    return 'This promotion has ended';
+  }
+  if (
+    promotion.max_redemptions != null &&
+    promotion.redemption_count >= promotion.max_redemptions
+  ) {
+    return 'This promotion has been fully redeemed';
+  }
+  return null;
+}
+
+/**
+ * Whether a held promotion discounts this subscription's next invoice. A
+ * redemption is bound to the first subscription it discounts.
+ */
+export function appliesToSubscription(
+  { redemption, promotion }: RedeemedPromotion,
+  subscription: { id: string; package_id: string }
+): boolean {
+  if (redemption.status !== 'active') return false;
+  if (
+    redemption.subscription_id &&
+    redemption.subscription_id !== subscription.id
+  ) {
+    return false;
+  }
+  if (
+    promotion.duration_months != null &&
+    redemption.periods_applied >= promotion.duration_months
+  ) {
+    return false;
+  }
+
+  return (
+    promotion.eligible_package_ids.length === 0 ||
+    promotion.eligible_package_ids.includes(subscription.package_id)
+  );
+}
+
+export function discountAmount(promotion: Promotion, base: number): number {
+  if (!(base > 0)) return 0;
+
+  const amount =
+    promotion.discount_type === 'percentage'
+      ? Math.round((base * Number(promotion.discount_value)) / 100)
+      : Number(promotion.discount_value);
+  return Math.min(amount, base);
+}
+
+/**
+ * Discount lines for the promotions applying to an invoice. Each discounts
+ * the charges in its category that earlier promotions left undiscounted, so
+ * stacked promotions never take a category below zero. Discount lines carry
+ * the category they discount so PPN is charged on the net.
+ */
+export function buildDiscountLines(
+  lines: TaxableLine[],
+  promotions: RedeemedPromotion[]
+): { lines: TaxableLine[]; applied: AppliedDiscount[] } {
+  const remaining = new Map<TaxableLine['category'], number>();
+  for (const line of lines) {
+    if ((line.itemType || 'charge') !== 'charge') continue;
+    remaining.set(
+      line.category,
+      (remaining.get(line.category) || 0) + line.total
+    );
+  }
+
+  const discountLines: TaxableLine[] = [];
+  const applied: AppliedDiscount[] = [];
+
+  for (const redeemed of promotions) {
+    const { promotion } = redeemed;
+    const base = remaining.get(promotion.applies_to) || 0;
+    const amount = discountAmount(promotion, base);
+    if (amount <= 0) continue;
+
+    remaining.set(promotion.applies_to, base - amount);
+    discountLines.push({
+      description: promotion.code
+        ? `${promotion.name} (${promotion.code})`
+        : promotion.name,
+      quantity: 1,
+      unitPrice: -amount,
+      total: -amount,
+      category: promotion.applies_to,
+      itemType: 'discount',
+    });
+    applied.push({ ...redeemed, amount });
+  }
+
+  return { lines: discountLines, applied };
+}
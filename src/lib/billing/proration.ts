@@ -0,0 +1,58 @@
+import type { ProrationInput, ProrationResult } from './types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole calendar days between two dates, ignoring the time of day.
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end - start) / MS_PER_DAY);
+}
+
+/**
+ * The billing cycle that ends on nextBillingDate starts one month earlier,
+ * on the same day of the month or the last day of a shorter month.
+ */
+export function getCycleStart(nextBillingDate: Date): Date {
+  const cycleStart = new Date(nextBillingDate);
+  const lastDay = new Date(
+    cycleStart.getFullYear(),
+    cycleStart.getMonth(),
+    0
+  ).getDate();
+  cycleStart.setDate(1);
+  cycleStart.setMonth(cycleStart.getMonth() - 1);
+  cycleStart.setDate(Math.min(nextBillingDate.getDate(), lastDay));
+  return cycleStart;
+}
+
+/**
+ * Day-based proration for a mid-cycle plan change. The customer is credited
+ * for the unused days of the old plan and charged for the same days on the
+ * new plan. A negative net means the change is a downgrade.
+ */
+export function calculateProration(input: ProrationInput): ProrationResult {
+  const cycleEnd = new Date(input.nextBillingDate);
+  const cycleStart = getCycleStart(cycleEnd);
+  const daysInCycle = Math.max(1, daysBetween(cycleStart, cycleEnd));
+  const daysRemaining = Math.min(
+    daysInCycle,
+    Math.max(0, daysBetween(input.changeDate, cycleEnd))
+  );
+
+  const ratio = daysRemaining / daysInCycle;
+  const credit = Math.round(input.oldMonthlyAmount * ratio);
+  const charge = Math.round(input.newMonthlyAmount * ratio);
+
+  return {
+    daysInCycle,
+    daysRemaining,
+    cycleStart,
+    cycleEnd,
+    credit,
+    charge,
+    net: charge - credit,
+  };
+}
@@ -0,0 +1,114 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../payments/service';
+import { BillingDocumentService } from './document-service';
+import {
+  OPEN_INVOICE_STATUSES,
+  buildAgingReport,
+  buildStatementLines,
+  buildStatementOfAccount,
+  type AgingReport,
+  type OpenInvoice,
+  type StatementLedgerEntry,
+  type StatementOfAccount,
+} from './receivables';
+
+// Statements cover the whole account history; this bounds a single fetch
+const STATEMENT_HISTORY_LIMIT = 1000;
+
+export class ReceivablesService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+  private documentService: BillingDocumentService;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.documentService = new BillingDocumentService(supabaseClient);
+  }
+
+  async getAgingReport(asOf: Date = new Date()): Promise<AgingReport> {
+    const { data, error } = await this.supabase
+      .from('invoices')
+      .select('id, user_id, invoice_number, total, due_date')
+      .in('status', OPEN_INVOICE_STATUSES)
+      .lte('created_at', asOf.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to fetch open invoices: ${error.message}`);
+    }
+
+    const invoices: OpenInvoice[] = (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      invoiceNumber: row.invoice_number,
+      total: Number(row.total),
+      dueDate: new Date(row.due_date),
+    }));
+
+    const customerNames = await this.getCustomerNames([
+      ...new Set(invoices.map(invoice => invoice.userId)),
+    ]);
+
+    return buildAgingReport(invoices, asOf, customerNames);
+  }
+
+  async getStatementOfAccount(
+    userId: string,
+    period: { from?: Date; to?: Date } = {}
+  ): Promise<StatementOfAccount> {
+    const [invoices, payments, ledgerResult, customer] = await Promise.all([
+      this.paymentService.getInvoicesByUserId(userId, STATEMENT_HISTORY_LIMIT),
+      this.paymentService.getTransactionsByUserId(
+        userId,
+        STATEMENT_HISTORY_LIMIT
+      ),
+      this.supabase
+        .from('customer_credit_ledger')
+        .select('*, credit_notes (credit_note_number, reason)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true }),
+      this.documentService.getCustomer(userId),
+    ]);
+
+    if (ledgerResult.error) {
+      throw new Error(
+        `Failed to fetch credit ledger: ${ledgerResult.error.message}`
+      );
+    }
+
+    const lines = buildStatementLines(
+      invoices,
+      payments,
+      (ledgerResult.data || []) as StatementLedgerEntry[]
+    );
+
+    return buildStatementOfAccount(lines, {
+      userId,
+      customerName: customer.businessName || customer.name,
+      from: period.from,
+      to: period.to || new Date(),
+    });
+  }
+
+  private async getCustomerNames(
+    userIds: string[]
+  ): Promise<Record<string, string>> {
+    if (userIds.length === 0) return {};
+
+    const { data, error } = await this.supabase
+      .from('customer_profiles')
+      .select('user_id, first_name, last_name')
+      .in('user_id', userIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch customer names: ${error.message}`);
+    }
+
+    return Object.fromEntries(
+      (data || []).map(profile => [
+        profile.user_id,
+        `${profile.first_name} ${profile.last_name}`.trim(),
+      ])
+    );
+  }
+}
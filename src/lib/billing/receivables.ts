@@ -0,0 +1,238 @@
+import type { Invoice, PaymentTransaction } from '../payments/types';
+import { daysBetween } from './proration';
+import type { CreditLedgerEntry } from './types';
+
+export type AgingBucket = 'current' | '1_30' | '31_60' | '61_90' | '90_plus';
+
+export const AGING_BUCKETS: Array<{ key: AgingBucket; label: string }> = [
+  { key: 'current', label: 'Current' },
+  { key: '1_30', label: '1-30 days' },
+  { key: '31_60', label: '31-60 days' },
+  { key: '61_90', label: '61-90 days' },
+  { key: '90_plus', label: '90+ days' },
+];
+
+/** Invoice states that still count as receivable */
+export const OPEN_INVOICE_STATUSES: Invoice['status'][] = ['sent', 'overdue'];
+
+export interface OpenInvoice {
+  id: string;
+  userId: string;
+  invoiceNumber: string;
+  total: number;
+  dueDate: Date;
+}
+
+export type AgingAmounts = Record<AgingBucket, number>;
+
+export interface AgingCustomerRow {
+  userId: string;
+  customerName: string;
+  invoiceCount: number;
+  buckets: AgingAmounts;
+  total: number;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  customers: AgingCustomerRow[];
+  totals: AgingAmounts & { total: number };
+}
+
+export type StatementLineType =
+  'invoice' | 'payment' | 'credit_note' | 'credit_applied' | 'refund';
+
+export interface StatementLine {
+  date: Date;
+  type: StatementLineType;
+  reference: string;
+  description: string;
+  /** Increases what the customer owes */
+  debit: number;
+  /** Decreases what the customer owes */
+  credit: number;
+  balance: number;
+}
+
+export interface StatementOfAccount {
+  userId: string;
+  customerName: string;
+  from?: Date;
+  to: Date;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+}
+
+/** Ledger entry with the credit note it came from, if any */
+export type StatementLedgerEntry = CreditLedgerEntry & {
+  credit_notes?: { credit_note_number: string; reason: string } | null;
+};
+
+function emptyBuckets(): AgingAmounts {
+  return { current: 0, '1_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 };
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function agingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const daysPastDue = daysBetween(dueDate, asOf);
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return '1_30';
+  if (daysPastDue <= 60) return '31_60';
+  if (daysPastDue <= 90) return '61_90';
+  return '90_plus';
+}
+
+/**
+ * Buckets open invoices by days past due, per customer and overall.
+ * Customers are ordered by total outstanding, largest first.
+ */
+export function buildAgingReport(
+  invoices: OpenInvoice[],
+  asOf: Date,
+  customerNames: Record<string, string> = {}
+): AgingReport {
+  const rows = new Map<string, AgingCustomerRow>();
+  const totals = { ...emptyBuckets(), total: 0 };
+
+  for (const invoice of invoices) {
+    const bucket = agingBucket(invoice.dueDate, asOf);
+    const amount = Number(invoice.total);
+
+    let row = rows.get(invoice.userId);
+    if (!row) {
+      row = {
+        userId: invoice.userId,
+        customerName: customerNames[invoice.userId] || invoice.userId,
+        invoiceCount: 0,
+        buckets: emptyBuckets(),
+        total: 0,
+      };
+      rows.set(invoice.userId, row);
+    }
+
+    row.invoiceCount++;
+    row.buckets[bucket] = roundAmount(row.buckets[bucket] + amount);
+    row.total = roundAmount(row.total + amount);
+    totals[bucket] = roundAmount(totals[bucket] + amount);
+    totals.total = roundAmount(totals.total + amount);
+  }
+
+  return {
+    asOf,
+    customers: [...rows.values()].sort((a, b) => b.total - a.total),
+    totals,
+  };
+}
+
+/**
+ * Lists invoices, payments, credit notes and gateway refunds in date order.
+ * Invoice totals are already net of applied credit, so each application is
+ * listed as a debit that consumes the matching credit note.
+ */
+export function buildStatementLines(
+  invoices: Invoice[],
+  payments: PaymentTransaction[],
+  ledger: StatementLedgerEntry[]
+): Omit<StatementLine, 'balance'>[] {
+  const lines: Omit<StatementLine, 'balance'>[] = [];
+
+  for (const invoice of invoices) {
+    if (['draft', 'cancelled', 'void'].includes(invoice.status)) continue;
+    lines.push({
+      date: invoice.createdAt,
+      type: 'invoice',
+      reference: invoice.invoiceNumber,
+      description: `Invoice due ${invoice.dueDate.toISOString().slice(0, 10)}`,
+      debit: Number(invoice.total),
+      credit: 0,
+    });
+  }
+
+  for (const payment of payments) {
+    // Refunded payments were received first; the refund is its own line
+    if (payment.status !== 'success' && payment.status !== 'refund') continue;
+    lines.push({
+      date: payment.updatedAt,
+      type: 'payment',
+      reference: payment.orderId,
+      description: `Payment - ${payment.paymentMethod?.name || 'Online Payment'}`,
+      debit: 0,
+      credit: Number(payment.amount),
+    });
+  }
+
+  for (const entry of ledger) {
+    // Overpaid cash is already credited by its payment line
+    if (entry.credit_notes?.reason === 'overpayment') continue;
+
+    if (entry.entry_type === 'credit_note') {
+      lines.push({
+        date: new Date(entry.created_at),
+        type: 'credit_note',
+        reference: entry.credit_notes?.credit_note_number || '',
+        description: entry.credit_notes
+          ? `Credit note - ${entry.credit_notes.reason.replace('_', ' ')}`
+          : entry.description || 'Credit note',
+        debit: 0,
+        credit: Number(entry.amount),
+      });
+    } else if (entry.entry_type === 'invoice_application') {
+      lines.push({
+        date: new Date(entry.created_at),
+        type: 'credit_applied',
+        reference: entry.invoice_id || '',
+        description: entry.description || 'Credit applied to invoice',
+        debit: Number(entry.amount),
+        credit: 0,
+      });
+    } else if (entry.entry_type === 'payment_refund') {
+      lines.push({
+        date: new Date(entry.created_at),
+        type: 'refund',
+        reference: entry.transaction_id || '',
+        description: entry.description || 'Refund',
+        debit: Number(entry.amount),
+        credit: 0,
+      });
+    }
+  }
+
+  return lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Restricts statement lines to a period, carrying everything before it into
+ * the opening balance.
+ */
+export function buildStatementOfAccount(
+  lines: Omit<StatementLine, 'balance'>[],
+  period: { userId: string; customerName: string; from?: Date; to: Date }
+): StatementOfAccount {
+  let openingBalance = 0;
+  const inPeriod: StatementLine[] = [];
+  let balance = 0;
+
+  for (const line of lines) {
+    if (line.date > period.to) break;
+
+    if (period.from && line.date < period.from) {
+      openingBalance = roundAmount(openingBalance + line.debit - line.credit);
+      balance = openingBalance;
+      continue;
+    }
+
+    balance = roundAmount(balance + line.debit - line.credit);
+    inPeriod.push({ ...line, balance });
+  }
+
+  return {
+    ...period,
+    openingBalance,
+    lines: inPeriod,
+    closingBalance: balance,
+  };
+}
@@ -1,16 +1,49 @@
-import { supabase } from '../../lib/supabase.ts';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceClient } from '../../lib/supabase.ts';
 import { PaymentService } from '../../lib/payments/service.ts';
+import { ReconciliationService } from '../../lib/payments/reconciliation.ts';
+import type { Invoice } from '../../lib/payments/types.ts';
 import { logger } from '../../lib/logger.ts';
-
-interface ServiceSubscription {
-  id: string;
-  user_id: string;
-  package_id: string;
-  monthly_amount: number;
-  billing_day: number;
-  is_active: boolean;
-  next_billing_date: string;
-}
+import { ErrorFactory, NotFoundError } from '../errors';
+import { TaxService } from './tax-service';
+import { DunningService } from './dunning-service';
+import { AutopayService } from './autopay-service';
+import { CreditService, creditToApply } from './credit-service';
+import { PromotionService } from './promotion-service';
+import {
+  appliesToSubscription,
+  buildDiscountLines,
+  type AppliedDiscount,
+} from './promotions';
+import { UsageBillingService } from './usage-service';
+import { CustomerChargeService } from './charge-service';
+import { chargeLine } from './charges';
+import { overageLine } from './usage';
+import { BillingAccountService } from './billing-account-service';
+import { PricePlanService } from './price-plan-service';
+import { LOW_BALANCE_NOTICE_DAYS, WalletService } from './wallet-service';
+import {
+  JobRunService,
+  billingPeriod,
+  type JobOutcome,
+  type JobTrigger,
+} from './job-run-service';
+import {
+  findAnomalies,
+  summarizePreview,
+  type BillingPreview,
+  type BillingPreviewEntry,
+} from './preview';
+import type { TaxableLine, TaxCalculation } from './tax';
+import type {
+  BillingAccount,
+  BillingJobName,
+  BillingJobRun,
+  CustomerCharge,
+  DunningRunResult,
+  ServiceSubscription,
+  UsageOverageCharge,
+} from './types';
 
 interface ScheduledEvent {
   cron: string;
@@ -18,17 +51,200 @@ interface ScheduledEvent {
   noRetry: () => void;
 }
 
+/** A preview entry for an invoice that could not be computed */
+function failedPreviewEntry(
+  base: Pick<
+    BillingPreviewEntry,
+    'userId' | 'billingAccountId' | 'subscriptionIds' | 'period'
+  >,
+  error: unknown
+): BillingPreviewEntry {
+  return {
+    ...base,
+    subtotal: 0,
+    tax: 0,
+    taxWithheld: 0,
+    total: 0,
+    items: [],
+    previousTotal: null,
+    // The only lookup in a draft that can come up empty is the package
+    anomalies: [error instanceof NotFoundError ? 'missing_package' : 'error'],
+    error: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/** An invoice as worked out before it is created */
+interface InvoiceDraft {
+  userId: string;
+  billed: BilledSubscription[];
+  period: string;
+  account?: BillingAccount;
+  overageCharges: UsageOverageCharge[];
+  planChangeCredits: Array<{
+    subscription: ServiceSubscription;
+    applied: number;
+  }>;
+  accountCredit: number;
+  taxCalculation: TaxCalculation;
+  dueDate: Date;
+  paymentTermsDays: number;
+  /** Paid from the prepaid wallet when the cycle starts */
+  prepaid: boolean;
+}
+
+/** What one subscription contributes to an invoice */
+interface BilledSubscription {
+  subscription: ServiceSubscription;
+  lines: TaxableLine[];
+  charges: CustomerCharge[];
+  discounts: AppliedDiscount[];
+  siteLabel?: string;
+}
+
 export class BillingScheduler {
+  private supabase: SupabaseClient;
   private paymentService: PaymentService;
+  private taxService: TaxService;
+  private dunningService: DunningService;
+  private autopayService: AutopayService;
+  private creditService: CreditService;
+  private promotionService: PromotionService;
+  private usageBillingService: UsageBillingService;
+  private chargeService: CustomerChargeService;
+  private billingAccountService: BillingAccountService;
+  private reconciliationService: ReconciliationService;
+  private jobRunService: JobRunService;
+  private pricePlanService: PricePlanService;
+  private walletService: WalletService;
+
+  constructor(supabaseClient: SupabaseClient = createServiceClient()) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.taxService = new TaxService(supabaseClient);
+    this.dunningService = new DunningService(supabaseClient);
+    this.autopayService = new AutopayService(supabaseClient);
+    this.creditService = new CreditService(supabaseClient);
+    this.promotionService = new PromotionService(supabaseClient);
+    this.usageBillingService = new UsageBillingService(supabaseClient);
+    this.chargeService = new CustomerChargeService(supabaseClient);
+    this.billingAccountService = new BillingAccountService(supabaseClient);
+    this.reconciliationService = new ReconciliationService(supabaseClient);
+    this.jobRunService = new JobRunService(supabaseClient);
+    this.pricePlanService = new PricePlanService(supabaseClient);
+    this.walletService = new WalletService(supabaseClient);
+  }
+
+  /**
+   * Everything the daily cron does, under the billing run lock. Each job is
+   * recorded in the job ledger and runs at most once successfully per day,
+   * so a duplicate cron or a manual trigger can't bill anyone twice.
+   */
+  async runScheduledJobs(
+    trigger: JobTrigger = { trigger: 'cron' },
+    now: Date = new Date()
+  ): Promise<{ locked: boolean; runs: BillingJobRun[] }> {
+    const holder = crypto.randomUUID();
+    if (!(await this.jobRunService.acquireLock(holder))) {
+      logger.warn('Billing run skipped: another run holds the lock');
+      return { locked: false, runs: [] };
+    }
+
+    const period = billingPeriod(now);
+    const keepLease = this.jobRunService.keepLease(holder);
+    const jobs: Array<
+      [BillingJobName, (run: BillingJobRun) => Promise<JobOutcome>]
+    > = [
+      // Price changes whose notice has run out apply before invoicing
+      [
+        'price_changes',
+        async () => {
+          const notices = await this.pricePlanService.sendNotices(now);
+          const applied = await this.pricePlanService.applyDueChanges(
+            billingPeriod(now)
+          );
+          return {
+            success: true,
+            processed: notices + applied,
+            errors: [],
+            details: { notices, applied },
+          };
+        },
+      ],
+      [
+        'invoice_generation',
+        run => this.generateMonthlyInvoices(run.id, keepLease),
+      ],
+      // Settle payments whose webhook was lost before anything is chased
+      [
+        'payment_reconciliation',
+        async () => {
+          const report = await this.reconcilePayments(now);
+          return {
+            success: true,
+            processed: report.checked,
+            errors: [],
+            details: {
+              reconciliationRunId: report.runId,
+              resolved: report.resolved,
+              discrepancies: report.discrepancies.length,
+            },
+          };
+        },
+      ],
+      // Dunning reminders, overdue marking, late fees and suspension
+      [
+        'dunning',
+        async () => {
+          const result = await this.checkOverdueInvoices(now);
+          return {
+            ...result,
+            details: {
+              reminders: result.reminders,
+              suspended: result.suspended,
+              lateFees: result.lateFees,
+              paused: result.paused,
+            },
+          };
+        },
+      ],
+      // Autopay retries after soft declines
+      [
+        'autopay_retry',
+        async () => {
+          const result = await this.retryAutopay(now);
+          return { ...result, details: { succeeded: result.succeeded } };
+        },
+      ],
+      // Warn prepaid customers whose balance won't cover their next cycle
+      ['prepaid_notices', () => this.sendLowBalanceNotices(now)],
+    ];
 
-  constructor() {
-    if (!supabase) {
-      throw new Error('Supabase client is not available');
+    const runs: BillingJobRun[] = [];
+    try {
+      for (const [jobName, task] of jobs) {
+        // Renew the lease so a long run doesn't lose the lock midway
+        if (!(await this.jobRunService.acquireLock(holder))) {
+          throw new Error('Billing run lock was lost');
+        }
+        runs.push(
+          await this.jobRunService.runJob(jobName, period, trigger, task)
+        );
+      }
+    } finally {
+      await this.jobRunService.releaseLock(holder);
     }
-    this.paymentService = new PaymentService(supabase);
+
+    return { locked: true, runs };
   }
 
-  async generateMonthlyInvoices(): Promise<{
+  /**
+   * Invoices every subscription and billing account due today. `keepLease`
+   * is called before each one so a long run keeps the billing run lock.
+   */
+  async generateMonthlyInvoices(
+    jobRunId?: string,
+    keepLease?: () => Promise<void>
+  ): Promise<{
     success: boolean;
     processed: number;
     errors: string[];
@@ -41,32 +257,36 @@ export class BillingScheduler {
       // Get active subscriptions that need billing
       const today = new Date();
 
-      const { data: subscriptions, error } = await supabase
-        .from('service_subscriptions')
-        .select('*')
-        .eq('is_active', true)
-        .lte('next_billing_date', today.toISOString());
-
-      if (error) {
-        throw new Error(`Failed to fetch subscriptions: ${error.message}`);
-      }
-
-      if (!subscriptions || subscriptions.length === 0) {
-        logger.info('No subscriptions require billing today');
-        return result;
-      }
+      const subscriptions = await this.getDueSubscriptions(today);
 
       logger.info(`Found ${subscriptions.length} subscriptions to process`);
 
-      for (const subscription of subscriptions as ServiceSubscription[]) {
+      for (const subscription of subscriptions) {
+        await keepLease?.();
         try {
-          await this.generateInvoiceForSubscription(subscription);
-          result.processed++;
+          const invoice = await this.generateInvoiceForSubscription(
+            subscription,
+            jobRunId
+          );
 
           // Update next billing date
           await this.updateNextBillingDate(subscription);
 
+          if (!invoice) {
+            logger.warn(
+              `Subscription ${subscription.id} was already billed for ${subscription.next_billing_date.slice(0, 10)}`
+            );
+            continue;
+          }
+          result.processed++;
+
           logger.info(`Generated invoice for subscription ${subscription.id}`);
+
+          if (invoice.prepaid) {
+            await this.chargeWallet(invoice);
+          } else {
+            await this.tryAutopay(invoice);
+          }
         } catch (error) {
           const errorMsg = `Failed to generate invoice for subscription ${subscription.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
           result.errors.push(errorMsg);
@@ -74,6 +294,29 @@ export class BillingScheduler {
         }
       }
 
+      for (const account of await this.billingAccountService.getDueAccounts(
+        today
+      )) {
+        await keepLease?.();
+        try {
+          const invoice = await this.generateInvoiceForAccount(
+            account,
+            jobRunId
+          );
+          await this.billingAccountService.advanceBillingDate(account);
+          if (!invoice) continue;
+
+          result.processed++;
+          logger.info(`Generated invoice for billing account ${account.id}`);
+
+          await this.tryAutopay(invoice);
+        } catch (error) {
+          const errorMsg = `Failed to generate invoice for billing account ${account.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          result.errors.push(errorMsg);
+          logger.error(errorMsg);
+        }
+      }
+
       logger.info(
         `Monthly invoice generation completed. Processed: ${result.processed}, Errors: ${result.errors.length}`
       );
@@ -89,206 +332,591 @@ export class BillingScheduler {
     }
   }
 
-  private async generateInvoiceForSubscription(
-    subscription: ServiceSubscription
-  ): Promise<void> {
-    // Get package details
-    const { data: packageData, error: packageError } = await supabase
-      .from('packages')
+  /**
+   * Dry run of generateMonthlyInvoices: every invoice it would create today,
+   * with anomalies flagged for review. Nothing is written.
+   */
+  async previewMonthlyInvoices(
+    today: Date = new Date()
+  ): Promise<BillingPreview> {
+    const entries: BillingPreviewEntry[] = [];
+
+    for (const subscription of await this.getDueSubscriptions(today)) {
+      try {
+        entries.push(
+          await this.toPreviewEntry(
+            await this.draftSubscriptionInvoice(subscription, true)
+          )
+        );
+      } catch (error) {
+        entries.push(
+          failedPreviewEntry(
+            {
+              userId: subscription.user_id,
+              billingAccountId: null,
+              subscriptionIds: [subscription.id],
+              period: subscription.next_billing_date.slice(0, 10),
+            },
+            error
+          )
+        );
+      }
+    }
+
+    for (const account of await this.billingAccountService.getDueAccounts(
+      today
+    )) {
+      try {
+        const draft = await this.draftAccountInvoice(account, true);
+        if (draft) entries.push(await this.toPreviewEntry(draft));
+      } catch (error) {
+        entries.push(
+          failedPreviewEntry(
+            {
+              userId: account.payer_user_id,
+              billingAccountId: account.id,
+              subscriptionIds: [],
+              period: account.next_billing_date.slice(0, 10),
+            },
+            error
+          )
+        );
+      }
+    }
+
+    return summarizePreview(entries);
+  }
+
+  private async getDueSubscriptions(
+    today: Date
+  ): Promise<ServiceSubscription[]> {
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
       .select('*')
-      .eq('id', subscription.package_id)
-      .single();
+      .eq('is_active', true)
+      // Account sites are billed together on the account's billing date
+      .is('billing_account_id', null)
+      .lte('next_billing_date', today.toISOString());
 
-    if (packageError || !packageData) {
-      throw new Error(`Package not found: ${subscription.package_id}`);
+    if (error) {
+      throw new Error(`Failed to fetch subscriptions: ${error.message}`);
     }
 
-    // Generate invoice number
-    const invoiceNumber = await this.paymentService.generateInvoiceNumber();
+    return (data || []) as ServiceSubscription[];
+  }
 
-    // Calculate amounts
-    const amount = subscription.monthly_amount;
-    const tax = Math.round(amount * 0.11); // 11% tax
-    const total = amount + tax;
+  private async toPreviewEntry(
+    draft: InvoiceDraft
+  ): Promise<BillingPreviewEntry> {
+    const billingAccountId = draft.account?.id ?? null;
+
+    // Compare with the customer's last invoice on the same account
+    let query = this.supabase
+      .from('invoices')
+      .select('total')
+      .eq('user_id', draft.userId)
+      .not('status', 'in', '(draft,cancelled,void)');
+    query = billingAccountId
+      ? query.eq('billing_account_id', billingAccountId)
+      : query.is('billing_account_id', null);
+
+    const { data: previous, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    // Set due date (30 days from now)
-    const dueDate = new Date();
-    dueDate.setDate(dueDate.getDate() + 30);
+    if (error) {
+      throw new Error(`Failed to fetch previous invoice: ${error.message}`);
+    }
 
-    // Create invoice
-    const invoice = await this.paymentService.createInvoice({
-      invoiceNumber,
-      userId: subscription.user_id,
-      transactionId: null, // Will be set when payment is made
-      amount,
-      tax,
-      total,
-      dueDate,
-      status: 'sent',
-      items: [
-        {
-          id: '1',
-          description: `${packageData.name} - Monthly Subscription`,
-          quantity: 1,
-          unitPrice: amount,
-          total: amount,
-        },
-        {
-          id: '2',
-          description: 'Tax (11%)',
-          quantity: 1,
-          unitPrice: tax,
-          total: tax,
-        },
-      ],
-    });
+    const { taxCalculation } = draft;
+    const previousTotal = previous ? Number(previous.total) : null;
+
+    return {
+      userId: draft.userId,
+      billingAccountId,
+      subscriptionIds: draft.billed.map(entry => entry.subscription.id),
+      period: draft.period,
+      subtotal: taxCalculation.subtotal,
+      tax: taxCalculation.vat,
+      taxWithheld: taxCalculation.withheld,
+      total: taxCalculation.total,
+      items: taxCalculation.items,
+      previousTotal,
+      anomalies: findAnomalies(taxCalculation.total, previousTotal),
+    };
+  }
 
-    logger.info(
-      `Created invoice ${invoice.invoiceNumber} for user ${subscription.user_id}`
+  /** Null if the subscription was already billed for this cycle */
+  private async generateInvoiceForSubscription(
+    subscription: ServiceSubscription,
+    jobRunId?: string
+  ): Promise<Invoice | null> {
+    return this.issueInvoice(
+      await this.draftSubscriptionInvoice(subscription),
+      jobRunId
     );
   }
 
-  private async updateNextBillingDate(
-    subscription: ServiceSubscription
-  ): Promise<void> {
-    const nextBillingDate = new Date();
-    nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
-    nextBillingDate.setDate(subscription.billing_day);
+  private async draftSubscriptionInvoice(
+    subscription: ServiceSubscription,
+    dryRun = false
+  ): Promise<InvoiceDraft> {
+    // Charges are billed for the cycle starting on the billing date
+    const period = subscription.next_billing_date.slice(0, 10);
+    const billed = await this.collectSubscriptionLines(subscription, period);
 
-    const { error } = await supabase
-      .from('service_subscriptions')
-      .update({
-        next_billing_date: nextBillingDate.toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', subscription.id);
+    return this.draftInvoice(subscription.user_id, [billed], period, dryRun);
+  }
 
-    if (error) {
-      throw new Error(`Failed to update next billing date: ${error.message}`);
+  /**
+   * One invoice for every site in a billing account, issued to the payer on
+   * the account's payment terms and itemized by site.
+   */
+  private async generateInvoiceForAccount(
+    account: BillingAccount,
+    jobRunId?: string
+  ): Promise<Invoice | null> {
+    const draft = await this.draftAccountInvoice(account);
+    return draft ? this.issueInvoice(draft, jobRunId) : null;
+  }
+
+  private async draftAccountInvoice(
+    account: BillingAccount,
+    dryRun = false
+  ): Promise<InvoiceDraft | null> {
+    const sites = await this.billingAccountService.getSites(account.id);
+    if (sites.length === 0) {
+      logger.info(`Billing account ${account.id} has no active sites`);
+      return null;
     }
+
+    const period = account.next_billing_date.slice(0, 10);
+    const claimed = new Set<string>();
+    const billed: BilledSubscription[] = [];
+    for (const site of sites) {
+      billed.push(
+        await this.collectSubscriptionLines(
+          site.subscription,
+          period,
+          site.siteLabel,
+          claimed
+        )
+      );
+    }
+
+    return this.draftInvoice(
+      account.payer_user_id,
+      billed,
+      period,
+      dryRun,
+      account
+    );
   }
 
-  async checkOverdueInvoices(): Promise<{
-    success: boolean;
-    processed: number;
-    errors: string[];
-  }> {
-    const result = { success: true, processed: 0, errors: [] as string[] };
+  /**
+   * The subscription's own lines: its monthly price, attached charges and
+   * the promotions discounting them. `claimed` holds redemptions already
+   * used on this invoice, so one promotion can't discount two sites.
+   */
+  private async collectSubscriptionLines(
+    subscription: ServiceSubscription,
+    period: string,
+    siteLabel?: string,
+    claimed: Set<string> = new Set()
+  ): Promise<BilledSubscription> {
+    // Get package details
+    const { data: packageData, error: packageError } = await this.supabase
+      .from('packages')
+      .select('*')
+      .eq('id', subscription.package_id)
+      .single();
 
-    try {
-      logger.info('Checking for overdue invoices');
+    if (packageError || !packageData) {
+      throw ErrorFactory.resourceNotFound('Package', subscription.package_id);
+    }
 
-      const today = new Date();
+    const monthlyAmount = Number(subscription.monthly_amount);
+    const lines: TaxableLine[] = [
+      {
+        description: `${packageData.name} - Monthly Subscription`,
+        quantity: 1,
+        unitPrice: monthlyAmount,
+        total: monthlyAmount,
+        category: 'recurring_service',
+      },
+    ];
+
+    // Installation, rentals, add-ons and deposits attached to the subscription
+    const charges = await this.chargeService.getDueCharges(
+      subscription.id,
+      period
+    );
+    lines.push(...charges.map(chargeLine));
+
+    // Promotions come off first, so credits only cover what is left
+    const discounts = buildDiscountLines(
+      lines,
+      (
+        await this.promotionService.getActiveRedemptions(subscription.user_id)
+      ).filter(
+        redeemed =>
+          !claimed.has(redeemed.redemption.id) &&
+          appliesToSubscription(redeemed, subscription)
+      )
+    );
+    lines.push(...discounts.lines);
+    for (const discount of discounts.applied) {
+      claimed.add(discount.redemption.id);
+    }
 
-      // Get invoices that are past due but not marked as overdue
-      const { data: invoices, error } = await supabase
-        .from('invoices')
-        .select('*')
-        .in('status', ['sent'])
-        .lt('due_date', today.toISOString());
+    return {
+      subscription,
+      lines: siteLabel ? lines.map(line => ({ ...line, siteLabel })) : lines,
+      charges,
+      discounts: discounts.applied,
+      siteLabel,
+    };
+  }
 
-      if (error) {
-        throw new Error(`Failed to fetch invoices: ${error.message}`);
-      }
+  /**
+   * Works out the invoice without writing anything, except that closing
+   * ended data cap cycles records their overage unless this is a dry run.
+   */
+  private async draftInvoice(
+    userId: string,
+    billed: BilledSubscription[],
+    period: string,
+    dryRun: boolean,
+    account?: BillingAccount
+  ): Promise<InvoiceDraft> {
+    const lines = billed.flatMap(entry => entry.lines);
+
+    // Overage from data cap cycles closed since the last invoice. Added after
+    // promotions, which only discount the subscriptions themselves.
+    const overageCharges: UsageOverageCharge[] = [];
+    for (const overageUser of new Set(
+      billed.map(entry => entry.subscription.user_id)
+    )) {
+      const closed = await this.usageBillingService.closeEndedCycles(
+        overageUser,
+        new Date(),
+        { dryRun }
+      );
+      overageCharges.push(
+        ...(await this.usageBillingService.getUnbilledCharges(overageUser)),
+        ...(dryRun ? closed : [])
+      );
+    }
+    lines.push(...overageCharges.map(overageLine));
+
+    let chargeable = lines.reduce((sum, line) => sum + line.total, 0);
+
+    // Apply any credit left over from a downgrade
+    const planChangeCredits: InvoiceDraft['planChangeCredits'] = [];
+    for (const entry of billed) {
+      const available = Number(entry.subscription.proration_credit || 0);
+      const applied = Math.min(available, chargeable);
+      if (!(applied > 0)) continue;
+
+      chargeable -= applied;
+      planChangeCredits.push({
+        subscription: entry.subscription,
+        applied,
+      });
+      lines.push({
+        description: 'Plan change credit',
+        quantity: 1,
+        unitPrice: -applied,
+        total: -applied,
+        category: 'recurring_service',
+        itemType: 'credit',
+        ...(entry.siteLabel && { siteLabel: entry.siteLabel }),
+      });
+    }
 
-      if (!invoices || invoices.length === 0) {
-        logger.info('No overdue invoices found');
-        return result;
-      }
+    // Then draw down the customer's credit balance from credit notes
+    const accountCredit = creditToApply(
+      await this.creditService.getBalance(userId),
+      chargeable
+    );
 
-      logger.info(`Found ${invoices.length} overdue invoices`);
+    if (accountCredit > 0) {
+      lines.push({
+        description: 'Account credit',
+        quantity: 1,
+        unitPrice: -accountCredit,
+        total: -accountCredit,
+        category: 'recurring_service',
+        itemType: 'credit',
+      });
+    }
 
-      for (const invoice of invoices) {
-        try {
-          await this.paymentService.updateInvoiceStatus(invoice.id, 'overdue');
-          result.processed++;
+    const taxCalculation = await this.taxService.calculateInvoiceTax(
+      userId,
+      lines
+    );
 
-          // Send overdue notification (would integrate with notification service)
-          await this.sendOverdueNotification(invoice);
+    // Prepaid cycles are paid up front; account sites always bill postpaid
+    const prepaid =
+      !account &&
+      billed.every(entry => entry.subscription.billing_mode === 'prepaid');
 
-          logger.info(`Marked invoice ${invoice.invoice_number} as overdue`);
-        } catch (error) {
-          const errorMsg = `Failed to process overdue invoice ${invoice.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-          result.errors.push(errorMsg);
-          logger.error(errorMsg);
-        }
-      }
+    // Due on the account's NET terms, otherwise 30 days from now
+    const paymentTermsDays = prepaid ? 0 : (account?.payment_terms_days ?? 30);
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + paymentTermsDays);
+
+    return {
+      userId,
+      billed,
+      period,
+      account,
+      overageCharges,
+      planChangeCredits,
+      accountCredit,
+      taxCalculation,
+      dueDate,
+      paymentTermsDays,
+      prepaid,
+    };
+  }
 
-      logger.info(
-        `Overdue invoice check completed. Processed: ${result.processed}, Errors: ${result.errors.length}`
-      );
+  /**
+   * Creates the drafted invoice, settling what it used up in the same
+   * transaction. The billing cycle is claimed for its subscriptions first;
+   * if any was already billed for it, nothing is created and null is
+   * returned.
+   */
+  private async issueInvoice(
+    draft: InvoiceDraft,
+    jobRunId?: string
+  ): Promise<Invoice | null> {
+    const {
+      userId,
+      billed,
+      period,
+      account,
+      overageCharges,
+      planChangeCredits,
+      accountCredit,
+      taxCalculation,
+      dueDate,
+      paymentTermsDays,
+      prepaid,
+    } = draft;
+
+    const subscriptionIds = billed.map(entry => entry.subscription.id);
+    if (
+      !(await this.jobRunService.claimPeriod(subscriptionIds, period, jobRunId))
+    ) {
+      return null;
+    }
 
-      return result;
+    // Create invoice
+    let invoice: Invoice;
+    try {
+      invoice = await this.paymentService.createInvoice({
+        userId,
+        transactionId: null, // Will be set when payment is made
+        amount: taxCalculation.subtotal,
+        subtotal: taxCalculation.subtotal,
+        tax: taxCalculation.vat,
+        total: taxCalculation.total,
+        taxWithheld: taxCalculation.withheld,
+        taxDetails: taxCalculation.applied,
+        dueDate,
+        // Fully covered by credit: nothing left to collect
+        status: taxCalculation.total > 0 ? 'sent' : 'paid',
+        items: taxCalculation.items,
+        prepaid,
+        ...(account && {
+          billingAccountId: account.id,
+          poNumber: account.po_number,
+          paymentTermsDays,
+        }),
+        settlement: {
+          period,
+          planChangeCredits: planChangeCredits.map(credit => ({
+            subscriptionId: credit.subscription.id,
+            amount: credit.applied,
+          })),
+          accountCredit,
+          overageChargeIds: overageCharges.map(charge => charge.id),
+          chargeIds: billed.flatMap(entry =>
+            entry.charges.map(charge => charge.id)
+          ),
+          promotions: billed.flatMap(entry =>
+            entry.discounts.map(discount => ({
+              redemptionId: discount.redemption.id,
+              subscriptionId: entry.subscription.id,
+              amount: discount.amount,
+            }))
+          ),
+        },
+      });
     } catch (error) {
-      result.success = false;
-      result.errors.push(
-        `Overdue check error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      await this.jobRunService.releasePeriod(subscriptionIds, period);
+      throw error;
+    }
+    await this.jobRunService.recordPeriodInvoice(
+      subscriptionIds,
+      period,
+      invoice.id
+    );
+
+    logger.info(`Created invoice ${invoice.invoiceNumber} for user ${userId}`);
+
+    return invoice;
+  }
+
+  /**
+   * Charges a new invoice to the customer's autopay method. A failed charge
+   * leaves the invoice open for the normal payment link.
+   */
+  private async tryAutopay(invoice: Invoice): Promise<void> {
+    if (invoice.status !== 'sent') return;
+
+    try {
+      await this.autopayService.chargeInvoice({
+        id: invoice.id,
+        user_id: invoice.userId,
+        invoice_number: invoice.invoiceNumber,
+        total: invoice.total,
+        status: invoice.status,
+      });
+    } catch (error) {
+      logger.error(
+        `Autopay failed for invoice ${invoice.invoiceNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
-      logger.error('Overdue invoice check failed', error);
-      return result;
     }
   }
 
-  private async sendOverdueNotification(invoice: {
-    id: string;
-    user_id: string;
-    invoice_number: string;
-  }): Promise<void> {
-    // Get user's billing preferences
-    const { data: preferences, error } = await supabase
-      .from('billing_preferences')
+  /**
+   * Pays a new prepaid invoice from the customer's wallet, suspending
+   * service if the balance doesn't cover it. The invoice stays open and is
+   * paid by the next top-up.
+   */
+  private async chargeWallet(invoice: Invoice): Promise<void> {
+    if (invoice.status !== 'sent') return;
+
+    const walletInvoice = {
+      id: invoice.id,
+      user_id: invoice.userId,
+      invoice_number: invoice.invoiceNumber,
+      total: invoice.total,
+    };
+    if (await this.walletService.payInvoice(walletInvoice)) return;
+
+    await this.walletService.suspendForBalance(walletInvoice);
+  }
+
+  /**
+   * Warns prepaid customers billed within the next few days whose wallet
+   * won't cover the cycle, using a dry run of the invoice they'll get.
+   */
+  async sendLowBalanceNotices(now: Date = new Date()): Promise<JobOutcome> {
+    const result = {
+      success: true,
+      processed: 0,
+      errors: [] as string[],
+      details: { notices: 0 },
+    };
+
+    const horizon = new Date(now);
+    horizon.setDate(horizon.getDate() + LOW_BALANCE_NOTICE_DAYS);
+
+    const { data, error } = await this.supabase
+      .from('service_subscriptions')
       .select('*')
-      .eq('user_id', invoice.user_id)
-      .single();
+      .eq('is_active', true)
+      .eq('billing_mode', 'prepaid')
+      .is('billing_account_id', null)
+      .lte('next_billing_date', horizon.toISOString());
 
-    if (error || !preferences?.overdue_reminders) {
-      return; // User doesn't want overdue notifications
+    if (error) {
+      throw new Error(
+        `Failed to fetch prepaid subscriptions: ${error.message}`
+      );
     }
 
-    // Get user details
-    const { data: user, error: userError } =
-      await supabase.auth.admin.getUserById(invoice.user_id);
-
-    if (userError || !user.user) {
-      return;
+    for (const subscription of (data || []) as ServiceSubscription[]) {
+      try {
+        const draft = await this.draftSubscriptionInvoice(subscription, true);
+        if (
+          await this.walletService.notifyLowBalance(
+            subscription,
+            draft.taxCalculation.total
+          )
+        ) {
+          result.details.notices++;
+        }
+        result.processed++;
+      } catch (err) {
+        result.errors.push(
+          `Failed to check prepaid balance for subscription ${subscription.id}: ${err instanceof Error ? err.message : 'Unknown error'}`
+        );
+      }
     }
 
-    // Send notification (this would integrate with your email/SMS service)
-    logger.info(
-      `Overdue notification sent to user ${invoice.user_id} for invoice ${invoice.invoice_number}`
-    );
+    return result;
+  }
 
-    // For now, just log - in production you'd send actual email/SMS
-    if (preferences.email_notifications && user.user.email) {
-      // TODO: Send email notification
-      logger.info(
-        `Email overdue notification would be sent to ${user.user.email}`
-      );
-    }
+  private async updateNextBillingDate(
+    subscription: ServiceSubscription
+  ): Promise<void> {
+    const nextBillingDate = new Date();
+    nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
+    nextBillingDate.setDate(subscription.billing_day);
 
-    if (preferences.sms_notifications) {
-      // TODO: Send SMS notification
-      logger.info(
-        `SMS overdue notification would be sent to user ${invoice.user_id}`
-      );
+    const { error } = await this.supabase
+      .from('service_subscriptions')
+      .update({
+        next_billing_date: nextBillingDate.toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', subscription.id);
+
+    if (error) {
+      throw new Error(`Failed to update next billing date: ${error.message}`);
     }
   }
+
+  /**
+   * Runs the dunning schedule: reminders, overdue marking, late fees and
+   * suspension after the grace period.
+   */
+  async checkOverdueInvoices(
+    today: Date = new Date()
+  ): Promise<DunningRunResult> {
+    return this.dunningService.run(today);
+  }
+
+  /**
+   * Polls the gateway for payments left pending by a lost notification.
+   */
+  async reconcilePayments(now: Date = new Date()) {
+    return this.reconciliationService.run(now);
+  }
+
+  /**
+   * Retries autopay charges that were softly declined.
+   */
+  async retryAutopay(now: Date = new Date()) {
+    return this.autopayService.retryDue(now);
+  }
 }
 
 // Scheduled job handler for Cloudflare Workers
 export async function handleScheduled(_event: ScheduledEvent): Promise<void> {
   try {
-    const scheduler = new BillingScheduler();
-
-    // Generate monthly invoices
-    const invoiceResult = await scheduler.generateMonthlyInvoices();
-
-    // Check for overdue invoices
-    const overdueResult = await scheduler.checkOverdueInvoices();
+    const { locked, runs } = await new BillingScheduler().runScheduledJobs();
+    if (!locked) return;
 
     logger.info('Scheduled billing tasks completed', {
-      invoices: invoiceResult,
-      overdue: overdueResult,
+      jobs: runs.map(run => `${run.job_name}:${run.status}`).join(','),
+      processed: runs.reduce((sum, run) => sum + run.processed, 0),
+      errors: runs.reduce((sum, run) => sum + run.error_count, 0),
     });
   } catch (error) {
     logger.error('Scheduled billing tasks failed', error);
@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../logger';
+import {
+  DEFAULT_TAX_PROFILE,
+  DEFAULT_TAX_RULES,
+  calculateTax,
+  type CustomerTaxProfile,
+  type CustomerType,
+  type TaxCalculation,
+  type TaxableLine,
+  type TaxRule,
+} from './tax';
+
+interface TaxRuleRow {
+  code: string;
+  name: string;
+  kind: TaxRule['kind'];
+  rate: number;
+  categories: TaxRule['categories'];
+  customer_types: TaxRule['customerTypes'] | null;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+export interface CustomerTaxProfileRow {
+  user_id: string;
+  customer_type: CustomerType;
+  tax_exempt: boolean;
+  exemption_reference: string | null;
+  npwp: string | null;
+  withholds_pph23: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomerTaxProfileInput = Pick<
+  CustomerTaxProfileRow,
+  'customer_type' | 'tax_exempt' | 'withholds_pph23'
+> &
+  Partial<Pick<CustomerTaxProfileRow, 'exemption_reference' | 'npwp'>>;
+
+export class TaxService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Loads the configured tax rules, falling back to the built-in defaults
+   */
+  async getRules(): Promise<TaxRule[]> {
+    const { data, error } = await this.supabase
+      .from('tax_rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('effective_from', { ascending: true });
+
+    if (error || !data || data.length === 0) {
+      if (error) {
+        logger.warn('Falling back to default tax rules', {
+          module: 'billing',
+          submodule: 'tax',
+          operation: 'getRules',
+          error: error.message,
+        });
+      }
+      return DEFAULT_TAX_RULES;
+    }
+
+    return (data as TaxRuleRow[]).map(row => ({
+      code: row.code,
+      name: row.name,
+      kind: row.kind,
+      rate: Number(row.rate),
+      categories: row.categories,
+      customerTypes: row.customer_types ?? undefined,
+      effectiveFrom: row.effective_from,
+      effectiveTo: row.effective_to,
+    }));
+  }
+
+  /**
+   * Reads a customer's tax status from the profile finance keeps for them.
+   * Customers without one are taxed as individuals. The tax details
+   * customers enter in their billing settings never change what they owe.
+   */
+  async getCustomerTaxProfile(userId: string): Promise<CustomerTaxProfile> {
+    const row = await this.getCustomerTaxProfileRow(userId);
+    if (!row) {
+      return DEFAULT_TAX_PROFILE;
+    }
+
+    return {
+      customerType: row.customer_type,
+      taxExempt: row.tax_exempt,
+      exemptionReference: row.exemption_reference || undefined,
+      npwp: row.npwp || undefined,
+      withholdsPph23: row.customer_type === 'corporate' && row.withholds_pph23,
+    };
+  }
+
+  async getCustomerTaxProfileRow(
+    userId: string
+  ): Promise<CustomerTaxProfileRow | null> {
+    const { data, error } = await this.supabase
+      .from('customer_tax_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch customer tax profile: ${error.message}`);
+    }
+
+    return data as CustomerTaxProfileRow | null;
+  }
+
+  /**
+   * Sets a customer's tax status (admin). Applies to invoices issued from
+   * now on; issued invoices keep the tax they were calculated with.
+   */
+  async setCustomerTaxProfile(
+    userId: string,
+    input: CustomerTaxProfileInput,
+    updatedBy: string
+  ): Promise<CustomerTaxProfileRow> {
+    const { data, error } = await this.supabase
+      .from('customer_tax_profiles')
+      .upsert(
+        {
+          user_id: userId,
+          customer_type: input.customer_type,
+          tax_exempt: input.tax_exempt,
+          exemption_reference: input.exemption_reference ?? null,
+          npwp: input.npwp ?? null,
+          withholds_pph23: input.withholds_pph23,
+          updated_by: updatedBy,
+        },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save customer tax profile: ${error.message}`);
+    }
+
+    logger.info('Customer tax profile updated', {
+      module: 'billing',
+      submodule: 'tax',
+      operation: 'setCustomerTaxProfile',
+      userId,
+      updatedBy,
+      customerType: input.customer_type,
+      taxExempt: input.tax_exempt,
+      withholdsPph23: input.withholds_pph23,
+    });
+
+    return data as CustomerTaxProfileRow;
+  }
+
+  async calculateInvoiceTax(
+    userId: string,
+    lines: TaxableLine[],
+    invoiceDate: Date = new Date()
+  ): Promise<TaxCalculation> {
+    const [rules, profile] = await Promise.all([
+      this.getRules(),
+      this.getCustomerTaxProfile(userId),
+    ]);
+
+    return calculateTax(lines, rules, profile, invoiceDate);
+  }
+}
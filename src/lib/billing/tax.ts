@@ -0,0 +1,234 @@
+import type { InvoiceItem } from '../payments/types';
+
+export type TaxCategory =
+  | 'recurring_service'
+  | 'installation'
+  | 'equipment_rental'
+  | 'deposit'
+  | 'late_fee'
+  | 'adjustment';
+
+export type TaxKind = 'vat' | 'withholding';
+
+export type CustomerType = 'individual' | 'corporate';
+
+export interface TaxRule {
+  code: string;
+  name: string;
+  kind: TaxKind;
+  rate: number;
+  categories: TaxCategory[];
+  customerTypes?: CustomerType[];
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+}
+
+export interface CustomerTaxProfile {
+  customerType: CustomerType;
+  taxExempt: boolean;
+  exemptionReference?: string;
+  npwp?: string;
+  withholdsPph23: boolean;
+}
+
+export interface TaxableLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  category: TaxCategory;
+  itemType?: InvoiceItem['itemType'];
+  siteLabel?: string;
+}
+
+export interface AppliedTax {
+  code: string;
+  name: string;
+  kind: TaxKind;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxCalculation {
+  subtotal: number;
+  vat: number;
+  withheld: number;
+  total: number;
+  applied: AppliedTax[];
+  items: InvoiceItem[];
+}
+
+/**
+ * Built-in rules used when the tax_rules table is empty or unreachable.
+ * PPN moved from 10% to 11% on 1 April 2022 (UU HPP).
+ */
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  {
+    code: 'PPN',
+    name: 'PPN 10%',
+    kind: 'vat',
+    rate: 0.1,
+    categories: ['recurring_service', 'installation', 'equipment_rental'],
+    effectiveFrom: '2010-01-01',
+    effectiveTo: '2022-04-01',
+  },
+  {
+    code: 'PPN',
+    name: 'PPN 11%',
+    kind: 'vat',
+    rate: 0.11,
+    categories: ['recurring_service', 'installation', 'equipment_rental'],
+    effectiveFrom: '2022-04-01',
+    effectiveTo: null,
+  },
+  {
+    code: 'PPH23',
+    name: 'PPh 23',
+    kind: 'withholding',
+    rate: 0.02,
+    categories: ['recurring_service', 'installation', 'equipment_rental'],
+    customerTypes: ['corporate'],
+    effectiveFrom: '2009-01-01',
+    effectiveTo: null,
+  },
+];
+
+export const DEFAULT_TAX_PROFILE: CustomerTaxProfile = {
+  customerType: 'individual',
+  taxExempt: false,
+  withholdsPph23: false,
+};
+
+/**
+ * Picks the rules in force on the given date, one per tax code.
+ */
+export function getRulesInEffect(rules: TaxRule[], date: Date): TaxRule[] {
+  const byCode = new Map<string, TaxRule>();
+
+  for (const rule of rules) {
+    const from = new Date(rule.effectiveFrom);
+    const to = rule.effectiveTo ? new Date(rule.effectiveTo) : null;
+    if (date < from || (to && date >= to)) continue;
+
+    const current = byCode.get(rule.code);
+    if (!current || new Date(current.effectiveFrom) < from) {
+      byCode.set(rule.code, rule);
+    }
+  }
+
+  return [...byCode.values()];
+}
+
+function ruleApplies(
+  rule: TaxRule,
+  category: TaxCategory,
+  profile: CustomerTaxProfile
+): boolean {
+  if (!rule.categories.includes(category)) return false;
+  if (rule.kind === 'vat') return !profile.taxExempt;
+
+  return (
+    profile.withholdsPph23 &&
+    (!rule.customerTypes || rule.customerTypes.includes(profile.customerType))
+  );
+}
+
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+/**
+ * Applies the tax rules in force on invoiceDate to a set of invoice lines.
+ * Credit lines carry the category of what they credit so they reduce the
+ * taxable base. Returns the charge lines annotated with the rule and rate
+ * applied, followed by one line per tax, ready to store on the invoice.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  rules: TaxRule[],
+  profile: CustomerTaxProfile,
+  invoiceDate: Date
+): TaxCalculation {
+  const rulesInEffect = getRulesInEffect(rules, invoiceDate);
+  const taxableByCode = new Map<string, number>();
+  const items: InvoiceItem[] = [];
+
+  for (const line of lines) {
+    const applicable = rulesInEffect.filter(rule =>
+      ruleApplies(rule, line.category, profile)
+    );
+    const vatRule = applicable.find(rule => rule.kind === 'vat');
+
+    for (const rule of applicable) {
+      taxableByCode.set(
+        rule.code,
+        (taxableByCode.get(rule.code) || 0) + line.total
+      );
+    }
+
+    items.push({
+      id: String(items.length + 1),
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      total: line.total,
+      itemType: line.itemType || 'charge',
+      taxCategory: line.category,
+      taxRuleCode: vatRule?.code ?? null,
+      taxRate: vatRule?.rate ?? 0,
+      ...(line.siteLabel && { siteLabel: line.siteLabel }),
+    });
+  }
+
+  const applied: AppliedTax[] = rulesInEffect
+    .filter(rule => taxableByCode.has(rule.code))
+    .map(rule => {
+      const taxableAmount = Math.max(0, taxableByCode.get(rule.code) || 0);
+      return {
+        code: rule.code,
+        name: rule.name,
+        kind: rule.kind,
+        rate: rule.rate,
+        taxableAmount,
+        amount: Math.round(taxableAmount * rule.rate),
+      };
+    })
+    .filter(tax => tax.amount > 0);
+
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  let vat = 0;
+  let withheld = 0;
+
+  for (const tax of applied) {
+    const isVat = tax.kind === 'vat';
+    const amount = isVat ? tax.amount : -tax.amount;
+    if (isVat) {
+      vat += tax.amount;
+    } else {
+      withheld += tax.amount;
+    }
+
+    items.push({
+      id: String(items.length + 1),
+      description: isVat
+        ? `${tax.code} ${formatRate(tax.rate)}`
+        : `${tax.name} withheld (${formatRate(tax.rate)})`,
+      quantity: 1,
+      unitPrice: amount,
+      total: amount,
+      itemType: 'tax',
+      taxRuleCode: tax.code,
+      taxRate: tax.rate,
+    });
+  }
+
+  return {
+    subtotal,
+    vat,
+    withheld,
+    total: subtotal + vat - withheld,
+    applied,
+    items,
+  };
+}
@@ -0,0 +1,66 @@
+const UNITS = [
+  '',
+  'satu',
+  'dua',
+  'tiga',
+  'empat',
+  'lima',
+  'enam',
+  'tujuh',
+  'delapan',
+  'sembilan',
+  'sepuluh',
+  'sebelas',
+];
+
+const SCALES: Array<[number, string]> = [
+  [1e12, 'triliun'],
+  [1e9, 'miliar'],
+  [1e6, 'juta'],
+];
+
+function spellBelowThousand(value: number): string {
+  if (value < 12) return UNITS[value];
+  if (value < 20) return `${UNITS[value - 10]} belas`;
+  if (value < 100) {
+    const rest = value % 10;
+    return `${UNITS[Math.floor(value / 10)]} puluh${rest ? ` ${UNITS[rest]}` : ''}`;
+  }
+
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const head = hundreds === 1 ? 'seratus' : `${UNITS[hundreds]} ratus`;
+  return rest ? `${head} ${spellBelowThousand(rest)}` : head;
+}
+
+function spell(value: number): string {
+  for (const [scale, word] of SCALES) {
+    if (value >= scale) {
+      const rest = value % scale;
+      const head = `${spell(Math.floor(value / scale))} ${word}`;
+      return rest ? `${head} ${spell(rest)}` : head;
+    }
+  }
+
+  if (value >= 1000) {
+    const thousands = Math.floor(value / 1000);
+    const rest = value % 1000;
+    const head =
+      thousands === 1 ? 'seribu' : `${spellBelowThousand(thousands)} ribu`;
+    return rest ? `${head} ${spellBelowThousand(rest)}` : head;
+  }
+
+  return spellBelowThousand(value);
+}
+
+/**
+ * Spells out a rupiah amount in Indonesian, as printed on a kwitansi,
+ * e.g. 222000 -> "Dua Ratus Dua Puluh Dua Ribu Rupiah".
+ */
+export function terbilang(amount: number): string {
+  const value = Math.round(Math.abs(amount));
+  const words = value === 0 ? 'nol' : spell(value);
+  const text = `${amount < 0 ? 'minus ' : ''}${words} rupiah`;
+
+  return text.replace(/\b\w/g, letter => letter.toUpperCase());
+}
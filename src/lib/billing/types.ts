@@ -0,0 +1,537 @@
+import type { TaxCategory } from './tax';
+
+export interface ServiceSubscription {
+  id: string;
+  user_id: string;
+  package_id: string;
+  monthly_amount: number;
+  billing_day: number;
+  is_active: boolean;
+  next_billing_date: string;
+  proration_credit?: number;
+  billing_account_id?: string | null;
+  service_address_id?: string | null;
+  price_plan_id?: string | null;
+  /** Exempt from package price changes */
+  price_locked?: boolean;
+  billing_mode?: BillingMode;
+  /** Billing date the last low-balance notice was sent ahead of */
+  low_balance_notice_for?: string | null;
+  /** When the subscription was deactivated */
+  ended_at?: string | null;
+}
+
+/** Prepaid cycles are paid from the customer's wallet when they start */
+export type BillingMode = 'postpaid' | 'prepaid';
+
+export interface BillingPackage {
+  id: string;
+  name: string;
+  price: number;
+  /** Price plan the price comes from, if the package has one */
+  pricePlanId?: string | null;
+}
+
+export interface ProrationInput {
+  oldMonthlyAmount: number;
+  newMonthlyAmount: number;
+  changeDate: Date;
+  nextBillingDate: Date;
+}
+
+export interface ProrationResult {
+  daysInCycle: number;
+  daysRemaining: number;
+  cycleStart: Date;
+  cycleEnd: Date;
+  credit: number;
+  charge: number;
+  net: number;
+}
+
+export interface PlanChangePreview extends ProrationResult {
+  subscriptionId: string;
+  fromPackage: BillingPackage;
+  toPackage: BillingPackage;
+  tax: number;
+  taxWithheld: number;
+  amountDueToday: number;
+  carriedCredit: number;
+}
+
+export interface PlanChangeRecord {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  from_package_id: string;
+  to_package_id: string;
+  old_monthly_amount: number;
+  new_monthly_amount: number;
+  days_remaining: number;
+  days_in_cycle: number;
+  credit_amount: number;
+  charge_amount: number;
+  invoice_id: string | null;
+  effective_date: string;
+  created_at: string;
+}
+
+export interface DunningPolicy {
+  /** Days relative to the due date on which a reminder is sent */
+  reminderOffsets: number[];
+  /** Days past due after which unpaid subscriptions are suspended */
+  gracePeriodDays: number;
+}
+
+export interface DunningPlan {
+  daysPastDue: number;
+  reminder?: { step: string; offsetDays: number };
+  suspend: boolean;
+}
+
+export interface DunningLogEntry {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  step: string;
+  offset_days: number | null;
+  channel: 'email' | 'sms' | 'system';
+  status: 'sent' | 'skipped' | 'failed';
+  recipient: string | null;
+  message: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface DunningRunResult {
+  success: boolean;
+  processed: number;
+  reminders: number;
+  suspended: number;
+  /** Late fees added to overdue invoices */
+  lateFees: number;
+  /** Invoices skipped because their installment plan is on schedule */
+  paused: number;
+  errors: string[];
+}
+
+export type CreditNoteReason =
+  | 'goodwill'
+  | 'service_outage'
+  | 'billing_error'
+  | 'overpayment'
+  | 'referral'
+  | 'deposit_release'
+  | 'other';
+
+export interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  user_id: string;
+  invoice_id: string | null;
+  amount: number;
+  reason: CreditNoteReason;
+  description: string | null;
+  issued_by: string | null;
+  created_at: string;
+}
+
+export type CreditLedgerEntryType =
+  'credit_note' | 'invoice_application' | 'payment_refund';
+
+export interface CreditLedgerEntry {
+  id: string;
+  user_id: string;
+  entry_type: CreditLedgerEntryType;
+  amount: number;
+  /** Signed effect on the credit balance; 0 for refunds paid out by the gateway */
+  balance_change: number;
+  balance_after: number;
+  credit_note_id: string | null;
+  invoice_id: string | null;
+  transaction_id: string | null;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreditStatement {
+  balance: number;
+  entries: CreditLedgerEntry[];
+}
+
+export type WalletLedgerEntryType = 'top_up' | 'deduction' | 'adjustment';
+
+export interface WalletLedgerEntry {
+  id: string;
+  user_id: string;
+  entry_type: WalletLedgerEntryType;
+  amount: number;
+  /** Signed effect on the wallet balance */
+  balance_change: number;
+  balance_after: number;
+  transaction_id: string | null;
+  invoice_id: string | null;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface WalletStatement {
+  balance: number;
+  entries: WalletLedgerEntry[];
+}
+
+export type VirtualAccountBank = 'bca' | 'bni' | 'mandiri';
+
+export interface CustomerVirtualAccount {
+  id: string;
+  user_id: string;
+  bank: VirtualAccountBank;
+  customer_number: number;
+  va_number: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VirtualAccountPayment {
+  id: string;
+  virtual_account_id: string;
+  user_id: string;
+  bank: VirtualAccountBank;
+  va_number: string;
+  reference: string;
+  amount: number;
+  paid_at: string;
+  transaction_id: string | null;
+  invoice_ids: string[];
+  applied_amount: number;
+  credited_amount: number;
+  credit_note_id: string | null;
+  /** Set while a callback delivery is allocating the payment */
+  processing_started_at: string | null;
+  created_at: string;
+}
+
+export interface AccountingExportRun {
+  id: string;
+  export_type: 'general_journal' | 'efaktur';
+  period_start: string;
+  period_end: string;
+  row_count: number;
+  invoice_count: number;
+  payment_count: number;
+  filename: string;
+  exported_by: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  created_at: string;
+}
+
+export type PromotionDiscountType = 'percentage' | 'fixed';
+
+export interface Promotion {
+  id: string;
+  /** Null for the referral promotion, redeemed through referral codes */
+  code: string | null;
+  name: string;
+  description: string | null;
+  discount_type: PromotionDiscountType;
+  discount_value: number;
+  applies_to: 'recurring_service' | 'installation' | 'equipment_rental';
+  /** Billing periods the discount runs for; null for no limit */
+  duration_months: number | null;
+  /** Empty means every package */
+  eligible_package_ids: string[];
+  max_redemptions: number | null;
+  redemption_count: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  is_referral: boolean;
+  referrer_credit_amount: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PromotionRedemptionStatus = 'active' | 'completed' | 'cancelled';
+
+export interface PromotionRedemption {
+  id: string;
+  promotion_id: string;
+  user_id: string;
+  subscription_id: string | null;
+  referred_by: string | null;
+  status: PromotionRedemptionStatus;
+  periods_applied: number;
+  total_discount: number;
+  referrer_credit_note_id: string | null;
+  redeemed_at: string;
+  updated_at: string;
+}
+
+export interface CustomerReferralCode {
+  id: string;
+  user_id: string;
+  code: string;
+  created_at: string;
+}
+
+export interface InvoiceNumberSeries {
+  id: string;
+  code: string;
+  name: string;
+  prefix: string;
+  branch_code: string | null;
+  /** Numbering restarts at 1 each calendar year (Asia/Jakarta) */
+  reset_yearly: boolean;
+  padding: number;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OveragePricingModel = 'per_gb' | 'block';
+
+export interface PackageOveragePricing {
+  id: string;
+  package_id: string;
+  pricing_model: OveragePricingModel;
+  price_per_gb: number | null;
+  block_size_gb: number | null;
+  block_price: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UsageOverageCharge {
+  id: string;
+  user_id: string;
+  data_cap_id: string;
+  package_id: string;
+  period_start: string;
+  /** Exclusive: the start of the following cycle */
+  period_end: string;
+  usage_gb: number;
+  cap_gb: number;
+  overage_gb: number;
+  pricing_model: OveragePricingModel;
+  block_size_gb: number | null;
+  units: number;
+  unit_price: number;
+  amount: number;
+  invoice_id: string | null;
+  created_at: string;
+}
+
+export type CustomerChargeType =
+  'installation' | 'equipment_rental' | 'static_ip' | 'deposit' | 'other';
+
+export type CustomerChargeFrequency = 'one_time' | 'monthly';
+
+export interface CustomerCharge {
+  id: string;
+  user_id: string;
+  subscription_id: string;
+  charge_type: CustomerChargeType;
+  description: string;
+  tax_category: TaxCategory;
+  unit_price: number;
+  quantity: number;
+  frequency: CustomerChargeFrequency;
+  starts_on: string;
+  /** Exclusive; monthly charges are not billed for cycles from this date */
+  ends_on: string | null;
+  status: 'active' | 'completed' | 'cancelled';
+  last_billed_period: string | null;
+  last_invoice_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerDeposit {
+  id: string;
+  user_id: string;
+  charge_id: string;
+  invoice_id: string;
+  amount: number;
+  status: 'billed' | 'released' | 'cancelled';
+  released_at: string | null;
+  released_by: string | null;
+  release_credit_note_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BillingAccount {
+  id: string;
+  payer_user_id: string;
+  account_name: string;
+  company_name: string | null;
+  npwp: string | null;
+  billing_address: string | null;
+  po_number: string | null;
+  /** NET terms: invoices fall due this many days after issue */
+  payment_terms_days: 30 | 45;
+  billing_day: number;
+  next_billing_date: string;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BillingAccountContact {
+  id: string;
+  billing_account_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  role: string | null;
+  is_primary: boolean;
+  receives_invoices: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BillingJobName =
+  | 'price_changes'
+  | 'invoice_generation'
+  | 'payment_reconciliation'
+  | 'dunning'
+  | 'autopay_retry'
+  | 'prepaid_notices';
+
+/** partial: the job ran but some items failed, so it may run again */
+export type BillingJobStatus =
+  'running' | 'succeeded' | 'partial' | 'failed' | 'skipped';
+
+export interface BillingJobRun {
+  id: string;
+  job_name: BillingJobName;
+  /** Day the run is for (Asia/Jakarta) */
+  period: string;
+  trigger: 'cron' | 'manual';
+  triggered_by: string | null;
+  status: BillingJobStatus;
+  processed: number;
+  error_count: number;
+  errors: string[];
+  details: Record<string, unknown>;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface PackagePricePlan {
+  id: string;
+  package_id: string;
+  monthly_price: number;
+  /** First day new subscriptions get this price */
+  effective_from: string;
+  /** Minimum notice existing subscribers get before paying it */
+  notice_days: number;
+  grandfather_existing: boolean;
+  description: string | null;
+  status: 'active' | 'cancelled';
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PriceChangeStatus =
+  'scheduled' | 'applied' | 'grandfathered' | 'cancelled';
+
+export interface SubscriptionPriceChange {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  price_plan_id: string;
+  old_amount: number;
+  new_amount: number;
+  status: PriceChangeStatus;
+  notice_sent_at: string | null;
+  effective_on: string | null;
+  applied_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LateFeeType = 'flat' | 'percentage';
+
+export interface LateFeeRule {
+  id: string;
+  name: string;
+  fee_type: LateFeeType;
+  /** Fee for flat rules */
+  amount: number | null;
+  /** Fraction of the invoice total for percentage rules, e.g. 0.02 */
+  rate: number | null;
+  /** Most a percentage rule charges per invoice */
+  max_amount: number | null;
+  /** Days past due before the fee is added */
+  days_after_due: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceLateFee {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  rule_id: string;
+  amount: number;
+  invoice_item_id: string | null;
+  created_at: string;
+}
+
+export type InstallmentPlanStatus = 'active' | 'completed' | 'cancelled';
+
+export interface InstallmentPlan {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  status: InstallmentPlanStatus;
+  total_amount: number;
+  installment_count: number;
+  notes: string | null;
+  created_by: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type InstallmentStatus = 'pending' | 'paid' | 'cancelled';
+
+export interface Installment {
+  id: string;
+  plan_id: string;
+  invoice_id: string;
+  user_id: string;
+  sequence: number;
+  amount: number;
+  due_date: string;
+  status: InstallmentStatus;
+  transaction_id: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceAdjustment {
+  id: string;
+  invoice_id: string;
+  user_id: string;
+  /** Positive adds to the invoice, negative takes off it */
+  amount: number;
+  description: string;
+  invoice_item_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
@@ -0,0 +1,351 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../logger';
+import { calculateOverage, cycleEnd, type OverageCalculation } from './usage';
+import type { PackageOveragePricing, UsageOverageCharge } from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+// Cycles closed per cap in one run, in case the scheduler was down for a while
+const MAX_CYCLES_PER_RUN = 12;
+
+interface DataCapRow {
+  id: string;
+  user_id: string;
+  package_id: string;
+  monthly_cap_gb: number;
+  current_usage_gb: number;
+  billing_cycle_start: string;
+}
+
+export type OveragePricingInput = Pick<
+  PackageOveragePricing,
+  'pricing_model' | 'price_per_gb' | 'block_size_gb' | 'block_price'
+> &
+  Partial<Pick<PackageOveragePricing, 'is_active'>>;
+
+/** What the customer's data cap page shows about overage billing */
+export interface OverageOverview {
+  pricing: PackageOveragePricing | null;
+  /** Charge the current cycle would incur if it closed now */
+  projected: OverageCalculation | null;
+  recentCharges: UsageOverageCharge[];
+}
+
+/** The charge closing a cycle would record, for dry runs */
+function pendingCharge(
+  cap: DataCapRow,
+  pricing: PackageOveragePricing,
+  periodStart: string,
+  periodEnd: string,
+  usageGb: number,
+  overage: OverageCalculation
+): UsageOverageCharge {
+  return {
+    id: '',
+    user_id: cap.user_id,
+    data_cap_id: cap.id,
+    package_id: cap.package_id,
+    period_start: periodStart,
+    period_end: periodEnd,
+    usage_gb: usageGb,
+    cap_gb: cap.monthly_cap_gb,
+    overage_gb: overage.overageGb,
+    pricing_model: pricing.pricing_model,
+    block_size_gb: pricing.block_size_gb,
+    units: overage.units,
+    unit_price: overage.unitPrice,
+    amount: overage.amount,
+    invoice_id: null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+export class UsageBillingService {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  async listPricing(): Promise<PackageOveragePricing[]> {
+    const { data, error } = await this.supabase
+      .from('package_overage_pricing')
+      .select('*')
+      .order('package_id', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list overage pricing: ${error.message}`);
+    }
+
+    return (data || []) as PackageOveragePricing[];
+  }
+
+  /** Applies to cycles that close from now on */
+  async setPricing(
+    packageId: string,
+    input: OveragePricingInput
+  ): Promise<PackageOveragePricing> {
+    const { data, error } = await this.supabase
+      .from('package_overage_pricing')
+      .upsert(
+        {
+          package_id: packageId,
+          pricing_model: input.pricing_model,
+          price_per_gb:
+            input.pricing_model === 'per_gb' ? input.price_per_gb : null,
+          block_size_gb:
+            input.pricing_model === 'block' ? input.block_size_gb : null,
+          block_price:
+            input.pricing_model === 'block' ? input.block_price : null,
+          is_active: input.is_active ?? true,
+        },
+        { onConflict: 'package_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save overage pricing: ${error.message}`);
+    }
+
+    return data as PackageOveragePricing;
+  }
+
+  async getPricing(packageId: string): Promise<PackageOveragePricing | null> {
+    const { data, error } = await this.supabase
+      .from('package_overage_pricing')
+      .select('*')
+      .eq('package_id', packageId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch overage pricing: ${error.message}`);
+    }
+
+    return data as PackageOveragePricing | null;
+  }
+
+  /**
+   * Closes the customer's data cap cycles that have ended, recording any
+   * overage and starting the next cycle. Safe to repeat: each cycle is
+   * closed once, guarded by its start date. A dry run returns the charges
+   * without recording them or moving any cycle on.
+   */
+  async closeEndedCycles(
+    userId: string,
+    now: Date = new Date(),
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<UsageOverageCharge[]> {
+    const { data: caps, error } = await this.supabase
+      .from('data_caps')
+      .select(
+        'id, user_id, package_id, monthly_cap_gb, current_usage_gb, billing_cycle_start'
+      )
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Failed to fetch data caps: ${error.message}`);
+    }
+
+    const today = now.toISOString().slice(0, 10);
+    const charges: UsageOverageCharge[] = [];
+
+    for (const cap of (caps || []) as DataCapRow[]) {
+      const pricing = await this.getPricing(cap.package_id);
+      let cycleStart = cap.billing_cycle_start;
+
+      for (
+        let closed = 0;
+        closed < MAX_CYCLES_PER_RUN && cycleEnd(cycleStart) <= today;
+        closed++
+      ) {
+        const periodEnd = cycleEnd(cycleStart);
+        const usageGb = await this.cycleUsage(userId, cycleStart);
+        const overage = pricing
+          ? calculateOverage(pricing, usageGb, cap.monthly_cap_gb)
+          : null;
+
+        if (dryRun) {
+          // Nothing is written; the cycle only moves on in memory
+          if (pricing && overage) {
+            charges.push(
+              pendingCharge(
+                cap,
+                pricing,
+                cycleStart,
+                periodEnd,
+                usageGb,
+                overage
+              )
+            );
+          }
+          cycleStart = periodEnd;
+          continue;
+        }
+
+        if (pricing && overage) {
+          const charge = await this.recordCharge(
+            cap,
+            pricing,
+            cycleStart,
+            periodEnd,
+            usageGb,
+            overage
+          );
+          if (charge) charges.push(charge);
+        }
+
+        const advanced = await this.startNextCycle(cap, cycleStart, periodEnd);
+        if (!advanced) break;
+        cycleStart = periodEnd;
+      }
+    }
+
+    return charges;
+  }
+
+  /** Closed-cycle overage not yet on an invoice */
+  async getUnbilledCharges(userId: string): Promise<UsageOverageCharge[]> {
+    const { data, error } = await this.supabase
+      .from('usage_overage_charges')
+      .select('*')
+      .eq('user_id', userId)
+      .is('invoice_id', null)
+      .order('period_start', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch overage charges: ${error.message}`);
+    }
+
+    return (data || []) as UsageOverageCharge[];
+  }
+
+  async getOverview(
+    userId: string,
+    dataCap: Pick<
+      DataCapRow,
+      'package_id' | 'monthly_cap_gb' | 'current_usage_gb'
+    > | null
+  ): Promise<OverageOverview> {
+    const pricing = dataCap ? await this.getPricing(dataCap.package_id) : null;
+
+    const { data, error } = await this.supabase
+      .from('usage_overage_charges')
+      .select('*')
+      .eq('user_id', userId)
+      .order('period_start', { ascending: false })
+      .limit(6);
+
+    if (error) {
+      throw new Error(`Failed to fetch overage charges: ${error.message}`);
+    }
+
+    return {
+      pricing,
+      projected:
+        pricing && dataCap
+          ? calculateOverage(
+              pricing,
+              Number(dataCap.current_usage_gb),
+              dataCap.monthly_cap_gb
+            )
+          : null,
+      recentCharges: (data || []) as UsageOverageCharge[],
+    };
+  }
+
+  private async cycleUsage(
+    userId: string,
+    cycleStart: string
+  ): Promise<number> {
+    const { data, error } = await this.supabase.rpc('calculate_monthly_usage', {
+      p_user_id: userId,
+      p_start_date: cycleStart,
+    });
+
+    if (error) {
+      throw new Error(`Failed to calculate cycle usage: ${error.message}`);
+    }
+
+    return Number(data || 0);
+  }
+
+  private async recordCharge(
+    cap: DataCapRow,
+    pricing: PackageOveragePricing,
+    periodStart: string,
+    periodEnd: string,
+    usageGb: number,
+    overage: OverageCalculation
+  ): Promise<UsageOverageCharge | null> {
+    const { data, error } = await this.supabase
+      .from('usage_overage_charges')
+      .insert({
+        user_id: cap.user_id,
+        data_cap_id: cap.id,
+        package_id: cap.package_id,
+        period_start: periodStart,
+        period_end: periodEnd,
+        usage_gb: usageGb,
+        cap_gb: cap.monthly_cap_gb,
+        overage_gb: overage.overageGb,
+        pricing_model: pricing.pricing_model,
+        block_size_gb: pricing.block_size_gb,
+        units: overage.units,
+        unit_price: overage.unitPrice,
+        amount: overage.amount,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Recorded by an earlier run that failed before starting the next cycle
+      if (error.code === UNIQUE_VIOLATION) return null;
+      throw new Error(`Failed to record overage charge: ${error.message}`);
+    }
+
+    logger.info('Data overage recorded', {
+      module: 'billing',
+      submodule: 'usage',
+      operation: 'closeEndedCycles',
+      userId: cap.user_id,
+      dataCapId: cap.id,
+      periodStart,
+      overageGb: overage.overageGb,
+      amount: overage.amount,
+    });
+
+    return data as UsageOverageCharge;
+  }
+
+  /**
+   * Moves the cap to its next cycle with the usage already recorded in it.
+   * Returns false if another run moved it first.
+   */
+  private async startNextCycle(
+    cap: DataCapRow,
+    cycleStart: string,
+    nextStart: string
+  ): Promise<boolean> {
+    const usageGb = await this.cycleUsage(cap.user_id, nextStart);
+
+    const { data, error } = await this.supabase
+      .from('data_caps')
+      .update({
+        billing_cycle_start: nextStart,
+        current_usage_gb: usageGb,
+        last_notified_at: {},
+      })
+      .eq('id', cap.id)
+      .eq('billing_cycle_start', cycleStart)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to start next data cap cycle: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+}
@@ -0,0 +1,88 @@
+import type { TaxableLine } from './tax';
+import type { PackageOveragePricing, UsageOverageCharge } from './types';
+
+export interface OverageCalculation {
+  overageGb: number;
+  /** Started GB, or started blocks for block pricing */
+  units: number;
+  unitPrice: number;
+  amount: number;
+}
+
+function roundGb(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The day a data cap cycle ends (exclusive), one month after it starts.
+ * Month-end starts clamp to the last day of the next month, as Postgres
+ * `date + INTERVAL '1 month'` does.
+ */
+export function cycleEnd(cycleStart: string): string {
+  const [year, month, day] = cycleStart.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Overage for a cycle's usage, or null when within the cap */
+export function calculateOverage(
+  pricing: Pick<
+    PackageOveragePricing,
+    'pricing_model' | 'price_per_gb' | 'block_size_gb' | 'block_price'
+  >,
+  usageGb: number,
+  capGb: number
+): OverageCalculation | null {
+  const overageGb = roundGb(usageGb - capGb);
+  if (!(overageGb > 0)) return null;
+
+  const units =
+    pricing.pricing_model === 'block'
+      ? Math.ceil(overageGb / Number(pricing.block_size_gb))
+      : Math.ceil(overageGb);
+  const unitPrice = Number(
+    pricing.pricing_model === 'block'
+      ? pricing.block_price
+      : pricing.price_per_gb
+  );
+
+  return { overageGb, units, unitPrice, amount: units * unitPrice };
+}
+
+/** Invoice line for a closed cycle's overage, with its usage breakdown */
+export function overageLine(
+  charge: Pick<
+    UsageOverageCharge,
+    | 'period_start'
+    | 'period_end'
+    | 'usage_gb'
+    | 'cap_gb'
+    | 'overage_gb'
+    | 'pricing_model'
+    | 'block_size_gb'
+    | 'units'
+    | 'unit_price'
+    | 'amount'
+  >
+): TaxableLine {
+  const lastDay = new Date(`${charge.period_end}T00:00:00Z`);
+  lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+  const unit =
+    charge.pricing_model === 'block'
+      ? `${charge.block_size_gb} GB block`
+      : 'GB';
+
+  // The second line is the usage breakdown, shown under the item
+  return {
+    description:
+      `Data overage ${charge.period_start} to ${lastDay.toISOString().slice(0, 10)}\n` +
+      `${Number(charge.usage_gb).toFixed(2)} GB used of ${charge.cap_gb} GB cap, ` +
+      `${Number(charge.overage_gb).toFixed(2)} GB over, billed per started ${unit}`,
+    quantity: charge.units,
+    unitPrice: Number(charge.unit_price),
+    total: Number(charge.amount),
+    category: 'recurring_service',
+  };
+}
@@ -0,0 +1,475 @@
+import crypto from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../payments/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import { TaxService } from './tax-service';
+import { DunningService } from './dunning-service';
+import { OPEN_INVOICE_STATUSES } from './receivables';
+import type { TaxCalculation } from './tax';
+import type {
+  CustomerVirtualAccount,
+  VirtualAccountBank,
+  VirtualAccountPayment,
+} from './types';
+
+export const VIRTUAL_ACCOUNT_BANKS: Record<VirtualAccountBank, string> = {
+  bca: 'BCA',
+  bni: 'BNI',
+  mandiri: 'Mandiri',
+};
+
+const UNIQUE_VIOLATION = '23505';
+
+/** How long a delivery may hold a payment before another can take it over */
+const PAYMENT_CLAIM_MINUTES = 5;
+
+export interface OpenInvoiceBalance {
+  id: string;
+  invoiceNumber: string;
+  total: number;
+}
+
+export interface PaymentAllocation {
+  invoices: OpenInvoiceBalance[];
+  applied: number;
+  remainder: number;
+}
+
+export interface IncomingVirtualAccountPayment {
+  bank: VirtualAccountBank;
+  vaNumber: string;
+  amount: number;
+  reference: string;
+  paidAt: Date;
+}
+
+export interface VirtualAccountPaymentResult {
+  duplicate: boolean;
+  payment: VirtualAccountPayment;
+  paidInvoices: string[];
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Settles open invoices oldest first with a transfer. An invoice is only
+ * settled when the transfer covers it in full; allocation stops at the first
+ * invoice it cannot cover and whatever is left over becomes account credit.
+ */
+export function allocatePayment(
+  amount: number,
+  openInvoices: OpenInvoiceBalance[]
+): PaymentAllocation {
+  const invoices: OpenInvoiceBalance[] = [];
+  let remaining = roundAmount(amount);
+
+  for (const invoice of openInvoices) {
+    const total = roundAmount(Number(invoice.total));
+    if (total > remaining) break;
+    invoices.push(invoice);
+    remaining = roundAmount(remaining - total);
+  }
+
+  return {
+    invoices,
+    applied: roundAmount(amount - remaining),
+    remainder: remaining,
+  };
+}
+
+/**
+ * Credit notes are net of PPN, so leftover cash is credited at its pre-tax
+ * value: the amount that, once taxed on the next invoice, is worth the cash.
+ */
+export function creditForCash(
+  cash: number,
+  calculation: Pick<TaxCalculation, 'subtotal' | 'total'>
+): number {
+  if (!(calculation.total > 0)) return roundAmount(cash);
+  return roundAmount((cash * calculation.subtotal) / calculation.total);
+}
+
+/** Constant-time check of the callback token sent with VA payments */
+export function verifyCallbackToken(
+  token: string | null,
+  expected: string | undefined
+): boolean {
+  if (!token || !expected) return false;
+
+  const received = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return (
+    received.length === wanted.length &&
+    crypto.timingSafeEqual(received, wanted)
+  );
+}
+
+function companyCodesFromEnv(): Partial<Record<VirtualAccountBank, string>> {
+  return {
+    bca: import.meta.env.VA_COMPANY_CODE_BCA,
+    bni: import.meta.env.VA_COMPANY_CODE_BNI,
+    mandiri: import.meta.env.VA_COMPANY_CODE_MANDIRI,
+  };
+}
+
+export class VirtualAccountService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+  private taxService: TaxService;
+  private dunningService: DunningService;
+  private companyCodes: Partial<Record<VirtualAccountBank, string>>;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    options: {
+      companyCodes?: Partial<Record<VirtualAccountBank, string>>;
+    } = {}
+  ) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.taxService = new TaxService(supabaseClient);
+    this.dunningService = new DunningService(supabaseClient);
+    this.companyCodes = options.companyCodes || companyCodesFromEnv();
+  }
+
+  /** Banks we hold a VA company code for */
+  getEnabledBanks(): VirtualAccountBank[] {
+    return (Object.keys(VIRTUAL_ACCOUNT_BANKS) as VirtualAccountBank[]).filter(
+      bank => Boolean(this.companyCodes[bank])
+    );
+  }
+
+  /**
+   * The customer's permanent VAs, one per enabled bank. Missing ones are
+   * assigned on first request so every customer sees a number.
+   */
+  async getAccounts(userId: string): Promise<CustomerVirtualAccount[]> {
+    const accounts: CustomerVirtualAccount[] = [];
+
+    for (const bank of this.getEnabledBanks()) {
+      const { data, error } = await this.supabase.rpc(
+        'assign_customer_virtual_account',
+        {
+          p_user_id: userId,
+          p_bank: bank,
+          p_company_code: this.companyCodes[bank],
+        }
+      );
+
+      if (error || !data) {
+        throw new Error(
+          `Failed to assign ${VIRTUAL_ACCOUNT_BANKS[bank]} virtual account: ${error?.message}`
+        );
+      }
+
+      const account = data as CustomerVirtualAccount;
+      if (account.is_active) accounts.push(account);
+    }
+
+    return accounts;
+  }
+
+  async getPayments(
+    userId: string,
+    limit = 20
+  ): Promise<VirtualAccountPayment[]> {
+    const { data, error } = await this.supabase
+      .from('virtual_account_payments')
+      .select('*')
+      .eq('user_id', userId)
+      .order('paid_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch virtual account payments: ${error.message}`
+      );
+    }
+
+    return (data || []) as VirtualAccountPayment[];
+  }
+
+  /**
+   * Records a transfer received on a customer's VA and settles their oldest
+   * open invoices with it. The bank reference makes redelivered callbacks a
+   * no-op: a delivery claims the payment before allocating it, and the
+   * invoices, credit and allocation are written in one transaction.
+   */
+  async recordPayment(
+    incoming: IncomingVirtualAccountPayment
+  ): Promise<VirtualAccountPaymentResult> {
+    const amount = roundAmount(incoming.amount);
+    if (!(amount > 0)) {
+      throw ErrorFactory.validationFailed(
+        'Payment amount must be greater than zero',
+        'amount'
+      );
+    }
+
+    const { data: account } = await this.supabase
+      .from('customer_virtual_accounts')
+      .select('*')
+      .eq('bank', incoming.bank)
+      .eq('va_number', incoming.vaNumber)
+      .maybeSingle();
+
+    if (!account) {
+      throw ErrorFactory.resourceNotFound('Virtual account', incoming.vaNumber);
+    }
+
+    const { data: inserted, error } = await this.supabase
+      .from('virtual_account_payments')
+      .insert({
+        virtual_account_id: account.id,
+        user_id: account.user_id,
+        bank: incoming.bank,
+        va_number: incoming.vaNumber,
+        reference: incoming.reference,
+        amount,
+        paid_at: incoming.paidAt.toISOString(),
+        processing_started_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    let payment = inserted as VirtualAccountPayment;
+    if (error) {
+      if (error.code !== UNIQUE_VIOLATION) {
+        throw new Error(
+          `Failed to record virtual account payment: ${error.message}`
+        );
+      }
+
+      payment = await this.getPaymentByReference(
+        incoming.bank,
+        incoming.reference
+      );
+      if (payment.transaction_id) {
+        return { duplicate: true, payment, paidInvoices: [] };
+      }
+      // A delivery that failed before allocating is picked up again
+      payment = await this.claimPayment(payment);
+    }
+
+    try {
+      return await this.allocate(payment, account, incoming);
+    } catch (error) {
+      await this.releasePayment(payment.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Pays the oldest open invoices the transfer covers and credits what is
+   * left over, in one transaction with recording the allocation. Returns
+   * the stored payment as a duplicate if it was allocated meanwhile.
+   */
+  private async allocate(
+    payment: VirtualAccountPayment,
+    account: CustomerVirtualAccount,
+    incoming: IncomingVirtualAccountPayment
+  ): Promise<VirtualAccountPaymentResult> {
+    const amount = Number(payment.amount);
+    const userId: string = account.user_id;
+    const bankName = VIRTUAL_ACCOUNT_BANKS[incoming.bank];
+    const orderId = `VA-${incoming.bank.toUpperCase()}-${incoming.reference}`;
+
+    const transaction =
+      (await this.paymentService.getTransactionByOrderId(orderId)) ||
+      (await this.paymentService.createTransaction({
+        orderId,
+        userId,
+        amount,
+        currency: 'IDR',
+        status: 'success',
+        paymentMethod: {
+          id: account.id,
+          type: 'bank_transfer',
+          name: `${bankName} Virtual Account`,
+          provider: bankName,
+          isActive: true,
+        },
+        metadata: {
+          virtualAccount: incoming.vaNumber,
+          bankReference: incoming.reference,
+        },
+      }));
+
+    const allocation = allocatePayment(
+      amount,
+      await this.getOpenInvoices(userId)
+    );
+
+    let credited = 0;
+    if (allocation.remainder > 0) {
+      const taxCalculation = await this.taxService.calculateInvoiceTax(
+        userId,
+        [
+          {
+            description: 'Overpayment',
+            quantity: 1,
+            unitPrice: allocation.remainder,
+            total: allocation.remainder,
+            category: 'recurring_service',
+          },
+        ],
+        incoming.paidAt
+      );
+      credited = creditForCash(allocation.remainder, taxCalculation);
+    }
+
+    const { data: updated, error: allocateError } = await this.supabase.rpc(
+      'allocate_virtual_account_payment',
+      {
+        p_payment_id: payment.id,
+        p_transaction_id: transaction.id,
+        p_invoice_ids: allocation.invoices.map(invoice => invoice.id),
+        p_applied: allocation.applied,
+        p_credited: credited,
+        p_credit_description: `Rp ${allocation.remainder.toLocaleString('id-ID')} left over from ${bankName} VA transfer ${incoming.reference}`,
+      }
+    );
+
+    if (allocateError) {
+      throw new Error(
+        `Failed to allocate virtual account payment: ${allocateError.message}`
+      );
+    }
+    // A composite NULL comes back as a row of nulls
+    if (!updated?.id) {
+      return {
+        duplicate: true,
+        payment: await this.getPaymentByReference(
+          incoming.bank,
+          incoming.reference
+        ),
+        paidInvoices: [],
+      };
+    }
+
+    for (const invoice of allocation.invoices) {
+      await this.dunningService.handleInvoicePaid(invoice.id);
+    }
+
+    logger.info('Virtual account payment allocated', {
+      module: 'billing',
+      submodule: 'virtual-accounts',
+      operation: 'recordPayment',
+      userId,
+      bank: incoming.bank,
+      reference: incoming.reference,
+      amount,
+      invoicesPaid: allocation.invoices.length,
+      credited,
+    });
+
+    return {
+      duplicate: false,
+      payment: updated as VirtualAccountPayment,
+      paidInvoices: allocation.invoices.map(invoice => invoice.invoiceNumber),
+    };
+  }
+
+  private async getOpenInvoices(userId: string): Promise<OpenInvoiceBalance[]> {
+    const { data, error } = await this.supabase
+      .from('invoices')
+      .select('id, invoice_number, total')
+      .eq('user_id', userId)
+      .in('status', OPEN_INVOICE_STATUSES)
+      .order('due_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch open invoices: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      invoiceNumber: row.invoice_number,
+      total: Number(row.total),
+    }));
+  }
+
+  /**
+   * Takes over a recorded payment that no delivery has allocated, unless
+   * another delivery is still working on it.
+   */
+  private async claimPayment(
+    payment: VirtualAccountPayment
+  ): Promise<VirtualAccountPayment> {
+    const now = new Date();
+    const staleBefore = new Date(
+      now.getTime() - PAYMENT_CLAIM_MINUTES * 60 * 1000
+    ).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('virtual_account_payments')
+      .update({ processing_started_at: now.toISOString() })
+      .eq('id', payment.id)
+      .is('transaction_id', null)
+      .or(
+        `processing_started_at.is.null,processing_started_at.lt.${staleBefore}`
+      )
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `Failed to claim virtual account payment: ${error.message}`
+      );
+    }
+    if (!data) {
+      // The bank retries, by when the other delivery has finished
+      throw ErrorFactory.invalidOperation(
+        `Virtual account payment ${payment.reference} is already being processed`
+      );
+    }
+
+    return data as VirtualAccountPayment;
+  }
+
+  /** Lets the next delivery allocate a payment this one failed on */
+  private async releasePayment(paymentId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('virtual_account_payments')
+      .update({ processing_started_at: null })
+      .eq('id', paymentId)
+      .is('transaction_id', null);
+
+    if (error) {
+      logger.error(
+        'Error releasing virtual account payment',
+        new Error(error.message),
+        {
+          module: 'billing',
+          submodule: 'virtual-accounts',
+          operation: 'recordPayment',
+          paymentId,
+        }
+      );
+    }
+  }
+
+  private async getPaymentByReference(
+    bank: VirtualAccountBank,
+    reference: string
+  ): Promise<VirtualAccountPayment> {
+    const { data, error } = await this.supabase
+      .from('virtual_account_payments')
+      .select('*')
+      .eq('bank', bank)
+      .eq('reference', reference)
+      .single();
+
+    if (error || !data) {
+      throw new Error(
+        'Virtual account payment conflict but no stored payment found'
+      );
+    }
+
+    return data as VirtualAccountPayment;
+  }
+}
@@ -0,0 +1,407 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { emailService } from '../email/service';
+import { ErrorFactory } from '../errors';
+import { logger } from '../logger';
+import type { PaymentRequest, PaymentTransaction } from '../payments/types';
+import type {
+  ServiceSubscription,
+  WalletLedgerEntry,
+  WalletStatement,
+} from './types';
+
+const UNIQUE_VIOLATION = '23505';
+
+export const PREPAID_BALANCE_SUSPENSION = 'prepaid_balance';
+
+export const MIN_TOP_UP = 10000;
+export const MAX_TOP_UP = 10000000;
+
+/** How far ahead of a prepaid billing date customers are warned */
+export const LOW_BALANCE_NOTICE_DAYS = 3;
+
+/** The parts of EmailService prepaid wallets rely on */
+export type WalletMailer = Pick<typeof emailService, 'sendServiceNotification'>;
+
+/** A prepaid invoice as the wallet needs it */
+export interface WalletInvoice {
+  id: string;
+  user_id: string;
+  invoice_number: string;
+  total: number;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatRupiah(amount: number): string {
+  return `Rp ${amount.toLocaleString('id-ID')}`;
+}
+
+/** Why a top-up amount can't be accepted, or null if it can */
+export function topUpProblem(amount: number): string | null {
+  if (!Number.isInteger(amount)) {
+    return 'Top-ups must be a whole rupiah amount';
+  }
+  if (amount < MIN_TOP_UP || amount > MAX_TOP_UP) {
+    return `Top-ups must be between ${formatRupiah(MIN_TOP_UP)} and ${formatRupiah(MAX_TOP_UP)}`;
+  }
+  return null;
+}
+
+/** What still has to be topped up to cover the next cycle */
+export function walletShortfall(balance: number, upcoming: number): number {
+  return roundAmount(Math.max(0, upcoming - balance));
+}
+
+export class WalletService {
+  private supabase: SupabaseClient;
+  private mailer: WalletMailer;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    mailer: WalletMailer = emailService
+  ) {
+    this.supabase = supabaseClient;
+    this.mailer = mailer;
+  }
+
+  async getBalance(userId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('wallet_ledger')
+      .select('balance_after')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch wallet balance: ${error.message}`);
+    }
+
+    return Number(data?.balance_after || 0);
+  }
+
+  async getStatement(userId: string, limit = 50): Promise<WalletStatement> {
+    const { data, error } = await this.supabase
+      .from('wallet_ledger')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch wallet statement: ${error.message}`);
+    }
+
+    const entries = (data || []) as WalletLedgerEntry[];
+    return {
+      balance: Number(entries[0]?.balance_after || 0),
+      entries,
+    };
+  }
+
+  /**
+   * The gateway payment for a top-up. Settling it credits the wallet rather
+   * than producing an invoice.
+   */
+  async buildTopUpRequest(
+    userId: string,
+    amount: number
+  ): Promise<PaymentRequest> {
+    const problem = topUpProblem(amount);
+    if (problem) {
+      throw ErrorFactory.validationFailed(problem, 'amount');
+    }
+
+    const [{ data: profile }, { data: userData }] = await Promise.all([
+      this.supabase
+        .from('customer_profiles')
+        .select('first_name, last_name, phone')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      this.supabase.auth.admin.getUserById(userId),
+    ]);
+
+    return {
+      amount,
+      orderId: `TOPUP-${Date.now()}-${userId.slice(0, 8)}`,
+      customerDetails: {
+        firstName: profile?.first_name || '',
+        lastName: profile?.last_name || '',
+        email: userData?.user?.email || '',
+        phone: profile?.phone || '',
+      },
+      itemDetails: [
+        {
+          id: 'wallet-top-up',
+          price: amount,
+          quantity: 1,
+          name: 'Prepaid wallet top-up',
+        },
+      ],
+      walletTopUp: true,
+    };
+  }
+
+  /**
+   * Credits a settled top-up payment to the wallet, then pays whatever
+   * prepaid invoices it now covers. Returns null if the payment was already
+   * credited.
+   */
+  async recordTopUp(
+    transaction: Pick<PaymentTransaction, 'id' | 'userId' | 'amount'>
+  ): Promise<WalletLedgerEntry | null> {
+    const amount = roundAmount(Number(transaction.amount));
+    const { data, error } = await this.supabase.rpc('record_wallet_entry', {
+      p_user_id: transaction.userId,
+      p_entry_type: 'top_up',
+      p_amount: amount,
+      p_balance_change: amount,
+      p_transaction_id: transaction.id,
+      p_description: 'Wallet top-up',
+    });
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return null;
+      throw new Error(`Failed to record wallet top-up: ${error.message}`);
+    }
+
+    logger.info('Wallet topped up', {
+      module: 'billing',
+      submodule: 'wallet',
+      operation: 'recordTopUp',
+      userId: transaction.userId,
+      transactionId: transaction.id,
+      amount,
+    });
+
+    await this.settleOpenInvoices(transaction.userId);
+
+    return data as WalletLedgerEntry;
+  }
+
+  /**
+   * Pays a prepaid invoice in full from the wallet. False if the balance
+   * doesn't cover it or the invoice is no longer open.
+   */
+  async payInvoice(invoice: WalletInvoice): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('pay_invoice_from_wallet', {
+      p_invoice_id: invoice.id,
+    });
+
+    if (error) {
+      throw new Error(
+        `Failed to pay invoice ${invoice.invoice_number} from wallet: ${error.message}`
+      );
+    }
+
+    const entry = data as WalletLedgerEntry | null;
+    if (!entry?.id) return false;
+
+    logger.info('Invoice paid from wallet', {
+      module: 'billing',
+      submodule: 'wallet',
+      operation: 'payInvoice',
+      invoiceId: invoice.id,
+      userId: invoice.user_id,
+      amount: Number(entry.amount),
+      balanceAfter: Number(entry.balance_after),
+    });
+
+    return true;
+  }
+
+  /**
+   * Pays the customer's open prepaid invoices, oldest first, for as long as
+   * the balance lasts. Once none are left, service suspended for a low
+   * balance is restored.
+   */
+  async settleOpenInvoices(
+    userId: string
+  ): Promise<{ paid: number; reactivated: boolean }> {
+    const { data, error } = await this.supabase
+      .from('invoices')
+      .select('id, user_id, invoice_number, total')
+      .eq('user_id', userId)
+      .eq('prepaid', true)
+      .in('status', ['sent', 'overdue'])
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch prepaid invoices: ${error.message}`);
+    }
+
+    const invoices = (data || []) as WalletInvoice[];
+    let paid = 0;
+    for (const invoice of invoices) {
+      if (!(await this.payInvoice(invoice))) break;
+      paid++;
+    }
+
+    const reactivated =
+      paid === invoices.length ? await this.reactivate(userId) : false;
+    return { paid, reactivated };
+  }
+
+  /**
+   * Suspends the customer's service when the wallet can't cover a prepaid
+   * invoice, and tells them how much to top up.
+   */
+  async suspendForBalance(invoice: WalletInvoice): Promise<boolean> {
+    const { data: subscriptions, error } = await this.supabase
+      .from('customer_subscriptions')
+      .update({
+        status: 'suspended',
+        suspended_at: new Date().toISOString(),
+        suspension_reason: PREPAID_BALANCE_SUSPENSION,
+        suspended_invoice_id: invoice.id,
+      })
+      .eq('user_id', invoice.user_id)
+      .eq('status', 'active')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to suspend subscriptions: ${error.message}`);
+    }
+
+    const subscriptionIds = (subscriptions || []).map(s => s.id);
+    if (subscriptionIds.length === 0) return false;
+
+    const shortfall = walletShortfall(
+      await this.getBalance(invoice.user_id),
+      Number(invoice.total)
+    );
+    await this.notify(
+      invoice.user_id,
+      'Service suspended: prepaid balance too low',
+      `Your prepaid balance doesn't cover invoice ${invoice.invoice_number} for ${formatRupiah(Number(invoice.total))}, so your internet service has been suspended. Top up at least ${formatRupiah(shortfall)} and service is restored automatically.`,
+      'error'
+    );
+
+    logger.info('Subscriptions suspended for low prepaid balance', {
+      module: 'billing',
+      submodule: 'wallet',
+      operation: 'suspendForBalance',
+      invoiceId: invoice.id,
+      userId: invoice.user_id,
+      subscriptionIds: subscriptionIds.join(','),
+    });
+
+    return true;
+  }
+
+  /**
+   * Warns a prepaid customer whose balance won't cover their next cycle,
+   * once per billing date. Returns whether a notice was sent.
+   */
+  async notifyLowBalance(
+    subscription: Pick<
+      ServiceSubscription,
+      'id' | 'user_id' | 'next_billing_date'
+    >,
+    upcomingTotal: number
+  ): Promise<boolean> {
+    const balance = await this.getBalance(subscription.user_id);
+    const shortfall = walletShortfall(balance, upcomingTotal);
+    if (!(shortfall > 0)) return false;
+
+    // Claim the billing date first so a rerun doesn't warn twice
+    const billingDate = subscription.next_billing_date.slice(0, 10);
+    const { data: claimed, error } = await this.supabase
+      .from('service_subscriptions')
+      .update({ low_balance_notice_for: billingDate })
+      .eq('id', subscription.id)
+      .or(
+        `low_balance_notice_for.is.null,low_balance_notice_for.neq.${billingDate}`
+      )
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to record low balance notice: ${error.message}`);
+    }
+    if ((claimed || []).length === 0) return false;
+
+    return this.notify(
+      subscription.user_id,
+      'Your prepaid balance is running low',
+      `Your next monthly fee of ${formatRupiah(upcomingTotal)} is deducted on ${billingDate}, but your prepaid balance is ${formatRupiah(balance)}. Top up at least ${formatRupiah(shortfall)} to keep your service running.`,
+      'warning'
+    );
+  }
+
+  private async reactivate(userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('customer_subscriptions')
+      .update({
+        status: 'active',
+        suspended_at: null,
+        suspension_reason: null,
+        suspended_invoice_id: null,
+      })
+      .eq('user_id', userId)
+      .eq('status', 'suspended')
+      .eq('suspension_reason', PREPAID_BALANCE_SUSPENSION)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to reactivate subscriptions: ${error.message}`);
+    }
+
+    const subscriptionIds = (data || []).map(s => s.id);
+    if (subscriptionIds.length === 0) return false;
+
+    logger.info('Subscriptions reactivated after top-up', {
+      module: 'billing',
+      submodule: 'wallet',
+      operation: 'reactivate',
+      userId,
+      subscriptionIds: subscriptionIds.join(','),
+    });
+
+    return true;
+  }
+
+  private async notify(
+    userId: string,
+    subject: string,
+    message: string,
+    severity: 'warning' | 'error'
+  ): Promise<boolean> {
+    const email = await this.getCustomerEmail(userId);
+    if (!email) {
+      logger.warn(`No email for wallet notice to user ${userId}`);
+      return false;
+    }
+
+    try {
+      await this.mailer.sendServiceNotification(
+        email,
+        subject,
+        message,
+        severity
+      );
+      return true;
+    } catch (error) {
+      logger.error(
+        'Error sending wallet notice',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'billing',
+          submodule: 'wallet',
+          operation: 'notify',
+          userId,
+        }
+      );
+      return false;
+    }
+  }
+
+  private async getCustomerEmail(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.auth.admin.getUserById(userId);
+    if (error || !data.user) {
+      return null;
+    }
+    return data.user.email || null;
+  }
+}
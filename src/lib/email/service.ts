@@ -152,6 +152,62 @@ View your invoice at: ${process.env.SITE_URL}/billing
     });
   }
 
+  /**
+   * Send advance notice of a package price change
+   */
+  async sendPriceChangeNotice(
+    to: string,
+    noticeData: {
+      packageName: string;
+      oldAmount: number;
+      newAmount: number;
+      effectiveDate: string;
+    }
+  ): Promise<string> {
+    return this.queueService.addEmailToQueue({
+      to,
+      subject: `Price Change Notice - ${noticeData.packageName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Price Change Notice</h2>
+          <p>We are writing to let you know in advance that the monthly price of your package is changing.</p>
+
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+            <p><strong>Service:</strong> ${noticeData.packageName}</p>
+            <p><strong>Current Price:</strong> Rp ${noticeData.oldAmount.toLocaleString()}/month</p>
+            <p><strong>New Price:</strong> Rp ${noticeData.newAmount.toLocaleString()}/month</p>
+            <p><strong>Effective From:</strong> ${noticeData.effectiveDate}</p>
+          </div>
+
+          <p>Your invoices from this date will use the new price. No action is needed if you wish to continue your service.</p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${process.env.SITE_URL}/billing" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+              View Billing
+            </a>
+          </div>
+        </div>
+      `,
+      text: `
+Price Change Notice
+
+Service: ${noticeData.packageName}
+Current Price: Rp ${noticeData.oldAmount.toLocaleString()}/month
+New Price: Rp ${noticeData.newAmount.toLocaleString()}/month
+Effective From: ${noticeData.effectiveDate}
+
+Your invoices from this date will use the new price.
+
+View your billing at: ${process.env.SITE_URL}/billing
+      `,
+      priority: 3,
+      metadata: {
+        type: 'price_change_notice',
+        package_name: noticeData.packageName,
+      },
+    });
+  }
+
   /**
    * Send custom email
    */
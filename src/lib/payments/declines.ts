@@ -0,0 +1,27 @@
+/**
+ * Decline codes worth retrying: the card is valid but the charge failed
+ * for a reason that may clear by itself (funds, limits, issuer outages).
+ * ISO 8583 response codes as passed through by Midtrans in
+ * channel_response_code, plus gateway-side HTTP failures.
+ */
+const SOFT_DECLINE_CODES = new Set([
+  '05', // do not honor
+  '51', // insufficient funds
+  '61', // exceeds withdrawal limit
+  '65', // exceeds frequency limit
+  '91', // issuer unavailable
+  '96', // system malfunction
+  '500',
+  '502',
+  '503',
+  '504',
+]);
+
+/**
+ * Whether a declined merchant-initiated charge should be retried. A missing
+ * code means the charge never reached the issuer, which is also retryable.
+ */
+export function isSoftDecline(declineCode?: string): boolean {
+  if (!declineCode) return true;
+  return SOFT_DECLINE_CODES.has(declineCode);
+}
@@ -0,0 +1,76 @@
+import { MidtransGateway } from './midtrans';
+import { MockGateway } from './mock';
+import { XenditGateway } from './xendit';
+import type { PaymentGateway, PaymentProvider } from '../types';
+
+export { MidtransGateway } from './midtrans';
+export {
+  MockGateway,
+  MOCK_HARD_DECLINE_TOKEN,
+  MOCK_SOFT_DECLINE_TOKEN,
+  type MockPaymentOutcome,
+} from './mock';
+export { XenditGateway } from './xendit';
+
+export interface PaymentGatewayEnv {
+  PAYMENT_GATEWAY?: string;
+  MIDTRANS_SERVER_KEY?: string;
+  MIDTRANS_CLIENT_KEY?: string;
+  MIDTRANS_ENVIRONMENT?: string;
+  MIDTRANS_MERCHANT_ID?: string;
+  XENDIT_API_KEY?: string;
+  XENDIT_CALLBACK_TOKEN?: string;
+  XENDIT_ENVIRONMENT?: string;
+  MOCK_GATEWAY_SERVER_KEY?: string;
+  NODE_ENV?: string;
+}
+
+const PROVIDERS: PaymentProvider[] = ['midtrans', 'xendit', 'mock'];
+
+function toEnvironment(value?: string): 'sandbox' | 'production' {
+  return value === 'production' ? 'production' : 'sandbox';
+}
+
+/**
+ * Builds the gateway selected by PAYMENT_GATEWAY (default: midtrans).
+ * The mock gateway is refused in production so a misconfigured deploy
+ * can never settle payments without a real provider.
+ */
+export function createPaymentGateway(env: PaymentGatewayEnv): PaymentGateway {
+  const provider = (env.PAYMENT_GATEWAY || 'midtrans').toLowerCase();
+
+  if (!PROVIDERS.includes(provider as PaymentProvider)) {
+    throw new Error(`Unsupported payment gateway: ${provider}`);
+  }
+
+  switch (provider as PaymentProvider) {
+    case 'xendit':
+      if (!env.XENDIT_API_KEY || !env.XENDIT_CALLBACK_TOKEN) {
+        throw new Error('Xendit credentials are not configured');
+      }
+      return new XenditGateway({
+        secretKey: env.XENDIT_API_KEY,
+        callbackToken: env.XENDIT_CALLBACK_TOKEN,
+        environment: toEnvironment(env.XENDIT_ENVIRONMENT),
+      });
+
+    case 'mock':
+      if (env.NODE_ENV === 'production') {
+        throw new Error('The mock payment gateway cannot run in production');
+      }
+      return new MockGateway({
+        serverKey: env.MOCK_GATEWAY_SERVER_KEY || 'mock-server-key',
+      });
+
+    default:
+      if (!env.MIDTRANS_SERVER_KEY || !env.MIDTRANS_CLIENT_KEY) {
+        throw new Error('Midtrans credentials are not configured');
+      }
+      return new MidtransGateway({
+        serverKey: env.MIDTRANS_SERVER_KEY,
+        clientKey: env.MIDTRANS_CLIENT_KEY,
+        environment: toEnvironment(env.MIDTRANS_ENVIRONMENT),
+        merchantId: env.MIDTRANS_MERCHANT_ID || '',
+      });
+  }
+}
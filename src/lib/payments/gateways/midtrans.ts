@@ -1,16 +1,20 @@
 import crypto from 'node:crypto';
-import { logger } from '../logger';
+import { logger } from '../../logger';
 
 /**
  * Midtrans payment gateway implementation with centralized error logging
  * Replaces console.error calls with structured logging for better observability
  */
 import type {
+  GatewayWebhookEvent,
+  PaymentGateway,
   PaymentGatewayConfig,
   PaymentRequest,
   PaymentResponse,
-  WebhookNotification,
-} from './types';
+  PaymentTransaction,
+  SavedPaymentMethod,
+  WebhookPayload,
+} from '../types';
 
 // Midtrans API response interface
 interface MidtransApiResponse {
@@ -25,10 +29,60 @@ interface MidtransApiResponse {
   token?: string;
   approval_code?: string;
   gross_amount: string;
+  channel_response_code?: string;
   [key: string]: string | number | boolean | undefined;
 }
 
-export class MidtransGateway {
+const MIDTRANS_STATUS_MAP: Record<string, PaymentTransaction['status']> = {
+  capture: 'success',
+  settlement: 'success',
+  pending: 'pending',
+  deny: 'failed',
+  cancel: 'cancelled',
+  expire: 'failed',
+  refund: 'refund',
+  partial_refund: 'refund',
+};
+
+export function mapMidtransStatus(
+  midtransStatus: string
+): PaymentTransaction['status'] {
+  return MIDTRANS_STATUS_MAP[midtransStatus] || 'pending';
+}
+
+/**
+ * Midtrans notification signature: SHA-512 of order id, status code,
+ * gross amount and the server key.
+ */
+export function createMidtransSignature(
+  orderId: string,
+  statusCode: string,
+  grossAmount: string,
+  serverKey: string
+): string {
+  return crypto
+    .createHash('sha512')
+    .update(`${orderId}${statusCode}${grossAmount}${serverKey}`)
+    .digest('hex');
+}
+
+export function verifyMidtransSignature(
+  payload: WebhookPayload,
+  serverKey: string
+): boolean {
+  const expectedSignature = createMidtransSignature(
+    String(payload.order_id ?? ''),
+    String(payload.status_code ?? ''),
+    String(payload.gross_amount ?? ''),
+    serverKey
+  );
+
+  return payload.signature_key === expectedSignature;
+}
+
+export class MidtransGateway implements PaymentGateway {
+  readonly provider = 'midtrans' as const;
+  readonly displayName = 'Midtrans';
   private config: PaymentGatewayConfig;
   private apiUrl: string;
 
@@ -47,19 +101,13 @@ export class MidtransGateway {
     return `Basic ${authString}`;
   }
 
-  private createSignature(
-    orderId: string,
-    statusCode: string,
-    grossAmount: string
-  ): string {
-    const input = `${orderId}${statusCode}${grossAmount}${this.config.serverKey}`;
-    return crypto.createHash('sha512').update(input).digest('hex');
-  }
-
   async createTransaction(
     paymentRequest: PaymentRequest
   ): Promise<PaymentResponse> {
     try {
+      const saveCard = Boolean(
+        paymentRequest.saveCard && paymentRequest.customerId
+      );
       const payload = {
         transaction_details: {
           order_id: paymentRequest.orderId,
@@ -86,6 +134,13 @@ export class MidtransGateway {
           unit: 'minutes',
           duration: 60,
         },
+        ...(saveCard && { user_id: paymentRequest.customerId }),
+        ...((saveCard || paymentRequest.requireAuthentication) && {
+          credit_card: {
+            ...(saveCard && { save_card: true }),
+            ...(paymentRequest.requireAuthentication && { secure: true }),
+          },
+        }),
       };
 
       const response = await fetch(`${this.apiUrl}/charge`, {
@@ -226,14 +281,83 @@ export class MidtransGateway {
     }
   }
 
-  verifyWebhookSignature(notification: WebhookNotification): boolean {
-    const expectedSignature = this.createSignature(
-      notification.order_id,
-      notification.status_code,
-      notification.gross_amount
-    );
+  /**
+   * Charges a saved card (saved_token_id) or linked GoPay account through
+   * the Core API without customer interaction.
+   */
+  async chargeSavedMethod(
+    paymentRequest: PaymentRequest,
+    method: SavedPaymentMethod
+  ): Promise<PaymentResponse> {
+    try {
+      const payload: Record<string, unknown> = {
+        transaction_details: {
+          order_id: paymentRequest.orderId,
+          gross_amount: paymentRequest.amount,
+        },
+        customer_details: {
+          first_name: paymentRequest.customerDetails.firstName,
+          last_name: paymentRequest.customerDetails.lastName,
+          email: paymentRequest.customerDetails.email,
+          phone: paymentRequest.customerDetails.phone,
+        },
+        item_details: paymentRequest.itemDetails,
+      };
+
+      if (method.type === 'credit_card') {
+        payload.payment_type = 'credit_card';
+        payload.credit_card = { token_id: method.token, authentication: false };
+      } else if (method.type === 'ewallet') {
+        payload.payment_type = 'gopay';
+        payload.gopay = {
+          account_id: method.token,
+          payment_option_token: method.metadata?.payment_option_token,
+          recurring: true,
+        };
+      } else {
+        throw new Error(`Midtrans cannot charge saved ${method.type} methods`);
+      }
 
-    return notification.signature_key === expectedSignature;
+      const response = await fetch(`${this.apiUrl}/charge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: this.getAuthHeader(),
+          Accept: 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Midtrans API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json();
+      return this.transformResponse(data);
+    } catch (error) {
+      logger.error(
+        'Error charging saved payment method',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'gateway',
+          operation: 'chargeSavedMethod',
+          orderId: paymentRequest.orderId,
+          amount: paymentRequest.amount,
+          methodType: method.type,
+        }
+      );
+      throw error;
+    }
+  }
+
+  verifyWebhookSignature(payload: WebhookPayload): boolean {
+    return verifyMidtransSignature(payload, this.config.serverKey);
+  }
+
+  parseWebhook(payload: WebhookPayload): GatewayWebhookEvent {
+    return parseMidtransNotification(payload, this.provider);
   }
 
   private getEnabledPaymentMethods(method?: string): string[] {
@@ -270,6 +394,11 @@ export class MidtransGateway {
       token: data.token,
       approvalCode: data.approval_code,
       grossAmount: parseInt(data.gross_amount),
+      status: mapMidtransStatus(data.transaction_status),
+      declineCode:
+        mapMidtransStatus(data.transaction_status) === 'failed'
+          ? data.channel_response_code || data.status_code
+          : undefined,
     };
   }
 
@@ -280,3 +409,49 @@ export class MidtransGateway {
     };
   }
 }
+
+/**
+ * Reads a Midtrans-format notification. Shared with the mock gateway, which
+ * emits the same payload shape.
+ */
+export function parseMidtransNotification(
+  payload: WebhookPayload,
+  provider: GatewayWebhookEvent['provider']
+): GatewayWebhookEvent {
+  const rawStatus = String(payload.transaction_status ?? '');
+
+  return {
+    provider,
+    orderId: String(payload.order_id ?? ''),
+    transactionId: String(payload.transaction_id ?? payload.order_id ?? ''),
+    rawStatus,
+    status: mapMidtransStatus(rawStatus),
+    paymentType:
+      typeof payload.payment_type === 'string'
+        ? payload.payment_type
+        : undefined,
+    fraudStatus:
+      typeof payload.fraud_status === 'string'
+        ? payload.fraud_status
+        : undefined,
+    grossAmount: parseFloat(String(payload.gross_amount ?? '0')),
+    signature:
+      typeof payload.signature_key === 'string'
+        ? payload.signature_key
+        : undefined,
+    savedToken:
+      typeof payload.saved_token_id === 'string'
+        ? {
+            token: payload.saved_token_id,
+            maskedCard:
+              typeof payload.masked_card === 'string'
+                ? payload.masked_card
+                : undefined,
+            expiresAt:
+              typeof payload.saved_token_id_expired_at === 'string'
+                ? payload.saved_token_id_expired_at
+                : undefined,
+          }
+        : undefined,
+  };
+}
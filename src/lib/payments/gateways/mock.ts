@@ -0,0 +1,242 @@
+import crypto from 'node:crypto';
+import type {
+  GatewayWebhookEvent,
+  MockGatewayConfig,
+  PaymentGateway,
+  PaymentRequest,
+  PaymentResponse,
+  SavedPaymentMethod,
+  WebhookPayload,
+} from '../types';
+import {
+  createMidtransSignature,
+  mapMidtransStatus,
+  parseMidtransNotification,
+  verifyMidtransSignature,
+} from './midtrans';
+
+export type MockPaymentOutcome = 'settlement' | 'expire' | 'deny';
+
+interface MockTransaction {
+  orderId: string;
+  transactionId: string;
+  amount: number;
+  paymentType: string;
+  transactionStatus: string;
+  saveCard?: boolean;
+  declineCode?: string;
+  refunded?: number;
+}
+
+/**
+ * Saved-method tokens that make the mock decline merchant-initiated
+ * charges: a soft decline (insufficient funds) and a hard one (invalid card).
+ */
+export const MOCK_SOFT_DECLINE_TOKEN = 'mock-decline-soft';
+export const MOCK_HARD_DECLINE_TOKEN = 'mock-decline-hard';
+
+// Status codes Midtrans sends alongside each transaction status
+const STATUS_CODES: Record<string, string> = {
+  pending: '201',
+  settlement: '200',
+  cancel: '200',
+  refund: '200',
+  partial_refund: '200',
+  expire: '407',
+  deny: '202',
+};
+
+/**
+ * In-process gateway for local development and tests. Transactions live in
+ * memory; `simulate` moves one to a final state and returns a signed,
+ * Midtrans-shaped notification that can be posted to /api/payments/webhook.
+ */
+export class MockGateway implements PaymentGateway {
+  readonly provider = 'mock' as const;
+  readonly displayName = 'Mock Gateway';
+  private config: MockGatewayConfig;
+  private transactions = new Map<string, MockTransaction>();
+
+  constructor(config: MockGatewayConfig) {
+    this.config = config;
+  }
+
+  async createTransaction(
+    paymentRequest: PaymentRequest
+  ): Promise<PaymentResponse> {
+    if (this.transactions.has(paymentRequest.orderId)) {
+      throw new Error(
+        `Mock gateway: duplicate order ${paymentRequest.orderId}`
+      );
+    }
+
+    const transaction: MockTransaction = {
+      orderId: paymentRequest.orderId,
+      transactionId: crypto.randomUUID(),
+      amount: paymentRequest.amount,
+      paymentType: paymentRequest.paymentMethod || 'bank_transfer',
+      transactionStatus: 'pending',
+      saveCard: paymentRequest.saveCard,
+    };
+    this.transactions.set(transaction.orderId, transaction);
+
+    return {
+      ...this.toResponse(transaction),
+      token: `mock-${transaction.transactionId}`,
+      redirectUrl: `/payment/pending?order_id=${encodeURIComponent(transaction.orderId)}`,
+    };
+  }
+
+  async getTransactionStatus(orderId: string): Promise<PaymentResponse> {
+    return this.toResponse(this.getTransaction(orderId));
+  }
+
+  async cancelTransaction(orderId: string): Promise<PaymentResponse> {
+    const transaction = this.getTransaction(orderId);
+    if (transaction.transactionStatus !== 'pending') {
+      throw new Error(
+        `Mock gateway: cannot cancel a ${transaction.transactionStatus} transaction`
+      );
+    }
+
+    transaction.transactionStatus = 'cancel';
+    return this.toResponse(transaction);
+  }
+
+  async refundTransaction(
+    orderId: string,
+    amount?: number
+  ): Promise<PaymentResponse> {
+    const transaction = this.getTransaction(orderId);
+    if (
+      transaction.transactionStatus !== 'settlement' &&
+      transaction.transactionStatus !== 'partial_refund'
+    ) {
+      throw new Error(
+        `Mock gateway: cannot refund a ${transaction.transactionStatus} transaction`
+      );
+    }
+
+    const refunded =
+      (transaction.refunded || 0) + (amount ?? transaction.amount);
+    if (refunded > transaction.amount) {
+      throw new Error(`Mock gateway: refund exceeds the paid amount`);
+    }
+
+    transaction.refunded = refunded;
+    transaction.transactionStatus =
+      refunded < transaction.amount ? 'partial_refund' : 'refund';
+    return this.toResponse(transaction);
+  }
+
+  async chargeSavedMethod(
+    paymentRequest: PaymentRequest,
+    method: SavedPaymentMethod
+  ): Promise<PaymentResponse> {
+    if (this.transactions.has(paymentRequest.orderId)) {
+      throw new Error(
+        `Mock gateway: duplicate order ${paymentRequest.orderId}`
+      );
+    }
+
+    const declineCode =
+      method.token === MOCK_SOFT_DECLINE_TOKEN
+        ? '51'
+        : method.token === MOCK_HARD_DECLINE_TOKEN
+          ? '14'
+          : undefined;
+
+    const transaction: MockTransaction = {
+      orderId: paymentRequest.orderId,
+      transactionId: crypto.randomUUID(),
+      amount: paymentRequest.amount,
+      paymentType: method.type === 'ewallet' ? 'gopay' : 'credit_card',
+      transactionStatus: declineCode ? 'deny' : 'settlement',
+      declineCode,
+    };
+    this.transactions.set(transaction.orderId, transaction);
+
+    return this.toResponse(transaction);
+  }
+
+  /**
+   * Settles, expires or denies a pending transaction and returns the
+   * notification the real gateway would send for it.
+   */
+  simulate(orderId: string, outcome: MockPaymentOutcome): WebhookPayload {
+    const transaction = this.getTransaction(orderId);
+    if (transaction.transactionStatus !== 'pending') {
+      throw new Error(
+        `Mock gateway: transaction ${orderId} is already ${transaction.transactionStatus}`
+      );
+    }
+
+    transaction.transactionStatus = outcome;
+    return this.createNotification(transaction);
+  }
+
+  private createNotification(transaction: MockTransaction): WebhookPayload {
+    const statusCode = STATUS_CODES[transaction.transactionStatus] || '200';
+    const grossAmount = transaction.amount.toFixed(2);
+
+    return {
+      transaction_time: new Date().toISOString(),
+      transaction_status: transaction.transactionStatus,
+      transaction_id: transaction.transactionId,
+      status_code: statusCode,
+      signature_key: createMidtransSignature(
+        transaction.orderId,
+        statusCode,
+        grossAmount,
+        this.config.serverKey
+      ),
+      payment_type: transaction.paymentType,
+      order_id: transaction.orderId,
+      gross_amount: grossAmount,
+      fraud_status:
+        transaction.transactionStatus === 'deny' ? 'deny' : 'accept',
+      currency: 'IDR',
+      ...(transaction.saveCard && transaction.transactionStatus === 'settlement'
+        ? {
+            saved_token_id: `mock-token-${transaction.transactionId}`,
+            masked_card: '481111-1114',
+          }
+        : {}),
+    };
+  }
+
+  verifyWebhookSignature(payload: WebhookPayload): boolean {
+    return verifyMidtransSignature(payload, this.config.serverKey);
+  }
+
+  parseWebhook(payload: WebhookPayload): GatewayWebhookEvent {
+    return parseMidtransNotification(payload, this.provider);
+  }
+
+  getClientConfig(): { clientKey: string; environment: string } {
+    return { clientKey: 'mock-client-key', environment: 'sandbox' };
+  }
+
+  private getTransaction(orderId: string): MockTransaction {
+    const transaction = this.transactions.get(orderId);
+    if (!transaction) {
+      throw new Error(`Mock gateway: transaction ${orderId} not found`);
+    }
+    return transaction;
+  }
+
+  private toResponse(transaction: MockTransaction): PaymentResponse {
+    return {
+      transactionId: transaction.transactionId,
+      orderId: transaction.orderId,
+      statusCode: STATUS_CODES[transaction.transactionStatus] || '200',
+      statusMessage: `Mock transaction is ${transaction.transactionStatus}`,
+      paymentType: transaction.paymentType,
+      transactionStatus: transaction.transactionStatus,
+      fraudStatus: 'accept',
+      grossAmount: transaction.amount,
+      status: mapMidtransStatus(transaction.transactionStatus),
+      declineCode: transaction.declineCode,
+    };
+  }
+}
@@ -0,0 +1,309 @@
+import crypto from 'node:crypto';
+import { logger } from '../../logger';
+import type {
+  GatewayWebhookEvent,
+  PaymentGateway,
+  PaymentRequest,
+  PaymentResponse,
+  PaymentTransaction,
+  WebhookPayload,
+  XenditGatewayConfig,
+} from '../types';
+
+const XENDIT_API_URL = 'https://api.xendit.co';
+
+// Xendit invoice API response (subset we rely on)
+interface XenditInvoice {
+  id: string;
+  external_id: string;
+  status: string;
+  amount: number;
+  paid_amount?: number;
+  invoice_url?: string;
+  payment_method?: string;
+  payment_channel?: string;
+}
+
+interface XenditRefund {
+  id: string;
+  invoice_id: string;
+  status: string;
+  amount: number;
+}
+
+const XENDIT_STATUS_MAP: Record<string, PaymentTransaction['status']> = {
+  PENDING: 'pending',
+  PAID: 'success',
+  SETTLED: 'success',
+  EXPIRED: 'failed',
+};
+
+export function mapXenditStatus(
+  xenditStatus: string
+): PaymentTransaction['status'] {
+  return XENDIT_STATUS_MAP[xenditStatus.toUpperCase()] || 'pending';
+}
+
+// Our method ids mapped to Xendit invoice payment_methods
+const XENDIT_PAYMENT_METHODS: Record<string, string[]> = {
+  credit_card: ['CREDIT_CARD'],
+  bank_transfer: ['BCA', 'BNI', 'BRI', 'MANDIRI', 'PERMATA', 'BSI'],
+  gopay: ['GOPAY'],
+  shopeepay: ['SHOPEEPAY'],
+  qris: ['QRIS'],
+};
+
+/**
+ * Xendit adapter built on the Invoice API. Xendit authenticates callbacks
+ * with a static verification token in the x-callback-token header rather
+ * than a payload signature.
+ */
+export class XenditGateway implements PaymentGateway {
+  readonly provider = 'xendit' as const;
+  readonly displayName = 'Xendit';
+  private config: XenditGatewayConfig;
+
+  constructor(config: XenditGatewayConfig) {
+    this.config = config;
+  }
+
+  private getAuthHeader(): string {
+    const authString = Buffer.from(`${this.config.secretKey}:`).toString(
+      'base64'
+    );
+    return `Basic ${authString}`;
+  }
+
+  private async request<T>(
+    path: string,
+    init: { method: string; body?: unknown }
+  ): Promise<T> {
+    const response = await fetch(`${XENDIT_API_URL}${path}`, {
+      method: init.method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: this.getAuthHeader(),
+        Accept: 'application/json',
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Xendit API error: ${response.status} - ${error}`);
+    }
+
+    return response.json();
+  }
+
+  async createTransaction(
+    paymentRequest: PaymentRequest
+  ): Promise<PaymentResponse> {
+    try {
+      const { customerDetails } = paymentRequest;
+      const invoice = await this.request<XenditInvoice>('/v2/invoices', {
+        method: 'POST',
+        body: {
+          external_id: paymentRequest.orderId,
+          amount: paymentRequest.amount,
+          currency: 'IDR',
+          payer_email: customerDetails.email,
+          description: paymentRequest.itemDetails
+            .map(item => item.name)
+            .join(', '),
+          invoice_duration: 3600,
+          customer: {
+            given_names: customerDetails.firstName,
+            surname: customerDetails.lastName,
+            email: customerDetails.email,
+            mobile_number: customerDetails.phone,
+          },
+          items: paymentRequest.itemDetails.map(item => ({
+            name: item.name,
+            quantity: item.quantity,
+            price: item.price,
+            category: item.category,
+          })),
+          payment_methods: paymentRequest.paymentMethod
+            ? XENDIT_PAYMENT_METHODS[paymentRequest.paymentMethod]
+            : undefined,
+          should_authenticate_credit_card:
+            paymentRequest.requireAuthentication || undefined,
+          success_redirect_url: `${process.env.SITE_URL}/payment/finish`,
+          failure_redirect_url: `${process.env.SITE_URL}/payment/error`,
+        },
+      });
+
+      return this.transformInvoice(invoice, '201', 'Invoice created');
+    } catch (error) {
+      logger.error(
+        'Error creating Xendit invoice',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'gateway',
+          operation: 'createTransaction',
+          provider: this.provider,
+          orderId: paymentRequest.orderId,
+          amount: paymentRequest.amount,
+        }
+      );
+      throw error;
+    }
+  }
+
+  async getTransactionStatus(orderId: string): Promise<PaymentResponse> {
+    try {
+      const invoice = await this.findInvoice(orderId);
+      return this.transformInvoice(invoice, '200', 'Invoice found');
+    } catch (error) {
+      logger.error(
+        'Error getting transaction status',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'gateway',
+          operation: 'getTransactionStatus',
+          provider: this.provider,
+          orderId,
+        }
+      );
+      throw error;
+    }
+  }
+
+  async cancelTransaction(orderId: string): Promise<PaymentResponse> {
+    try {
+      const invoice = await this.findInvoice(orderId);
+      const expired = await this.request<XenditInvoice>(
+        `/invoices/${invoice.id}/expire!`,
+        { method: 'POST' }
+      );
+
+      return {
+        ...this.transformInvoice(expired, '200', 'Invoice expired'),
+        status: 'cancelled',
+      };
+    } catch (error) {
+      logger.error(
+        'Error cancelling transaction',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'gateway',
+          operation: 'cancelTransaction',
+          provider: this.provider,
+          orderId,
+        }
+      );
+      throw error;
+    }
+  }
+
+  async refundTransaction(
+    orderId: string,
+    amount?: number
+  ): Promise<PaymentResponse> {
+    try {
+      const invoice = await this.findInvoice(orderId);
+      const refund = await this.request<XenditRefund>('/refunds', {
+        method: 'POST',
+        body: {
+          invoice_id: invoice.id,
+          amount: amount ?? invoice.paid_amount ?? invoice.amount,
+          reason: 'REQUESTED_BY_CUSTOMER',
+        },
+      });
+
+      return {
+        transactionId: refund.id,
+        orderId,
+        statusCode: '200',
+        statusMessage: `Refund ${refund.status.toLowerCase()}`,
+        transactionStatus: refund.status,
+        grossAmount: refund.amount,
+        status: 'refund',
+      };
+    } catch (error) {
+      logger.error(
+        'Error refunding transaction',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'gateway',
+          operation: 'refundTransaction',
+          provider: this.provider,
+          orderId,
+          amount,
+        }
+      );
+      throw error;
+    }
+  }
+
+  verifyWebhookSignature(_payload: WebhookPayload, headers?: Headers): boolean {
+    const token = headers?.get('x-callback-token');
+    if (!token || !this.config.callbackToken) return false;
+
+    const received = Buffer.from(token);
+    const expected = Buffer.from(this.config.callbackToken);
+    return (
+      received.length === expected.length &&
+      crypto.timingSafeEqual(received, expected)
+    );
+  }
+
+  parseWebhook(payload: WebhookPayload): GatewayWebhookEvent {
+    const rawStatus = String(payload.status ?? '');
+    const amount = payload.paid_amount ?? payload.amount ?? 0;
+
+    return {
+      provider: this.provider,
+      orderId: String(payload.external_id ?? ''),
+      transactionId: String(payload.id ?? payload.external_id ?? ''),
+      rawStatus,
+      status: mapXenditStatus(rawStatus),
+      paymentType:
+        typeof payload.payment_method === 'string'
+          ? payload.payment_method.toLowerCase()
+          : undefined,
+      grossAmount: Number(amount),
+    };
+  }
+
+  getClientConfig(): { clientKey: string; environment: string } {
+    // Xendit invoices are paid on a hosted page; there is no client key
+    return { clientKey: '', environment: this.config.environment };
+  }
+
+  private async findInvoice(orderId: string): Promise<XenditInvoice> {
+    const invoices = await this.request<XenditInvoice[]>(
+      `/v2/invoices?external_id=${encodeURIComponent(orderId)}`,
+      { method: 'GET' }
+    );
+
+    if (!invoices.length) {
+      throw new Error(`Xendit invoice not found for order ${orderId}`);
+    }
+
+    return invoices[0];
+  }
+
+  private transformInvoice(
+    invoice: XenditInvoice,
+    statusCode: string,
+    statusMessage: string
+  ): PaymentResponse {
+    return {
+      transactionId: invoice.id,
+      orderId: invoice.external_id,
+      statusCode,
+      statusMessage,
+      paymentType: invoice.payment_method?.toLowerCase(),
+      transactionStatus: invoice.status,
+      redirectUrl: invoice.invoice_url,
+      grossAmount: invoice.paid_amount ?? invoice.amount,
+      status: mapXenditStatus(invoice.status),
+    };
+  }
+}
@@ -1,33 +1,51 @@
-export { MidtransGateway } from './gateway';
+export {
+  MidtransGateway,
+  MockGateway,
+  XenditGateway,
+  createPaymentGateway,
+  type MockPaymentOutcome,
+} from './gateways';
 export { PaymentService } from './service';
 export { PaymentManager } from './manager';
+export { checkTransition, type TransitionResult } from './state-machine';
+export {
+  WebhookEventStore,
+  type WebhookEventFilters,
+  type WebhookEventRecord,
+  type WebhookProcessingStatus,
+} from './webhook-events';
+export {
+  PaymentRiskService,
+  assessPaymentRisk,
+  type PaymentContext,
+  type PaymentRiskCheckRecord,
+  type RiskCheckFilters,
+  type RiskDecision,
+} from './risk';
 export * from './types';
 
-import { supabase } from '../supabase';
-import type { PaymentGatewayConfig } from './types';
+import { createServiceClient } from '../supabase';
+import { createPaymentGateway } from './gateways';
 import { PaymentManager } from './manager';
 
 let paymentManager: PaymentManager | null = null;
 
 export function getPaymentManager(): PaymentManager {
   if (!paymentManager) {
-    const config: PaymentGatewayConfig = {
-      serverKey: import.meta.env.MIDTRANS_SERVER_KEY || '',
-      clientKey: import.meta.env.MIDTRANS_CLIENT_KEY || '',
-      environment:
-        (import.meta.env.MIDTRANS_ENVIRONMENT as 'sandbox' | 'production') ||
-        'sandbox',
-      merchantId: import.meta.env.MIDTRANS_MERCHANT_ID || '',
-    };
+    const gateway = createPaymentGateway({
+      PAYMENT_GATEWAY: import.meta.env.PAYMENT_GATEWAY,
+      MIDTRANS_SERVER_KEY: import.meta.env.MIDTRANS_SERVER_KEY,
+      MIDTRANS_CLIENT_KEY: import.meta.env.MIDTRANS_CLIENT_KEY,
+      MIDTRANS_ENVIRONMENT: import.meta.env.MIDTRANS_ENVIRONMENT,
+      MIDTRANS_MERCHANT_ID: import.meta.env.MIDTRANS_MERCHANT_ID,
+      XENDIT_API_KEY: import.meta.env.XENDIT_API_KEY,
+      XENDIT_CALLBACK_TOKEN: import.meta.env.XENDIT_CALLBACK_TOKEN,
+      XENDIT_ENVIRONMENT: import.meta.env.XENDIT_ENVIRONMENT,
+      MOCK_GATEWAY_SERVER_KEY: import.meta.env.MOCK_GATEWAY_SERVER_KEY,
+      NODE_ENV: import.meta.env.PROD ? 'production' : import.meta.env.MODE,
+    });
 
-    if (!config.serverKey || !config.clientKey) {
-      throw new Error('Midtrans credentials are not configured');
-    }
-
-    if (!supabase) {
-      throw new Error('Supabase client is not available');
-    }
-    paymentManager = new PaymentManager(supabase, config);
+    paymentManager = new PaymentManager(createServiceClient(), gateway);
   }
 
   return paymentManager;
@@ -1,25 +1,112 @@
-import { MidtransGateway } from './gateway';
 import { PaymentService } from './service';
+import { TaxService } from '../billing/tax-service';
+import { DunningService } from '../billing/dunning-service';
+import { CreditService, remainingRefundable } from '../billing/credit-service';
+import { InstallmentService } from '../billing/installment-service';
+import { creditForCash } from '../billing/virtual-account-service';
+import { WalletService } from '../billing/wallet-service';
 import { logger } from '../logger';
+import { ErrorFactory } from '../errors';
+import { checkTransition } from './state-machine';
+import {
+  PaymentRiskService,
+  STEP_UP_PAYMENT_METHOD,
+  type PaymentContext,
+  type RiskCheckFilters,
+} from './risk';
+import {
+  RETRYABLE_WEBHOOK_STATUSES,
+  WebhookEventStore,
+  buildPolledPayload,
+  isPolledPayload,
+  parsePolledPayload,
+  type WebhookEventFilters,
+  type WebhookEventRecord,
+} from './webhook-events';
 import type {
-  PaymentGatewayConfig,
+  GatewayWebhookEvent,
+  PaymentGateway,
   PaymentRequest,
+  PaymentResponse,
   PaymentTransaction,
-  WebhookNotification,
+  SavedPaymentMethod,
+  WebhookPayload,
 } from './types';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 export class PaymentManager {
-  private gateway: MidtransGateway;
+  private gateway: PaymentGateway;
   private service: PaymentService;
+  private taxService: TaxService;
+  private webhookEvents: WebhookEventStore;
+  private dunning: DunningService;
+  private credits: CreditService;
+  private installments: InstallmentService;
+  private wallet: WalletService;
+  private risk: PaymentRiskService;
 
-  constructor(supabaseClient: SupabaseClient, config: PaymentGatewayConfig) {
-    this.gateway = new MidtransGateway(config);
+  constructor(supabaseClient: SupabaseClient, gateway: PaymentGateway) {
+    this.gateway = gateway;
     this.service = new PaymentService(supabaseClient);
+    this.taxService = new TaxService(supabaseClient);
+    this.webhookEvents = new WebhookEventStore(supabaseClient);
+    this.dunning = new DunningService(supabaseClient);
+    this.credits = new CreditService(supabaseClient);
+    this.installments = new InstallmentService(supabaseClient);
+    this.wallet = new WalletService(supabaseClient);
+    this.risk = new PaymentRiskService(supabaseClient);
   }
 
-  async processPayment(paymentRequest: PaymentRequest, userId: string) {
+  /**
+   * Starts a gateway payment. Each attempt is risk-checked first: risky
+   * ones are limited to cards and must pass 3-D Secure, and the riskiest
+   * are refused before any transaction is created.
+   */
+  async processPayment(
+    paymentRequest: PaymentRequest,
+    userId: string,
+    context: PaymentContext = {}
+  ) {
     try {
+      let invoiceId = paymentRequest.invoiceId;
+      if (
+        paymentRequest.walletTopUp &&
+        (invoiceId || paymentRequest.installmentId)
+      ) {
+        throw ErrorFactory.invalidOperation(
+          'A wallet top-up cannot also pay an invoice'
+        );
+      }
+      if (paymentRequest.installmentId) {
+        const installment = await this.installments.assertPayable(
+          paymentRequest.installmentId,
+          userId,
+          paymentRequest.amount
+        );
+        if (invoiceId && invoiceId !== installment.invoice_id) {
+          throw ErrorFactory.resourceNotFound(
+            'Installment',
+            paymentRequest.installmentId
+          );
+        }
+        invoiceId = installment.invoice_id;
+      } else if (invoiceId) {
+        await this.assertPayableInvoice(
+          invoiceId,
+          userId,
+          paymentRequest.amount
+        );
+      }
+
+      const riskCheck = await this.risk.check(paymentRequest, userId, context);
+      if (riskCheck.decision === 'block') {
+        // Reasons stay in the risk log rather than telling the caller
+        throw ErrorFactory.paymentFailed(
+          'This payment could not be processed. Please try again later or contact support.',
+          { riskCheckId: riskCheck.id }
+        );
+      }
+
       const transaction = await this.service.createTransaction({
         orderId: paymentRequest.orderId,
         userId,
@@ -30,19 +117,39 @@ export class PaymentManager {
           id: 'temp',
           type: 'credit_card',
           name: 'Pending',
-          provider: 'Midtrans',
+          provider: this.gateway.displayName,
           isActive: true,
         },
+        metadata: paymentRequest.walletTopUp
+          ? { walletTopUp: true }
+          : invoiceId
+            ? {
+                invoiceId,
+                ...(paymentRequest.installmentId
+                  ? { installmentId: paymentRequest.installmentId }
+                  : {}),
+              }
+            : undefined,
       });
 
-      const paymentResponse =
-        await this.gateway.createTransaction(paymentRequest);
+      // Saved cards are keyed to the customer at the gateway
+      const paymentResponse = await this.gateway.createTransaction({
+        ...paymentRequest,
+        ...(paymentRequest.saveCard && { customerId: userId }),
+        ...(riskCheck.decision === 'step_up' && {
+          // Otherwise the gateway page also offers methods without 3-D Secure
+          paymentMethod: STEP_UP_PAYMENT_METHOD,
+          requireAuthentication: true,
+        }),
+      });
 
       await this.service.updateTransactionStatus(
         transaction.id,
-        this.mapMidtransStatus(paymentResponse.transactionStatus),
+        paymentResponse.status,
         {
           gatewayResponse: JSON.stringify(paymentResponse),
+          gatewayProvider: this.gateway.provider,
+          gatewayTransactionId: paymentResponse.transactionId,
           paymentType: paymentResponse.paymentType,
         }
       );
@@ -68,106 +175,348 @@ export class PaymentManager {
     }
   }
 
-  async handleWebhook(notification: WebhookNotification) {
+  /**
+   * Verifies, stores and applies a gateway notification. Each distinct
+   * notification is applied once; redeliveries are acknowledged without
+   * touching the transaction again.
+   */
+  async handleWebhook(payload: WebhookPayload, headers?: Headers) {
     try {
-      const isValid = this.gateway.verifyWebhookSignature(notification);
+      const isValid = this.gateway.verifyWebhookSignature(payload, headers);
       if (!isValid) {
         throw new Error('Invalid webhook signature');
       }
 
-      const transaction = await this.getTransactionByOrderId(
-        notification.order_id
+      const event = this.gateway.parseWebhook(payload);
+      return await this.recordAndProcess(event, payload);
+    } catch (error) {
+      logger.error(
+        'Error handling webhook',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'manager',
+          operation: 'handleWebhook',
+          provider: this.gateway.provider,
+          orderId: String(payload.order_id ?? payload.external_id ?? ''),
+        }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Re-runs a stored notification that failed or was never processed.
+   * The signature was verified when the event was first received.
+   */
+  async replayWebhookEvent(eventId: string) {
+    const record = await this.webhookEvents.getById(eventId);
+    if (!record) {
+      throw ErrorFactory.resourceNotFound('Webhook event', eventId);
+    }
+
+    if (!RETRYABLE_WEBHOOK_STATUSES.includes(record.processing_status)) {
+      throw ErrorFactory.invalidOperation(
+        `Webhook event is ${record.processing_status} and cannot be replayed`
       );
+    }
+
+    if (record.provider !== this.gateway.provider) {
+      throw ErrorFactory.invalidOperation(
+        `Webhook event was sent by ${record.provider} but the active gateway is ${this.gateway.provider}`
+      );
+    }
+
+    const event = isPolledPayload(record.payload)
+      ? parsePolledPayload(record.provider, record.payload)
+      : this.gateway.parseWebhook(record.payload);
+    return this.processWebhookEvent(record, event);
+  }
+
+  /**
+   * Applies a status polled from the gateway as though it had arrived as a
+   * notification, so reconciliation goes through the same dedupe, state
+   * machine and settlement as webhooks.
+   */
+  async applyPolledStatus(response: PaymentResponse) {
+    const payload = buildPolledPayload(response);
+    return this.recordAndProcess(
+      parsePolledPayload(this.gateway.provider, payload),
+      payload
+    );
+  }
+
+  async listWebhookEvents(filters: WebhookEventFilters = {}) {
+    return this.webhookEvents.list(filters);
+  }
+
+  async listRiskChecks(filters: RiskCheckFilters = {}) {
+    return this.risk.list(filters);
+  }
+
+  async getWebhookEvent(eventId: string) {
+    return this.webhookEvents.getById(eventId);
+  }
+
+  private async recordAndProcess(
+    event: GatewayWebhookEvent,
+    payload: WebhookPayload
+  ) {
+    const { record, duplicate } = await this.webhookEvents.record(
+      event,
+      payload
+    );
+
+    if (
+      duplicate &&
+      !RETRYABLE_WEBHOOK_STATUSES.includes(record.processing_status)
+    ) {
+      return {
+        success: true,
+        duplicate: true,
+        eventId: record.id,
+        transactionId: record.transaction_id,
+        status: record.processing_status,
+      };
+    }
+
+    return this.processWebhookEvent(record, event);
+  }
+
+  private async processWebhookEvent(
+    record: WebhookEventRecord,
+    event: GatewayWebhookEvent
+  ) {
+    const claimed = await this.webhookEvents.claim(record);
+    if (!claimed) {
+      // Another delivery of the same notification is being handled
+      return {
+        success: true,
+        duplicate: true,
+        eventId: record.id,
+        transactionId: record.transaction_id,
+        status: 'processing' as const,
+      };
+    }
+
+    try {
+      const transaction = await this.getTransactionByOrderId(event.orderId);
       if (!transaction) {
         throw new Error('Transaction not found');
       }
 
-      const newStatus = this.mapMidtransStatus(notification.transaction_status);
+      const transition = checkTransition(transaction.status, event.status);
 
-      await this.service.updateTransactionStatus(transaction.id, newStatus, {
-        webhookNotification: JSON.stringify(notification),
-        fraudStatus: notification.fraud_status,
-      });
+      if (transition === 'illegal') {
+        const reason = `Illegal status transition ${transaction.status} -> ${event.status}`;
+        await this.webhookEvents.complete(record.id, 'rejected', {
+          transactionId: transaction.id,
+          error: reason,
+        });
+        logger.warn('Rejected payment webhook', {
+          module: 'payments',
+          submodule: 'manager',
+          operation: 'processWebhookEvent',
+          eventId: record.id,
+          orderId: event.orderId,
+          gatewayStatus: event.rawStatus,
+          reason,
+        });
+        return {
+          success: true,
+          duplicate: false,
+          eventId: record.id,
+          transactionId: transaction.id,
+          status: 'rejected' as const,
+        };
+      }
+
+      if (transition === 'apply') {
+        // Only the delivery that changes the status goes on to settle; a
+        // concurrent one for the same status (capture and settlement, say)
+        // finds it changed and stops
+        const applied = await this.service.transitionTransactionStatus(
+          transaction.id,
+          transaction.status,
+          event.status,
+          {
+            webhookNotification: JSON.stringify(record.payload),
+            fraudStatus: event.fraudStatus,
+            gatewayProvider: event.provider,
+            gatewayTransactionId: event.transactionId,
+            paymentType: event.paymentType,
+          }
+        );
 
-      if (newStatus === 'success') {
-        await this.generateInvoiceForTransaction(transaction);
+        if (!applied) {
+          const current = await this.getTransactionByOrderId(event.orderId);
+          if (current?.status !== event.status) {
+            // Moved somewhere else meanwhile; the retry decides again
+            throw new Error(
+              `Transaction status changed from ${transaction.status} while applying ${event.status}`
+            );
+          }
+        }
+
+        if (applied && event.status === 'success') {
+          await this.settleTransaction(transaction, event.grossAmount);
+          if (event.savedToken) {
+            await this.saveCardToken(transaction, event);
+          }
+        }
       }
 
-      return { success: true, transactionId: transaction.id };
+      await this.webhookEvents.complete(record.id, 'processed', {
+        transactionId: transaction.id,
+      });
+
+      return {
+        success: true,
+        duplicate: false,
+        eventId: record.id,
+        transactionId: transaction.id,
+        status: 'processed' as const,
+      };
     } catch (error) {
-      logger.error(
-        'Error handling webhook',
-        error instanceof Error ? error : new Error(String(error)),
-        {
-          module: 'payments',
-          submodule: 'manager',
-          operation: 'handleWebhook',
-          orderId: notification.order_id,
-          transactionStatus: notification.transaction_status,
-        }
+      await this.webhookEvents.fail(
+        record.id,
+        error instanceof Error ? error.message : String(error)
       );
       throw error;
     }
   }
 
+  /**
+   * Charges a saved, tokenized method without the customer present
+   * (autopay). The result is final for cards; e-wallet charges may stay
+   * pending until the gateway notification arrives.
+   */
+  async chargeSavedMethod(
+    paymentRequest: PaymentRequest,
+    userId: string,
+    method: SavedPaymentMethod
+  ) {
+    if (!this.gateway.chargeSavedMethod) {
+      throw ErrorFactory.invalidOperation(
+        `${this.gateway.displayName} does not support charging saved payment methods`
+      );
+    }
+
+    if (paymentRequest.invoiceId) {
+      await this.assertPayableInvoice(
+        paymentRequest.invoiceId,
+        userId,
+        paymentRequest.amount
+      );
+    }
+
+    const transaction = await this.service.createTransaction({
+      orderId: paymentRequest.orderId,
+      userId,
+      amount: paymentRequest.amount,
+      currency: 'IDR',
+      status: 'pending',
+      paymentMethod: {
+        id: method.id,
+        type: method.type,
+        name: method.displayName,
+        provider: this.gateway.displayName,
+        isActive: true,
+      },
+      metadata: {
+        autopay: true,
+        paymentMethodId: method.id,
+        ...(paymentRequest.invoiceId
+          ? { invoiceId: paymentRequest.invoiceId }
+          : {}),
+      },
+    });
+
+    let paymentResponse: PaymentResponse;
+    try {
+      paymentResponse = await this.gateway.chargeSavedMethod(
+        paymentRequest,
+        method
+      );
+    } catch (error) {
+      await this.service.updateTransactionStatus(transaction.id, 'failed', {
+        failureReason: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    // A webhook for the charge may have settled it already
+    const applied = await this.service.transitionTransactionStatus(
+      transaction.id,
+      transaction.status,
+      paymentResponse.status,
+      {
+        gatewayResponse: JSON.stringify(paymentResponse),
+        gatewayProvider: this.gateway.provider,
+        gatewayTransactionId: paymentResponse.transactionId,
+        paymentType: paymentResponse.paymentType,
+        declineCode: paymentResponse.declineCode,
+      }
+    );
+
+    if (applied && paymentResponse.status === 'success') {
+      await this.settleTransaction(transaction, paymentResponse.grossAmount);
+    }
+
+    return { transaction, paymentResponse };
+  }
+
   async getPaymentMethods() {
     return [
       {
         id: 'credit_card',
         type: 'credit_card' as const,
         name: 'Credit Card',
-        provider: 'Midtrans',
+        provider: this.gateway.displayName,
         isActive: true,
       },
       {
         id: 'bank_transfer',
         type: 'bank_transfer' as const,
         name: 'Bank Transfer',
-        provider: 'Midtrans',
+        provider: this.gateway.displayName,
         isActive: true,
       },
       {
         id: 'gopay',
         type: 'ewallet' as const,
         name: 'GoPay',
-        provider: 'Midtrans',
+        provider: this.gateway.displayName,
         isActive: true,
       },
       {
         id: 'shopeepay',
         type: 'ewallet' as const,
         name: 'ShopeePay',
-        provider: 'Midtrans',
+        provider: this.gateway.displayName,
         isActive: true,
       },
       {
         id: 'qris',
         type: 'ewallet' as const,
         name: 'QRIS',
-        provider: 'Midtrans',
+        provider: this.gateway.displayName,
         isActive: true,
       },
     ];
   }
 
+  /**
+   * Polls the gateway for a payment's status. A change is applied through
+   * the webhook path, so a payment found settled here settles its invoice.
+   */
   async getTransactionStatus(orderId: string) {
     try {
       const paymentResponse = await this.gateway.getTransactionStatus(orderId);
       const transaction = await this.getTransactionByOrderId(orderId);
 
-      if (transaction) {
-        const newStatus = this.mapMidtransStatus(
-          paymentResponse.transactionStatus
-        );
-        if (transaction.status !== newStatus) {
-          await this.service.updateTransactionStatus(
-            transaction.id,
-            newStatus,
-            {
-              gatewayResponse: JSON.stringify(paymentResponse),
-            }
-          );
-        }
+      if (transaction && transaction.status !== paymentResponse.status) {
+        await this.applyPolledStatus(paymentResponse);
       }
 
       return paymentResponse;
@@ -186,19 +535,25 @@ export class PaymentManager {
     }
   }
 
+  /**
+   * Cancels a pending payment at the gateway and records the status the
+   * gateway reports through the webhook path.
+   */
   async cancelPayment(orderId: string) {
     try {
-      const paymentResponse = await this.gateway.cancelTransaction(orderId);
       const transaction = await this.getTransactionByOrderId(orderId);
+      if (
+        transaction &&
+        checkTransition(transaction.status, 'cancelled') === 'illegal'
+      ) {
+        throw ErrorFactory.invalidOperation(
+          `Payment ${orderId} is ${transaction.status} and cannot be cancelled`
+        );
+      }
 
+      const paymentResponse = await this.gateway.cancelTransaction(orderId);
       if (transaction) {
-        await this.service.updateTransactionStatus(
-          transaction.id,
-          'cancelled',
-          {
-            gatewayResponse: JSON.stringify(paymentResponse),
-          }
-        );
+        await this.applyPolledStatus(paymentResponse);
       }
 
       return paymentResponse;
@@ -217,18 +572,58 @@ export class PaymentManager {
     }
   }
 
-  async refundPayment(orderId: string, amount?: number) {
+  /**
+   * Refunds all or part of a payment through the gateway and records the
+   * refund on the customer's credit ledger. Partial refunds may be repeated
+   * until the payment is fully refunded.
+   */
+  async refundPayment(orderId: string, amount?: number, reason?: string) {
     try {
+      const transaction = await this.getTransactionByOrderId(orderId);
+
+      let refundAmount = amount;
+      let refundedBefore = 0;
+      if (transaction) {
+        refundedBefore = await this.credits.getRefundedAmount(transaction.id);
+        const refundable = remainingRefundable(
+          transaction.amount,
+          refundedBefore
+        );
+        refundAmount = amount ?? refundable;
+
+        if (refundAmount <= 0 || refundAmount > refundable) {
+          throw ErrorFactory.invalidOperation(
+            `Refund of ${refundAmount} exceeds the refundable amount of ${refundable}`
+          );
+        }
+      }
+
       const paymentResponse = await this.gateway.refundTransaction(
         orderId,
-        amount
+        refundAmount
       );
-      const transaction = await this.getTransactionByOrderId(orderId);
 
-      if (transaction) {
+      if (transaction && refundAmount) {
         await this.service.updateTransactionStatus(transaction.id, 'refund', {
           gatewayResponse: JSON.stringify(paymentResponse),
-          refundAmount: amount,
+          refundAmount: refundedBefore + refundAmount,
+          refundReason: reason,
+        });
+
+        const invoiceId =
+          typeof transaction.metadata?.invoiceId === 'string'
+            ? transaction.metadata.invoiceId
+            : (await this.service.getInvoiceByTransactionId(transaction.id))
+                ?.id;
+
+        await this.credits.recordRefund({
+          userId: transaction.userId,
+          transactionId: transaction.id,
+          invoiceId,
+          amount: refundAmount,
+          description: reason
+            ? `Refund for ${orderId}: ${reason}`
+            : `Refund for ${orderId}`,
         });
       }
 
@@ -265,48 +660,288 @@ export class PaymentManager {
     return this.gateway.getClientConfig();
   }
 
-  private mapMidtransStatus(
-    midtransStatus: string
-  ): PaymentTransaction['status'] {
-    const statusMap: Record<string, PaymentTransaction['status']> = {
-      capture: 'success',
-      settlement: 'success',
-      pending: 'pending',
-      deny: 'failed',
-      cancel: 'cancelled',
-      expire: 'failed',
-      refund: 'refund',
-      partial_refund: 'refund',
-    };
-
-    return statusMap[midtransStatus] || 'pending';
+  getGateway(): PaymentGateway {
+    return this.gateway;
+  }
+
+  /**
+   * A payment against an outstanding invoice marks that invoice paid and
+   * lifts any dunning suspension; other payments get a paid invoice. An
+   * installment payment settles the invoice once the plan's last
+   * installment is paid. A wallet top-up is credited to the wallet
+   * instead. An invoice is only marked paid when the gross amount the
+   * gateway settled covers it.
+   */
+  private async settleTransaction(
+    transaction: PaymentTransaction,
+    grossAmount: number
+  ) {
+    if (transaction.metadata?.walletTopUp === true) {
+      await this.wallet.recordTopUp(transaction);
+      return;
+    }
+
+    const invoiceId = transaction.metadata?.invoiceId;
+    if (typeof invoiceId !== 'string') {
+      await this.generateInvoiceForTransaction(transaction);
+      return;
+    }
+
+    // Polled statuses may not carry an amount; the charge was checked then
+    const settled = grossAmount > 0 ? grossAmount : Number(transaction.amount);
+
+    const installmentId = transaction.metadata?.installmentId;
+    if (typeof installmentId === 'string') {
+      if (
+        !(await this.coversAmount(transaction, settled, transaction.amount))
+      ) {
+        return;
+      }
+
+      const recorded = await this.installments.recordPayment(
+        installmentId,
+        transaction.id
+      );
+      if (!recorded) {
+        // Another payment settled the installment first
+        await this.creditUnappliedPayment(
+          transaction,
+          settled,
+          'its installment was already paid'
+        );
+        return;
+      }
+
+      if (recorded.planCompleted) {
+        await this.service.markInvoicePaid(invoiceId, transaction.id);
+      }
+      // Catching up on the plan also lifts a suspension
+      await this.dunning.handleInvoicePaid(invoiceId);
+      return;
+    }
+
+    const invoice = await this.openInvoiceFor(invoiceId);
+    if (!invoice) {
+      await this.creditUnappliedPayment(
+        transaction,
+        settled,
+        'its invoice was voided or already paid'
+      );
+      return;
+    }
+    // The total may have been adjusted since the payment was started
+    if (!(await this.coversAmount(transaction, settled, invoice.total))) {
+      return;
+    }
+
+    const paid = await this.service.markInvoicePaid(invoice.id, transaction.id);
+    if (!paid) {
+      await this.creditUnappliedPayment(
+        transaction,
+        settled,
+        'its invoice was voided or paid while it settled'
+      );
+      return;
+    }
+    await this.dunning.handleInvoicePaid(invoice.id);
+  }
+
+  /**
+   * The open invoice a payment should settle. A payment started before its
+   * invoice was voided and reissued pays the reissued copy instead. Null
+   * when there is nothing left to pay.
+   */
+  private async openInvoiceFor(invoiceId: string) {
+    let invoice = await this.service.getInvoiceById(invoiceId);
+    // A reissued copy can itself be voided and reissued
+    for (let hops = 0; invoice?.status === 'void' && hops < 5; hops++) {
+      invoice = await this.service.getReissuedInvoice(invoice.id);
+    }
+
+    return invoice &&
+      (invoice.status === 'sent' || invoice.status === 'overdue')
+      ? invoice
+      : null;
+  }
+
+  /**
+   * Adds a settled payment that could not be applied to the customer's
+   * credit balance, so it counts towards their next invoice. Credit notes
+   * are net of PPN, so the cash is credited at its pre-tax value.
+   */
+  private async creditUnappliedPayment(
+    transaction: PaymentTransaction,
+    cash: number,
+    why: string
+  ) {
+    const invoiceId = transaction.metadata?.invoiceId;
+    const taxCalculation = await this.taxService.calculateInvoiceTax(
+      transaction.userId,
+      [
+        {
+          description: 'Unapplied payment',
+          quantity: 1,
+          unitPrice: cash,
+          total: cash,
+          category: 'recurring_service',
+        },
+      ],
+      transaction.createdAt
+    );
+    const amount = creditForCash(cash, taxCalculation);
+
+    logger.warn('Crediting unapplied payment to the customer balance', {
+      module: 'payments',
+      submodule: 'manager',
+      operation: 'settleTransaction',
+      transactionId: transaction.id,
+      userId: transaction.userId,
+      invoiceId: String(invoiceId ?? ''),
+      cash,
+      amount,
+    });
+
+    await this.credits.creditPayment({
+      userId: transaction.userId,
+      transactionId: transaction.id,
+      amount,
+      invoiceId: typeof invoiceId === 'string' ? invoiceId : null,
+      description: `Rp ${cash.toLocaleString('id-ID')} from payment ${transaction.orderId} credited because ${why}`,
+    });
+  }
+
+  /**
+   * Whether a settled amount covers what it was meant to pay. A shortfall
+   * is credited to the customer's balance instead; the invoice stays open
+   * in dunning for the rest.
+   */
+  private async coversAmount(
+    transaction: PaymentTransaction,
+    settled: number,
+    due: number
+  ): Promise<boolean> {
+    if (settled - Number(due) > -0.01) return true;
+
+    logger.error(
+      'Settled payment does not cover the amount due',
+      new Error(`Settled ${settled} of ${Number(due)}`),
+      {
+        module: 'payments',
+        submodule: 'manager',
+        operation: 'settleTransaction',
+        transactionId: transaction.id,
+        userId: transaction.userId,
+        invoiceId: String(transaction.metadata?.invoiceId ?? ''),
+        settled,
+        due: Number(due),
+      }
+    );
+    await this.creditUnappliedPayment(
+      transaction,
+      settled,
+      `it did not cover the Rp ${Number(due).toLocaleString('id-ID')} due`
+    );
+    return false;
+  }
+
+  private async saveCardToken(
+    transaction: PaymentTransaction,
+    event: GatewayWebhookEvent
+  ) {
+    if (!event.savedToken) return;
+
+    try {
+      await this.service.saveCardToken(
+        transaction.userId,
+        event.provider,
+        event.savedToken
+      );
+    } catch (error) {
+      // The payment itself succeeded; the customer can save the card again
+      logger.error(
+        'Error saving card token',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'manager',
+          operation: 'saveCardToken',
+          transactionId: transaction.id,
+          userId: transaction.userId,
+        }
+      );
+    }
+  }
+
+  /**
+   * Checks an invoice can be paid by the customer for the amount asked.
+   * Invoice totals are already net of applied credit.
+   */
+  private async assertPayableInvoice(
+    invoiceId: string,
+    userId: string,
+    amount: number
+  ) {
+    const invoice = await this.service.getInvoiceById(invoiceId);
+    if (!invoice || invoice.userId !== userId) {
+      throw ErrorFactory.resourceNotFound('Invoice', invoiceId);
+    }
+    if (invoice.status !== 'sent' && invoice.status !== 'overdue') {
+      throw ErrorFactory.invalidOperation(
+        `Invoice ${invoice.invoiceNumber} is ${invoice.status} and cannot be paid`
+      );
+    }
+    if (
+      (await this.installments.getPlanStanding(invoiceId, new Date())) !==
+      'none'
+    ) {
+      throw ErrorFactory.invalidOperation(
+        `Invoice ${invoice.invoiceNumber} is on an installment plan; pay the installments instead`
+      );
+    }
+    if (Math.abs(Number(invoice.total) - Number(amount)) >= 0.01) {
+      throw ErrorFactory.validationFailed(
+        `Invoice ${invoice.invoiceNumber} is for ${Number(invoice.total)}`,
+        'amount'
+      );
+    }
   }
 
   private async generateInvoiceForTransaction(transaction: PaymentTransaction) {
     try {
-      const invoiceNumber = await this.service.generateInvoiceNumber();
+      const existing = await this.service.getInvoiceByTransactionId(
+        transaction.id
+      );
+      if (existing) return;
+
       const dueDate = new Date();
       dueDate.setDate(dueDate.getDate() + 30);
 
-      await this.service.createInvoice({
-        invoiceNumber,
-        userId: transaction.userId,
-        transactionId: transaction.id,
-        amount: transaction.amount,
-        subtotal: transaction.amount,
-        tax: Math.round(transaction.amount * 0.11),
-        total: transaction.amount + Math.round(transaction.amount * 0.11),
-        dueDate,
-        status: 'paid',
-        items: [
+      const taxCalculation = await this.taxService.calculateInvoiceTax(
+        transaction.userId,
+        [
           {
-            id: '1',
             description: 'Internet Service Payment',
             quantity: 1,
             unitPrice: transaction.amount,
             total: transaction.amount,
+            category: 'recurring_service',
           },
         ],
+        transaction.createdAt
+      );
+
+      await this.service.createInvoice({
+        userId: transaction.userId,
+        transactionId: transaction.id,
+        amount: taxCalculation.subtotal,
+        subtotal: taxCalculation.subtotal,
+        tax: taxCalculation.vat,
+        total: taxCalculation.total,
+        taxWithheld: taxCalculation.withheld,
+        taxDetails: taxCalculation.applied,
+        dueDate,
+        status: 'paid',
+        items: taxCalculation.items,
       });
     } catch (error) {
       logger.error(
@@ -324,7 +959,7 @@ export class PaymentManager {
     }
   }
 
-  private async getTransactionByOrderId(
+  async getTransactionByOrderId(
     orderId: string
   ): Promise<PaymentTransaction | null> {
     return this.service.getTransactionByOrderId(orderId);
@@ -0,0 +1,340 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../logger';
+import { getPaymentManager } from './index';
+import { PaymentService } from './service';
+import type { PaymentManager } from './manager';
+import type { PaymentResponse, PaymentTransaction } from './types';
+
+/** Pending transactions untouched for this long are polled */
+export const STALE_PENDING_MINUTES = 30;
+/** Still pending at the gateway after this long is reported, not waited on */
+export const STUCK_PENDING_HOURS = 48;
+/** Older transactions are left to manual review */
+export const MAX_RECONCILE_AGE_DAYS = 30;
+
+const RECONCILE_BATCH_SIZE = 100;
+
+export type DiscrepancyType =
+  | 'not_found'
+  | 'gateway_error'
+  | 'unknown_status'
+  | 'amount_mismatch'
+  | 'stuck_pending'
+  | 'rejected_transition'
+  | 'apply_failed';
+
+export interface ReconciliationDiscrepancy {
+  transactionId: string;
+  orderId: string;
+  type: DiscrepancyType;
+  localStatus: PaymentTransaction['status'];
+  gatewayStatus?: string;
+  localAmount: number;
+  gatewayAmount?: number;
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  runId: string | null;
+  provider: string;
+  startedAt: Date;
+  completedAt: Date;
+  checked: number;
+  resolved: number;
+  unchanged: number;
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+export type GatewayAssessment =
+  | { action: 'apply' }
+  | { action: 'wait' }
+  | { action: 'flag'; type: DiscrepancyType; detail: string };
+
+/**
+ * Decides what to do with a polled gateway status before anything is
+ * applied. Gateways map statuses they do not recognise to pending, so a
+ * pending result whose raw status is something else is an unknown status.
+ */
+export function assessGatewayStatus(
+  transaction: PaymentTransaction,
+  response: PaymentResponse,
+  now: Date
+): GatewayAssessment {
+  if (response.statusCode === '404') {
+    return {
+      action: 'flag',
+      type: 'not_found',
+      detail: 'The gateway has no record of this order',
+    };
+  }
+
+  const rawStatus = String(response.transactionStatus ?? '');
+
+  if (response.status === 'pending') {
+    if (rawStatus.toLowerCase() !== 'pending') {
+      return {
+        action: 'flag',
+        type: 'unknown_status',
+        detail: `Unrecognised gateway status "${rawStatus}"`,
+      };
+    }
+
+    const pendingHours =
+      (now.getTime() - transaction.createdAt.getTime()) / (60 * 60 * 1000);
+    if (pendingHours >= STUCK_PENDING_HOURS) {
+      return {
+        action: 'flag',
+        type: 'stuck_pending',
+        detail: `Pending at the gateway for ${Math.floor(pendingHours)} hours`,
+      };
+    }
+
+    return { action: 'wait' };
+  }
+
+  if (
+    response.grossAmount > 0 &&
+    Math.abs(response.grossAmount - Number(transaction.amount)) >= 0.01
+  ) {
+    return {
+      action: 'flag',
+      type: 'amount_mismatch',
+      detail: `Gateway reports ${response.grossAmount} but ${transaction.amount} was charged`,
+    };
+  }
+
+  return { action: 'apply' };
+}
+
+export class ReconciliationService {
+  private supabase: SupabaseClient;
+  private paymentService: PaymentService;
+  private paymentManager?: PaymentManager;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    options: { paymentManager?: PaymentManager } = {}
+  ) {
+    this.supabase = supabaseClient;
+    this.paymentService = new PaymentService(supabaseClient);
+    this.paymentManager = options.paymentManager;
+  }
+
+  /**
+   * Polls the gateway for every stale pending transaction, applies final
+   * statuses through the webhook path and records whatever could not be
+   * resolved automatically.
+   */
+  async run(now: Date = new Date()): Promise<ReconciliationReport> {
+    const manager = this.getPaymentManager();
+    const provider = manager.getGateway().provider;
+    const staleBefore = new Date(
+      now.getTime() - STALE_PENDING_MINUTES * 60 * 1000
+    );
+    const createdAfter = new Date(now);
+    createdAfter.setDate(createdAfter.getDate() - MAX_RECONCILE_AGE_DAYS);
+    const transactions = await this.paymentService.getStalePendingTransactions(
+      staleBefore,
+      createdAfter,
+      RECONCILE_BATCH_SIZE
+    );
+
+    const report: ReconciliationReport = {
+      runId: null,
+      provider,
+      startedAt: now,
+      completedAt: now,
+      checked: 0,
+      resolved: 0,
+      unchanged: 0,
+      discrepancies: [],
+    };
+
+    for (const transaction of transactions) {
+      report.checked++;
+      const outcome = await this.reconcileTransaction(
+        manager,
+        transaction,
+        now
+      );
+
+      if (outcome === 'resolved') {
+        report.resolved++;
+      } else if (outcome === 'unchanged') {
+        report.unchanged++;
+      } else {
+        report.discrepancies.push(outcome);
+      }
+    }
+
+    report.completedAt = new Date();
+    report.runId = await this.saveReport(report);
+
+    if (report.discrepancies.length > 0) {
+      logger.warn('Payment reconciliation found discrepancies', {
+        module: 'payments',
+        submodule: 'reconciliation',
+        operation: 'run',
+        runId: report.runId ?? undefined,
+        discrepancies: report.discrepancies.length,
+        orderIds: report.discrepancies.map(d => d.orderId).join(','),
+      });
+    }
+
+    return report;
+  }
+
+  async listRuns(
+    limit = 20,
+    offset = 0
+  ): Promise<{ runs: Record<string, unknown>[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from('payment_reconciliation_runs')
+      .select('*, payment_reconciliation_discrepancies (*)', {
+        count: 'exact',
+      })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list reconciliation runs: ${error.message}`);
+    }
+
+    return { runs: data || [], total: count || 0 };
+  }
+
+  private async reconcileTransaction(
+    manager: PaymentManager,
+    transaction: PaymentTransaction,
+    now: Date
+  ): Promise<'resolved' | 'unchanged' | ReconciliationDiscrepancy> {
+    const discrepancy = (
+      type: DiscrepancyType,
+      detail: string,
+      response?: PaymentResponse
+    ): ReconciliationDiscrepancy => ({
+      transactionId: transaction.id,
+      orderId: transaction.orderId,
+      type,
+      localStatus: transaction.status,
+      gatewayStatus: response?.transactionStatus,
+      localAmount: Number(transaction.amount),
+      gatewayAmount:
+        response && Number.isFinite(response.grossAmount)
+          ? response.grossAmount
+          : undefined,
+      detail,
+    });
+
+    let response: PaymentResponse;
+    try {
+      response = await manager
+        .getGateway()
+        .getTransactionStatus(transaction.orderId);
+    } catch (error) {
+      return discrepancy(
+        'gateway_error',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    const assessment = assessGatewayStatus(transaction, response, now);
+    if (assessment.action === 'wait') return 'unchanged';
+    if (assessment.action === 'flag') {
+      return discrepancy(assessment.type, assessment.detail, response);
+    }
+
+    try {
+      const result = await manager.applyPolledStatus(response);
+      if (result.status === 'rejected') {
+        return discrepancy(
+          'rejected_transition',
+          `Gateway status ${response.transactionStatus} cannot be applied to a ${transaction.status} transaction`,
+          response
+        );
+      }
+      return 'resolved';
+    } catch (error) {
+      return discrepancy(
+        'apply_failed',
+        error instanceof Error ? error.message : String(error),
+        response
+      );
+    }
+  }
+
+  /**
+   * Stores the run and its discrepancies. A failure here is logged rather
+   * than thrown: the statuses have already been applied.
+   */
+  private async saveReport(
+    report: ReconciliationReport
+  ): Promise<string | null> {
+    const { data: run, error } = await this.supabase
+      .from('payment_reconciliation_runs')
+      .insert({
+        provider: report.provider,
+        started_at: report.startedAt.toISOString(),
+        completed_at: report.completedAt.toISOString(),
+        checked: report.checked,
+        resolved: report.resolved,
+        unchanged: report.unchanged,
+        discrepancy_count: report.discrepancies.length,
+      })
+      .select('id')
+      .single();
+
+    if (error || !run) {
+      logger.error(
+        'Failed to record reconciliation run',
+        new Error(error?.message || 'No run returned'),
+        {
+          module: 'payments',
+          submodule: 'reconciliation',
+          operation: 'saveReport',
+        }
+      );
+      return null;
+    }
+
+    if (report.discrepancies.length > 0) {
+      const { error: discrepancyError } = await this.supabase
+        .from('payment_reconciliation_discrepancies')
+        .insert(
+          report.discrepancies.map(d => ({
+            run_id: run.id,
+            transaction_id: d.transactionId,
+            order_id: d.orderId,
+            discrepancy_type: d.type,
+            local_status: d.localStatus,
+            gateway_status: d.gatewayStatus ?? null,
+            local_amount: d.localAmount,
+            gateway_amount: d.gatewayAmount ?? null,
+            detail: d.detail,
+          }))
+        );
+
+      if (discrepancyError) {
+        logger.error(
+          'Failed to record reconciliation discrepancies',
+          new Error(discrepancyError.message),
+          {
+            module: 'payments',
+            submodule: 'reconciliation',
+            operation: 'saveReport',
+            runId: run.id,
+          }
+        );
+      }
+    }
+
+    return run.id;
+  }
+
+  private getPaymentManager(): PaymentManager {
+    if (!this.paymentManager) {
+      this.paymentManager = getPaymentManager();
+    }
+    return this.paymentManager;
+  }
+}
@@ -0,0 +1,400 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../logger';
+import { securityAuditLogger } from '../security/audit';
+import { SecurityEventType, SecuritySeverity } from '../security/types';
+import type { PaymentRequest } from './types';
+
+/** Client IP recorded when the request carried no proxy headers */
+export const UNKNOWN_IP = 'unknown';
+
+/**
+ * allow: create the transaction as asked. step_up: create it, but make the
+ * gateway require 3-D Secure on cards. block: create nothing.
+ */
+export type RiskDecision = 'allow' | 'step_up' | 'block';
+
+/** The only method a gateway can put behind 3-D Secure */
+export const STEP_UP_PAYMENT_METHOD = 'credit_card';
+
+export type RiskReasonCode =
+  | 'user_velocity'
+  | 'ip_velocity'
+  | 'shared_ip'
+  | 'repeated_denials'
+  | 'email_mismatch';
+
+export interface RiskReason {
+  code: RiskReasonCode;
+  decision: Exclude<RiskDecision, 'allow'>;
+  detail: string;
+}
+
+export interface RiskThresholds {
+  stepUp: number;
+  block: number;
+}
+
+export interface PaymentRiskPolicy {
+  /** Window attempts are counted over for velocity */
+  velocityWindowMinutes: number;
+  /** Earlier attempts by the same user within the window */
+  userAttempts: RiskThresholds;
+  /** Earlier attempts from the same IP within the window */
+  ipAttempts: RiskThresholds;
+  /** Window for declined payments and accounts sharing an IP */
+  lookbackHours: number;
+  /** Declined transactions for the user within the lookback */
+  denials: RiskThresholds;
+  /**
+   * Accounts paying from one IP within the lookback before stepping up.
+   * Carrier-grade and office NAT put many customers behind one address, so
+   * this is set high and never counts toward blocking on its own.
+   */
+  ipAccounts: number;
+}
+
+export const DEFAULT_RISK_POLICY: PaymentRiskPolicy = {
+  velocityWindowMinutes: 10,
+  userAttempts: { stepUp: 5, block: 10 },
+  ipAttempts: { stepUp: 10, block: 20 },
+  lookbackHours: 24,
+  denials: { stepUp: 3, block: 5 },
+  ipAccounts: 10,
+};
+
+/** Where a payment attempt came from */
+export interface PaymentContext {
+  ipAddress?: string;
+  userAgent?: string;
+  /** Email on the signed-in account, compared with the one sent */
+  accountEmail?: string;
+}
+
+export interface RiskSignals {
+  userAttempts: number;
+  ipAttempts: number;
+  /** Distinct accounts seen on the IP, this one included */
+  ipAccounts: number;
+  recentDenials: number;
+  emailMismatch: boolean;
+}
+
+export interface RiskAssessment {
+  decision: RiskDecision;
+  reasons: RiskReason[];
+}
+
+export interface PaymentRiskCheckRecord {
+  id: string;
+  user_id: string;
+  order_id: string;
+  amount: number;
+  ip_address: string;
+  user_agent: string | null;
+  customer_email: string | null;
+  decision: RiskDecision;
+  reasons: RiskReasonCode[];
+  signals: RiskSignals;
+  created_at: string;
+}
+
+export interface RiskCheckFilters {
+  decision?: RiskDecision;
+  userId?: string;
+  ipAddress?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type RiskEventSink = Pick<
+  typeof securityAuditLogger,
+  'createSecurityEvent'
+>;
+
+function thresholdReason(
+  code: RiskReasonCode,
+  count: number,
+  thresholds: RiskThresholds,
+  detail: string
+): RiskReason | null {
+  if (count >= thresholds.block) return { code, decision: 'block', detail };
+  if (count >= thresholds.stepUp) return { code, decision: 'step_up', detail };
+  return null;
+}
+
+function normalizeEmail(email?: string): string {
+  return (email || '').trim().toLowerCase();
+}
+
+/**
+ * Scores a payment attempt. Each signal over its step-up threshold asks
+ * for 3-D Secure and over its block threshold stops the attempt; two
+ * signals needing step-up together are treated as a block, not counting a
+ * shared IP. Bank transfers, virtual accounts and e-wallets have no 3-D
+ * Secure, so an attempt with one of those that needs step-up is blocked.
+ */
+export function assessPaymentRisk(
+  signals: RiskSignals,
+  policy: PaymentRiskPolicy = DEFAULT_RISK_POLICY,
+  paymentMethod?: string
+): RiskAssessment {
+  const window = `${policy.velocityWindowMinutes} minutes`;
+  const lookback = `${policy.lookbackHours} hours`;
+
+  const reasons = [
+    thresholdReason(
+      'user_velocity',
+      signals.userAttempts,
+      policy.userAttempts,
+      `${signals.userAttempts} earlier attempts by this account in ${window}`
+    ),
+    thresholdReason(
+      'ip_velocity',
+      signals.ipAttempts,
+      policy.ipAttempts,
+      `${signals.ipAttempts} earlier attempts from this IP in ${window}`
+    ),
+    thresholdReason(
+      'repeated_denials',
+      signals.recentDenials,
+      policy.denials,
+      `${signals.recentDenials} declined payments in ${lookback}`
+    ),
+    signals.ipAccounts >= policy.ipAccounts
+      ? ({
+          code: 'shared_ip',
+          decision: 'step_up',
+          detail: `${signals.ipAccounts} accounts paying from this IP in ${lookback}`,
+        } as RiskReason)
+      : null,
+    signals.emailMismatch
+      ? ({
+          code: 'email_mismatch',
+          decision: 'step_up',
+          detail: 'Customer email differs from the account email',
+        } as RiskReason)
+      : null,
+  ].filter((reason): reason is RiskReason => reason !== null);
+
+  const stackingReasons = reasons.filter(reason => reason.code !== 'shared_ip');
+  const stepUpEnforced =
+    !paymentMethod || paymentMethod === STEP_UP_PAYMENT_METHOD;
+  const blocked =
+    reasons.some(reason => reason.decision === 'block') ||
+    stackingReasons.length >= 2 ||
+    (reasons.length > 0 && !stepUpEnforced);
+
+  return {
+    decision: blocked ? 'block' : reasons.length > 0 ? 'step_up' : 'allow',
+    reasons,
+  };
+}
+
+/**
+ * Checks payment attempts before a gateway transaction is created and keeps
+ * a record of each, which is what later velocity checks count. Attempts
+ * that are stepped up or blocked are also raised as security events.
+ */
+export class PaymentRiskService {
+  private supabase: SupabaseClient;
+  private events: RiskEventSink;
+  private policy: PaymentRiskPolicy;
+
+  constructor(
+    supabaseClient: SupabaseClient,
+    events: RiskEventSink = securityAuditLogger,
+    policy: PaymentRiskPolicy = DEFAULT_RISK_POLICY
+  ) {
+    this.supabase = supabaseClient;
+    this.events = events;
+    this.policy = policy;
+  }
+
+  async check(
+    request: PaymentRequest,
+    userId: string,
+    context: PaymentContext = {},
+    now: Date = new Date()
+  ): Promise<PaymentRiskCheckRecord> {
+    const ipAddress = context.ipAddress || UNKNOWN_IP;
+    const signals = await this.gatherSignals(
+      request,
+      userId,
+      { ...context, ipAddress },
+      now
+    );
+    const { decision, reasons } = assessPaymentRisk(
+      signals,
+      this.policy,
+      request.paymentMethod
+    );
+    const codes = reasons.map(reason => reason.code);
+
+    const { data, error } = await this.supabase
+      .from('payment_risk_checks')
+      .insert({
+        user_id: userId,
+        order_id: request.orderId,
+        amount: request.amount,
+        ip_address: ipAddress,
+        user_agent: context.userAgent ?? null,
+        customer_email: request.customerDetails?.email ?? null,
+        decision,
+        reasons: codes,
+        signals,
+        created_at: now.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record payment risk check: ${error.message}`);
+    }
+
+    if (decision !== 'allow') {
+      logger.warn('Payment attempt flagged', {
+        module: 'payments',
+        submodule: 'risk',
+        operation: 'check',
+        userId,
+        orderId: request.orderId,
+        ipAddress,
+        decision,
+        reasons: codes.join(','),
+      });
+
+      const blocked = decision === 'block';
+      const details = reasons.map(reason => reason.detail).join('; ');
+      await this.events.createSecurityEvent(
+        blocked
+          ? SecurityEventType.SUSPICIOUS_ACTIVITY
+          : SecurityEventType.ANOMALOUS_BEHAVIOR,
+        blocked ? SecuritySeverity.HIGH : SecuritySeverity.MEDIUM,
+        userId,
+        ipAddress,
+        `Payment ${blocked ? 'blocked' : 'stepped up to 3-D Secure'}: ${details}`,
+        {
+          source: 'payment_risk_check',
+          risk_check_id: data.id,
+          order_id: request.orderId,
+          amount: request.amount,
+          decision,
+          reasons: codes.join(','),
+        }
+      );
+    }
+
+    return data as PaymentRiskCheckRecord;
+  }
+
+  /** Checks newest first; flagged attempts are filtered by decision */
+  async list(
+    filters: RiskCheckFilters = {}
+  ): Promise<{ checks: PaymentRiskCheckRecord[]; total: number }> {
+    const limit = filters.limit ?? 20;
+    const offset = filters.offset ?? 0;
+
+    let query = this.supabase
+      .from('payment_risk_checks')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.decision) {
+      query = query.eq('decision', filters.decision);
+    }
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.ipAddress) {
+      query = query.eq('ip_address', filters.ipAddress);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list payment risk checks: ${error.message}`);
+    }
+
+    return {
+      checks: (data || []) as PaymentRiskCheckRecord[],
+      total: count || 0,
+    };
+  }
+
+  private async gatherSignals(
+    request: PaymentRequest,
+    userId: string,
+    context: PaymentContext & { ipAddress: string },
+    now: Date
+  ): Promise<RiskSignals> {
+    const windowStart = new Date(
+      now.getTime() - this.policy.velocityWindowMinutes * 60 * 1000
+    ).toISOString();
+    const lookbackStart = new Date(
+      now.getTime() - this.policy.lookbackHours * 60 * 60 * 1000
+    ).toISOString();
+    // Without an address every anonymous request would share one bucket
+    const knownIp = context.ipAddress !== UNKNOWN_IP;
+
+    const [userAttempts, ipAttempts, ipUsers, denials] = await Promise.all([
+      this.supabase
+        .from('payment_risk_checks')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('created_at', windowStart),
+      knownIp
+        ? this.supabase
+            .from('payment_risk_checks')
+            .select('id', { count: 'exact', head: true })
+            .eq('ip_address', context.ipAddress)
+            .gte('created_at', windowStart)
+        : Promise.resolve({ count: 0, error: null }),
+      knownIp
+        ? this.supabase
+            .from('payment_risk_checks')
+            .select('user_id')
+            .eq('ip_address', context.ipAddress)
+            .gte('created_at', lookbackStart)
+            .limit(500)
+        : Promise.resolve({ data: [], error: null }),
+      this.supabase
+        .from('payment_transactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('status', 'failed')
+        .gte('updated_at', lookbackStart),
+    ]);
+
+    for (const [name, result] of [
+      ['user attempts', userAttempts],
+      ['IP attempts', ipAttempts],
+      ['IP accounts', ipUsers],
+      ['declined payments', denials],
+    ] as const) {
+      if (result.error) {
+        throw new Error(`Failed to count ${name}: ${result.error.message}`);
+      }
+    }
+
+    const accounts = new Set(
+      ((ipUsers.data || []) as Array<{ user_id: string }>).map(
+        row => row.user_id
+      )
+    );
+    accounts.add(userId);
+
+    const sentEmail = normalizeEmail(request.customerDetails?.email);
+    const accountEmail = normalizeEmail(context.accountEmail);
+
+    return {
+      userAttempts: userAttempts.count || 0,
+      ipAttempts: ipAttempts.count || 0,
+      ipAccounts: knownIp ? accounts.size : 1,
+      recentDenials: denials.count || 0,
+      emailMismatch: Boolean(
+        sentEmail && accountEmail && sentEmail !== accountEmail
+      ),
+    };
+  }
+}
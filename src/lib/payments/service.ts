@@ -1,8 +1,13 @@
 import type {
   PaymentTransaction,
   Invoice,
+  InvoiceItem,
+  InvoiceSettlement,
+  NewInvoice,
   PaymentTransactionMetadata,
+  SavedCardToken,
 } from './types';
+import type { CreditNote } from '../billing/types';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '../logger';
 
@@ -24,15 +29,37 @@ interface InvoiceRow {
   id: string;
   invoice_number: string;
   user_id: string;
-  transaction_id: string;
+  transaction_id: string | null;
   amount: number;
   tax: number;
   total: number;
+  tax_withheld?: number;
+  tax_details?: Invoice['taxDetails'];
   due_date: string;
   status: Invoice['status'];
+  voided_at?: string | null;
+  void_reason?: string | null;
+  billing_account_id?: string | null;
+  po_number?: string | null;
+  payment_terms_days?: number | null;
+  prepaid?: boolean;
+  reissued_from?: string | null;
   created_at: string;
   updated_at: string;
-  invoice_items?: Invoice['items'];
+  invoice_items?: InvoiceItemRow[];
+}
+
+interface InvoiceItemRow {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+  item_type?: InvoiceItem['itemType'];
+  tax_category?: string | null;
+  tax_rule_code?: string | null;
+  tax_rate?: number | null;
+  site_label?: string | null;
 }
 
 export class PaymentService {
@@ -87,7 +114,7 @@ export class PaymentService {
         .from('payment_transactions')
         .update({
           status,
-          metadata: metadata || {},
+          metadata: await this.mergedMetadata(transactionId, metadata),
           updated_at: new Date().toISOString(),
         })
         .eq('id', transactionId)
@@ -113,6 +140,81 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Moves a transaction to a new status only if it still has the status it
+   * was read with. Returns null when another delivery changed it first, so
+   * whatever follows a change, such as settling, runs once.
+   */
+  async transitionTransactionStatus(
+    transactionId: string,
+    from: PaymentTransaction['status'],
+    to: PaymentTransaction['status'],
+    metadata?: PaymentTransactionMetadata
+  ): Promise<PaymentTransaction | null> {
+    const { data, error } = await this.supabase
+      .from('payment_transactions')
+      .update({
+        status: to,
+        metadata: await this.mergedMetadata(transactionId, metadata),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', transactionId)
+      .eq('status', from)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update transaction status: ${error.message}`);
+    }
+
+    return data ? this.transformTransactionData(data) : null;
+  }
+
+  // Merge so gateway details never wipe references such as invoiceId
+  private async mergedMetadata(
+    transactionId: string,
+    metadata?: PaymentTransactionMetadata
+  ): Promise<PaymentTransactionMetadata> {
+    const { data: current } = await this.supabase
+      .from('payment_transactions')
+      .select('metadata')
+      .eq('id', transactionId)
+      .maybeSingle();
+
+    return { ...(current?.metadata || {}), ...(metadata || {}) };
+  }
+
+  /**
+   * Stores a gateway card token as a saved payment method. The masked card
+   * number identifies the method so re-saving the same card refreshes it.
+   */
+  async saveCardToken(
+    userId: string,
+    provider: string,
+    savedToken: SavedCardToken
+  ): Promise<void> {
+    const maskedCard = savedToken.maskedCard || savedToken.token.slice(-8);
+
+    const { error } = await this.supabase.from('payment_methods').upsert(
+      {
+        user_id: userId,
+        type: 'credit_card',
+        provider,
+        method_identifier: maskedCard,
+        display_name: `Card ${maskedCard}`,
+        gateway_token: savedToken.token,
+        gateway_provider: provider,
+        token_expires_at: savedToken.expiresAt ?? null,
+        is_active: true,
+        metadata: { masked_card: maskedCard, last_four: maskedCard.slice(-4) },
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,type,method_identifier' }
+    );
+
+    if (error) throw error;
+  }
+
   async getTransactionById(
     transactionId: string
   ): Promise<PaymentTransaction | null> {
@@ -199,21 +301,77 @@ export class PaymentService {
     }
   }
 
-  async createInvoice(
-    invoiceData: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>
-  ): Promise<Invoice> {
+  /**
+   * Pending transactions not updated since `updatedBefore`, oldest first.
+   * These are the ones whose gateway notification may have been lost.
+   */
+  async getStalePendingTransactions(
+    updatedBefore: Date,
+    createdAfter: Date,
+    limit = 100
+  ): Promise<PaymentTransaction[]> {
+    const { data, error } = await this.supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('updated_at', updatedBefore.toISOString())
+      .gte('created_at', createdAfter.toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch stale transactions: ${error.message}`);
+    }
+
+    return (data || []).map(this.transformTransactionData);
+  }
+
+  /**
+   * Payments that settled or were refunded in a period, by when they last
+   * changed status. Used by the accounting export.
+   */
+  async getSettledTransactionsBetween(
+    from: Date,
+    to: Date,
+    limit = 500,
+    offset = 0
+  ): Promise<PaymentTransaction[]> {
+    const { data, error } = await this.supabase
+      .from('payment_transactions')
+      .select('*')
+      .in('status', ['success', 'refund'])
+      .gte('updated_at', from.toISOString())
+      .lte('updated_at', to.toISOString())
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch settled transactions: ${error.message}`);
+    }
+
+    return (data || []).map(this.transformTransactionData);
+  }
+
+  /**
+   * Inserts an invoice and its lines in one transaction, so a failed line
+   * insert cannot leave a numbered invoice without lines. Its settlement,
+   * if any, is recorded in the same transaction.
+   */
+  async createInvoice(invoiceData: NewInvoice): Promise<Invoice> {
     try {
-      const { data, error } = await this.supabase
-        .from('invoices')
-        .insert({
-          ...invoiceData,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
+      const { data, error } = await this.supabase.rpc(
+        'create_invoice_with_items',
+        {
+          ...this.invoiceRpcParams(invoiceData),
+          ...(invoiceData.settlement && {
+            p_settlement: this.settlementRpcParam(invoiceData.settlement),
+          }),
+        }
+      );
 
       if (error) throw error;
+
       return this.transformInvoiceData(data);
     } catch (error) {
       logger.error(
@@ -224,7 +382,7 @@ export class PaymentService {
           submodule: 'service',
           operation: 'createInvoice',
           userId: invoiceData.userId,
-          transactionId: invoiceData.transactionId,
+          transactionId: invoiceData.transactionId ?? undefined,
           amount: invoiceData.amount,
           total: invoiceData.total,
         }
@@ -233,6 +391,41 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Voids an open invoice and creates its corrected copy in one
+   * transaction: credit applied to the original moves to the copy (as a
+   * returned credit note drawn again), and billed periods move with it.
+   * Returns null if the original is no longer open.
+   */
+  async reissueInvoice(
+    originalId: string,
+    reason: string,
+    invoiceData: NewInvoice,
+    voidedBy?: string
+  ): Promise<{
+    invoice: Invoice;
+    original: Invoice;
+    creditReturned: number;
+  } | null> {
+    const { data, error } = await this.supabase.rpc('reissue_invoice', {
+      p_original_id: originalId,
+      p_reason: reason,
+      p_voided_by: voidedBy || null,
+      ...this.invoiceRpcParams(invoiceData),
+    });
+
+    if (error) {
+      throw new Error(`Failed to reissue invoice: ${error.message}`);
+    }
+    if (!data) return null;
+
+    return {
+      invoice: this.transformInvoiceData(data.invoice),
+      original: this.transformInvoiceData(data.original),
+      creditReturned: Number(data.credit_returned),
+    };
+  }
+
   async updateInvoiceStatus(
     invoiceId: string,
     status: Invoice['status']
@@ -266,6 +459,73 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Marks an open invoice paid by a transaction. Returns null if the
+   * invoice was paid, voided or cancelled meanwhile.
+   */
+  async markInvoicePaid(
+    invoiceId: string,
+    transactionId: string
+  ): Promise<Invoice | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('invoices')
+        .update({
+          status: 'paid',
+          transaction_id: transactionId,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', invoiceId)
+        .in('status', ['sent', 'overdue'])
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.transformInvoiceData(data) : null;
+    } catch (error) {
+      logger.error(
+        'Error marking invoice paid',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'service',
+          operation: 'markInvoicePaid',
+          invoiceId,
+          transactionId,
+        }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Voids an unpaid invoice and gives back account credit applied to it as
+   * a credit note, in one transaction. It keeps its number so the series
+   * stays unbroken. Returns null if the invoice was paid or voided
+   * meanwhile.
+   */
+  async voidInvoice(
+    invoiceId: string,
+    reason: string,
+    voidedBy?: string
+  ): Promise<{ invoice: Invoice; creditNote: CreditNote | null } | null> {
+    const { data, error } = await this.supabase.rpc('void_invoice', {
+      p_invoice_id: invoiceId,
+      p_reason: reason,
+      p_voided_by: voidedBy || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to void invoice: ${error.message}`);
+    }
+    if (!data) return null;
+
+    return {
+      invoice: this.transformInvoiceData(data.invoice),
+      creditNote: (data.credit_note as CreditNote | null) ?? null,
+    };
+  }
+
   async getInvoiceById(invoiceId: string): Promise<Invoice | null> {
     try {
       const { data, error } = await this.supabase
@@ -296,6 +556,59 @@ export class PaymentService {
     }
   }
 
+  /** The invoice a voided invoice was reissued as, if it was */
+  async getReissuedInvoice(invoiceId: string): Promise<Invoice | null> {
+    const { data, error } = await this.supabase
+      .from('invoices')
+      .select(
+        `
+        *,
+        invoice_items (*)
+      `
+      )
+      .eq('reissued_from', invoiceId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch reissued invoice: ${error.message}`);
+    }
+
+    return data ? this.transformInvoiceData(data) : null;
+  }
+
+  async getInvoiceByTransactionId(
+    transactionId: string
+  ): Promise<Invoice | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('invoices')
+        .select(
+          `
+          *,
+          invoice_items (*)
+        `
+        )
+        .eq('transaction_id', transactionId)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.transformInvoiceData(data) : null;
+    } catch (error) {
+      logger.error(
+        'Error getting invoice for transaction',
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          module: 'payments',
+          submodule: 'service',
+          operation: 'getInvoiceByTransactionId',
+          transactionId,
+        }
+      );
+      throw error;
+    }
+  }
+
   async getInvoicesByUserId(
     userId: string,
     limit = 20,
@@ -333,41 +646,32 @@ export class PaymentService {
     }
   }
 
-  async generateInvoiceNumber(): Promise<string> {
-    try {
-      const prefix = 'INV';
-      const year = new Date().getFullYear();
-      const month = String(new Date().getMonth() + 1).padStart(2, '0');
-
-      const { data, error } = await this.supabase
-        .from('invoices')
-        .select('invoice_number')
-        .like('invoice_number', `${prefix}${year}${month}%`)
-        .order('invoice_number', { ascending: false })
-        .limit(1);
-
-      if (error) throw error;
-
-      let sequence = 1;
-      if (data && data.length > 0) {
-        const lastInvoice = data[0].invoice_number;
-        const lastSequence = parseInt(lastInvoice.slice(-4));
-        sequence = lastSequence + 1;
-      }
+  /** Invoices issued in a period with their lines, oldest first */
+  async getInvoicesCreatedBetween(
+    from: Date,
+    to: Date,
+    limit = 500,
+    offset = 0
+  ): Promise<Invoice[]> {
+    const { data, error } = await this.supabase
+      .from('invoices')
+      .select(
+        `
+        *,
+        invoice_items (*)
+      `
+      )
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
 
-      return `${prefix}${year}${month}${String(sequence).padStart(4, '0')}`;
-    } catch (error) {
-      logger.error(
-        'Error generating invoice number',
-        error instanceof Error ? error : new Error(String(error)),
-        {
-          module: 'payments',
-          submodule: 'service',
-          operation: 'generateInvoiceNumber',
-        }
-      );
-      throw error;
+    if (error) {
+      throw new Error(`Failed to fetch invoices: ${error.message}`);
     }
+
+    return (data || []).map(this.transformInvoiceData);
   }
 
   private transformTransactionData(
@@ -387,7 +691,64 @@ export class PaymentService {
     };
   }
 
-  private transformInvoiceData(data: InvoiceRow): Invoice {
+  private settlementRpcParam(settlement: InvoiceSettlement) {
+    return {
+      period: settlement.period,
+      plan_change_credits: settlement.planChangeCredits.map(credit => ({
+        subscription_id: credit.subscriptionId,
+        amount: credit.amount,
+      })),
+      account_credit: settlement.accountCredit,
+      overage_charge_ids: settlement.overageChargeIds,
+      charge_ids: settlement.chargeIds,
+      promotions: settlement.promotions.map(promotion => ({
+        redemption_id: promotion.redemptionId,
+        subscription_id: promotion.subscriptionId,
+        amount: promotion.amount,
+      })),
+    };
+  }
+
+  /**
+   * The p_invoice and p_items arguments of database functions that create
+   * an invoice along with other changes.
+   */
+  invoiceRpcParams(invoiceData: NewInvoice) {
+    return {
+      p_invoice: {
+        invoice_number: invoiceData.invoiceNumber ?? null,
+        number_series: invoiceData.numberSeries ?? null,
+        user_id: invoiceData.userId,
+        transaction_id: invoiceData.transactionId,
+        amount: invoiceData.amount,
+        tax: invoiceData.tax,
+        total: invoiceData.total,
+        tax_withheld: invoiceData.taxWithheld ?? 0,
+        tax_details: invoiceData.taxDetails ?? [],
+        due_date: invoiceData.dueDate.toISOString(),
+        status: invoiceData.status,
+        billing_account_id: invoiceData.billingAccountId ?? null,
+        po_number: invoiceData.poNumber ?? null,
+        payment_terms_days: invoiceData.paymentTermsDays ?? null,
+        prepaid: invoiceData.prepaid ?? false,
+        reissued_from: invoiceData.reissuedFrom ?? null,
+      },
+      p_items: invoiceData.items.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        unit_price: item.unitPrice,
+        total: item.total,
+        item_type: item.itemType || 'charge',
+        tax_category: item.taxCategory ?? null,
+        tax_rule_code: item.taxRuleCode ?? null,
+        tax_rate: item.taxRate ?? null,
+        site_label: item.siteLabel ?? null,
+      })),
+    };
+  }
+
+  /** An invoice row returned by such a database function, with its lines */
+  transformInvoiceData(data: InvoiceRow): Invoice {
     return {
       id: data.id,
       invoiceNumber: data.invoice_number,
@@ -397,9 +758,29 @@ export class PaymentService {
       subtotal: data.amount, // Using amount as subtotal for now
       tax: data.tax,
       total: data.total,
+      taxWithheld: Number(data.tax_withheld || 0),
+      taxDetails: data.tax_details || [],
       dueDate: new Date(data.due_date),
       status: data.status,
-      items: data.invoice_items || [],
+      voidedAt: data.voided_at ? new Date(data.voided_at) : undefined,
+      voidReason: data.void_reason ?? undefined,
+      billingAccountId: data.billing_account_id ?? undefined,
+      poNumber: data.po_number ?? undefined,
+      paymentTermsDays: data.payment_terms_days ?? undefined,
+      prepaid: data.prepaid ?? false,
+      reissuedFrom: data.reissued_from ?? undefined,
+      items: (data.invoice_items || []).map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: Number(item.unit_price),
+        total: Number(item.total),
+        itemType: item.item_type,
+        taxCategory: item.tax_category ?? undefined,
+        taxRuleCode: item.tax_rule_code,
+        taxRate: item.tax_rate != null ? Number(item.tax_rate) : undefined,
+        siteLabel: item.site_label ?? undefined,
+      })),
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
     };
@@ -0,0 +1,27 @@
+import type { PaymentTransaction } from './types';
+
+export type PaymentStatus = PaymentTransaction['status'];
+
+export type TransitionResult = 'apply' | 'noop' | 'illegal';
+
+/**
+ * Allowed payment status moves. Failed and cancelled payments are final;
+ * a settled payment can only be refunded. Gateways sometimes send a final
+ * status twice (capture then settlement), so repeating the current status
+ * is accepted as a no-op rather than rejected.
+ */
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['success', 'failed', 'cancelled'],
+  success: ['refund'],
+  failed: [],
+  cancelled: [],
+  refund: [],
+};
+
+export function checkTransition(
+  from: PaymentStatus,
+  to: PaymentStatus
+): TransitionResult {
+  if (from === to) return 'noop';
+  return TRANSITIONS[from]?.includes(to) ? 'apply' : 'illegal';
+}
@@ -34,26 +34,91 @@ export interface Invoice {
   id: string;
   invoiceNumber: string;
   userId: string;
-  transactionId: string;
+  transactionId: string | null;
   amount: number;
   subtotal: number;
   tax: number;
   total: number;
+  taxWithheld?: number;
+  taxDetails?: InvoiceTaxDetail[];
   dueDate: Date;
-  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled' | 'void';
   items: InvoiceItem[];
+  voidedAt?: Date;
+  voidReason?: string;
+  /** Set on consolidated invoices for a billing account */
+  billingAccountId?: string | null;
+  poNumber?: string | null;
+  paymentTermsDays?: number | null;
+  /** Paid from the customer's prepaid wallet rather than chased by dunning */
+  prepaid?: boolean;
+  /** The voided invoice this one was reissued to correct */
+  reissuedFrom?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * An invoice to create. The number is normally left out and assigned from
+ * the number series when the invoice is stored.
+ */
+export type NewInvoice = Omit<
+  Invoice,
+  'id' | 'invoiceNumber' | 'createdAt' | 'updatedAt'
+> & {
+  invoiceNumber?: string;
+  /** Invoice number series code; the default series when omitted */
+  numberSeries?: string;
+  /** What a billing cycle invoice uses up, written along with it */
+  settlement?: InvoiceSettlement;
+};
+
+/**
+ * Credit, charges and promotion periods a billing cycle invoice uses up.
+ * They are recorded in the transaction that creates the invoice, so the
+ * invoice never exists without them.
+ */
+export interface InvoiceSettlement {
+  /** Billing period the charges were billed for */
+  period: string;
+  planChangeCredits: Array<{ subscriptionId: string; amount: number }>;
+  accountCredit: number;
+  overageChargeIds: string[];
+  chargeIds: string[];
+  promotions: Array<{
+    redemptionId: string;
+    subscriptionId: string;
+    amount: number;
+  }>;
+}
+
+export type InvoiceItemType = 'charge' | 'credit' | 'discount' | 'tax';
+
 export interface InvoiceItem {
   id: string;
   description: string;
   quantity: number;
   unitPrice: number;
   total: number;
+  itemType?: InvoiceItemType;
+  taxCategory?: string;
+  taxRuleCode?: string | null;
+  taxRate?: number;
+  /** Site the line belongs to on a consolidated invoice */
+  siteLabel?: string | null;
+}
+
+export interface InvoiceTaxDetail {
+  code: string;
+  name: string;
+  kind: 'vat' | 'withholding';
+  rate: number;
+  taxableAmount: number;
+  amount: number;
 }
 
+export type PaymentProvider = 'midtrans' | 'xendit' | 'mock';
+
 export interface PaymentGatewayConfig {
   serverKey: string;
   clientKey: string;
@@ -61,12 +126,34 @@ export interface PaymentGatewayConfig {
   merchantId: string;
 }
 
+export interface XenditGatewayConfig {
+  secretKey: string;
+  callbackToken: string;
+  environment: 'sandbox' | 'production';
+}
+
+export interface MockGatewayConfig {
+  serverKey: string;
+}
+
 export interface PaymentRequest {
   amount: number;
   orderId: string;
   customerDetails: CustomerDetails;
   itemDetails: ItemDetails[];
   paymentMethod?: string;
+  /** Outstanding invoice this payment settles */
+  invoiceId?: string;
+  /** Installment of the invoice's payment plan this payment settles */
+  installmentId?: string;
+  /** Credits the customer's prepaid wallet instead of paying an invoice */
+  walletTopUp?: boolean;
+  /** Ask the gateway to tokenize the card for later autopay charges */
+  saveCard?: boolean;
+  /** Gateway-side customer reference required for saving cards */
+  customerId?: string;
+  /** Make the gateway require 3-D Secure on card payments */
+  requireAuthentication?: boolean;
 }
 
 export interface CustomerDetails {
@@ -109,6 +196,10 @@ export interface PaymentResponse {
   token?: string;
   approvalCode?: string;
   grossAmount: number;
+  /** Gateway status normalized to our transaction statuses */
+  status: PaymentTransaction['status'];
+  /** Issuer or gateway code explaining a declined charge */
+  declineCode?: string;
 }
 
 export interface WebhookNotification {
@@ -122,3 +213,59 @@ export interface WebhookNotification {
   gross_amount: string;
   status_code: string;
 }
+
+/**
+ * Provider-neutral view of a webhook notification, produced by
+ * PaymentGateway.parseWebhook after the signature has been verified.
+ */
+export interface GatewayWebhookEvent {
+  provider: PaymentProvider;
+  orderId: string;
+  transactionId: string;
+  rawStatus: string;
+  status: PaymentTransaction['status'];
+  paymentType?: string;
+  fraudStatus?: string;
+  grossAmount: number;
+  signature?: string;
+  /** Card token issued when the customer chose to save the card */
+  savedToken?: SavedCardToken;
+}
+
+export interface SavedCardToken {
+  token: string;
+  maskedCard?: string;
+  expiresAt?: string;
+}
+
+/**
+ * A customer's stored, gateway-tokenized payment method that can be
+ * charged without the customer present.
+ */
+export interface SavedPaymentMethod {
+  id: string;
+  type: PaymentMethod['type'];
+  provider: string;
+  token: string;
+  displayName: string;
+  metadata?: Record<string, unknown>;
+}
+
+export type WebhookPayload = Record<string, unknown>;
+
+export interface PaymentGateway {
+  readonly provider: PaymentProvider;
+  readonly displayName: string;
+  createTransaction(paymentRequest: PaymentRequest): Promise<PaymentResponse>;
+  getTransactionStatus(orderId: string): Promise<PaymentResponse>;
+  cancelTransaction(orderId: string): Promise<PaymentResponse>;
+  refundTransaction(orderId: string, amount?: number): Promise<PaymentResponse>;
+  verifyWebhookSignature(payload: WebhookPayload, headers?: Headers): boolean;
+  parseWebhook(payload: WebhookPayload): GatewayWebhookEvent;
+  getClientConfig(): { clientKey: string; environment: string };
+  /** Merchant-initiated charge of a saved method; absent if unsupported */
+  chargeSavedMethod?(
+    paymentRequest: PaymentRequest,
+    method: SavedPaymentMethod
+  ): Promise<PaymentResponse>;
+}
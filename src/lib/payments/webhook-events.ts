@@ -0,0 +1,307 @@
+import crypto from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../logger';
+import type {
+  GatewayWebhookEvent,
+  PaymentProvider,
+  PaymentResponse,
+  PaymentTransaction,
+  WebhookPayload,
+} from './types';
+
+export type WebhookProcessingStatus =
+  'received' | 'processing' | 'processed' | 'rejected' | 'failed';
+
+export interface WebhookEventRecord {
+  id: string;
+  provider: PaymentProvider;
+  order_id: string;
+  gateway_status: string;
+  mapped_status: PaymentTransaction['status'];
+  signature: string | null;
+  dedupe_key: string;
+  payload: WebhookPayload;
+  processing_status: WebhookProcessingStatus;
+  transaction_id: string | null;
+  attempts: number;
+  duplicate_count: number;
+  last_error: string | null;
+  received_at: string;
+  last_received_at: string;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookEventFilters {
+  status?: WebhookProcessingStatus;
+  orderId?: string;
+  provider?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/** Events in these states have not been applied yet and may be (re)processed */
+export const RETRYABLE_WEBHOOK_STATUSES: WebhookProcessingStatus[] = [
+  'received',
+  'failed',
+];
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Identifies a notification by provider, order, gateway status and
+ * signature. Providers that do not sign payloads fall back to a hash of
+ * the payload itself.
+ */
+export function buildDedupeKey(
+  event: GatewayWebhookEvent,
+  payload: WebhookPayload
+): string {
+  const signature =
+    event.signature ||
+    crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+
+  return crypto
+    .createHash('sha256')
+    .update(
+      [event.provider, event.orderId, event.rawStatus, signature].join('|')
+    )
+    .digest('hex');
+}
+
+/** Marks stored events that came from polling rather than a notification */
+export const RECONCILIATION_SOURCE = 'reconciliation';
+
+/**
+ * Builds the stored payload for a status polled from the gateway. The
+ * mapped status is kept because polled responses are already normalized
+ * and are not in the gateway's notification format.
+ */
+export function buildPolledPayload(response: PaymentResponse): WebhookPayload {
+  return {
+    source: RECONCILIATION_SOURCE,
+    order_id: response.orderId,
+    transaction_id: response.transactionId,
+    transaction_status: response.transactionStatus,
+    status_code: response.statusCode,
+    gross_amount: response.grossAmount,
+    payment_type: response.paymentType,
+    fraud_status: response.fraudStatus,
+    mapped_status: response.status,
+  };
+}
+
+export function isPolledPayload(payload: WebhookPayload): boolean {
+  return payload.source === RECONCILIATION_SOURCE;
+}
+
+export function parsePolledPayload(
+  provider: PaymentProvider,
+  payload: WebhookPayload
+): GatewayWebhookEvent {
+  return {
+    provider,
+    orderId: String(payload.order_id ?? ''),
+    transactionId: String(payload.transaction_id ?? payload.order_id ?? ''),
+    rawStatus: String(payload.transaction_status ?? ''),
+    status: payload.mapped_status as PaymentTransaction['status'],
+    paymentType:
+      typeof payload.payment_type === 'string'
+        ? payload.payment_type
+        : undefined,
+    fraudStatus:
+      typeof payload.fraud_status === 'string'
+        ? payload.fraud_status
+        : undefined,
+    grossAmount: Number(payload.gross_amount ?? 0),
+  };
+}
+
+export class WebhookEventStore {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Persists a notification. A redelivery of an already stored notification
+   * returns the existing row with `duplicate: true`.
+   */
+  async record(
+    event: GatewayWebhookEvent,
+    payload: WebhookPayload
+  ): Promise<{ record: WebhookEventRecord; duplicate: boolean }> {
+    const dedupeKey = buildDedupeKey(event, payload);
+
+    const { data, error } = await this.supabase
+      .from('payment_webhook_events')
+      .insert({
+        provider: event.provider,
+        order_id: event.orderId,
+        gateway_status: event.rawStatus,
+        mapped_status: event.status,
+        signature: event.signature ?? null,
+        dedupe_key: dedupeKey,
+        payload,
+      })
+      .select()
+      .single();
+
+    if (!error) {
+      return { record: data as WebhookEventRecord, duplicate: false };
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Failed to store webhook event: ${error.message}`);
+    }
+
+    const existing = await this.getByDedupeKey(dedupeKey);
+    if (!existing) {
+      throw new Error('Webhook event conflict but no stored event found');
+    }
+
+    await this.supabase
+      .from('payment_webhook_events')
+      .update({
+        duplicate_count: existing.duplicate_count + 1,
+        last_received_at: new Date().toISOString(),
+      })
+      .eq('id', existing.id);
+
+    logger.info('Duplicate payment webhook received', {
+      module: 'payments',
+      submodule: 'webhook-events',
+      operation: 'record',
+      eventId: existing.id,
+      orderId: existing.order_id,
+      processingStatus: existing.processing_status,
+    });
+
+    return { record: existing, duplicate: true };
+  }
+
+  /**
+   * Marks an event as processing if it is not already being or has not
+   * already been processed. Returns null when another delivery won.
+   */
+  async claim(record: WebhookEventRecord): Promise<WebhookEventRecord | null> {
+    const { data, error } = await this.supabase
+      .from('payment_webhook_events')
+      .update({
+        processing_status: 'processing',
+        attempts: record.attempts + 1,
+      })
+      .eq('id', record.id)
+      .in('processing_status', RETRYABLE_WEBHOOK_STATUSES)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to claim webhook event: ${error.message}`);
+    }
+
+    return (data as WebhookEventRecord | null) ?? null;
+  }
+
+  async complete(
+    id: string,
+    status: 'processed' | 'rejected',
+    details: { transactionId?: string; error?: string } = {}
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_webhook_events')
+      .update({
+        processing_status: status,
+        transaction_id: details.transactionId ?? null,
+        last_error: details.error ?? null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update webhook event: ${error.message}`);
+    }
+  }
+
+  async fail(id: string, message: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_webhook_events')
+      .update({ processing_status: 'failed', last_error: message })
+      .eq('id', id);
+
+    if (error) {
+      logger.error(
+        'Failed to mark webhook event as failed',
+        new Error(error.message),
+        {
+          module: 'payments',
+          submodule: 'webhook-events',
+          operation: 'fail',
+          eventId: id,
+        }
+      );
+    }
+  }
+
+  async getById(id: string): Promise<WebhookEventRecord | null> {
+    const { data, error } = await this.supabase
+      .from('payment_webhook_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch webhook event: ${error.message}`);
+    }
+
+    return data as WebhookEventRecord | null;
+  }
+
+  async list(
+    filters: WebhookEventFilters = {}
+  ): Promise<{ events: WebhookEventRecord[]; total: number }> {
+    const limit = filters.limit ?? 20;
+    const offset = filters.offset ?? 0;
+
+    let query = this.supabase
+      .from('payment_webhook_events')
+      .select('*', { count: 'exact' })
+      .order('received_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.status) {
+      query = query.eq('processing_status', filters.status);
+    }
+    if (filters.orderId) {
+      query = query.eq('order_id', filters.orderId);
+    }
+    if (filters.provider) {
+      query = query.eq('provider', filters.provider);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list webhook events: ${error.message}`);
+    }
+
+    return {
+      events: (data || []) as WebhookEventRecord[],
+      total: count || 0,
+    };
+  }
+
+  private async getByDedupeKey(
+    dedupeKey: string
+  ): Promise<WebhookEventRecord | null> {
+    const { data } = await this.supabase
+      .from('payment_webhook_events')
+      .select('*')
+      .eq('dedupe_key', dedupeKey)
+      .maybeSingle();
+
+    return data as WebhookEventRecord | null;
+  }
+}
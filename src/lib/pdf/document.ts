@@ -0,0 +1,276 @@
+import { PDF_FONT_NAMES, measureText, type PdfFont } from './fonts';
+
+export type PdfColor = [number, number, number];
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  align?: TextAlign;
+  /** Counter-clockwise rotation in degrees around the anchor point */
+  rotate?: number;
+}
+
+export interface ShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+  rotate?: number;
+}
+
+// A4 in points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+};
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+/**
+ * Restricts text to the WinAnsi range covered by the standard fonts and
+ * escapes PDF string delimiters.
+ */
+function escapeText(text: string): string {
+  let result = '';
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      result += `\\${char}`;
+    } else if (code === 0x2013 || code === 0x2014) {
+      result += '-';
+    } else if (code < 32 || code > 255 || char.length > 1) {
+      result += '?';
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+function rotationMatrix(degrees: number, x: number, y: number): string {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [cos, sin, -sin, cos, x, y].map(formatNumber).join(' ');
+}
+
+/**
+ * Minimal PDF 1.4 writer for server-side documents. It only uses the
+ * built-in Helvetica fonts, so nothing is embedded and it runs anywhere
+ * TypedArrays do, including the Workers runtime.
+ *
+ * Coordinates are in points measured from the top-left corner of the page;
+ * text is positioned by its baseline.
+ */
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private info: Record<string, string>;
+
+  constructor(
+    info: { title?: string; author?: string; subject?: string } = {},
+    width: number = A4_WIDTH,
+    height: number = A4_HEIGHT
+  ) {
+    this.width = width;
+    this.height = height;
+    this.info = {
+      Producer: 'Maskom Network Billing',
+      ...(info.title && { Title: info.title }),
+      ...(info.author && { Author: info.author }),
+      ...(info.subject && { Subject: info.subject }),
+    };
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  measureText(
+    text: string,
+    size: number = 10,
+    font: PdfFont = 'regular'
+  ): number {
+    return measureText(text, size, font);
+  }
+
+  text(value: string, x: number, y: number, options: TextOptions = {}): void {
+    const font = options.font || 'regular';
+    const size = options.size || 10;
+    const width = this.measureText(value, size, font);
+    let offset = 0;
+    if (options.align === 'right') offset = -width;
+    if (options.align === 'center') offset = -width / 2;
+
+    const pdfY = this.height - y;
+    const ops = ['BT', `/${FONT_RESOURCES[font]} ${formatNumber(size)} Tf`];
+
+    if (options.color) {
+      ops.push(`${formatColor(options.color)} rg`);
+    }
+
+    if (options.rotate) {
+      ops.push(`${rotationMatrix(options.rotate, x, pdfY)} Tm`);
+      ops.push(`${formatNumber(offset)} 0 Td`);
+    } else {
+      ops.push(`${formatNumber(x + offset)} ${formatNumber(pdfY)} Td`);
+    }
+
+    ops.push(`(${escapeText(value)}) Tj`, 'ET');
+    this.write(ops);
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options: { color?: PdfColor; lineWidth?: number } = {}
+  ): void {
+    this.write([
+      'q',
+      `${formatColor(options.color || [0, 0, 0])} RG`,
+      `${formatNumber(options.lineWidth ?? 1)} w`,
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m`,
+      `${formatNumber(x2)} ${formatNumber(this.height - y2)} l`,
+      'S',
+      'Q',
+    ]);
+  }
+
+  /**
+   * Draws a rectangle whose top-left corner is at (x, y). When rotated, the
+   * rectangle turns around its centre.
+   */
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: ShapeOptions = {}
+  ): void {
+    const ops = ['q'];
+    if (options.fill) ops.push(`${formatColor(options.fill)} rg`);
+    if (options.stroke) ops.push(`${formatColor(options.stroke)} RG`);
+    if (options.lineWidth !== undefined) {
+      ops.push(`${formatNumber(options.lineWidth)} w`);
+    }
+
+    let left = x;
+    let bottom = this.height - y - height;
+    if (options.rotate) {
+      const centreX = x + width / 2;
+      const centreY = this.height - y - height / 2;
+      ops.push(`${rotationMatrix(options.rotate, centreX, centreY)} cm`);
+      left = -width / 2;
+      bottom = -height / 2;
+    }
+
+    ops.push(
+      `${formatNumber(left)} ${formatNumber(bottom)} ${formatNumber(width)} ${formatNumber(height)} re`
+    );
+
+    if (options.fill && options.stroke) ops.push('B');
+    else if (options.fill) ops.push('f');
+    else ops.push('S');
+
+    ops.push('Q');
+    this.write(ops);
+  }
+
+  /**
+   * Serializes the document. Every object is plain 8-bit text, so string
+   * length equals byte length and the xref offsets can be computed directly.
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const reserve = (): number => {
+      objects.push('');
+      return objects.length;
+    };
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds: Record<PdfFont, number> = {
+      regular: reserve(),
+      bold: reserve(),
+    };
+    const infoId = reserve();
+
+    for (const font of Object.keys(fontIds) as PdfFont[]) {
+      objects[fontIds[font] - 1] =
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`;
+    }
+
+    const infoEntries = Object.entries(this.info)
+      .map(([key, value]) => `/${key} (${escapeText(value)})`)
+      .join(' ');
+    objects[infoId - 1] = `<< ${infoEntries} >>`;
+
+    const pageIds: number[] = [];
+    for (const page of this.pages) {
+      const content = page.join('\n');
+      const contentId = reserve();
+      objects[contentId - 1] =
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+
+      const pageId = reserve();
+      objects[pageId - 1] =
+        `<< /Type /Page /Parent ${pagesId} 0 R ` +
+        `/MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> ` +
+        `/Contents ${contentId} 0 R >>`;
+      pageIds.push(pageId);
+    }
+
+    objects[pagesId - 1] =
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    }
+    output +=
+      `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  private write(ops: string[]): void {
+    this.pages[this.pages.length - 1].push(...ops);
+  }
+}
@@ -6,19 +6,20 @@ export interface InvoiceItem {
   quantity: number;
   unitPrice: number;
   total: number;
+  itemType?: 'charge' | 'credit' | 'discount' | 'tax';
 }
 
 export interface Invoice {
   id: string;
   invoiceNumber: string;
   userId: string;
-  transactionId: string;
+  transactionId: string | null;
   amount: number;
   subtotal: number;
   tax: number;
   total: number;
   dueDate: Date;
-  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
+  status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled' | 'void';
   items: InvoiceItem[];
   createdAt: Date;
   updatedAt: Date;
@@ -7,6 +7,7 @@ export interface ValidatedAuthData {
   password: string;
   fullName?: string;
   phone?: string;
+  promoCode?: string;
 }
 
 export interface ValidatedSignInData {
@@ -31,6 +32,9 @@ export interface ValidatedPaymentCreateData {
   customerDetails: Record<string, unknown>;
   itemDetails: Record<string, unknown>[];
   paymentMethod?: string;
+  invoiceId?: string;
+  installmentId?: string;
+  saveCard?: boolean;
 }
 
 export interface ValidatedPaymentHistoryData {
@@ -87,6 +91,18 @@ export const PaymentSchemas = {
       enum: ['credit_card', 'bank_transfer', 'ewallet', 'virtual_account'],
       maxLength: 50,
     },
+    invoiceId: {
+      ...CommonSchemas.uuid,
+      required: false,
+    },
+    installmentId: {
+      ...CommonSchemas.uuid,
+      required: false,
+    },
+    saveCard: {
+      type: 'boolean',
+      required: false,
+    },
   } as ValidationSchema,
 
   // Payment refund
@@ -206,6 +222,12 @@ export const AuthSchemas = {
       pattern: /^\+?[\d\s\-()]+$/,
       maxLength: 20,
     },
+    promoCode: {
+      type: 'string',
+      required: false,
+      pattern: /^\s*[A-Za-z0-9-]{3,32}\s*$/,
+      maxLength: 40,
+    },
   } as ValidationSchema,
 
   // MFA verification
@@ -1,9 +1,10 @@
 import type { APIRoute } from 'astro';
-import { createServerClient } from '../../../lib/supabase';
+import { createServerClient, createServiceClient } from '../../../lib/supabase';
 import { withApiMiddleware } from '../../../lib/middleware/api';
 import { ErrorFactory } from '../../../lib/errors';
 import { logger } from '../../../lib/logger';
 import { validateRequest } from '../../../lib/validation';
+import { PromotionService } from '../../../lib/billing/promotion-service';
 import {
   AuthSchemas,
   ValidatedAuthData,
@@ -13,7 +14,7 @@ export const prerender = false;
 export const POST: APIRoute = withApiMiddleware(
   validateRequest(AuthSchemas.register)(
     async ({ redirect, validatedData, requestId }) => {
-      const { email, password, fullName, phone } = (validatedData ||
+      const { email, password, fullName, phone, promoCode } = (validatedData ||
         {}) as unknown as ValidatedAuthData;
 
       logger.info('User registration attempt', {
@@ -23,9 +24,15 @@ export const POST: APIRoute = withApiMiddleware(
         phone,
       });
 
+      // Reject a bad promo code before the account exists
+      const promotionService = new PromotionService(createServiceClient());
+      if (promoCode) {
+        await promotionService.resolveCode(promoCode);
+      }
+
       const supabase = createServerClient();
 
-      const { error } = await supabase.auth.signUp({
+      const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
@@ -48,6 +55,23 @@ export const POST: APIRoute = withApiMiddleware(
         );
       }
 
+      if (promoCode && data.user) {
+        try {
+          await promotionService.redeemCode(data.user.id, promoCode);
+        } catch (redeemError) {
+          // The account is created either way; support can apply the code
+          logger.warn('Promo code redemption failed at registration', {
+            requestId,
+            email,
+            promoCode,
+            error:
+              redeemError instanceof Error
+                ? redeemError.message
+                : String(redeemError),
+          });
+        }
+      }
+
       logger.info('Registration successful', {
         requestId,
         email,
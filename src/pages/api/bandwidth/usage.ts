@@ -9,6 +9,7 @@ import {
   handleDatabaseError,
 } from '../../../lib/utils/api';
 import { Validation } from '../../../lib/errors';
+import { UsageBillingService } from '../../../lib/billing/usage-service';
 
 export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
   const params = getQueryParams(request.url, {
@@ -83,9 +84,15 @@ export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
         ) / usage.length
       : 0;
 
+    const overage = await new UsageBillingService(supabase).getOverview(
+      user.id,
+      dataCap || null
+    );
+
     return createSuccessResponse({
       usage: usage || [],
       dataCap: dataCap || null,
+      overage,
       notifications: notifications || [],
       summary: {
         totalUsageGB,
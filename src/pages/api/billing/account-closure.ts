@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../lib/utils/api';
+import { CustomerChargeService } from '../../../lib/billing/charge-service';
+
+// POST /api/billing/account-closure - Close a customer's account (admin):
+// ends subscriptions and charges and returns paid deposits as credit
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.user_id, 'user_id');
+
+  const result = await new CustomerChargeService(
+    createServiceClient()
+  ).closeAccount(body.user_id, user.id);
+
+  return createSuccessResponse({ success: true, data: result });
+});
@@ -0,0 +1,83 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import {
+  BillingAccountService,
+  PAYMENT_TERMS_DAYS,
+} from '../../../../lib/billing/billing-account-service';
+
+const EDITABLE_FIELDS = [
+  'account_name',
+  'company_name',
+  'npwp',
+  'billing_address',
+  'po_number',
+  'payment_terms_days',
+  'is_active',
+] as const;
+
+// GET /api/billing/accounts/:id - Account with its contacts and sites. Only
+// the payer and admins can see it.
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const accountId = params.id || '';
+  Validation.required(accountId, 'id');
+
+  const details = await new BillingAccountService(
+    createServiceClient()
+  ).getAccount(accountId);
+
+  if (details.account.payer_user_id !== user.id) {
+    await authenticateAdmin(request);
+  }
+
+  return createSuccessResponse({ success: true, data: details });
+});
+
+// PATCH /api/billing/accounts/:id - Update payer details, PO number or
+// terms (admin). Changes apply from the next consolidated invoice.
+export const PATCH: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const accountId = params.id || '';
+    Validation.required(accountId, 'id');
+
+    const body = await request.json();
+    if (
+      'payment_terms_days' in body &&
+      !PAYMENT_TERMS_DAYS.includes(Number(body.payment_terms_days))
+    ) {
+      throw ErrorFactory.validationFailed(
+        `payment_terms_days must be one of: ${PAYMENT_TERMS_DAYS.join(', ')}`,
+        'payment_terms_days'
+      );
+    }
+
+    const changes = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => field in body).map(field => [
+        field,
+        body[field],
+      ])
+    );
+
+    const account = await new BillingAccountService(
+      createServiceClient()
+    ).updateAccount(accountId, changes);
+
+    return createSuccessResponse({ success: true, data: account });
+  }
+);
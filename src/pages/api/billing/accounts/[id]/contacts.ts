@@ -0,0 +1,65 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../../lib/utils/api';
+import { BillingAccountService } from '../../../../../lib/billing/billing-account-service';
+
+// POST /api/billing/accounts/:id/contacts - Add a billing contact (admin).
+// Invoices and reminders go to the primary contact receiving invoices.
+export const POST: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const accountId = params.id || '';
+  Validation.required(accountId, 'id');
+
+  const body = await request.json();
+  Validation.required(body.name, 'name');
+  Validation.required(body.email, 'email');
+  Validation.email(body.email);
+
+  const contact = await new BillingAccountService(
+    createServiceClient()
+  ).addContact(accountId, {
+    name: body.name,
+    email: body.email,
+    phone: body.phone || null,
+    role: body.role || null,
+    is_primary: Boolean(body.is_primary),
+    receives_invoices: body.receives_invoices !== false,
+  });
+
+  return createSuccessResponse({ success: true, data: contact }, 201);
+});
+
+// DELETE /api/billing/accounts/:id/contacts?contact_id= - Remove a billing
+// contact (admin)
+export const DELETE: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const accountId = params.id || '';
+    Validation.required(accountId, 'id');
+
+    const query = getQueryParams(request.url, {
+      contact_id: { type: 'string' },
+    });
+    Validation.required(query.contact_id, 'contact_id');
+
+    await new BillingAccountService(createServiceClient()).removeContact(
+      accountId,
+      query.contact_id as string
+    );
+
+    return createSuccessResponse({ success: true });
+  }
+);
@@ -0,0 +1,60 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../../lib/utils/api';
+import { BillingAccountService } from '../../../../../lib/billing/billing-account-service';
+
+// POST /api/billing/accounts/:id/subscriptions - Bill a subscription as a
+// site on the account's consolidated invoice (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const accountId = params.id || '';
+  Validation.required(accountId, 'id');
+
+  const body = await request.json();
+  Validation.required(body.subscription_id, 'subscription_id');
+
+  const subscription = await new BillingAccountService(
+    createServiceClient()
+  ).assignSubscription(
+    accountId,
+    body.subscription_id,
+    body.service_address_id
+  );
+
+  return createSuccessResponse({ success: true, data: subscription });
+});
+
+// DELETE /api/billing/accounts/:id/subscriptions?subscription_id= - Take a
+// site off the account; it is invoiced on its own again (admin)
+export const DELETE: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const accountId = params.id || '';
+    Validation.required(accountId, 'id');
+
+    const query = getQueryParams(request.url, {
+      subscription_id: { type: 'string' },
+    });
+    Validation.required(query.subscription_id, 'subscription_id');
+
+    await new BillingAccountService(createServiceClient()).removeSubscription(
+      accountId,
+      query.subscription_id as string
+    );
+
+    return createSuccessResponse({ success: true });
+  }
+);
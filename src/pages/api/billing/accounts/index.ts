@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createPaginatedResponse,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import {
+  BillingAccountService,
+  PAYMENT_TERMS_DAYS,
+} from '../../../../lib/billing/billing-account-service';
+
+// GET /api/billing/accounts - Billing accounts the caller pays for. Admins
+// may pass user_id for another payer, or all=true to list every account.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    user_id: { type: 'string' },
+    all: { default: 'false', type: 'boolean' },
+    page: { default: '1', type: 'number' },
+    limit: { default: '20', type: 'number' },
+  });
+
+  const service = new BillingAccountService(createServiceClient());
+
+  if (params.all) {
+    await authenticateAdmin(request);
+
+    const page = Number(params.page);
+    const limit = Number(params.limit);
+    Validation.range(page, 1, 10000, 'page');
+    Validation.range(limit, 1, 100, 'limit');
+
+    const { accounts, total } = await service.listAccounts(
+      limit,
+      (page - 1) * limit
+    );
+    return createPaginatedResponse(accounts, page, limit, total);
+  }
+
+  let userId = user.id;
+  if (params.user_id && params.user_id !== user.id) {
+    await authenticateAdmin(request);
+    userId = params.user_id as string;
+  }
+
+  return createSuccessResponse({
+    success: true,
+    data: await service.getAccountsForPayer(userId),
+  });
+});
+
+// POST /api/billing/accounts - Create a billing account for a corporate
+// payer (admin). Subscriptions are assigned to it separately.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.payer_user_id, 'payer_user_id');
+  Validation.required(body.account_name, 'account_name');
+
+  if (
+    body.payment_terms_days != null &&
+    !PAYMENT_TERMS_DAYS.includes(Number(body.payment_terms_days))
+  ) {
+    throw ErrorFactory.validationFailed(
+      `payment_terms_days must be one of: ${PAYMENT_TERMS_DAYS.join(', ')}`,
+      'payment_terms_days'
+    );
+  }
+  if (body.billing_day != null) {
+    Validation.range(Number(body.billing_day), 1, 28, 'billing_day');
+  }
+
+  const account = await new BillingAccountService(
+    createServiceClient()
+  ).createAccount(
+    {
+      payer_user_id: body.payer_user_id,
+      account_name: body.account_name,
+      company_name: body.company_name || null,
+      npwp: body.npwp || null,
+      billing_address: body.billing_address || null,
+      po_number: body.po_number || null,
+      ...(body.payment_terms_days != null && {
+        payment_terms_days: Number(body.payment_terms_days) as 30 | 45,
+      }),
+      ...(body.billing_day != null && {
+        billing_day: Number(body.billing_day),
+      }),
+    },
+    user.id
+  );
+
+  return createSuccessResponse({ success: true, data: account }, 201);
+});
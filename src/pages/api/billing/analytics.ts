@@ -0,0 +1,123 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import { AnalyticsService } from '../../../lib/billing/analytics-service';
+import {
+  DEFAULT_REPORT_MONTHS,
+  MAX_REPORT_MONTHS,
+  PACKAGE_CATEGORIES,
+  monthOf,
+  monthRange,
+} from '../../../lib/billing/analytics';
+import { createCsvResponse, toCsv } from '../../../lib/billing/csv';
+
+const FORMATS = ['json', 'csv'];
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// GET /api/billing/analytics - Revenue analytics by month and region
+// (admin): MRR, net new MRR, churn, ARPU by package category, collection
+// rate and cohort retention. from/to are YYYY-MM, defaulting to the last 12
+// months; format=csv downloads the monthly figures.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    from: { type: 'string' },
+    to: { type: 'string' },
+    region: { type: 'string' },
+    format: { default: 'json', type: 'string' },
+  });
+
+  const format = params.format as string;
+  if (!FORMATS.includes(format)) {
+    throw ErrorFactory.validationFailed(
+      `format must be one of: ${FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+
+  const to = (params.to as string) || monthOf(new Date());
+  let from = params.from as string;
+  if (!from) {
+    const start = new Date(`${to}-01T00:00:00Z`);
+    start.setUTCMonth(start.getUTCMonth() - (DEFAULT_REPORT_MONTHS - 1));
+    from = monthOf(start);
+  }
+
+  for (const [field, value] of [
+    ['from', from],
+    ['to', to],
+  ]) {
+    if (!MONTH_PATTERN.test(value)) {
+      throw ErrorFactory.validationFailed(`${field} must be YYYY-MM`, field);
+    }
+  }
+  const months = monthRange(from, to).length;
+  if (months === 0 || months > MAX_REPORT_MONTHS) {
+    throw ErrorFactory.validationFailed(
+      `from must not be after to, and the report can cover at most ${MAX_REPORT_MONTHS} months`,
+      'from'
+    );
+  }
+
+  const region = (params.region as string) || null;
+  const report = await new AnalyticsService(
+    createServiceClient()
+  ).getRevenueReport({ from, to, region });
+
+  if (format === 'csv') {
+    const csv = toCsv(
+      [
+        'Month',
+        'Region',
+        'MRR',
+        'New MRR',
+        'Churned MRR',
+        'Net New MRR',
+        'Customers',
+        'Churned Customers',
+        'Churn Rate',
+        'ARPU',
+        ...PACKAGE_CATEGORIES.map(category => `ARPU ${category}`),
+        'Invoiced',
+        'Collected',
+        'Collection Rate',
+        'Cash Received',
+      ],
+      [
+        ...report.months.map(month => ({ region: region || 'All', month })),
+        ...(region
+          ? []
+          : report.byRegion.flatMap(entry =>
+              entry.months.map(month => ({ region: entry.region, month }))
+            )),
+      ].map(({ region: rowRegion, month }) => [
+        month.month,
+        rowRegion,
+        month.mrr,
+        month.newMrr,
+        month.churnedMrr,
+        month.netNewMrr,
+        month.customers,
+        month.churnedCustomers,
+        month.churnRate,
+        month.arpu,
+        ...PACKAGE_CATEGORIES.map(category => month.arpuByCategory[category]),
+        month.invoiced,
+        month.collected,
+        month.collectionRate,
+        month.cashReceived,
+      ])
+    );
+    return createCsvResponse(`revenue-${from}-to-${to}.csv`, csv);
+  }
+
+  return createSuccessResponse({ success: true, data: report });
+});
@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import { AutopayService } from '../../../lib/billing/autopay-service';
+
+// GET /api/billing/autopay - Autopay setting and recent charge attempts
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  const supabase = createServiceClient();
+  const autopay = new AutopayService(supabase);
+
+  const [method, attempts] = await Promise.all([
+    autopay.getSavedMethod(user.id),
+    autopay.getAttempts(user.id),
+  ]);
+
+  return createSuccessResponse({
+    success: true,
+    data: {
+      enabled: !!method,
+      paymentMethod: method
+        ? { id: method.id, type: method.type, displayName: method.displayName }
+        : null,
+      attempts,
+    },
+  });
+});
+
+// PUT /api/billing/autopay - Enable autopay on a saved method, or disable it
+export const PUT: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  const body = await request.json();
+
+  if (typeof body.enabled !== 'boolean') {
+    throw ErrorFactory.validationFailed('enabled must be a boolean', 'enabled');
+  }
+
+  await new AutopayService(createServiceClient()).configure(
+    user.id,
+    body.enabled,
+    body.payment_method_id
+  );
+
+  return createSuccessResponse({
+    success: true,
+    data: { enabled: body.enabled },
+  });
+});
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { CustomerChargeService } from '../../../../lib/billing/charge-service';
+
+// DELETE /api/billing/charges/:id - Stop billing a charge (admin). Invoices
+// already issued for it are unaffected.
+export const DELETE: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const chargeId = params.id || '';
+    Validation.required(chargeId, 'id');
+
+    const charge = await new CustomerChargeService(
+      createServiceClient()
+    ).cancelCharge(chargeId);
+
+    return createSuccessResponse({ success: true, data: charge });
+  }
+);
@@ -0,0 +1,130 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { CustomerChargeService } from '../../../../lib/billing/charge-service';
+import type {
+  CustomerChargeFrequency,
+  CustomerChargeType,
+} from '../../../../lib/billing/types';
+import type { TaxCategory } from '../../../../lib/billing/tax';
+
+const CHARGE_TYPES: CustomerChargeType[] = [
+  'installation',
+  'equipment_rental',
+  'static_ip',
+  'deposit',
+  'other',
+];
+const FREQUENCIES: CustomerChargeFrequency[] = ['one_time', 'monthly'];
+const TAX_CATEGORIES: TaxCategory[] = [
+  'recurring_service',
+  'installation',
+  'equipment_rental',
+];
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/billing/charges - Charges and deposits on the account. Admins
+// may pass user_id to view another customer's account.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    user_id: { type: 'string' },
+  });
+
+  let userId = user.id;
+  if (params.user_id && params.user_id !== user.id) {
+    await authenticateAdmin(request);
+    userId = params.user_id as string;
+  }
+
+  const service = new CustomerChargeService(createServiceClient());
+  const [charges, deposits] = await Promise.all([
+    service.listCharges(userId),
+    service.listDeposits(userId),
+  ]);
+
+  return createSuccessResponse({
+    success: true,
+    data: { charges, deposits },
+  });
+});
+
+// POST /api/billing/charges - Attach a one-time or monthly charge to a
+// subscription, billed from its next invoice (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.user_id, 'user_id');
+  Validation.required(body.subscription_id, 'subscription_id');
+  Validation.required(body.charge_type, 'charge_type');
+  Validation.required(body.description, 'description');
+  Validation.required(body.unit_price, 'unit_price');
+  Validation.required(body.frequency, 'frequency');
+
+  if (!CHARGE_TYPES.includes(body.charge_type)) {
+    throw ErrorFactory.validationFailed(
+      `charge_type must be one of: ${CHARGE_TYPES.join(', ')}`,
+      'charge_type'
+    );
+  }
+  if (!FREQUENCIES.includes(body.frequency)) {
+    throw ErrorFactory.validationFailed(
+      `frequency must be one of: ${FREQUENCIES.join(', ')}`,
+      'frequency'
+    );
+  }
+  if (body.tax_category && !TAX_CATEGORIES.includes(body.tax_category)) {
+    throw ErrorFactory.validationFailed(
+      `tax_category must be one of: ${TAX_CATEGORIES.join(', ')}`,
+      'tax_category'
+    );
+  }
+  for (const field of ['starts_on', 'ends_on'] as const) {
+    if (body[field] && !DATE.test(body[field])) {
+      throw ErrorFactory.validationFailed(
+        `${field} must be a date (YYYY-MM-DD)`,
+        field
+      );
+    }
+  }
+
+  const unitPrice = Number(body.unit_price);
+  const quantity = body.quantity != null ? Number(body.quantity) : 1;
+  Validation.range(unitPrice, 1, 1_000_000_000, 'unit_price');
+  Validation.range(quantity, 1, 1000, 'quantity');
+
+  const charge = await new CustomerChargeService(
+    createServiceClient()
+  ).createCharge(
+    {
+      user_id: body.user_id,
+      subscription_id: body.subscription_id,
+      charge_type: body.charge_type,
+      description: body.description,
+      unit_price: unitPrice,
+      quantity,
+      frequency: body.frequency,
+      tax_category: body.tax_category,
+      starts_on: body.starts_on,
+      ends_on: body.ends_on || null,
+    },
+    user.id
+  );
+
+  return createSuccessResponse({ success: true, data: charge }, 201);
+});
@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import { CreditService } from '../../../lib/billing/credit-service';
+import type { CreditNoteReason } from '../../../lib/billing/types';
+
+const REASONS: CreditNoteReason[] = [
+  'goodwill',
+  'service_outage',
+  'billing_error',
+  'overpayment',
+  'other',
+];
+
+// POST /api/billing/credit-notes - Issue a credit note to a customer (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.user_id, 'user_id');
+  Validation.required(body.amount, 'amount');
+  Validation.required(body.reason, 'reason');
+
+  if (!REASONS.includes(body.reason)) {
+    throw ErrorFactory.validationFailed(
+      `reason must be one of: ${REASONS.join(', ')}`,
+      'reason'
+    );
+  }
+
+  const amount = Number(body.amount);
+  Validation.range(amount, 1, 1_000_000_000, 'amount');
+
+  const result = await new CreditService(createServiceClient()).issueCreditNote(
+    {
+      userId: body.user_id,
+      amount,
+      reason: body.reason,
+      description: body.description,
+      invoiceId: body.invoice_id,
+      issuedBy: user.id,
+    }
+  );
+
+  return createSuccessResponse({ success: true, data: result }, 201);
+});
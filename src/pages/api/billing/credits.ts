@@ -0,0 +1,38 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+} from '../../../lib/utils/api';
+import { CreditService } from '../../../lib/billing/credit-service';
+
+// GET /api/billing/credits - Credit balance, ledger statement and credit
+// notes. Admins may pass user_id to view another customer's account.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    user_id: { type: 'string' },
+  });
+
+  let userId = user.id;
+  if (params.user_id && params.user_id !== user.id) {
+    await authenticateAdmin(request);
+    userId = params.user_id as string;
+  }
+
+  const credits = new CreditService(createServiceClient());
+  const [statement, creditNotes] = await Promise.all([
+    credits.getStatement(userId),
+    credits.getCreditNotes(userId),
+  ]);
+
+  return createSuccessResponse({
+    success: true,
+    data: { ...statement, creditNotes },
+  });
+});
@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { AccountingExportService } from '../../../../lib/billing/accounting-export-service';
+import { createCsvResponse } from '../../../../lib/billing/csv';
+
+// GET /api/billing/exports/:id - Download an export as first delivered
+// (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const runId = params.id || '';
+  Validation.required(runId, 'id');
+
+  const { run, content } = await new AccountingExportService(
+    createServiceClient()
+  ).getExport(runId);
+
+  return createCsvResponse(run.filename, content);
+});
+
+// DELETE /api/billing/exports/:id - Void an export so its period can be
+// exported again (admin)
+export const DELETE: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const runId = params.id || '';
+    Validation.required(runId, 'id');
+
+    const body = await request.json();
+    Validation.required(body.reason, 'reason');
+
+    const run = await new AccountingExportService(
+      createServiceClient()
+    ).voidRun(runId, user.id, String(body.reason));
+
+    return createSuccessResponse({ success: true, data: run });
+  }
+);
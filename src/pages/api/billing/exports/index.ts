@@ -0,0 +1,70 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createPaginatedResponse,
+  createServiceClient,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import {
+  ACCOUNTING_EXPORT_TYPES,
+  AccountingExportService,
+} from '../../../../lib/billing/accounting-export-service';
+import { createCsvResponse } from '../../../../lib/billing/csv';
+
+// GET /api/billing/exports - Accounting and e-Faktur export runs (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    page: { default: '1', type: 'number' },
+    limit: { default: '20', type: 'number' },
+  });
+
+  const page = Number(params.page);
+  const limit = Number(params.limit);
+  Validation.range(page, 1, 10000, 'page');
+  Validation.range(limit, 1, 100, 'limit');
+
+  const { runs, total } = await new AccountingExportService(
+    createServiceClient()
+  ).listRuns(limit, (page - 1) * limit);
+
+  return createPaginatedResponse(runs, page, limit, total);
+});
+
+// POST /api/billing/exports - Export a period as a general journal or
+// e-Faktur CSV (admin). The CSV is returned and kept with the run.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.export_type, 'export_type');
+  Validation.required(body.period_start, 'period_start');
+  Validation.required(body.period_end, 'period_end');
+
+  if (!ACCOUNTING_EXPORT_TYPES.includes(body.export_type)) {
+    throw ErrorFactory.validationFailed(
+      `export_type must be one of: ${ACCOUNTING_EXPORT_TYPES.join(', ')}`,
+      'export_type'
+    );
+  }
+
+  const { run, content } = await new AccountingExportService(
+    createServiceClient()
+  ).createExport({
+    exportType: body.export_type,
+    periodStart: String(body.period_start),
+    periodEnd: String(body.period_end),
+    exportedBy: user.id,
+  });
+
+  return createCsvResponse(run.filename, content);
+});
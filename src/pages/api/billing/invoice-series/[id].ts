@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { InvoiceSeriesService } from '../../../../lib/billing/invoice-series-service';
+
+const EDITABLE_FIELDS = [
+  'name',
+  'prefix',
+  'branch_code',
+  'padding',
+  'is_active',
+] as const;
+
+// PATCH /api/billing/invoice-series/:id - Change a series or make it the
+// default (admin). Numbers already issued are unaffected.
+export const PATCH: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const seriesId = params.id || '';
+    Validation.required(seriesId, 'id');
+
+    const body = await request.json();
+    const changes = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => field in body).map(field => [
+        field,
+        body[field],
+      ])
+    );
+    if (changes.padding != null) {
+      Validation.range(Number(changes.padding), 3, 12, 'padding');
+    }
+
+    const service = new InvoiceSeriesService(createServiceClient());
+    let series =
+      Object.keys(changes).length > 0
+        ? await service.updateSeries(seriesId, changes)
+        : null;
+    if (body.is_default === true) {
+      series = await service.setDefault(seriesId);
+    }
+
+    return createSuccessResponse({ success: true, data: series });
+  }
+);
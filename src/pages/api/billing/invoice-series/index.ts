@@ -0,0 +1,71 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { InvoiceSeriesService } from '../../../../lib/billing/invoice-series-service';
+
+const SERIES_CODE = /^[a-z0-9_-]{1,30}$/;
+const SEGMENT = /^[A-Z0-9-]{1,20}$/;
+
+// GET /api/billing/invoice-series - Invoice numbering series (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const series = await new InvoiceSeriesService(
+    createServiceClient()
+  ).listSeries();
+
+  return createSuccessResponse({ success: true, data: series });
+});
+
+// POST /api/billing/invoice-series - Create a numbering series, e.g. one
+// per branch (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.code, 'code');
+  Validation.required(body.name, 'name');
+
+  if (!SERIES_CODE.test(body.code)) {
+    throw ErrorFactory.validationFailed(
+      'code may only contain lowercase letters, digits, - and _',
+      'code'
+    );
+  }
+  for (const field of ['prefix', 'branch_code'] as const) {
+    if (body[field] && !SEGMENT.test(body[field])) {
+      throw ErrorFactory.validationFailed(
+        `${field} may only contain uppercase letters, digits and -`,
+        field
+      );
+    }
+  }
+
+  const padding = body.padding != null ? Number(body.padding) : 6;
+  Validation.range(padding, 3, 12, 'padding');
+
+  const series = await new InvoiceSeriesService(
+    createServiceClient()
+  ).createSeries({
+    code: body.code,
+    name: body.name,
+    prefix: body.prefix || 'INV',
+    branch_code: body.branch_code || null,
+    reset_yearly: body.reset_yearly !== false,
+    padding,
+    is_default: Boolean(body.is_default),
+  });
+
+  return createSuccessResponse({ success: true, data: series }, 201);
+});
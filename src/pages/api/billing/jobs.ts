@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createPaginatedResponse,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import { BillingScheduler } from '../../../lib/billing/scheduler';
+import { JobRunService } from '../../../lib/billing/job-run-service';
+
+// GET /api/billing/jobs - Scheduled billing job ledger, newest first (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    page: { default: '1', type: 'number' },
+    limit: { default: '50', type: 'number' },
+  });
+
+  const page = Number(params.page);
+  const limit = Number(params.limit);
+  Validation.range(page, 1, 10000, 'page');
+  Validation.range(limit, 1, 100, 'limit');
+
+  const { runs, total } = await new JobRunService(
+    createServiceClient()
+  ).listRuns(limit, (page - 1) * limit);
+
+  return createPaginatedResponse(runs, page, limit, total);
+});
+
+// POST /api/billing/jobs - Trigger the scheduled billing run now (admin).
+// Jobs that already succeeded today are skipped, and it won't start while
+// another run holds the lock.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const { locked, runs } = await new BillingScheduler(
+    createServiceClient()
+  ).runScheduledJobs({ trigger: 'manual', triggeredBy: user.id });
+
+  if (!locked) {
+    throw ErrorFactory.invalidOperation('A billing run is already in progress');
+  }
+
+  return createSuccessResponse({ success: true, data: runs });
+});
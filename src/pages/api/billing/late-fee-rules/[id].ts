@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { LateFeeService } from '../../../../lib/billing/late-fee-service';
+
+const EDITABLE_FIELDS = [
+  'name',
+  'amount',
+  'rate',
+  'max_amount',
+  'days_after_due',
+  'is_active',
+] as const;
+
+// PATCH /api/billing/late-fee-rules/:id - Change or deactivate a rule
+// (admin). Fees already added to invoices are not changed.
+export const PATCH: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const ruleId = params.id || '';
+    Validation.required(ruleId, 'id');
+
+    const body = await request.json();
+    if (body.amount != null) {
+      Validation.range(Number(body.amount), 1, 100_000_000, 'amount');
+    }
+    if (body.rate != null) {
+      Validation.range(Number(body.rate), 0.0001, 1, 'rate');
+    }
+    if (body.max_amount != null) {
+      Validation.range(Number(body.max_amount), 1, 100_000_000, 'max_amount');
+    }
+    if ('days_after_due' in body) {
+      Validation.range(Number(body.days_after_due), 1, 365, 'days_after_due');
+    }
+
+    const changes = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => field in body).map(field => [
+        field,
+        body[field],
+      ])
+    );
+
+    const rule = await new LateFeeService(createServiceClient()).updateRule(
+      ruleId,
+      changes
+    );
+
+    return createSuccessResponse({ success: true, data: rule });
+  }
+);
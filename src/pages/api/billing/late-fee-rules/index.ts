@@ -0,0 +1,72 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { LATE_FEE_TYPES } from '../../../../lib/billing/late-fees';
+import { LateFeeService } from '../../../../lib/billing/late-fee-service';
+import type { LateFeeType } from '../../../../lib/billing/types';
+
+// GET /api/billing/late-fee-rules - Late fee rules, earliest first (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const rules = await new LateFeeService(createServiceClient()).listRules();
+
+  return createSuccessResponse({ success: true, data: rules });
+});
+
+// POST /api/billing/late-fee-rules - Add a late fee rule (admin). Flat
+// rules charge `amount`; percentage rules charge `rate` of the invoice
+// total, up to max_amount. The fee is added days_after_due days after the
+// due date.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.name, 'name');
+  Validation.required(body.fee_type, 'fee_type');
+
+  const feeType = body.fee_type as LateFeeType;
+  if (!LATE_FEE_TYPES.includes(feeType)) {
+    throw ErrorFactory.validationFailed(
+      `fee_type must be one of: ${LATE_FEE_TYPES.join(', ')}`,
+      'fee_type'
+    );
+  }
+
+  const daysAfterDue = Number(body.days_after_due ?? 1);
+  Validation.range(daysAfterDue, 1, 365, 'days_after_due');
+
+  if (feeType === 'flat') {
+    Validation.required(body.amount, 'amount');
+    Validation.range(Number(body.amount), 1, 100_000_000, 'amount');
+  } else {
+    Validation.required(body.rate, 'rate');
+    Validation.range(Number(body.rate), 0.0001, 1, 'rate');
+    if (body.max_amount != null) {
+      Validation.range(Number(body.max_amount), 1, 100_000_000, 'max_amount');
+    }
+  }
+
+  const rule = await new LateFeeService(createServiceClient()).createRule({
+    name: String(body.name),
+    fee_type: feeType,
+    amount: body.amount != null ? Number(body.amount) : null,
+    rate: body.rate != null ? Number(body.rate) : null,
+    max_amount: body.max_amount != null ? Number(body.max_amount) : null,
+    days_after_due: daysAfterDue,
+    is_active: body.is_active !== false,
+  });
+
+  return createSuccessResponse({ success: true, data: rule }, 201);
+});
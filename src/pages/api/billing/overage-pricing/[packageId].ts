@@ -0,0 +1,64 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { UsageBillingService } from '../../../../lib/billing/usage-service';
+
+const PRICING_MODELS = ['per_gb', 'block'];
+
+// PUT /api/billing/overage-pricing/:packageId - Price usage over a package's
+// data cap per started GB or per block (admin). Applies to cycles that close
+// from now on; set is_active to false to stop charging overage.
+export const PUT: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const packageId = params.packageId || '';
+  Validation.required(packageId, 'packageId');
+
+  const body = await request.json();
+  Validation.required(body.pricing_model, 'pricing_model');
+
+  if (!PRICING_MODELS.includes(body.pricing_model)) {
+    throw ErrorFactory.validationFailed(
+      `pricing_model must be one of: ${PRICING_MODELS.join(', ')}`,
+      'pricing_model'
+    );
+  }
+
+  let pricePerGb: number | null = null;
+  let blockSizeGb: number | null = null;
+  let blockPrice: number | null = null;
+  if (body.pricing_model === 'per_gb') {
+    Validation.required(body.price_per_gb, 'price_per_gb');
+    pricePerGb = Number(body.price_per_gb);
+    Validation.range(pricePerGb, 1, 100_000_000, 'price_per_gb');
+  } else {
+    Validation.required(body.block_size_gb, 'block_size_gb');
+    Validation.required(body.block_price, 'block_price');
+    blockSizeGb = Number(body.block_size_gb);
+    blockPrice = Number(body.block_price);
+    Validation.range(blockSizeGb, 1, 10_000, 'block_size_gb');
+    Validation.range(blockPrice, 1, 1_000_000_000, 'block_price');
+  }
+
+  const pricing = await new UsageBillingService(
+    createServiceClient()
+  ).setPricing(packageId, {
+    pricing_model: body.pricing_model,
+    price_per_gb: pricePerGb,
+    block_size_gb: blockSizeGb,
+    block_price: blockPrice,
+    is_active: body.is_active !== false,
+  });
+
+  return createSuccessResponse({ success: true, data: pricing });
+});
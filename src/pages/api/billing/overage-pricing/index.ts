@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+} from '../../../../lib/utils/api';
+import { UsageBillingService } from '../../../../lib/billing/usage-service';
+
+// GET /api/billing/overage-pricing - Overage pricing of FUP packages (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const pricing = await new UsageBillingService(
+    createServiceClient()
+  ).listPricing();
+
+  return createSuccessResponse({ success: true, data: pricing });
+});
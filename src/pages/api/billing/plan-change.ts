@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../lib/utils/api';
+import { PlanChangeService } from '../../../lib/billing/plan-change';
+
+// POST /api/billing/plan-change - Switch a subscription to another package
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  const { subscription_id, package_id } = await request.json();
+
+  Validation.required(subscription_id, 'subscription_id');
+  Validation.required(package_id, 'package_id');
+
+  const planChangeService = new PlanChangeService(createServiceClient());
+  const { preview, invoice } = await planChangeService.applyPlanChange(
+    user.id,
+    subscription_id,
+    package_id
+  );
+
+  return createSuccessResponse({
+    success: true,
+    data: { proration: preview, invoice },
+    message: invoice
+      ? `Plan changed. Invoice ${invoice.invoiceNumber} has been issued.`
+      : 'Plan changed. Unused credit will be applied to your next invoice.',
+  });
+});
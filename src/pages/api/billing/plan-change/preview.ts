@@ -0,0 +1,27 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { PlanChangeService } from '../../../../lib/billing/plan-change';
+
+// POST /api/billing/plan-change/preview - Show the prorated cost of a plan change
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  const { subscription_id, package_id } = await request.json();
+
+  Validation.required(subscription_id, 'subscription_id');
+  Validation.required(package_id, 'package_id');
+
+  const planChangeService = new PlanChangeService(createServiceClient());
+  const preview = await planChangeService.previewPlanChange(
+    user.id,
+    subscription_id,
+    package_id
+  );
+
+  return createSuccessResponse({ success: true, data: preview });
+});
@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import { BillingScheduler } from '../../../lib/billing/scheduler';
+import {
+  PREVIEW_CSV_HEADERS,
+  previewCsvRows,
+} from '../../../lib/billing/preview';
+import { createCsvResponse, toCsv } from '../../../lib/billing/csv';
+
+const FORMATS = ['json', 'csv'];
+
+// GET /api/billing/preview - Dry run of the next billing run: every invoice
+// it would create, with totals and anomalies to review (admin).
+// format=csv downloads the preview.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    as_of: { type: 'string' },
+    format: { default: 'json', type: 'string' },
+  });
+
+  const format = params.format as string;
+  if (!FORMATS.includes(format)) {
+    throw ErrorFactory.validationFailed(
+      `format must be one of: ${FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+
+  const asOf = params.as_of ? new Date(params.as_of as string) : new Date();
+  if (Number.isNaN(asOf.getTime())) {
+    throw ErrorFactory.validationFailed('as_of must be a valid date', 'as_of');
+  }
+
+  const preview = await new BillingScheduler(
+    createServiceClient()
+  ).previewMonthlyInvoices(asOf);
+
+  if (format === 'csv') {
+    return createCsvResponse(
+      `billing-preview-${asOf.toISOString().slice(0, 10)}.csv`,
+      toCsv(PREVIEW_CSV_HEADERS, previewCsvRows(preview))
+    );
+  }
+
+  return createSuccessResponse({ success: true, data: preview });
+});
@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../lib/utils/api';
+import { PricePlanService } from '../../../lib/billing/price-plan-service';
+
+// POST /api/billing/price-lock - Grandfather a subscription at its current
+// price, or pass locked=false to let future price plans apply (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.subscription_id, 'subscription_id');
+
+  const subscription = await new PricePlanService(
+    createServiceClient()
+  ).setPriceLock(body.subscription_id, body.locked !== false);
+
+  return createSuccessResponse({ success: true, data: subscription });
+});
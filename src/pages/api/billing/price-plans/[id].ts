@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { PricePlanService } from '../../../../lib/billing/price-plan-service';
+
+// GET /api/billing/price-plans/:id - How a plan applies to each existing
+// subscriber: scheduled, applied or grandfathered (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const planId = params.id || '';
+  Validation.required(planId, 'id');
+
+  const changes = await new PricePlanService(createServiceClient()).getChanges(
+    planId
+  );
+
+  return createSuccessResponse({ success: true, data: changes });
+});
+
+// DELETE /api/billing/price-plans/:id - Withdraw a plan (admin).
+// Subscribers already moved to it keep the price.
+export const DELETE: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const planId = params.id || '';
+    Validation.required(planId, 'id');
+
+    const plan = await new PricePlanService(createServiceClient()).cancelPlan(
+      planId
+    );
+
+    return createSuccessResponse({ success: true, data: plan });
+  }
+);
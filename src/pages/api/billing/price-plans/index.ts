@@ -0,0 +1,79 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { PricePlanService } from '../../../../lib/billing/price-plan-service';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/billing/price-plans - Price plans, newest first, optionally for
+// one package (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    package_id: { type: 'string' },
+  });
+
+  const plans = await new PricePlanService(createServiceClient()).listPlans(
+    params.package_id as string | undefined
+  );
+
+  return createSuccessResponse({ success: true, data: plans });
+});
+
+// POST /api/billing/price-plans - Schedule a package price (admin). New
+// subscribers get it from effective_from; existing subscribers are emailed
+// notice and move to it after notice_days, unless grandfathered.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.package_id, 'package_id');
+  Validation.required(body.monthly_price, 'monthly_price');
+  Validation.required(body.effective_from, 'effective_from');
+
+  if (!DATE.test(body.effective_from)) {
+    throw ErrorFactory.validationFailed(
+      'effective_from must be a date (YYYY-MM-DD)',
+      'effective_from'
+    );
+  }
+
+  const monthlyPrice = Number(body.monthly_price);
+  Validation.range(monthlyPrice, 1, 1_000_000_000, 'monthly_price');
+  if (body.notice_days != null) {
+    Validation.range(Number(body.notice_days), 0, 365, 'notice_days');
+  }
+
+  const service = new PricePlanService(createServiceClient());
+  const result = await service.createPlan(
+    {
+      package_id: body.package_id,
+      monthly_price: monthlyPrice,
+      effective_from: body.effective_from,
+      notice_days:
+        body.notice_days != null ? Number(body.notice_days) : undefined,
+      grandfather_existing: Boolean(body.grandfather_existing),
+      description: body.description || null,
+    },
+    user.id
+  );
+  const noticesSent = await service.sendNotices();
+
+  return createSuccessResponse(
+    { success: true, data: { ...result, noticesSent } },
+    201
+  );
+});
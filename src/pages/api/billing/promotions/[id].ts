@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { PromotionService } from '../../../../lib/billing/promotion-service';
+
+const EDITABLE_FIELDS = [
+  'name',
+  'description',
+  'max_redemptions',
+  'ends_at',
+  'is_active',
+] as const;
+
+// PATCH /api/billing/promotions/:id - End, extend or rename a promotion
+// (admin). Customers who already redeemed it keep their discount.
+export const PATCH: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const promotionId = params.id || '';
+    Validation.required(promotionId, 'id');
+
+    const body = await request.json();
+    const changes = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => field in body).map(field => [
+        field,
+        body[field],
+      ])
+    );
+
+    const promotion = await new PromotionService(
+      createServiceClient()
+    ).updatePromotion(promotionId, changes);
+
+    return createSuccessResponse({ success: true, data: promotion });
+  }
+);
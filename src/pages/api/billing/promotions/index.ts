@@ -0,0 +1,100 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createPaginatedResponse,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { PromotionService } from '../../../../lib/billing/promotion-service';
+
+const DISCOUNT_TYPES = ['percentage', 'fixed'];
+const APPLIES_TO = ['recurring_service', 'installation', 'equipment_rental'];
+
+// GET /api/billing/promotions - Promotions with redemption counts (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    page: { default: '1', type: 'number' },
+    limit: { default: '20', type: 'number' },
+  });
+
+  const page = Number(params.page);
+  const limit = Number(params.limit);
+  Validation.range(page, 1, 10000, 'page');
+  Validation.range(limit, 1, 100, 'limit');
+
+  const { promotions, total } = await new PromotionService(
+    createServiceClient()
+  ).listPromotions(limit, (page - 1) * limit);
+
+  return createPaginatedResponse(promotions, page, limit, total);
+});
+
+// POST /api/billing/promotions - Create a promotion (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.name, 'name');
+  Validation.required(body.discount_type, 'discount_type');
+  Validation.required(body.discount_value, 'discount_value');
+
+  if (!DISCOUNT_TYPES.includes(body.discount_type)) {
+    throw ErrorFactory.validationFailed(
+      `discount_type must be one of: ${DISCOUNT_TYPES.join(', ')}`,
+      'discount_type'
+    );
+  }
+  if (body.applies_to && !APPLIES_TO.includes(body.applies_to)) {
+    throw ErrorFactory.validationFailed(
+      `applies_to must be one of: ${APPLIES_TO.join(', ')}`,
+      'applies_to'
+    );
+  }
+  if (!body.is_referral) {
+    Validation.required(body.code, 'code');
+  }
+
+  const discountValue = Number(body.discount_value);
+  Validation.range(
+    discountValue,
+    1,
+    body.discount_type === 'percentage' ? 100 : 1_000_000_000,
+    'discount_value'
+  );
+
+  const promotion = await new PromotionService(
+    createServiceClient()
+  ).createPromotion(
+    {
+      code: body.code || null,
+      name: body.name,
+      description: body.description || null,
+      discount_type: body.discount_type,
+      discount_value: discountValue,
+      applies_to: body.applies_to || 'recurring_service',
+      duration_months:
+        body.duration_months != null ? Number(body.duration_months) : null,
+      eligible_package_ids: body.eligible_package_ids || [],
+      max_redemptions:
+        body.max_redemptions != null ? Number(body.max_redemptions) : null,
+      starts_at: body.starts_at || null,
+      ends_at: body.ends_at || null,
+      is_referral: Boolean(body.is_referral),
+      referrer_credit_amount: Number(body.referrer_credit_amount || 0),
+    },
+    user.id
+  );
+
+  return createSuccessResponse({ success: true, data: promotion }, 201);
+});
@@ -0,0 +1,87 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { ReceivablesService } from '../../../../lib/billing/receivables-service';
+import { AGING_BUCKETS } from '../../../../lib/billing/receivables';
+import { renderAgingReportPdf } from '../../../../lib/billing/invoice-pdf';
+import { createDocumentResponse } from '../../../../lib/billing/document-service';
+import { createCsvResponse, toCsv } from '../../../../lib/billing/csv';
+
+const FORMATS = ['json', 'csv', 'pdf'];
+
+// GET /api/billing/receivables/aging - AR aging buckets across all open
+// invoices (admin). format=csv|pdf downloads the report.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    as_of: { type: 'string' },
+    format: { default: 'json', type: 'string' },
+  });
+
+  const format = params.format as string;
+  if (!FORMATS.includes(format)) {
+    throw ErrorFactory.validationFailed(
+      `format must be one of: ${FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+
+  const asOf = params.as_of ? new Date(params.as_of as string) : new Date();
+  if (Number.isNaN(asOf.getTime())) {
+    throw ErrorFactory.validationFailed('as_of must be a valid date', 'as_of');
+  }
+
+  const report = await new ReceivablesService(
+    createServiceClient()
+  ).getAgingReport(asOf);
+  const stamp = asOf.toISOString().slice(0, 10);
+
+  if (format === 'csv') {
+    const csv = toCsv(
+      [
+        'Customer ID',
+        'Customer',
+        'Invoices',
+        ...AGING_BUCKETS.map(bucket => bucket.label),
+        'Total',
+      ],
+      [
+        ...report.customers.map(customer => [
+          customer.userId,
+          customer.customerName,
+          customer.invoiceCount,
+          ...AGING_BUCKETS.map(bucket => customer.buckets[bucket.key]),
+          customer.total,
+        ]),
+        [
+          '',
+          'Total',
+          report.customers.reduce((sum, c) => sum + c.invoiceCount, 0),
+          ...AGING_BUCKETS.map(bucket => report.totals[bucket.key]),
+          report.totals.total,
+        ],
+      ]
+    );
+    return createCsvResponse(`ar-aging-${stamp}.csv`, csv);
+  }
+
+  if (format === 'pdf') {
+    return createDocumentResponse({
+      filename: `ar-aging-${stamp}.pdf`,
+      content: renderAgingReportPdf(report),
+    });
+  }
+
+  return createSuccessResponse({ success: true, data: report });
+});
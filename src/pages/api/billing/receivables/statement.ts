@@ -0,0 +1,98 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { ReceivablesService } from '../../../../lib/billing/receivables-service';
+import { renderStatementPdf } from '../../../../lib/billing/invoice-pdf';
+import { createDocumentResponse } from '../../../../lib/billing/document-service';
+import { createCsvResponse, toCsv } from '../../../../lib/billing/csv';
+
+const FORMATS = ['json', 'csv', 'pdf'];
+
+function parseDate(value: unknown, field: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw ErrorFactory.validationFailed(`${field} must be a valid date`, field);
+  }
+  return date;
+}
+
+// GET /api/billing/receivables/statement - Statement of account for one
+// customer with a running balance (admin). format=csv|pdf downloads it.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    user_id: { type: 'string' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    format: { default: 'json', type: 'string' },
+  });
+
+  Validation.required(params.user_id, 'user_id');
+  const format = params.format as string;
+  if (!FORMATS.includes(format)) {
+    throw ErrorFactory.validationFailed(
+      `format must be one of: ${FORMATS.join(', ')}`,
+      'format'
+    );
+  }
+
+  const from = parseDate(params.from, 'from');
+  const to = parseDate(params.to, 'to');
+  if (to) to.setHours(23, 59, 59, 999);
+
+  const statement = await new ReceivablesService(
+    createServiceClient()
+  ).getStatementOfAccount(params.user_id as string, { from, to });
+  const filename = `statement-${statement.userId}-${statement.to
+    .toISOString()
+    .slice(0, 10)}`;
+
+  if (format === 'csv') {
+    const csv = toCsv(
+      [
+        'Date',
+        'Type',
+        'Reference',
+        'Description',
+        'Debit',
+        'Credit',
+        'Balance',
+      ],
+      [
+        ['', '', '', 'Opening balance', '', '', statement.openingBalance],
+        ...statement.lines.map(line => [
+          line.date.toISOString().slice(0, 10),
+          line.type,
+          line.reference,
+          line.description,
+          line.debit || '',
+          line.credit || '',
+          line.balance,
+        ]),
+      ]
+    );
+    return createCsvResponse(`${filename}.csv`, csv);
+  }
+
+  if (format === 'pdf') {
+    return createDocumentResponse({
+      filename: `${filename}.pdf`,
+      content: renderStatementPdf(statement),
+    });
+  }
+
+  return createSuccessResponse({ success: true, data: statement });
+});
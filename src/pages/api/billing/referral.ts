@@ -0,0 +1,29 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+} from '../../../lib/utils/api';
+import { PromotionService } from '../../../lib/billing/promotion-service';
+
+// GET /api/billing/referral - The customer's referral code, sign-up link and
+// how many referrals have earned them credit
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const promotions = new PromotionService(createServiceClient());
+  const [referralCode, referrals] = await Promise.all([
+    promotions.getReferralCode(user.id),
+    promotions.getReferrals(user.id),
+  ]);
+
+  const link = new URL('/register', request.url);
+  link.searchParams.set('ref', referralCode.code);
+
+  return createSuccessResponse({
+    success: true,
+    data: { code: referralCode.code, link: link.toString(), ...referrals },
+  });
+});
@@ -7,6 +7,19 @@ import {
   type APIContext,
 } from '../../../lib/utils/api';
 
+// What customers may say about themselves for their invoices. Whether they
+// are taxed as a business or exempt is kept by finance in
+// customer_tax_profiles, so any such keys sent here are dropped.
+function customerTaxInformation(taxInformation: unknown) {
+  const info = (taxInformation || {}) as Record<string, unknown>;
+  return {
+    tax_id: typeof info.tax_id === 'string' ? info.tax_id : '',
+    business_name:
+      typeof info.business_name === 'string' ? info.business_name : '',
+    is_business: info.is_business === true,
+  };
+}
+
 export async function POST({ request }: APIContext) {
   try {
     if (!supabase) {
@@ -32,7 +45,7 @@ export async function POST({ request }: APIContext) {
       auto_payment: settings.auto_payment,
       default_payment_method: settings.default_payment_method || null,
       billing_address: settings.billing_address,
-      tax_information: settings.tax_information,
+      tax_information: customerTaxInformation(settings.tax_information),
       updated_at: new Date().toISOString(),
     });
 
@@ -1,5 +1,6 @@
 import { supabase } from '../../../lib/supabase.ts';
 import { logger } from '../../../lib/logger.ts';
+import { PricePlanService } from '../../../lib/billing/price-plan-service';
 import {
   authenticateRequest,
   createErrorResponse,
@@ -62,7 +63,7 @@ export async function POST({ request }: APIContext) {
     }
 
     const body = await request.json();
-    const { package_id, billing_day = 1 } = body;
+    const { package_id, billing_day = 1, billing_mode = 'postpaid' } = body;
 
     // Validate required fields
     if (!package_id) {
@@ -73,6 +74,13 @@ export async function POST({ request }: APIContext) {
       return createErrorResponse('Billing day must be between 1 and 31', 400);
     }
 
+    if (billing_mode !== 'postpaid' && billing_mode !== 'prepaid') {
+      return createErrorResponse(
+        'Billing mode must be postpaid or prepaid',
+        400
+      );
+    }
+
     // Get package details
     const { data: packageData, error: packageError } = await supabase
       .from('packages')
@@ -84,6 +92,11 @@ export async function POST({ request }: APIContext) {
       return createErrorResponse('Package not found', 404);
     }
 
+    // New subscribers pay the price plan in effect today
+    const { price, pricePlanId } = await new PricePlanService(
+      supabase
+    ).getPackagePrice(package_id);
+
     // Set next billing date
     const nextBillingDate = new Date();
     nextBillingDate.setDate(billing_day);
@@ -97,8 +110,10 @@ export async function POST({ request }: APIContext) {
       .insert({
         user_id: user.id,
         package_id,
-        monthly_amount: packageData.price,
+        monthly_amount: price,
+        price_plan_id: pricePlanId,
         billing_day,
+        billing_mode,
         next_billing_date: nextBillingDate.toISOString(),
         is_active: true,
       })
@@ -0,0 +1,82 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { TaxService } from '../../../../lib/billing/tax-service';
+
+const CUSTOMER_TYPES = ['individual', 'corporate'] as const;
+
+// GET /api/billing/tax-profiles/:userId - The tax status invoices for a
+// customer are calculated with (admin). data is null for customers taxed
+// as individuals by default.
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const userId = params.userId || '';
+  Validation.required(userId, 'userId');
+
+  const profile = await new TaxService(
+    createServiceClient()
+  ).getCustomerTaxProfileRow(userId);
+
+  return createSuccessResponse({ success: true, data: profile });
+});
+
+// PUT /api/billing/tax-profiles/:userId - Set a customer's tax status
+// (admin). Exemptions need the exemption letter's reference, and only
+// corporate customers withhold PPh 23.
+export const PUT: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const userId = params.userId || '';
+  Validation.required(userId, 'userId');
+
+  const body = await request.json();
+  if (!CUSTOMER_TYPES.includes(body.customer_type)) {
+    throw ErrorFactory.validationFailed(
+      `customer_type must be one of: ${CUSTOMER_TYPES.join(', ')}`,
+      'customer_type'
+    );
+  }
+
+  const taxExempt = body.tax_exempt === true;
+  if (taxExempt) {
+    Validation.required(body.exemption_reference, 'exemption_reference');
+  }
+
+  const withholdsPph23 = body.withholds_pph23 === true;
+  if (withholdsPph23 && body.customer_type !== 'corporate') {
+    throw ErrorFactory.validationFailed(
+      'Only corporate customers withhold PPh 23',
+      'withholds_pph23'
+    );
+  }
+
+  const profile = await new TaxService(
+    createServiceClient()
+  ).setCustomerTaxProfile(
+    userId,
+    {
+      customer_type: body.customer_type,
+      tax_exempt: taxExempt,
+      exemption_reference: body.exemption_reference
+        ? String(body.exemption_reference)
+        : null,
+      npwp: body.npwp ? String(body.npwp) : null,
+      withholds_pph23: withholdsPph23,
+    },
+    user.id
+  );
+
+  return createSuccessResponse({ success: true, data: profile });
+});
@@ -0,0 +1,35 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+} from '../../../lib/utils/api';
+import {
+  VIRTUAL_ACCOUNT_BANKS,
+  VirtualAccountService,
+} from '../../../lib/billing/virtual-account-service';
+
+// GET /api/billing/virtual-accounts - The customer's permanent bank transfer
+// VAs and the transfers received on them
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  const virtualAccounts = new VirtualAccountService(createServiceClient());
+
+  const [accounts, payments] = await Promise.all([
+    virtualAccounts.getAccounts(user.id),
+    virtualAccounts.getPayments(user.id),
+  ]);
+
+  return createSuccessResponse({
+    success: true,
+    data: {
+      accounts: accounts.map(account => ({
+        bank: account.bank,
+        bankName: VIRTUAL_ACCOUNT_BANKS[account.bank],
+        vaNumber: account.va_number,
+      })),
+      payments,
+    },
+  });
+});
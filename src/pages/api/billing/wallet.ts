@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+} from '../../../lib/utils/api';
+import {
+  MAX_TOP_UP,
+  MIN_TOP_UP,
+  WalletService,
+} from '../../../lib/billing/wallet-service';
+
+// GET /api/billing/wallet - Prepaid wallet balance and ledger of top-ups and
+// deductions. Admins may pass user_id to view another customer's wallet.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    user_id: { type: 'string' },
+  });
+
+  let userId = user.id;
+  if (params.user_id && params.user_id !== user.id) {
+    await authenticateAdmin(request);
+    userId = params.user_id as string;
+  }
+
+  const supabase = createServiceClient();
+  const [statement, { data: prepaid }] = await Promise.all([
+    new WalletService(supabase).getStatement(userId),
+    supabase
+      .from('service_subscriptions')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .eq('billing_mode', 'prepaid')
+      .limit(1),
+  ]);
+
+  return createSuccessResponse({
+    success: true,
+    data: {
+      ...statement,
+      prepaid: (prepaid || []).length > 0,
+      minTopUp: MIN_TOP_UP,
+      maxTopUp: MAX_TOP_UP,
+    },
+  });
+});
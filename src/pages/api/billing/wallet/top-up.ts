@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+} from '../../../../lib/utils/api';
+import { Validation } from '../../../../lib/errors';
+import { getPaymentManager } from '../../../../lib/payments';
+import { WalletService } from '../../../../lib/billing/wallet-service';
+import { SecurityMiddleware } from '../../../../lib/security/middleware';
+
+// POST /api/billing/wallet/top-up - Start a gateway payment that credits the
+// caller's prepaid wallet once it settles
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+  Validation.required(body.amount, 'amount');
+
+  const paymentRequest = await new WalletService(
+    createServiceClient()
+  ).buildTopUpRequest(user.id, Number(body.amount));
+  const { transaction, paymentResponse } =
+    await getPaymentManager().processPayment(paymentRequest, user.id, {
+      ipAddress: SecurityMiddleware.getClientIP(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+      accountEmail: user.email,
+    });
+
+  return createSuccessResponse(
+    {
+      success: true,
+      data: {
+        orderId: transaction.orderId,
+        amount: paymentRequest.amount,
+        token: paymentResponse.token,
+        redirectUrl: paymentResponse.redirectUrl,
+      },
+    },
+    201
+  );
+});
@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import {
+  InvoiceAdminService,
+  auditActor,
+} from '../../../../lib/billing/invoice-admin-service';
+
+// GET /api/invoices/[id]/adjustments - Manual adjustments made to the
+// invoice, oldest first (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const invoiceId = params.id || '';
+  Validation.required(invoiceId, 'id');
+
+  const adjustments = await new InvoiceAdminService(
+    createServiceClient()
+  ).getAdjustments(invoiceId);
+
+  return createSuccessResponse({ success: true, data: adjustments });
+});
+
+// POST /api/invoices/[id]/adjustments - Add a manual line to an open
+// invoice (admin). A positive `amount` adds to the invoice and a negative
+// one takes off it; the invoice total moves by the same amount.
+export const POST: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const invoiceId = params.id || '';
+  Validation.required(invoiceId, 'id');
+
+  const body = await request.json();
+  Validation.required(body.description, 'description');
+  Validation.required(body.amount, 'amount');
+
+  const adjustment = await new InvoiceAdminService(
+    createServiceClient()
+  ).adjust(
+    invoiceId,
+    { description: String(body.description), amount: Number(body.amount) },
+    auditActor(request, user.id)
+  );
+
+  return createSuccessResponse({ success: true, data: adjustment }, 201);
+});
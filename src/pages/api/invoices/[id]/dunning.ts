@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { DunningService } from '../../../../lib/billing/dunning-service';
+
+// GET /api/invoices/[id]/dunning - Reminders, suspension and reactivation
+// steps recorded for an invoice. Customers see their own; admins see all.
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateUser(request);
+  const invoiceId = params.id || '';
+
+  Validation.required(invoiceId, 'id');
+
+  const supabase = createServiceClient();
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('id, user_id')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (!invoice) {
+    throw ErrorFactory.resourceNotFound('Invoice', invoiceId);
+  }
+
+  if (invoice.user_id !== user.id) {
+    await authenticateAdmin(request);
+  }
+
+  const log = await new DunningService(supabase).getLog(invoiceId);
+
+  return createSuccessResponse({ success: true, data: log });
+});
@@ -0,0 +1,141 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  authenticateUser,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { InstallmentService } from '../../../../lib/billing/installment-service';
+import {
+  DEFAULT_INSTALLMENT_INTERVAL_DAYS,
+  MAX_INSTALLMENTS,
+  MIN_INSTALLMENTS,
+  splitInstallments,
+  type InstallmentScheduleEntry,
+} from '../../../../lib/billing/installments';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/invoices/[id]/installments - The invoice's installment plan with
+// a payment link per installment. Customers see their own; admins see all.
+export const GET: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateUser(request);
+  const invoiceId = params.id || '';
+
+  Validation.required(invoiceId, 'id');
+
+  const supabase = createServiceClient();
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('id, user_id')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (!invoice) {
+    throw ErrorFactory.resourceNotFound('Invoice', invoiceId);
+  }
+
+  if (invoice.user_id !== user.id) {
+    await authenticateAdmin(request);
+  }
+
+  const plan = await new InstallmentService(supabase).getPlan(invoiceId);
+
+  return createSuccessResponse({ success: true, data: plan });
+});
+
+// POST /api/invoices/[id]/installments - Put an unpaid invoice on an
+// installment plan (admin). Send either `installments` as a list of
+// { amount, due_date }, or `count` and `first_due_date` (and optionally
+// `interval_days`) to split the balance evenly. Dunning pauses while the
+// customer pays each installment on time.
+export const POST: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const invoiceId = params.id || '';
+  Validation.required(invoiceId, 'id');
+
+  const body = await request.json();
+  const supabase = createServiceClient();
+
+  let schedule: InstallmentScheduleEntry[];
+  if (Array.isArray(body.installments)) {
+    schedule = body.installments.map(
+      (entry: { amount?: unknown; due_date?: unknown }) => {
+        if (typeof entry.due_date !== 'string' || !DATE.test(entry.due_date)) {
+          throw ErrorFactory.validationFailed(
+            'Each installment needs a due_date (YYYY-MM-DD)',
+            'installments'
+          );
+        }
+        return { amount: Number(entry.amount), dueDate: entry.due_date };
+      }
+    );
+  } else {
+    Validation.required(body.count, 'count');
+    Validation.required(body.first_due_date, 'first_due_date');
+    if (!DATE.test(body.first_due_date)) {
+      throw ErrorFactory.validationFailed(
+        'first_due_date must be a date (YYYY-MM-DD)',
+        'first_due_date'
+      );
+    }
+
+    const count = Number(body.count);
+    Validation.range(count, MIN_INSTALLMENTS, MAX_INSTALLMENTS, 'count');
+    const intervalDays = Number(
+      body.interval_days ?? DEFAULT_INSTALLMENT_INTERVAL_DAYS
+    );
+    Validation.range(intervalDays, 7, 90, 'interval_days');
+
+    const { data: invoice } = await supabase
+      .from('invoices')
+      .select('total')
+      .eq('id', invoiceId)
+      .maybeSingle();
+    if (!invoice) {
+      throw ErrorFactory.resourceNotFound('Invoice', invoiceId);
+    }
+
+    schedule = splitInstallments(
+      Number(invoice.total),
+      count,
+      body.first_due_date,
+      intervalDays
+    );
+  }
+
+  const plan = await new InstallmentService(supabase).createPlan({
+    invoiceId,
+    schedule,
+    notes: body.notes || null,
+    createdBy: user.id,
+  });
+
+  return createSuccessResponse({ success: true, data: plan }, 201);
+});
+
+// DELETE /api/invoices/[id]/installments - Cancel the invoice's plan while
+// nothing has been paid on it (admin). Dunning resumes for the invoice.
+export const DELETE: APIRoute = withApiMiddleware(
+  async ({ params, request }) => {
+    const { user } = await authenticateAdmin(request);
+    setUserContext(request, user.id);
+
+    const invoiceId = params.id || '';
+    Validation.required(invoiceId, 'id');
+
+    const plan = await new InstallmentService(createServiceClient()).cancelPlan(
+      invoiceId
+    );
+
+    return createSuccessResponse({ success: true, data: plan });
+  }
+);
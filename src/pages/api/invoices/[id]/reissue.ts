@@ -0,0 +1,68 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import {
+  InvoiceAdminService,
+  auditActor,
+} from '../../../../lib/billing/invoice-admin-service';
+import type { CorrectedLine } from '../../../../lib/billing/invoice-admin';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST /api/invoices/[id]/reissue - Void an open invoice and issue a
+// corrected copy under a new number (admin). Pass `lines` as a list of
+// { description, quantity, unit_price, category?, item_type?, site_label? }
+// to replace the original's charges, or leave it out to copy them. The
+// copy keeps the original due date unless `due_date` is given.
+export const POST: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const invoiceId = params.id || '';
+  Validation.required(invoiceId, 'id');
+
+  const body = await request.json();
+  Validation.required(body.reason, 'reason');
+
+  if (body.lines !== undefined && !Array.isArray(body.lines)) {
+    throw ErrorFactory.validationFailed('lines must be a list', 'lines');
+  }
+  const lines: CorrectedLine[] | undefined = body.lines?.map(
+    (line: Record<string, unknown>) => ({
+      description: String(line.description ?? ''),
+      quantity: Number(line.quantity ?? 1),
+      unitPrice: Number(line.unit_price),
+      category: line.category,
+      itemType: line.item_type,
+      siteLabel: line.site_label,
+    })
+  );
+
+  if (body.due_date !== undefined && !DATE.test(body.due_date)) {
+    throw ErrorFactory.validationFailed(
+      'due_date must be a date (YYYY-MM-DD)',
+      'due_date'
+    );
+  }
+
+  const result = await new InvoiceAdminService(createServiceClient()).reissue(
+    invoiceId,
+    {
+      reason: String(body.reason),
+      lines,
+      dueDate: body.due_date ? new Date(body.due_date) : undefined,
+    },
+    auditActor(request, user.id)
+  );
+
+  return createSuccessResponse({ success: true, data: result }, 201);
+});
@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import {
+  InvoiceAdminService,
+  auditActor,
+} from '../../../../lib/billing/invoice-admin-service';
+
+// POST /api/invoices/[id]/void - Void an unpaid invoice (admin). The invoice
+// keeps its number; any account credit applied to it is given back.
+export const POST: APIRoute = withApiMiddleware(async ({ params, request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const invoiceId = params.id || '';
+  Validation.required(invoiceId, 'id');
+
+  const body = await request.json();
+  Validation.required(body.reason, 'reason');
+
+  const result = await new InvoiceAdminService(
+    createServiceClient()
+  ).voidInvoice(invoiceId, String(body.reason), auditActor(request, user.id));
+
+  return createSuccessResponse({ success: true, data: result });
+});
@@ -0,0 +1,71 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createServiceClient,
+  createSuccessResponse,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import {
+  InvoiceAdminService,
+  auditActor,
+} from '../../../lib/billing/invoice-admin-service';
+import { RESENDABLE_STATUSES } from '../../../lib/billing/invoice-admin';
+import type { Invoice } from '../../../lib/payments/types';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST /api/invoices/resend - Email invoices matching a filter again
+// (admin). `status` is a list of sent, overdue and paid (sent and overdue
+// by default); `region` is a service address province; `from` and `to`
+// (YYYY-MM-DD, inclusive) limit by issue date; `user_id` and
+// `billing_account_id` narrow to one customer or account.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const body = await request.json();
+
+  const statuses: Invoice['status'][] = body.status ?? ['sent', 'overdue'];
+  if (
+    !Array.isArray(statuses) ||
+    statuses.length === 0 ||
+    statuses.some(status => !RESENDABLE_STATUSES.includes(status))
+  ) {
+    throw ErrorFactory.validationFailed(
+      `status must be a list of: ${RESENDABLE_STATUSES.join(', ')}`,
+      'status'
+    );
+  }
+
+  for (const field of ['from', 'to']) {
+    if (body[field] !== undefined && !DATE.test(body[field])) {
+      throw ErrorFactory.validationFailed(
+        `${field} must be a date (YYYY-MM-DD)`,
+        field
+      );
+    }
+  }
+
+  let to: Date | undefined;
+  if (body.to) {
+    to = new Date(`${body.to}T00:00:00Z`);
+    to.setUTCDate(to.getUTCDate() + 1);
+  }
+
+  const result = await new InvoiceAdminService(
+    createServiceClient()
+  ).bulkResend(
+    {
+      statuses,
+      region: body.region || undefined,
+      from: body.from ? new Date(`${body.from}T00:00:00Z`) : undefined,
+      to,
+      userId: body.user_id || undefined,
+      billingAccountId: body.billing_account_id || undefined,
+    },
+    auditActor(request, user.id)
+  );
+
+  return createSuccessResponse({ success: true, data: result });
+});
@@ -1,6 +1,8 @@
 import { getPaymentManager } from '../../../lib/payments';
 import { createServerClient } from '../../../lib/supabase';
 import { logger } from '../../../lib/logger';
+import { ErrorUtils } from '../../../lib/errors';
+import { SecurityMiddleware } from '../../../lib/security/middleware';
 import { validateRequest, createHeaders } from '../../../lib/validation';
 import {
   PaymentSchemas,
@@ -11,8 +13,16 @@ import type { APIRoute } from 'astro';
 export const POST: APIRoute = validateRequest(PaymentSchemas.createPayment)(
   async ({ request, validatedData, requestId }) => {
     try {
-      const { orderId, amount, customerDetails, itemDetails, paymentMethod } =
-        (validatedData || {}) as unknown as ValidatedPaymentCreateData;
+      const {
+        orderId,
+        amount,
+        customerDetails,
+        itemDetails,
+        paymentMethod,
+        invoiceId,
+        installmentId,
+        saveCard,
+      } = (validatedData || {}) as unknown as ValidatedPaymentCreateData;
 
       // Get authenticated user
       const authHeader = request.headers.get('Authorization');
@@ -52,6 +62,9 @@ export const POST: APIRoute = validateRequest(PaymentSchemas.createPayment)(
         customerDetails: customerDetails,
         itemDetails: itemDetails,
         paymentMethod,
+        invoiceId,
+        installmentId,
+        saveCard,
       };
 
       logger.info('Processing payment', {
@@ -64,7 +77,12 @@ export const POST: APIRoute = validateRequest(PaymentSchemas.createPayment)(
 
       const result = await paymentManager.processPayment(
         paymentRequest,
-        user.id
+        user.id,
+        {
+          ipAddress: SecurityMiddleware.getClientIP(request),
+          userAgent: request.headers.get('user-agent') || undefined,
+          accountEmail: user.email,
+        }
       );
 
       logger.info('Payment processed successfully', {
@@ -91,7 +109,10 @@ export const POST: APIRoute = validateRequest(PaymentSchemas.createPayment)(
               ? error.message
               : 'Payment processing failed',
         }),
-        { status: 500, headers: createHeaders(requestId) }
+        {
+          status: ErrorUtils.getStatusCode(error),
+          headers: createHeaders(requestId),
+        }
       );
     }
   }
@@ -0,0 +1,58 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import {
+  getPaymentManager,
+  MockGateway,
+  type MockPaymentOutcome,
+  type WebhookPayload,
+} from '../../../../lib/payments';
+
+const OUTCOMES: MockPaymentOutcome[] = ['settlement', 'expire', 'deny'];
+
+// POST /api/payments/mock/simulate - Settle, expire or deny a mock payment.
+// Returns the signed notification to post to /api/payments/webhook.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+
+  const paymentManager = getPaymentManager();
+  const gateway = paymentManager.getGateway();
+  if (!(gateway instanceof MockGateway)) {
+    throw ErrorFactory.notFound('Mock payment gateway');
+  }
+
+  const { order_id, outcome } = await request.json();
+
+  Validation.required(order_id, 'order_id');
+  if (!OUTCOMES.includes(outcome)) {
+    throw ErrorFactory.validationFailed(
+      `outcome must be one of: ${OUTCOMES.join(', ')}`,
+      'outcome'
+    );
+  }
+
+  // Only the customer who started the payment may settle it
+  const transaction = await paymentManager.getTransactionByOrderId(order_id);
+  if (!transaction || transaction.userId !== user.id) {
+    throw ErrorFactory.resourceNotFound('Transaction', order_id);
+  }
+
+  let notification: WebhookPayload;
+  try {
+    notification = gateway.simulate(order_id, outcome);
+  } catch (error) {
+    throw ErrorFactory.invalidOperation(
+      error instanceof Error ? error.message : 'Simulation failed'
+    );
+  }
+
+  return createSuccessResponse({
+    success: true,
+    data: { notification },
+  });
+});
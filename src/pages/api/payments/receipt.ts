@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../lib/middleware/api';
+import {
+  authenticateUser,
+  createServiceClient,
+  Validation,
+} from '../../../lib/utils/api';
+import {
+  BillingDocumentService,
+  createDocumentResponse,
+} from '../../../lib/billing/document-service';
+
+// GET /api/payments/receipt?transaction_id=... - Download the kwitansi for a successful payment
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateUser(request);
+  const transactionId =
+    new URL(request.url).searchParams.get('transaction_id') || '';
+
+  Validation.required(transactionId, 'transaction_id');
+
+  const documentService = new BillingDocumentService(createServiceClient());
+  const document = await documentService.getReceiptPdf(transactionId, user.id);
+
+  return createDocumentResponse(document);
+});
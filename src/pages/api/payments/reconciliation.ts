@@ -0,0 +1,52 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createPaginatedResponse,
+  createServiceClient,
+  createSuccessResponse,
+  getQueryParams,
+  Validation,
+} from '../../../lib/utils/api';
+import { logger } from '../../../lib/logger';
+import { ReconciliationService } from '../../../lib/payments/reconciliation';
+
+// GET /api/payments/reconciliation - Reconciliation runs with their
+// discrepancy reports (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    page: { default: '1', type: 'number' },
+    limit: { default: '20', type: 'number' },
+  });
+
+  const page = Number(params.page);
+  const limit = Number(params.limit);
+  Validation.range(page, 1, 10000, 'page');
+  Validation.range(limit, 1, 100, 'limit');
+
+  const { runs, total } = await new ReconciliationService(
+    createServiceClient()
+  ).listRuns(limit, (page - 1) * limit);
+
+  return createPaginatedResponse(runs, page, limit, total);
+});
+
+// POST /api/payments/reconciliation - Run reconciliation now (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  logger.info('Running payment reconciliation', {
+    module: 'payments',
+    submodule: 'reconciliation',
+    operation: 'run',
+    adminId: user.id,
+  });
+
+  const report = await new ReconciliationService(createServiceClient()).run();
+
+  return createSuccessResponse({ success: true, data: report });
+});
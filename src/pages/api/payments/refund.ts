@@ -55,7 +55,11 @@ export const POST: APIRoute = validateRequest(PaymentSchemas.refundPayment)(
         reason,
       });
 
-      const result = await paymentManager.refundPayment(transactionId, amount);
+      const result = await paymentManager.refundPayment(
+        transactionId,
+        amount,
+        reason
+      );
 
       logger.info('Refund processed successfully', {
         requestId,
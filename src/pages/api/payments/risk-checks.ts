@@ -0,0 +1,51 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware, setUserContext } from '../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createPaginatedResponse,
+  getQueryParams,
+  Validation,
+} from '../../../lib/utils/api';
+import { ErrorFactory } from '../../../lib/errors';
+import { getPaymentManager, type RiskDecision } from '../../../lib/payments';
+
+const DECISIONS: RiskDecision[] = ['allow', 'step_up', 'block'];
+
+// GET /api/payments/risk-checks - Payment attempts as risk-checked before a
+// gateway transaction was created, newest first (admin). Shows blocked
+// attempts unless `decision` is given; decision=all lists every attempt.
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    page: { default: '1', type: 'number' },
+    limit: { default: '20', type: 'number' },
+    decision: { default: 'block', type: 'string' },
+    user_id: { type: 'string' },
+    ip_address: { type: 'string' },
+  });
+
+  const page = Number(params.page);
+  const limit = Number(params.limit);
+  Validation.range(page, 1, 10000, 'page');
+  Validation.range(limit, 1, 100, 'limit');
+
+  const decision = params.decision as string;
+  if (decision !== 'all' && !DECISIONS.includes(decision as RiskDecision)) {
+    throw ErrorFactory.validationFailed(
+      `decision must be one of: all, ${DECISIONS.join(', ')}`,
+      'decision'
+    );
+  }
+
+  const { checks, total } = await getPaymentManager().listRiskChecks({
+    decision: decision === 'all' ? undefined : (decision as RiskDecision),
+    userId: params.user_id as string | undefined,
+    ipAddress: params.ip_address as string | undefined,
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  return createPaginatedResponse(checks, page, limit, total);
+});
@@ -0,0 +1,74 @@
+import type { APIRoute } from 'astro';
+import { withApiMiddleware } from '../../../../lib/middleware/api';
+import {
+  createServiceClient,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { logger } from '../../../../lib/logger';
+import {
+  VIRTUAL_ACCOUNT_BANKS,
+  VirtualAccountService,
+  verifyCallbackToken,
+} from '../../../../lib/billing/virtual-account-service';
+import type { VirtualAccountBank } from '../../../../lib/billing/types';
+
+// POST /api/payments/virtual-accounts/callback - Transfer received on a
+// customer's static VA. Authenticated with the shared x-callback-token.
+export const POST: APIRoute = withApiMiddleware(async ({ request }) => {
+  if (
+    !verifyCallbackToken(
+      request.headers.get('x-callback-token'),
+      import.meta.env.VA_CALLBACK_TOKEN
+    )
+  ) {
+    throw ErrorFactory.unauthorized();
+  }
+
+  const body = await request.json();
+  Validation.required(body.bank, 'bank');
+  Validation.required(body.va_number, 'va_number');
+  Validation.required(body.reference, 'reference');
+
+  const bank = String(body.bank).toLowerCase() as VirtualAccountBank;
+  if (!(bank in VIRTUAL_ACCOUNT_BANKS)) {
+    throw ErrorFactory.validationFailed(
+      `bank must be one of: ${Object.keys(VIRTUAL_ACCOUNT_BANKS).join(', ')}`,
+      'bank'
+    );
+  }
+
+  const paidAt = body.paid_at ? new Date(body.paid_at) : new Date();
+  if (isNaN(paidAt.getTime())) {
+    throw ErrorFactory.validationFailed('paid_at must be a date', 'paid_at');
+  }
+
+  // Log only safe callback metadata
+  logger.info('Virtual account callback received', {
+    module: 'payments',
+    submodule: 'virtual-accounts',
+    operation: 'callback',
+    bank,
+    reference: String(body.reference),
+  });
+
+  const result = await new VirtualAccountService(
+    createServiceClient()
+  ).recordPayment({
+    bank,
+    vaNumber: String(body.va_number),
+    amount: Number(body.amount),
+    reference: String(body.reference),
+    paidAt,
+  });
+
+  return createSuccessResponse({
+    success: true,
+    data: {
+      duplicate: result.duplicate,
+      paidInvoices: result.paidInvoices,
+      creditedAmount: result.payment.credited_amount,
+    },
+  });
+});
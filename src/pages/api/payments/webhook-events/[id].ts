@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createSuccessResponse,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import { getPaymentManager } from '../../../../lib/payments';
+
+// GET /api/payments/webhook-events/:id - Inspect a stored notification (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request, params }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const eventId = params.id || '';
+  Validation.required(eventId, 'id');
+
+  const event = await getPaymentManager().getWebhookEvent(eventId);
+  if (!event) {
+    throw ErrorFactory.resourceNotFound('Webhook event', eventId);
+  }
+
+  return createSuccessResponse({ success: true, data: event });
+});
@@ -0,0 +1,34 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createSuccessResponse,
+  Validation,
+} from '../../../../../lib/utils/api';
+import { logger } from '../../../../../lib/logger';
+import { getPaymentManager } from '../../../../../lib/payments';
+
+// POST /api/payments/webhook-events/:id/replay - Reprocess a failed
+// notification (admin)
+export const POST: APIRoute = withApiMiddleware(async ({ request, params }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const eventId = params.id || '';
+  Validation.required(eventId, 'id');
+
+  logger.info('Replaying payment webhook event', {
+    module: 'payments',
+    submodule: 'webhook-events',
+    operation: 'replay',
+    eventId,
+    adminId: user.id,
+  });
+
+  const result = await getPaymentManager().replayWebhookEvent(eventId);
+
+  return createSuccessResponse({ success: true, data: result });
+});
@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import {
+  withApiMiddleware,
+  setUserContext,
+} from '../../../../lib/middleware/api';
+import {
+  authenticateAdmin,
+  createPaginatedResponse,
+  getQueryParams,
+  Validation,
+} from '../../../../lib/utils/api';
+import { ErrorFactory } from '../../../../lib/errors';
+import {
+  getPaymentManager,
+  type WebhookProcessingStatus,
+} from '../../../../lib/payments';
+
+const STATUSES: WebhookProcessingStatus[] = [
+  'received',
+  'processing',
+  'processed',
+  'rejected',
+  'failed',
+];
+
+// GET /api/payments/webhook-events - List stored gateway notifications (admin)
+export const GET: APIRoute = withApiMiddleware(async ({ request }) => {
+  const { user } = await authenticateAdmin(request);
+  setUserContext(request, user.id);
+
+  const params = getQueryParams(request.url, {
+    page: { default: '1', type: 'number' },
+    limit: { default: '20', type: 'number' },
+    status: { type: 'string' },
+    order_id: { type: 'string' },
+    provider: { type: 'string' },
+  });
+
+  const page = Number(params.page);
+  const limit = Number(params.limit);
+  Validation.range(page, 1, 10000, 'page');
+  Validation.range(limit, 1, 100, 'limit');
+
+  const status = params.status as WebhookProcessingStatus | undefined;
+  if (status && !STATUSES.includes(status)) {
+    throw ErrorFactory.validationFailed(
+      `status must be one of: ${STATUSES.join(', ')}`,
+      'status'
+    );
+  }
+
+  const { events, total } = await getPaymentManager().listWebhookEvents({
+    status,
+    orderId: params.order_id as string | undefined,
+    provider: params.provider as string | undefined,
+    limit,
+    offset: (page - 1) * limit,
+  });
+
+  return createPaginatedResponse(events, page, limit, total);
+});
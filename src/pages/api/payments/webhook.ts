@@ -20,13 +20,14 @@ export const POST: APIRoute = async ({ request }) => {
     const paymentManager = getPaymentManager();
 
     try {
-      const result = await paymentManager.handleWebhook(body);
+      const result = await paymentManager.handleWebhook(body, request.headers);
 
       return new Response(
         JSON.stringify({
           success: true,
           message: 'Webhook processed successfully',
           transactionId: result.transactionId,
+          duplicate: result.duplicate,
         }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
       );
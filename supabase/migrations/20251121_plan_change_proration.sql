@@ -0,0 +1,39 @@
+-- Plan Change Proration
+-- Tracks mid-cycle package changes and any credit carried to the next cycle
+
+-- Credit left over from a downgrade, applied to the next generated invoice
+ALTER TABLE service_subscriptions
+    ADD COLUMN IF NOT EXISTS proration_credit DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Distinguish charge, credit and tax lines on invoices
+ALTER TABLE invoice_items
+    ADD COLUMN IF NOT EXISTS item_type VARCHAR(50) NOT NULL DEFAULT 'charge';
+
+-- Subscription Plan Changes Table
+CREATE TABLE IF NOT EXISTS subscription_plan_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subscription_id UUID REFERENCES service_subscriptions(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    from_package_id UUID NOT NULL,
+    to_package_id UUID NOT NULL,
+    old_monthly_amount DECIMAL(12,2) NOT NULL,
+    new_monthly_amount DECIMAL(12,2) NOT NULL,
+    days_remaining INTEGER NOT NULL,
+    days_in_cycle INTEGER NOT NULL,
+    credit_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    charge_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    effective_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_subscription_plan_changes_subscription_id ON subscription_plan_changes(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_plan_changes_user_id ON subscription_plan_changes(user_id);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE subscription_plan_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan changes"
+    ON subscription_plan_changes FOR SELECT
+    USING (auth.uid() = user_id);
@@ -0,0 +1,50 @@
+-- Tax Rules
+-- Configurable PPN/PPh rates by effective date. Invoices snapshot the rule
+-- and rate applied so historical invoices never change when a rate does.
+
+CREATE TABLE IF NOT EXISTS tax_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(50) NOT NULL, -- PPN, PPH23
+    name VARCHAR(255) NOT NULL,
+    kind VARCHAR(50) NOT NULL CHECK (kind IN ('vat', 'withholding')),
+    rate DECIMAL(6,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+    categories TEXT[] NOT NULL, -- recurring_service, installation, equipment_rental, deposit
+    customer_types TEXT[], -- null applies to all customer types
+    effective_from DATE NOT NULL,
+    effective_to DATE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_code ON tax_rules(code);
+CREATE INDEX IF NOT EXISTS idx_tax_rules_effective_from ON tax_rules(effective_from);
+
+-- Applied tax snapshot on invoices
+ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS tax_withheld DECIMAL(12,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS tax_details JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE invoice_items
+    ADD COLUMN IF NOT EXISTS tax_category VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS tax_rule_code VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6,4);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE tax_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active tax rules"
+    ON tax_rules FOR SELECT
+    USING (is_active = true);
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_tax_rules_updated_at
+    BEFORE UPDATE ON tax_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default rules
+INSERT INTO tax_rules (code, name, kind, rate, categories, customer_types, effective_from, effective_to) VALUES
+    ('PPN', 'PPN 10%', 'vat', 0.10, ARRAY['recurring_service', 'installation', 'equipment_rental'], NULL, '2010-01-01', '2022-04-01'),
+    ('PPN', 'PPN 11%', 'vat', 0.11, ARRAY['recurring_service', 'installation', 'equipment_rental'], NULL, '2022-04-01', NULL),
+    ('PPH23', 'PPh 23', 'withholding', 0.02, ARRAY['recurring_service', 'installation', 'equipment_rental'], ARRAY['corporate'], '2009-01-01', NULL);
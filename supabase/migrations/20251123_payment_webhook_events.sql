@@ -0,0 +1,49 @@
+-- Payment Webhook Events
+-- Every verified gateway notification is stored before it is processed.
+-- dedupe_key (provider, order, status, signature) makes redelivered
+-- notifications land on the same row so each one is applied exactly once.
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50) NOT NULL,
+    order_id VARCHAR(255) NOT NULL,
+    gateway_status VARCHAR(50) NOT NULL, -- raw status from the gateway, e.g. settlement
+    mapped_status VARCHAR(50) NOT NULL CHECK (mapped_status IN ('pending', 'success', 'failed', 'cancelled', 'refund')),
+    signature TEXT,
+    dedupe_key VARCHAR(255) NOT NULL UNIQUE,
+    payload JSONB NOT NULL,
+    processing_status VARCHAR(50) NOT NULL DEFAULT 'received'
+        CHECK (processing_status IN ('received', 'processing', 'processed', 'rejected', 'failed')),
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_order_id ON payment_webhook_events(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_processing_status ON payment_webhook_events(processing_status);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_received_at ON payment_webhook_events(received_at);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events"
+    ON payment_webhook_events FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid()
+            AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_payment_webhook_events_updated_at
+    BEFORE UPDATE ON payment_webhook_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
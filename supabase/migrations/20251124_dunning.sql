@@ -0,0 +1,77 @@
+-- Dunning
+-- Reminder schedule relative to the invoice due date, a grace period after
+-- which unpaid subscriptions are suspended, and a per-invoice log of every
+-- dunning step so support can see what a customer was sent.
+
+CREATE TABLE IF NOT EXISTS dunning_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    reminder_offsets INTEGER[] NOT NULL DEFAULT ARRAY[-3, 0, 3, 7], -- days relative to due date
+    grace_period_days INTEGER NOT NULL DEFAULT 7 CHECK (grace_period_days >= 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_dunning_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    step VARCHAR(50) NOT NULL, -- reminder_d-3, reminder_d0, suspension, reactivation
+    offset_days INTEGER,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'sms', 'system')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'skipped', 'failed')),
+    recipient VARCHAR(255),
+    message TEXT,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_dunning_log_invoice_id ON invoice_dunning_log(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_dunning_log_user_id ON invoice_dunning_log(user_id);
+-- A step is only ever completed once per invoice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_dunning_log_step
+    ON invoice_dunning_log(invoice_id, step)
+    WHERE status <> 'failed';
+
+-- Track why and by which invoice a subscription was suspended so only
+-- non-payment suspensions are lifted automatically
+ALTER TABLE customer_subscriptions
+    ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS suspension_reason VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS suspended_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE dunning_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_dunning_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage dunning policies"
+    ON dunning_policies FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own dunning log"
+    ON invoice_dunning_log FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all dunning logs"
+    ON invoice_dunning_log FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_dunning_policies_updated_at
+    BEFORE UPDATE ON dunning_policies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default policy
+INSERT INTO dunning_policies (name, reminder_offsets, grace_period_days) VALUES
+    ('Default', ARRAY[-3, 0, 3, 7], 7);
@@ -0,0 +1,55 @@
+-- Autopay
+-- Gateway tokens on saved payment methods and a record of every automatic
+-- charge attempt against an invoice, including scheduled retries after
+-- soft declines.
+
+ALTER TABLE payment_methods
+    ADD COLUMN IF NOT EXISTS gateway_token TEXT, -- saved_token_id or linked account id; never a card number
+    ADD COLUMN IF NOT EXISTS gateway_provider VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS token_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS autopay_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    payment_method_id UUID REFERENCES payment_methods(id) ON DELETE SET NULL,
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    order_id VARCHAR(255),
+    attempt INTEGER NOT NULL DEFAULT 1,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'pending', 'failed', 'skipped')),
+    decline_code VARCHAR(20),
+    soft_decline BOOLEAN,
+    error_message TEXT,
+    next_retry_at TIMESTAMP WITH TIME ZONE, -- null once no retry is planned
+    customer_notified BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(invoice_id, attempt)
+);
+
+CREATE INDEX IF NOT EXISTS idx_autopay_attempts_invoice_id ON autopay_attempts(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_autopay_attempts_user_id ON autopay_attempts(user_id);
+CREATE INDEX IF NOT EXISTS idx_autopay_attempts_next_retry_at
+    ON autopay_attempts(next_retry_at)
+    WHERE next_retry_at IS NOT NULL;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE autopay_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own autopay attempts"
+    ON autopay_attempts FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all autopay attempts"
+    ON autopay_attempts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_autopay_attempts_updated_at
+    BEFORE UPDATE ON autopay_attempts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
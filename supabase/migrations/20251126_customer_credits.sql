@@ -0,0 +1,155 @@
+-- Customer Credits
+-- Credit notes issued against a customer (goodwill, outage compensation,
+-- billing corrections) and a running ledger of every movement in the
+-- customer's credit balance. Gateway refunds are recorded in the same ledger
+-- so support can see where money went.
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    credit_note_number VARCHAR(50) UNIQUE NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    reason VARCHAR(30) NOT NULL CHECK (reason IN ('goodwill', 'service_outage', 'billing_error', 'overpayment', 'other')),
+    description TEXT,
+    issued_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS customer_credit_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    entry_type VARCHAR(30) NOT NULL CHECK (entry_type IN ('credit_note', 'invoice_application', 'payment_refund')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    balance_change DECIMAL(12,2) NOT NULL, -- signed effect on the credit balance; 0 for gateway refunds
+    balance_after DECIMAL(12,2) NOT NULL CHECK (balance_after >= 0),
+    credit_note_id UUID REFERENCES credit_notes(id) ON DELETE SET NULL,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    description TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_credit_notes_user_id ON credit_notes(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_customer_credit_ledger_user_id ON customer_credit_ledger(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_customer_credit_ledger_transaction_id ON customer_credit_ledger(transaction_id);
+-- Credit is applied to an invoice at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_credit_ledger_invoice_application
+    ON customer_credit_ledger(invoice_id)
+    WHERE entry_type = 'invoice_application';
+
+-- Credit note numbers: CN-YYYYMM-0001
+CREATE OR REPLACE FUNCTION generate_credit_note_number()
+RETURNS TEXT AS $$
+DECLARE
+    date_part TEXT;
+    sequence_part INTEGER;
+BEGIN
+    date_part := TO_CHAR(NOW(), 'YYYYMM');
+
+    SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM 11) AS INTEGER)), 0) + 1
+    INTO sequence_part
+    FROM credit_notes
+    WHERE credit_note_number LIKE 'CN-' || date_part || '-%';
+
+    RETURN 'CN-' || date_part || '-' || LPAD(sequence_part::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_credit_note_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.credit_note_number IS NULL OR NEW.credit_note_number = '' THEN
+        NEW.credit_note_number := generate_credit_note_number();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_credit_note_number
+    BEFORE INSERT ON credit_notes
+    FOR EACH ROW EXECUTE FUNCTION set_credit_note_number();
+
+-- Appends a ledger entry, serialized per customer so balance_after is
+-- always the previous balance plus the change. Raises if the balance would
+-- go negative.
+CREATE OR REPLACE FUNCTION record_customer_credit_entry(
+    p_user_id UUID,
+    p_entry_type VARCHAR,
+    p_amount DECIMAL,
+    p_balance_change DECIMAL,
+    p_credit_note_id UUID DEFAULT NULL,
+    p_invoice_id UUID DEFAULT NULL,
+    p_transaction_id UUID DEFAULT NULL,
+    p_description TEXT DEFAULT NULL,
+    p_created_by UUID DEFAULT NULL
+)
+RETURNS customer_credit_ledger AS $$
+DECLARE
+    current_balance DECIMAL(12,2);
+    entry customer_credit_ledger;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('customer_credit:' || p_user_id::TEXT));
+
+    SELECT COALESCE(SUM(balance_change), 0)
+    INTO current_balance
+    FROM customer_credit_ledger
+    WHERE user_id = p_user_id;
+
+    IF current_balance + p_balance_change < 0 THEN
+        RAISE EXCEPTION 'Insufficient credit balance: % available, % requested',
+            current_balance, -p_balance_change;
+    END IF;
+
+    INSERT INTO customer_credit_ledger (
+        user_id, entry_type, amount, balance_change, balance_after,
+        credit_note_id, invoice_id, transaction_id, description, created_by
+    ) VALUES (
+        p_user_id, p_entry_type, p_amount, p_balance_change,
+        current_balance + p_balance_change,
+        p_credit_note_id, p_invoice_id, p_transaction_id, p_description, p_created_by
+    )
+    RETURNING * INTO entry;
+
+    RETURN entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit notes"
+    ON credit_notes FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage credit notes"
+    ON credit_notes FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own credit ledger"
+    ON customer_credit_ledger FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit ledgers"
+    ON customer_credit_ledger FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_credit_notes_updated_at
+    BEFORE UPDATE ON credit_notes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,71 @@
+-- Payment Reconciliation
+-- Stale pending transactions are polled against the gateway on a schedule.
+-- Each run is recorded together with the transactions it could not resolve
+-- automatically, which make up the discrepancy report.
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50) NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    checked INTEGER NOT NULL DEFAULT 0,
+    resolved INTEGER NOT NULL DEFAULT 0, -- status applied through the webhook path
+    unchanged INTEGER NOT NULL DEFAULT 0, -- still pending at the gateway, within tolerance
+    discrepancy_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_discrepancies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES payment_reconciliation_runs(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    order_id VARCHAR(255) NOT NULL,
+    discrepancy_type VARCHAR(50) NOT NULL CHECK (discrepancy_type IN (
+        'not_found', 'gateway_error', 'unknown_status', 'amount_mismatch',
+        'stuck_pending', 'rejected_transition', 'apply_failed'
+    )),
+    local_status VARCHAR(50) NOT NULL,
+    gateway_status VARCHAR(50), -- raw status from the gateway, if it answered
+    local_amount DECIMAL(12,2) NOT NULL,
+    gateway_amount DECIMAL(12,2),
+    detail TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_runs_started_at ON payment_reconciliation_runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_discrepancies_run_id ON payment_reconciliation_discrepancies(run_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_discrepancies_order_id ON payment_reconciliation_discrepancies(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_pending_updated_at
+    ON payment_transactions(updated_at)
+    WHERE status = 'pending';
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE payment_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs"
+    ON payment_reconciliation_runs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid()
+            AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Admins can view reconciliation discrepancies"
+    ON payment_reconciliation_discrepancies FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid()
+            AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_payment_reconciliation_runs_updated_at
+    BEFORE UPDATE ON payment_reconciliation_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,116 @@
+-- Static Virtual Accounts
+-- Each customer gets one permanent virtual account per bank: the bank's
+-- company code followed by a customer number shared across banks. Every
+-- transfer received on a VA is recorded once, with how it was allocated to
+-- open invoices and how much became account credit.
+
+CREATE SEQUENCE IF NOT EXISTS virtual_account_customer_number_seq START 1;
+
+CREATE TABLE IF NOT EXISTS customer_virtual_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    bank VARCHAR(20) NOT NULL CHECK (bank IN ('bca', 'bni', 'mandiri')),
+    customer_number BIGINT NOT NULL,
+    va_number VARCHAR(32) NOT NULL UNIQUE,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, bank)
+);
+
+CREATE TABLE IF NOT EXISTS virtual_account_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    virtual_account_id UUID NOT NULL REFERENCES customer_virtual_accounts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    bank VARCHAR(20) NOT NULL,
+    va_number VARCHAR(32) NOT NULL,
+    reference VARCHAR(255) NOT NULL, -- the bank's payment reference
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    paid_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    invoice_ids UUID[] NOT NULL DEFAULT '{}',
+    applied_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    credited_amount DECIMAL(12,2) NOT NULL DEFAULT 0, -- cash left over after the oldest invoices
+    credit_note_id UUID REFERENCES credit_notes(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(bank, reference)
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_customer_virtual_accounts_user_id ON customer_virtual_accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_virtual_account_payments_user_id ON virtual_account_payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_virtual_account_payments_virtual_account_id ON virtual_account_payments(virtual_account_id);
+
+-- Returns the customer's VA for a bank, creating it on first use. The
+-- customer number is reused across banks so only the prefix differs.
+CREATE OR REPLACE FUNCTION assign_customer_virtual_account(
+    p_user_id UUID,
+    p_bank VARCHAR,
+    p_company_code VARCHAR
+)
+RETURNS customer_virtual_accounts AS $$
+DECLARE
+    account customer_virtual_accounts;
+    number BIGINT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('customer_va:' || p_user_id::TEXT));
+
+    SELECT * INTO account
+    FROM customer_virtual_accounts
+    WHERE user_id = p_user_id AND bank = p_bank;
+
+    IF FOUND THEN
+        RETURN account;
+    END IF;
+
+    SELECT customer_number INTO number
+    FROM customer_virtual_accounts
+    WHERE user_id = p_user_id
+    LIMIT 1;
+
+    IF number IS NULL THEN
+        number := nextval('virtual_account_customer_number_seq');
+    END IF;
+
+    INSERT INTO customer_virtual_accounts (user_id, bank, customer_number, va_number)
+    VALUES (p_user_id, p_bank, number, p_company_code || LPAD(number::TEXT, 10, '0'))
+    RETURNING * INTO account;
+
+    RETURN account;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE customer_virtual_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE virtual_account_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own virtual accounts"
+    ON customer_virtual_accounts FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own virtual account payments"
+    ON virtual_account_payments FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all virtual accounts"
+    ON customer_virtual_accounts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Admins can view all virtual account payments"
+    ON virtual_account_payments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_customer_virtual_accounts_updated_at
+    BEFORE UPDATE ON customer_virtual_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,110 @@
+-- Accounting Exports
+-- Chart-of-accounts codes the general journal export posts to, and a record
+-- of every journal and e-Faktur export run. A period can only be exported
+-- once per export type; finance voids a run before exporting it again.
+
+CREATE TABLE IF NOT EXISTS accounting_account_mappings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_key VARCHAR(50) NOT NULL UNIQUE, -- e.g. accounts_receivable, revenue_installation
+    account_code VARCHAR(30) NOT NULL,
+    account_name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS accounting_export_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    export_type VARCHAR(30) NOT NULL CHECK (export_type IN ('general_journal', 'efaktur')),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    invoice_count INTEGER NOT NULL DEFAULT 0,
+    payment_count INTEGER NOT NULL DEFAULT 0,
+    filename VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL, -- the CSV as delivered, so re-downloads match
+    exported_by UUID REFERENCES auth.users(id),
+    voided_at TIMESTAMP WITH TIME ZONE,
+    voided_by UUID REFERENCES auth.users(id),
+    void_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (period_end >= period_start)
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_accounting_export_runs_period
+    ON accounting_export_runs(export_type, period_start, period_end)
+    WHERE voided_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_accounting_export_runs_created_at ON accounting_export_runs(created_at DESC);
+
+-- Records an export run unless a live run of the same type already covers
+-- any day of the period. The lock serialises concurrent exports per type.
+CREATE OR REPLACE FUNCTION record_accounting_export_run(
+    p_export_type VARCHAR,
+    p_period_start DATE,
+    p_period_end DATE,
+    p_row_count INTEGER,
+    p_invoice_count INTEGER,
+    p_payment_count INTEGER,
+    p_filename VARCHAR,
+    p_content TEXT,
+    p_exported_by UUID DEFAULT NULL
+)
+RETURNS accounting_export_runs AS $$
+DECLARE
+    existing accounting_export_runs;
+    run accounting_export_runs;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('accounting_export:' || p_export_type));
+
+    SELECT * INTO existing
+    FROM accounting_export_runs
+    WHERE export_type = p_export_type
+      AND voided_at IS NULL
+      AND period_start <= p_period_end
+      AND period_end >= p_period_start
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Period already exported: % to %',
+            existing.period_start, existing.period_end;
+    END IF;
+
+    INSERT INTO accounting_export_runs (
+        export_type, period_start, period_end, row_count, invoice_count,
+        payment_count, filename, content, exported_by
+    ) VALUES (
+        p_export_type, p_period_start, p_period_end, p_row_count, p_invoice_count,
+        p_payment_count, p_filename, p_content, p_exported_by
+    )
+    RETURNING * INTO run;
+
+    RETURN run;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE accounting_account_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounting_export_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage account mappings"
+    ON accounting_account_mappings FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Admins can view accounting exports"
+    ON accounting_export_runs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_accounting_account_mappings_updated_at
+    BEFORE UPDATE ON accounting_account_mappings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
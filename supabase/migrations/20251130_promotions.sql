@@ -0,0 +1,136 @@
+-- Promotions and Referrals
+-- Promo codes marketing can offer at sign-up: a percentage or fixed discount
+-- on one charge category, optionally limited to some packages, a number of
+-- billing periods and a number of redemptions. Every customer also gets a
+-- referral code; sign-ups using it receive the referral promotion and the
+-- referrer is credited once the new customer is first billed.
+
+CREATE TABLE IF NOT EXISTS promotions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(32) UNIQUE, -- NULL for the referral promotion, redeemed through referral codes
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value DECIMAL(12,2) NOT NULL CHECK (discount_value > 0),
+    applies_to VARCHAR(30) NOT NULL DEFAULT 'recurring_service'
+        CHECK (applies_to IN ('recurring_service', 'installation', 'equipment_rental')),
+    duration_months INTEGER CHECK (duration_months > 0), -- NULL applies for as long as the subscription runs
+    eligible_package_ids UUID[] NOT NULL DEFAULT '{}', -- empty means every package
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    redemption_count INTEGER NOT NULL DEFAULT 0,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN DEFAULT true,
+    is_referral BOOLEAN NOT NULL DEFAULT false,
+    referrer_credit_amount DECIMAL(12,2) NOT NULL DEFAULT 0, -- pre-tax credit for the referrer
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+    CHECK (is_referral OR code IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS customer_referral_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    code VARCHAR(32) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    promotion_id UUID NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES service_subscriptions(id) ON DELETE SET NULL, -- bound on first use
+    referred_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+    periods_applied INTEGER NOT NULL DEFAULT 0,
+    total_discount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    referrer_credit_note_id UUID REFERENCES credit_notes(id) ON DELETE SET NULL,
+    redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(promotion_id, user_id)
+);
+
+-- Referral credit notes
+ALTER TABLE credit_notes DROP CONSTRAINT IF EXISTS credit_notes_reason_check;
+ALTER TABLE credit_notes ADD CONSTRAINT credit_notes_reason_check
+    CHECK (reason IN ('goodwill', 'service_outage', 'billing_error', 'overpayment', 'referral', 'other'));
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_promotions_is_referral ON promotions(is_referral) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_user_id ON promotion_redemptions(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_referred_by ON promotion_redemptions(referred_by);
+
+-- Redeems a promotion for a customer, enforcing the redemption limit under
+-- a per-promotion lock so the last slot can't be taken twice.
+CREATE OR REPLACE FUNCTION redeem_promotion(
+    p_promotion_id UUID,
+    p_user_id UUID,
+    p_referred_by UUID DEFAULT NULL
+)
+RETURNS promotion_redemptions AS $$
+DECLARE
+    promotion promotions;
+    redemption promotion_redemptions;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('promotion:' || p_promotion_id::TEXT));
+
+    SELECT * INTO promotion FROM promotions WHERE id = p_promotion_id;
+
+    IF promotion.max_redemptions IS NOT NULL
+        AND promotion.redemption_count >= promotion.max_redemptions THEN
+        RAISE EXCEPTION 'Promotion redemption limit reached';
+    END IF;
+
+    INSERT INTO promotion_redemptions (promotion_id, user_id, referred_by)
+    VALUES (p_promotion_id, p_user_id, p_referred_by)
+    RETURNING * INTO redemption;
+
+    UPDATE promotions
+    SET redemption_count = redemption_count + 1
+    WHERE id = p_promotion_id;
+
+    RETURN redemption;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_referral_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promotions"
+    ON promotions FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own referral code"
+    ON customer_referral_codes FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own promotion redemptions"
+    ON promotion_redemptions FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all promotion redemptions"
+    ON promotion_redemptions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_promotions_updated_at
+    BEFORE UPDATE ON promotions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_promotion_redemptions_updated_at
+    BEFORE UPDATE ON promotion_redemptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,148 @@
+-- Invoice Number Series
+-- Invoice numbers come from configurable series (prefix, optional branch
+-- code, yearly reset) and are assigned by a trigger in the same transaction
+-- that inserts the invoice, so a failed insert never leaves a gap and two
+-- concurrent inserts never share a number. Issued invoices are voided, not
+-- deleted, and keep their number.
+
+CREATE TABLE IF NOT EXISTS invoice_number_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(30) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    prefix VARCHAR(20) NOT NULL DEFAULT 'INV',
+    branch_code VARCHAR(10),
+    reset_yearly BOOLEAN NOT NULL DEFAULT true,
+    padding INTEGER NOT NULL DEFAULT 6 CHECK (padding BETWEEN 3 AND 12),
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one default series
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_number_series_default
+    ON invoice_number_series(is_default) WHERE is_default;
+
+-- Last number issued per series and year (year 0 for series that never reset)
+CREATE TABLE IF NOT EXISTS invoice_number_counters (
+    series_id UUID NOT NULL REFERENCES invoice_number_series(id) ON DELETE RESTRICT,
+    year INTEGER NOT NULL,
+    last_number BIGINT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (series_id, year)
+);
+
+INSERT INTO invoice_number_series (code, name, prefix, is_default)
+VALUES ('default', 'Default', 'INV', true)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS number_series VARCHAR(30) REFERENCES invoice_number_series(code),
+    ADD COLUMN IF NOT EXISTS number_year INTEGER,
+    ADD COLUMN IF NOT EXISTS sequence_number BIGINT,
+    ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES auth.users(id),
+    ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+    CHECK (status IN ('draft', 'sent', 'paid', 'overdue', 'cancelled', 'void'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_series_sequence
+    ON invoices(number_series, number_year, sequence_number)
+    WHERE sequence_number IS NOT NULL;
+
+-- Formats the next number of a series, e.g. INV/JKT/2025/000042. The
+-- counter row is locked by the upsert until the invoice insert commits.
+CREATE OR REPLACE FUNCTION allocate_invoice_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    series invoice_number_series;
+    series_year INTEGER;
+    next_number BIGINT;
+BEGIN
+    IF NEW.invoice_number IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.number_series IS NULL THEN
+        SELECT * INTO series FROM invoice_number_series WHERE is_default;
+    ELSE
+        SELECT * INTO series FROM invoice_number_series WHERE code = NEW.number_series;
+    END IF;
+
+    IF series.id IS NULL OR NOT series.is_active THEN
+        RAISE EXCEPTION 'Invoice number series % is not available',
+            COALESCE(NEW.number_series, 'default');
+    END IF;
+
+    series_year := CASE
+        WHEN series.reset_yearly
+            THEN EXTRACT(YEAR FROM COALESCE(NEW.created_at, NOW()) AT TIME ZONE 'Asia/Jakarta')::INTEGER
+        ELSE 0
+    END;
+
+    INSERT INTO invoice_number_counters (series_id, year, last_number)
+    VALUES (series.id, series_year, 1)
+    ON CONFLICT (series_id, year) DO UPDATE
+        SET last_number = invoice_number_counters.last_number + 1,
+            updated_at = NOW()
+    RETURNING last_number INTO next_number;
+
+    NEW.number_series := series.code;
+    NEW.number_year := series_year;
+    NEW.sequence_number := next_number;
+    NEW.invoice_number := series.prefix
+        || COALESCE('/' || series.branch_code, '')
+        || CASE WHEN series.reset_yearly THEN '/' || series_year ELSE '' END
+        || '/' || LPAD(next_number::TEXT, series.padding, '0');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER allocate_invoice_number
+    BEFORE INSERT ON invoices
+    FOR EACH ROW EXECUTE FUNCTION allocate_invoice_number();
+
+-- Numbered invoices are part of the tax record; void them instead
+CREATE OR REPLACE FUNCTION prevent_invoice_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status <> 'draft' THEN
+        RAISE EXCEPTION 'Invoice % cannot be deleted; void it instead', OLD.invoice_number;
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_invoice_delete
+    BEFORE DELETE ON invoices
+    FOR EACH ROW EXECUTE FUNCTION prevent_invoice_delete();
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE invoice_number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage invoice number series"
+    ON invoice_number_series FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Admins can view invoice number counters"
+    ON invoice_number_counters FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_invoice_number_series_updated_at
+    BEFORE UPDATE ON invoice_number_series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
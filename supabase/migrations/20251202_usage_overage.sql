@@ -0,0 +1,81 @@
+-- Usage Overage Billing
+-- FUP packages can price usage above the monthly data cap per started GB or
+-- per block of GB. When a data cap cycle closes, the overage is computed from
+-- bandwidth_usage and kept until it is billed on the customer's next invoice.
+
+CREATE TABLE IF NOT EXISTS package_overage_pricing (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    package_id VARCHAR(100) NOT NULL UNIQUE,
+    pricing_model VARCHAR(20) NOT NULL CHECK (pricing_model IN ('per_gb', 'block')),
+    price_per_gb DECIMAL(15,2),
+    block_size_gb INTEGER,
+    block_price DECIMAL(15,2),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (
+        (pricing_model = 'per_gb' AND price_per_gb > 0)
+        OR (pricing_model = 'block' AND block_size_gb > 0 AND block_price > 0)
+    )
+);
+
+-- One row per closed cycle that went over the cap
+CREATE TABLE IF NOT EXISTS usage_overage_charges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    data_cap_id UUID NOT NULL REFERENCES data_caps(id) ON DELETE CASCADE,
+    package_id VARCHAR(100) NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    usage_gb DECIMAL(12,2) NOT NULL,
+    cap_gb INTEGER NOT NULL,
+    overage_gb DECIMAL(12,2) NOT NULL CHECK (overage_gb > 0),
+    pricing_model VARCHAR(20) NOT NULL CHECK (pricing_model IN ('per_gb', 'block')),
+    block_size_gb INTEGER,
+    units INTEGER NOT NULL CHECK (units > 0),
+    unit_price DECIMAL(15,2) NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    invoice_id UUID REFERENCES invoices(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(data_cap_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_overage_charges_user_id ON usage_overage_charges(user_id);
+CREATE INDEX IF NOT EXISTS idx_usage_overage_charges_unbilled
+    ON usage_overage_charges(user_id) WHERE invoice_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_usage_overage_charges_invoice_id ON usage_overage_charges(invoice_id);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE package_overage_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_overage_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active overage pricing"
+    ON package_overage_pricing FOR SELECT
+    USING (is_active = true);
+
+CREATE POLICY "Admins can manage overage pricing"
+    ON package_overage_pricing FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own overage charges"
+    ON usage_overage_charges FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all overage charges"
+    ON usage_overage_charges FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_package_overage_pricing_updated_at
+    BEFORE UPDATE ON package_overage_pricing
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
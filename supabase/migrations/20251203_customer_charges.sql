@@ -0,0 +1,94 @@
+-- Customer Charges and Deposits
+-- One-time and monthly charges outside the subscription price (installation,
+-- ONT/router rental, static IP, refundable deposits). The billing scheduler
+-- adds them to the subscription's next invoice under their tax category.
+-- Billed deposits are tracked separately and returned as account credit when
+-- the account closes.
+
+CREATE TABLE IF NOT EXISTS customer_charges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES service_subscriptions(id) ON DELETE CASCADE,
+    charge_type VARCHAR(30) NOT NULL CHECK (charge_type IN ('installation', 'equipment_rental', 'static_ip', 'deposit', 'other')),
+    description VARCHAR(255) NOT NULL,
+    tax_category VARCHAR(50) NOT NULL CHECK (tax_category IN ('recurring_service', 'installation', 'equipment_rental', 'deposit')),
+    unit_price DECIMAL(15,2) NOT NULL CHECK (unit_price > 0),
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('one_time', 'monthly')),
+    starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    ends_on DATE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+    -- Billing date of the subscription cycle last billed, so a cycle is never billed twice
+    last_billed_period DATE,
+    last_invoice_id UUID REFERENCES invoices(id),
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (ends_on IS NULL OR ends_on > starts_on),
+    CHECK (charge_type <> 'deposit' OR (frequency = 'one_time' AND tax_category = 'deposit'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_charges_user_id ON customer_charges(user_id);
+CREATE INDEX IF NOT EXISTS idx_customer_charges_subscription_active
+    ON customer_charges(subscription_id) WHERE status = 'active';
+
+-- Refundable deposits, from the invoice that billed them until release
+CREATE TABLE IF NOT EXISTS customer_deposits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    charge_id UUID NOT NULL UNIQUE REFERENCES customer_charges(id),
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'billed' CHECK (status IN ('billed', 'released', 'cancelled')),
+    released_at TIMESTAMP WITH TIME ZONE,
+    released_by UUID REFERENCES auth.users(id),
+    release_credit_note_id UUID REFERENCES credit_notes(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_deposits_user_id ON customer_deposits(user_id);
+
+-- Released deposits are returned as a credit note
+ALTER TABLE credit_notes DROP CONSTRAINT IF EXISTS credit_notes_reason_check;
+ALTER TABLE credit_notes ADD CONSTRAINT credit_notes_reason_check
+    CHECK (reason IN ('goodwill', 'service_outage', 'billing_error', 'overpayment', 'referral', 'deposit_release', 'other'));
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE customer_charges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own charges"
+    ON customer_charges FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage customer charges"
+    ON customer_charges FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own deposits"
+    ON customer_deposits FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all deposits"
+    ON customer_deposits FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_customer_charges_updated_at
+    BEFORE UPDATE ON customer_charges
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_customer_deposits_updated_at
+    BEFORE UPDATE ON customer_deposits
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
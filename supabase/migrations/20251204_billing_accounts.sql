@@ -0,0 +1,107 @@
+-- Billing Accounts
+-- Groups subscriptions at many sites (e.g. a corporate's branch offices)
+-- under one payer, billed on a single monthly invoice itemized by site. The
+-- account carries its own billing contacts, PO number and payment terms.
+
+CREATE TABLE IF NOT EXISTS billing_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Customer the consolidated invoices are issued to
+    payer_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    account_name VARCHAR(255) NOT NULL,
+    company_name VARCHAR(255),
+    npwp VARCHAR(30),
+    billing_address TEXT,
+    po_number VARCHAR(100),
+    payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days IN (30, 45)),
+    billing_day INTEGER NOT NULL DEFAULT 1 CHECK (billing_day BETWEEN 1 AND 28),
+    next_billing_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_accounts_payer_user_id ON billing_accounts(payer_user_id);
+CREATE INDEX IF NOT EXISTS idx_billing_accounts_next_billing_date
+    ON billing_accounts(next_billing_date) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS billing_account_contacts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    billing_account_id UUID NOT NULL REFERENCES billing_accounts(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(20),
+    role VARCHAR(100),
+    is_primary BOOLEAN NOT NULL DEFAULT false,
+    receives_invoices BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(billing_account_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_account_contacts_account_id
+    ON billing_account_contacts(billing_account_id);
+
+-- Subscriptions in an account are billed on its invoice, not their own
+ALTER TABLE service_subscriptions
+    ADD COLUMN IF NOT EXISTS billing_account_id UUID REFERENCES billing_accounts(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS service_address_id UUID REFERENCES service_addresses(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_service_subscriptions_billing_account_id
+    ON service_subscriptions(billing_account_id);
+
+ALTER TABLE invoices
+    ADD COLUMN IF NOT EXISTS billing_account_id UUID REFERENCES billing_accounts(id),
+    ADD COLUMN IF NOT EXISTS po_number VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS payment_terms_days INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_billing_account_id ON invoices(billing_account_id);
+
+-- Site a consolidated invoice line belongs to
+ALTER TABLE invoice_items
+    ADD COLUMN IF NOT EXISTS site_label TEXT;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE billing_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_account_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Payers can view their billing accounts"
+    ON billing_accounts FOR SELECT
+    USING (auth.uid() = payer_user_id);
+
+CREATE POLICY "Admins can manage billing accounts"
+    ON billing_accounts FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Payers can view their billing contacts"
+    ON billing_account_contacts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM billing_accounts
+            WHERE billing_accounts.id = billing_account_contacts.billing_account_id
+            AND billing_accounts.payer_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage billing contacts"
+    ON billing_account_contacts FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_billing_accounts_updated_at
+    BEFORE UPDATE ON billing_accounts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_billing_account_contacts_updated_at
+    BEFORE UPDATE ON billing_account_contacts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,107 @@
+-- Scheduled Billing Job Runs
+-- Ledger of every scheduled billing job (invoice generation, reconciliation,
+-- dunning, autopay retries) with its outcome and counts, a lease lock so
+-- only one billing run executes at a time, and per-period claims so a
+-- subscription is never invoiced twice for the same billing cycle.
+
+CREATE TABLE IF NOT EXISTS billing_job_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_name VARCHAR(50) NOT NULL,
+    -- Day the run is for (Asia/Jakarta); a job succeeds at most once per period
+    period DATE NOT NULL,
+    trigger VARCHAR(20) NOT NULL DEFAULT 'cron' CHECK (trigger IN ('cron', 'manual')),
+    triggered_by UUID REFERENCES auth.users(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+    processed INTEGER NOT NULL DEFAULT 0,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    details JSONB NOT NULL DEFAULT '{}',
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_job_runs_started_at ON billing_job_runs(started_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_job_runs_succeeded
+    ON billing_job_runs(job_name, period) WHERE status = 'succeeded';
+
+-- One row per lock; a holder keeps it until released or the lease expires
+CREATE TABLE IF NOT EXISTS billing_job_locks (
+    lock_name VARCHAR(50) PRIMARY KEY,
+    holder UUID NOT NULL,
+    acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Takes the lock if it is free or its lease has run out, or extends it for
+-- the current holder. Returns whether the caller holds the lock.
+CREATE OR REPLACE FUNCTION acquire_billing_job_lock(
+    p_lock_name VARCHAR,
+    p_holder UUID,
+    p_lease_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    acquired BOOLEAN;
+BEGIN
+    INSERT INTO billing_job_locks (lock_name, holder, acquired_at, expires_at)
+    VALUES (p_lock_name, p_holder, NOW(), NOW() + make_interval(secs => p_lease_seconds))
+    ON CONFLICT (lock_name) DO UPDATE
+        SET holder = EXCLUDED.holder,
+            acquired_at = CASE
+                WHEN billing_job_locks.holder = EXCLUDED.holder THEN billing_job_locks.acquired_at
+                ELSE EXCLUDED.acquired_at
+            END,
+            expires_at = EXCLUDED.expires_at
+        WHERE billing_job_locks.holder = EXCLUDED.holder
+            OR billing_job_locks.expires_at < NOW()
+    RETURNING TRUE INTO acquired;
+
+    RETURN COALESCE(acquired, FALSE);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Billing cycles already invoiced, claimed before the invoice is created
+CREATE TABLE IF NOT EXISTS subscription_billing_periods (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subscription_id UUID NOT NULL REFERENCES service_subscriptions(id) ON DELETE CASCADE,
+    period DATE NOT NULL,
+    invoice_id UUID REFERENCES invoices(id),
+    job_run_id UUID REFERENCES billing_job_runs(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(subscription_id, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_billing_periods_invoice_id
+    ON subscription_billing_periods(invoice_id);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE billing_job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_job_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_billing_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view billing job runs"
+    ON billing_job_runs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Admins can view billing job locks"
+    ON billing_job_locks FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Admins can view billed periods"
+    ON subscription_billing_periods FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
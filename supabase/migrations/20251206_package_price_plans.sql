@@ -0,0 +1,93 @@
+-- Package Price Plans
+-- Versioned monthly prices per package. New subscriptions take the plan in
+-- effect on the day they start; existing subscribers move to a new price
+-- only after being given notice, or keep their price if the plan
+-- grandfathers them.
+
+CREATE TABLE IF NOT EXISTS package_price_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+    monthly_price DECIMAL(12,2) NOT NULL CHECK (monthly_price > 0),
+    -- First day new subscriptions get this price
+    effective_from DATE NOT NULL,
+    -- Minimum notice existing subscribers get before they pay it
+    notice_days INTEGER NOT NULL DEFAULT 30 CHECK (notice_days >= 0),
+    -- Existing subscribers keep their current price
+    grandfather_existing BOOLEAN NOT NULL DEFAULT false,
+    description TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_package_price_plans_effective
+    ON package_price_plans(package_id, effective_from) WHERE status = 'active';
+
+-- The plan a subscription's monthly_amount comes from, and whether it is
+-- exempt from future price changes
+ALTER TABLE service_subscriptions ADD COLUMN IF NOT EXISTS price_plan_id UUID REFERENCES package_price_plans(id);
+ALTER TABLE service_subscriptions ADD COLUMN IF NOT EXISTS price_locked BOOLEAN NOT NULL DEFAULT false;
+
+-- A price plan as it applies to one existing subscription
+CREATE TABLE IF NOT EXISTS subscription_price_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subscription_id UUID NOT NULL REFERENCES service_subscriptions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    price_plan_id UUID NOT NULL REFERENCES package_price_plans(id) ON DELETE CASCADE,
+    old_amount DECIMAL(12,2) NOT NULL,
+    new_amount DECIMAL(12,2) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'applied', 'grandfathered', 'cancelled')),
+    notice_sent_at TIMESTAMP WITH TIME ZONE,
+    -- Set once notice is sent: the later of the plan date and the notice period
+    effective_on DATE,
+    applied_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(subscription_id, price_plan_id),
+    CHECK (status <> 'applied' OR notice_sent_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_price_changes_scheduled
+    ON subscription_price_changes(effective_on) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_subscription_price_changes_user_id
+    ON subscription_price_changes(user_id);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE package_price_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_price_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active price plans"
+    ON package_price_plans FOR SELECT
+    USING (status = 'active');
+
+CREATE POLICY "Admins can manage price plans"
+    ON package_price_plans FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own price changes"
+    ON subscription_price_changes FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all price changes"
+    ON subscription_price_changes FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_package_price_plans_updated_at
+    BEFORE UPDATE ON package_price_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_subscription_price_changes_updated_at
+    BEFORE UPDATE ON subscription_price_changes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,191 @@
+-- Late Fees and Installment Plans
+-- Configurable late-fee rules the dunning run applies once an invoice is
+-- overdue, each added to the invoice as a line item, and installment plans
+-- that split an overdue invoice into separately payable installments.
+-- Dunning pauses for an invoice while its plan is kept up.
+
+CREATE TABLE IF NOT EXISTS late_fee_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    fee_type VARCHAR(20) NOT NULL CHECK (fee_type IN ('flat', 'percentage')),
+    amount DECIMAL(12,2) CHECK (amount > 0),
+    -- Fraction of the invoice total, e.g. 0.02 for 2%
+    rate DECIMAL(6,4) CHECK (rate > 0 AND rate <= 1),
+    -- Cap on percentage fees
+    max_amount DECIMAL(12,2) CHECK (max_amount > 0),
+    days_after_due INTEGER NOT NULL DEFAULT 1 CHECK (days_after_due >= 1),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (fee_type <> 'flat' OR amount IS NOT NULL),
+    CHECK (fee_type <> 'percentage' OR rate IS NOT NULL)
+);
+
+-- Each rule charges an invoice at most once
+CREATE TABLE IF NOT EXISTS invoice_late_fees (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rule_id UUID NOT NULL REFERENCES late_fee_rules(id),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    invoice_item_id UUID REFERENCES invoice_items(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(invoice_id, rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_late_fees_user_id ON invoice_late_fees(user_id);
+
+-- Records the fee, adds it to the invoice as a line and raises the invoice
+-- total, all at once. Returns NULL if the invoice is no longer open or the
+-- rule has already charged it.
+CREATE OR REPLACE FUNCTION add_invoice_late_fee(
+    p_invoice_id UUID,
+    p_rule_id UUID,
+    p_amount DECIMAL,
+    p_description TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID;
+    v_fee_id UUID;
+    v_item_id UUID;
+BEGIN
+    SELECT user_id INTO v_user_id
+    FROM invoices
+    WHERE id = p_invoice_id AND status IN ('sent', 'overdue')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO invoice_late_fees (invoice_id, user_id, rule_id, amount)
+    VALUES (p_invoice_id, v_user_id, p_rule_id, p_amount)
+    ON CONFLICT (invoice_id, rule_id) DO NOTHING
+    RETURNING id INTO v_fee_id;
+
+    IF v_fee_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, total, item_type, tax_category)
+    VALUES (p_invoice_id, p_description, 1, p_amount, p_amount, 'charge', 'late_fee')
+    RETURNING id INTO v_item_id;
+
+    UPDATE invoice_late_fees SET invoice_item_id = v_item_id WHERE id = v_fee_id;
+
+    UPDATE invoices
+    SET amount = amount + p_amount,
+        total = total + p_amount,
+        updated_at = NOW()
+    WHERE id = p_invoice_id;
+
+    RETURN v_fee_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE IF NOT EXISTS installment_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+    -- Invoice balance the plan covers
+    total_amount DECIMAL(12,2) NOT NULL CHECK (total_amount > 0),
+    installment_count INTEGER NOT NULL CHECK (installment_count >= 2),
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_installment_plans_active_invoice
+    ON installment_plans(invoice_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_installment_plans_user_id ON installment_plans(user_id);
+
+CREATE TABLE IF NOT EXISTS invoice_installments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plan_id UUID NOT NULL REFERENCES installment_plans(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL CHECK (sequence >= 1),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    due_date DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+    transaction_id UUID REFERENCES payment_transactions(id),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(plan_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_installments_pending
+    ON invoice_installments(due_date) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_invoice_installments_user_id ON invoice_installments(user_id);
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE late_fee_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_late_fees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE installment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage late fee rules"
+    ON late_fee_rules FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own late fees"
+    ON invoice_late_fees FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all late fees"
+    ON invoice_late_fees FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own installment plans"
+    ON installment_plans FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage installment plans"
+    ON installment_plans FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+CREATE POLICY "Users can view their own installments"
+    ON invoice_installments FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage installments"
+    ON invoice_installments FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Triggers for automatic timestamp updates
+CREATE TRIGGER update_late_fee_rules_updated_at
+    BEFORE UPDATE ON late_fee_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_installment_plans_updated_at
+    BEFORE UPDATE ON installment_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_invoice_installments_updated_at
+    BEFORE UPDATE ON invoice_installments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,144 @@
+-- Prepaid Wallets
+-- Prepaid customers top up a wallet through the payment gateway and each
+-- billing cycle's invoice is paid from it when the cycle starts. The ledger
+-- records every top-up and deduction. Service is suspended when the wallet
+-- can't cover a cycle and restored once a top-up does.
+
+ALTER TABLE service_subscriptions ADD COLUMN IF NOT EXISTS billing_mode VARCHAR(20) NOT NULL DEFAULT 'postpaid' CHECK (billing_mode IN ('postpaid', 'prepaid'));
+-- Billing date the last low-balance notice was sent ahead of
+ALTER TABLE service_subscriptions ADD COLUMN IF NOT EXISTS low_balance_notice_for DATE;
+
+-- Paid from the wallet rather than chased by dunning
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS prepaid BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS wallet_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('top_up', 'deduction', 'adjustment')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    balance_change DECIMAL(12,2) NOT NULL, -- signed effect on the wallet balance
+    balance_after DECIMAL(12,2) NOT NULL CHECK (balance_after >= 0),
+    transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    description TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_user_id ON wallet_ledger(user_id, created_at);
+-- A top-up payment is credited once, and an invoice is deducted once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_ledger_top_up
+    ON wallet_ledger(transaction_id)
+    WHERE entry_type = 'top_up';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_ledger_deduction
+    ON wallet_ledger(invoice_id)
+    WHERE entry_type = 'deduction';
+
+-- Appends a ledger entry, serialized per customer so balance_after is
+-- always the previous balance plus the change. Raises if the balance would
+-- go negative.
+CREATE OR REPLACE FUNCTION record_wallet_entry(
+    p_user_id UUID,
+    p_entry_type VARCHAR,
+    p_amount DECIMAL,
+    p_balance_change DECIMAL,
+    p_transaction_id UUID DEFAULT NULL,
+    p_invoice_id UUID DEFAULT NULL,
+    p_description TEXT DEFAULT NULL,
+    p_created_by UUID DEFAULT NULL
+)
+RETURNS wallet_ledger AS $$
+DECLARE
+    current_balance DECIMAL(12,2);
+    entry wallet_ledger;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('wallet:' || p_user_id::TEXT));
+
+    SELECT COALESCE(SUM(balance_change), 0)
+    INTO current_balance
+    FROM wallet_ledger
+    WHERE user_id = p_user_id;
+
+    IF current_balance + p_balance_change < 0 THEN
+        RAISE EXCEPTION 'Insufficient wallet balance: % available, % requested',
+            current_balance, -p_balance_change;
+    END IF;
+
+    INSERT INTO wallet_ledger (
+        user_id, entry_type, amount, balance_change, balance_after,
+        transaction_id, invoice_id, description, created_by
+    ) VALUES (
+        p_user_id, p_entry_type, p_amount, p_balance_change,
+        current_balance + p_balance_change,
+        p_transaction_id, p_invoice_id, p_description, p_created_by
+    )
+    RETURNING * INTO entry;
+
+    RETURN entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pays an open invoice in full from the customer's wallet and marks it
+-- paid. Returns NULL, changing nothing, if the invoice is no longer open or
+-- the balance doesn't cover it.
+CREATE OR REPLACE FUNCTION pay_invoice_from_wallet(p_invoice_id UUID)
+RETURNS wallet_ledger AS $$
+DECLARE
+    v_invoice invoices;
+    current_balance DECIMAL(12,2);
+    entry wallet_ledger;
+BEGIN
+    SELECT * INTO v_invoice
+    FROM invoices
+    WHERE id = p_invoice_id AND status IN ('sent', 'overdue')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('wallet:' || v_invoice.user_id::TEXT));
+
+    SELECT COALESCE(SUM(balance_change), 0)
+    INTO current_balance
+    FROM wallet_ledger
+    WHERE user_id = v_invoice.user_id;
+
+    IF current_balance < v_invoice.total THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO wallet_ledger (
+        user_id, entry_type, amount, balance_change, balance_after,
+        invoice_id, description
+    ) VALUES (
+        v_invoice.user_id, 'deduction', v_invoice.total, -v_invoice.total,
+        current_balance - v_invoice.total,
+        v_invoice.id, 'Invoice ' || v_invoice.invoice_number
+    )
+    RETURNING * INTO entry;
+
+    UPDATE invoices
+    SET status = 'paid',
+        updated_at = NOW()
+    WHERE id = v_invoice.id;
+
+    RETURN entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE wallet_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallet ledger"
+    ON wallet_ledger FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all wallet ledgers"
+    ON wallet_ledger FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
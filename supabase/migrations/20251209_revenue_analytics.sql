@@ -0,0 +1,33 @@
+-- Revenue Analytics
+-- Monthly MRR, churn, ARPU and collection reporting needs each package's
+-- market category and when a subscription stopped being billed.
+
+ALTER TABLE packages ADD COLUMN IF NOT EXISTS category VARCHAR(20) NOT NULL DEFAULT 'home' CHECK (category IN ('home', 'soho', 'corporate'));
+
+ALTER TABLE service_subscriptions ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+-- Subscriptions deactivated before this column existed ended at their last update
+UPDATE service_subscriptions
+SET ended_at = updated_at
+WHERE is_active = false AND ended_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_service_subscriptions_ended_at ON service_subscriptions(ended_at);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_status_updated_at ON payment_transactions(status, updated_at);
+
+-- Stamps ended_at whenever a subscription is deactivated, and clears it if
+-- the subscription is reactivated
+CREATE OR REPLACE FUNCTION set_service_subscription_ended_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_active = false AND OLD.is_active = true THEN
+        NEW.ended_at = COALESCE(NEW.ended_at, NOW());
+    ELSIF NEW.is_active = true THEN
+        NEW.ended_at = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_service_subscriptions_ended_at
+    BEFORE UPDATE ON service_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION set_service_subscription_ended_at();
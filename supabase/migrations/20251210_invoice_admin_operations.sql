@@ -0,0 +1,97 @@
+-- Invoice Admin Operations
+-- Reissued invoices point back at the voided invoice they correct, and
+-- manual adjustment lines added by staff are recorded with who added them
+-- and why.
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS reissued_from UUID REFERENCES invoices(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_reissued_from
+    ON invoices(reissued_from) WHERE reissued_from IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS invoice_adjustments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Positive adds to the invoice, negative takes off it
+    amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+    description TEXT NOT NULL,
+    invoice_item_id UUID REFERENCES invoice_items(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_adjustments_invoice_id ON invoice_adjustments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_adjustments_user_id ON invoice_adjustments(user_id);
+
+-- Adds a manual adjustment line to an open invoice and moves its total by
+-- the same amount, all at once. Reductions are stored as discount lines.
+-- Returns NULL if the invoice is no longer open; raises if the adjustment
+-- would take the invoice below zero.
+CREATE OR REPLACE FUNCTION add_invoice_adjustment(
+    p_invoice_id UUID,
+    p_amount DECIMAL,
+    p_description TEXT,
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID;
+    v_total DECIMAL;
+    v_item_id UUID;
+    v_adjustment_id UUID;
+BEGIN
+    SELECT user_id, total INTO v_user_id, v_total
+    FROM invoices
+    WHERE id = p_invoice_id AND status IN ('sent', 'overdue')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_total + p_amount < 0 THEN
+        RAISE EXCEPTION 'Adjustment of % would take invoice total % below zero', p_amount, v_total;
+    END IF;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, total, item_type, tax_category)
+    VALUES (
+        p_invoice_id,
+        p_description,
+        1,
+        p_amount,
+        p_amount,
+        CASE WHEN p_amount > 0 THEN 'charge' ELSE 'discount' END,
+        'adjustment'
+    )
+    RETURNING id INTO v_item_id;
+
+    INSERT INTO invoice_adjustments (invoice_id, user_id, amount, description, invoice_item_id, created_by)
+    VALUES (p_invoice_id, v_user_id, p_amount, p_description, v_item_id, p_created_by)
+    RETURNING id INTO v_adjustment_id;
+
+    UPDATE invoices
+    SET amount = amount + p_amount,
+        total = total + p_amount,
+        updated_at = NOW()
+    WHERE id = p_invoice_id;
+
+    RETURN v_adjustment_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE invoice_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own invoice adjustments"
+    ON invoice_adjustments FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all invoice adjustments"
+    ON invoice_adjustments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
@@ -0,0 +1,40 @@
+-- Payment Risk Checks
+-- Every payment attempt is scored for fraud before a gateway transaction
+-- is created. Attempts are kept so later checks can measure per-user and
+-- per-IP velocity, and so admins can review the ones that were stepped up
+-- to 3-D Secure or blocked.
+
+CREATE TABLE IF NOT EXISTS payment_risk_checks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    order_id VARCHAR(100) NOT NULL,
+    amount DECIMAL(12,2) NOT NULL,
+    -- As reported by the proxy headers; 'unknown' when none were sent
+    ip_address TEXT NOT NULL,
+    user_agent TEXT,
+    customer_email TEXT,
+    decision VARCHAR(20) NOT NULL CHECK (decision IN ('allow', 'step_up', 'block')),
+    reasons TEXT[] NOT NULL DEFAULT '{}',
+    -- Velocity counts and details the decision was based on
+    signals JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_risk_checks_user_created
+    ON payment_risk_checks(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_risk_checks_ip_created
+    ON payment_risk_checks(ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_risk_checks_flagged
+    ON payment_risk_checks(created_at DESC) WHERE decision <> 'allow';
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE payment_risk_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment risk checks"
+    ON payment_risk_checks FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
@@ -0,0 +1,73 @@
+-- Atomic Invoice Creation
+-- An invoice is numbered by its insert trigger and cannot be deleted once
+-- numbered, so it is inserted together with its lines in one transaction.
+-- A failed line insert then rolls back the invoice and its number.
+
+-- Inserts an invoice and its lines, returning the invoice row with an
+-- invoice_items array in the order the lines were given.
+CREATE OR REPLACE FUNCTION create_invoice_with_items(
+    p_invoice JSONB,
+    p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_invoice invoices;
+    v_item invoice_items;
+    v_line JSONB;
+    v_items JSONB := '[]'::JSONB;
+BEGIN
+    INSERT INTO invoices (
+        invoice_number, number_series, user_id, transaction_id,
+        amount, tax, total, tax_withheld, tax_details, due_date, status,
+        billing_account_id, po_number, payment_terms_days, prepaid,
+        reissued_from
+    )
+    VALUES (
+        p_invoice->>'invoice_number',
+        p_invoice->>'number_series',
+        (p_invoice->>'user_id')::UUID,
+        (p_invoice->>'transaction_id')::UUID,
+        (p_invoice->>'amount')::DECIMAL,
+        COALESCE((p_invoice->>'tax')::DECIMAL, 0),
+        (p_invoice->>'total')::DECIMAL,
+        COALESCE((p_invoice->>'tax_withheld')::DECIMAL, 0),
+        COALESCE(p_invoice->'tax_details', '[]'::JSONB),
+        (p_invoice->>'due_date')::TIMESTAMP WITH TIME ZONE,
+        p_invoice->>'status',
+        (p_invoice->>'billing_account_id')::UUID,
+        p_invoice->>'po_number',
+        (p_invoice->>'payment_terms_days')::INTEGER,
+        COALESCE((p_invoice->>'prepaid')::BOOLEAN, false),
+        (p_invoice->>'reissued_from')::UUID
+    )
+    RETURNING * INTO v_invoice;
+
+    FOR v_line IN
+        SELECT line FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+            WITH ORDINALITY AS lines(line, position)
+        ORDER BY position
+    LOOP
+        INSERT INTO invoice_items (
+            invoice_id, description, quantity, unit_price, total, item_type,
+            tax_category, tax_rule_code, tax_rate, site_label
+        )
+        VALUES (
+            v_invoice.id,
+            v_line->>'description',
+            (v_line->>'quantity')::INTEGER,
+            (v_line->>'unit_price')::DECIMAL,
+            (v_line->>'total')::DECIMAL,
+            COALESCE(v_line->>'item_type', 'charge'),
+            v_line->>'tax_category',
+            v_line->>'tax_rule_code',
+            (v_line->>'tax_rate')::DECIMAL,
+            v_line->>'site_label'
+        )
+        RETURNING * INTO v_item;
+
+        v_items := v_items || jsonb_build_array(to_jsonb(v_item));
+    END LOOP;
+
+    RETURN to_jsonb(v_invoice) || jsonb_build_object('invoice_items', v_items);
+END;
+$$ LANGUAGE plpgsql;
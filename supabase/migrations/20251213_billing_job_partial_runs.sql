@@ -0,0 +1,8 @@
+-- Partial Billing Job Runs
+-- A job that ran but failed on some items (e.g. a few subscriptions that
+-- could not be invoiced) is recorded as partial rather than succeeded, so
+-- it is not treated as done for the day and can be run again.
+
+ALTER TABLE billing_job_runs DROP CONSTRAINT IF EXISTS billing_job_runs_status_check;
+ALTER TABLE billing_job_runs ADD CONSTRAINT billing_job_runs_status_check
+    CHECK (status IN ('running', 'succeeded', 'partial', 'failed', 'skipped'));
@@ -0,0 +1,89 @@
+-- Atomic Invoice Reissue
+-- Reissuing voids the original invoice, creates its corrected copy, moves
+-- credit applied to the original onto the copy and repoints billed
+-- periods. Doing it in one transaction means a failure part way through
+-- cannot leave a voided invoice with no replacement.
+
+-- Returns the voided original, the copy (each with invoice_items) and the
+-- credit moved, or NULL if the original is no longer open.
+CREATE OR REPLACE FUNCTION reissue_invoice(
+    p_original_id UUID,
+    p_reason TEXT,
+    p_voided_by UUID,
+    p_invoice JSONB,
+    p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_original invoices;
+    v_copy JSONB;
+    v_copy_id UUID;
+    v_applied DECIMAL(12,2);
+    v_credit_note credit_notes;
+BEGIN
+    UPDATE invoices
+    SET status = 'void',
+        voided_at = NOW(),
+        voided_by = p_voided_by,
+        void_reason = p_reason,
+        updated_at = NOW()
+    WHERE id = p_original_id AND status IN ('draft', 'sent', 'overdue')
+    RETURNING * INTO v_original;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_copy := create_invoice_with_items(
+        p_invoice || jsonb_build_object('reissued_from', p_original_id),
+        p_items
+    );
+    v_copy_id := (v_copy->>'id')::UUID;
+
+    -- Credit applied to the original is given back and drawn by the copy
+    SELECT amount INTO v_applied
+    FROM customer_credit_ledger
+    WHERE invoice_id = p_original_id AND entry_type = 'invoice_application';
+
+    IF FOUND THEN
+        INSERT INTO credit_notes (user_id, invoice_id, amount, reason, description, issued_by)
+        VALUES (
+            v_original.user_id,
+            p_original_id,
+            v_applied,
+            'billing_error',
+            'Credit returned from voided invoice ' || v_original.invoice_number,
+            p_voided_by
+        )
+        RETURNING * INTO v_credit_note;
+
+        PERFORM record_customer_credit_entry(
+            v_original.user_id, 'credit_note', v_applied, v_applied,
+            v_credit_note.id, p_original_id, NULL,
+            'Credit note ' || v_credit_note.credit_note_number, p_voided_by
+        );
+        PERFORM record_customer_credit_entry(
+            v_original.user_id, 'invoice_application', v_applied, -v_applied,
+            NULL, v_copy_id, NULL,
+            'Applied to invoice ' || (v_copy->>'invoice_number'), NULL
+        );
+    END IF;
+
+    -- Billed periods point at the copy so they aren't billed again
+    UPDATE subscription_billing_periods
+    SET invoice_id = v_copy_id
+    WHERE invoice_id = p_original_id;
+
+    RETURN jsonb_build_object(
+        'original', to_jsonb(v_original) || jsonb_build_object(
+            'invoice_items',
+            COALESCE(
+                (SELECT jsonb_agg(to_jsonb(item)) FROM invoice_items item WHERE item.invoice_id = p_original_id),
+                '[]'::JSONB
+            )
+        ),
+        'invoice', v_copy,
+        'credit_returned', COALESCE(v_applied, 0)
+    );
+END;
+$$ LANGUAGE plpgsql;
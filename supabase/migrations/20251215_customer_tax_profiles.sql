@@ -0,0 +1,47 @@
+-- Customer Tax Profiles
+-- Whether a customer is taxed as a business, is exempt from PPN or
+-- withholds PPh 23. Finance sets these from the customer's documents;
+-- customers can read theirs but never write it. billing_preferences keeps
+-- only the NPWP and business name the customer enters for their invoices.
+
+CREATE TABLE IF NOT EXISTS customer_tax_profiles (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    customer_type VARCHAR(20) NOT NULL DEFAULT 'individual'
+        CHECK (customer_type IN ('individual', 'corporate')),
+    tax_exempt BOOLEAN NOT NULL DEFAULT false,
+    -- SKB or other exemption letter finance checked
+    exemption_reference VARCHAR(100),
+    npwp VARCHAR(30),
+    withholds_pph23 BOOLEAN NOT NULL DEFAULT false,
+    updated_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (NOT tax_exempt OR exemption_reference IS NOT NULL),
+    CHECK (customer_type = 'corporate' OR NOT withholds_pph23)
+);
+
+-- Tax status was never read from anything else customers could not edit
+UPDATE billing_preferences
+SET tax_information = tax_information - 'tax_exempt' - 'exemption_reference' - 'withholds_pph23'
+WHERE tax_information ?| ARRAY['tax_exempt', 'exemption_reference', 'withholds_pph23'];
+
+-- Row Level Security (RLS) Policy
+ALTER TABLE customer_tax_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tax profile"
+    ON customer_tax_profiles FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage tax profiles"
+    ON customer_tax_profiles FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_security_profiles
+            WHERE user_id = auth.uid() AND role IN ('admin', 'super_admin')
+        )
+    );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_customer_tax_profiles_updated_at
+    BEFORE UPDATE ON customer_tax_profiles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
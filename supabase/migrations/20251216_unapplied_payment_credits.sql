@@ -0,0 +1,52 @@
+-- Unapplied Payment Credits
+-- A gateway payment that settles after its invoice was voided, or after
+-- the invoice was paid some other way, has nothing left to pay. The money
+-- goes to the customer's credit balance instead, once per payment.
+
+-- A payment is credited to the balance at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_credit_ledger_transaction_credit
+    ON customer_credit_ledger(transaction_id)
+    WHERE entry_type = 'credit_note' AND transaction_id IS NOT NULL;
+
+-- Issues an overpayment credit note for the payment and adds it to the
+-- balance in one transaction. Returns NULL if the payment was credited
+-- already.
+CREATE OR REPLACE FUNCTION credit_unapplied_payment(
+    p_user_id UUID,
+    p_transaction_id UUID,
+    p_amount DECIMAL,
+    p_invoice_id UUID,
+    p_description TEXT
+)
+RETURNS credit_notes AS $$
+DECLARE
+    v_credit_note credit_notes;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('payment_credit:' || p_transaction_id::TEXT));
+
+    IF EXISTS (
+        SELECT 1 FROM customer_credit_ledger
+        WHERE transaction_id = p_transaction_id AND entry_type = 'credit_note'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO credit_notes (user_id, invoice_id, amount, reason, description)
+    VALUES (p_user_id, p_invoice_id, p_amount, 'overpayment', p_description)
+    RETURNING * INTO v_credit_note;
+
+    PERFORM record_customer_credit_entry(
+        p_user_id,
+        'credit_note',
+        p_amount,
+        p_amount,
+        v_credit_note.id,
+        p_invoice_id,
+        p_transaction_id,
+        'Credit note ' || v_credit_note.credit_note_number,
+        NULL
+    );
+
+    RETURN v_credit_note;
+END;
+$$ LANGUAGE plpgsql;
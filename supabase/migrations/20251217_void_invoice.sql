@@ -0,0 +1,67 @@
+-- Atomic Invoice Void
+-- Voiding an invoice gives back any account credit applied to it as a
+-- credit note. Both happen in one transaction so a failure cannot leave a
+-- voided invoice holding the customer's credit.
+
+-- Returns the voided invoice (with invoice_items) and the credit note
+-- returning its credit (NULL when none was applied), or NULL if the
+-- invoice is no longer open.
+CREATE OR REPLACE FUNCTION void_invoice(
+    p_invoice_id UUID,
+    p_reason TEXT,
+    p_voided_by UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_invoice invoices;
+    v_applied DECIMAL(12,2);
+    v_credit_note credit_notes;
+BEGIN
+    UPDATE invoices
+    SET status = 'void',
+        voided_at = NOW(),
+        voided_by = p_voided_by,
+        void_reason = p_reason,
+        updated_at = NOW()
+    WHERE id = p_invoice_id AND status IN ('draft', 'sent', 'overdue')
+    RETURNING * INTO v_invoice;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT amount INTO v_applied
+    FROM customer_credit_ledger
+    WHERE invoice_id = p_invoice_id AND entry_type = 'invoice_application';
+
+    IF FOUND THEN
+        INSERT INTO credit_notes (user_id, invoice_id, amount, reason, description, issued_by)
+        VALUES (
+            v_invoice.user_id,
+            p_invoice_id,
+            v_applied,
+            'billing_error',
+            'Credit returned from voided invoice ' || v_invoice.invoice_number,
+            p_voided_by
+        )
+        RETURNING * INTO v_credit_note;
+
+        PERFORM record_customer_credit_entry(
+            v_invoice.user_id, 'credit_note', v_applied, v_applied,
+            v_credit_note.id, p_invoice_id, NULL,
+            'Credit note ' || v_credit_note.credit_note_number, p_voided_by
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'invoice', to_jsonb(v_invoice) || jsonb_build_object(
+            'invoice_items',
+            COALESCE(
+                (SELECT jsonb_agg(to_jsonb(item)) FROM invoice_items item WHERE item.invoice_id = p_invoice_id),
+                '[]'::JSONB
+            )
+        ),
+        'credit_note', CASE WHEN v_applied IS NULL THEN NULL ELSE to_jsonb(v_credit_note) END
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,76 @@
+-- Virtual Account Payment Allocation
+-- A transfer is claimed by the delivery processing it, then its invoices,
+-- its overpayment credit and the allocation on the payment row are written
+-- in one transaction. Redelivered callbacks, including ones arriving while
+-- the first is still in flight, can no longer allocate the same transfer
+-- twice.
+
+-- Set while a delivery is allocating the payment; a claim older than a few
+-- minutes is treated as abandoned and can be taken over
+ALTER TABLE virtual_account_payments
+    ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Returns the allocated payment, or NULL if it was allocated already.
+-- Raises if an invoice to be paid is no longer open, so the delivery fails
+-- and the retry allocates against the invoices open then.
+CREATE OR REPLACE FUNCTION allocate_virtual_account_payment(
+    p_payment_id UUID,
+    p_transaction_id UUID,
+    p_invoice_ids UUID[],
+    p_applied DECIMAL,
+    p_credited DECIMAL,
+    p_credit_description TEXT
+)
+RETURNS virtual_account_payments AS $$
+DECLARE
+    v_payment virtual_account_payments;
+    v_paid INTEGER;
+    v_credit_note credit_notes;
+BEGIN
+    SELECT * INTO v_payment
+    FROM virtual_account_payments
+    WHERE id = p_payment_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_payment.transaction_id IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE invoices
+    SET status = 'paid',
+        transaction_id = p_transaction_id,
+        updated_at = NOW()
+    WHERE id = ANY(p_invoice_ids)
+      AND user_id = v_payment.user_id
+      AND status IN ('sent', 'overdue');
+
+    GET DIAGNOSTICS v_paid = ROW_COUNT;
+    IF v_paid <> COALESCE(array_length(p_invoice_ids, 1), 0) THEN
+        RAISE EXCEPTION 'Invoices allocated to virtual account payment % are no longer open', p_payment_id;
+    END IF;
+
+    IF p_credited > 0 THEN
+        INSERT INTO credit_notes (user_id, amount, reason, description)
+        VALUES (v_payment.user_id, p_credited, 'overpayment', p_credit_description)
+        RETURNING * INTO v_credit_note;
+
+        PERFORM record_customer_credit_entry(
+            v_payment.user_id, 'credit_note', p_credited, p_credited,
+            v_credit_note.id, NULL, p_transaction_id,
+            'Credit note ' || v_credit_note.credit_note_number, NULL
+        );
+    END IF;
+
+    UPDATE virtual_account_payments
+    SET transaction_id = p_transaction_id,
+        invoice_ids = p_invoice_ids,
+        applied_amount = p_applied,
+        credited_amount = p_credited,
+        credit_note_id = v_credit_note.id,
+        processing_started_at = NULL
+    WHERE id = p_payment_id
+    RETURNING * INTO v_payment;
+
+    RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql;
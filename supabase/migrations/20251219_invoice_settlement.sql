@@ -0,0 +1,199 @@
+-- Atomic Invoice Settlement
+-- A billing cycle invoice uses up plan change credit, account credit,
+-- overage and customer charges and promotion periods. These are now
+-- written in the same transaction as the invoice, so a failure part way
+-- through rolls the invoice back instead of leaving credit that was shown
+-- on it undrawn or charges that were billed on it unbilled.
+
+-- The settlement argument replaces the two-argument version
+DROP FUNCTION IF EXISTS create_invoice_with_items(JSONB, JSONB);
+
+-- Inserts an invoice and its lines, returning the invoice row with an
+-- invoice_items array in the order the lines were given. p_settlement,
+-- when given, lists what the invoice uses up:
+--   period                  billing period recorded on the charges
+--   plan_change_credits     [{subscription_id, amount}] drawn from proration credit
+--   account_credit          drawn from the customer's credit balance
+--   overage_charge_ids      overage charges billed on the invoice
+--   charge_ids              customer charges billed on the invoice
+--   promotions              [{redemption_id, subscription_id, amount}] discounts given
+-- Raises if credit is no longer available or an overage charge was billed
+-- on another invoice meanwhile.
+CREATE OR REPLACE FUNCTION create_invoice_with_items(
+    p_invoice JSONB,
+    p_items JSONB,
+    p_settlement JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_invoice invoices;
+    v_item invoice_items;
+    v_line JSONB;
+    v_items JSONB := '[]'::JSONB;
+    v_entry JSONB;
+    v_amount DECIMAL(12,2);
+    v_ids UUID[];
+    v_updated INTEGER;
+    v_redemption promotion_redemptions;
+    v_promotion promotions;
+    v_credit_note credit_notes;
+BEGIN
+    INSERT INTO invoices (
+        invoice_number, number_series, user_id, transaction_id,
+        amount, tax, total, tax_withheld, tax_details, due_date, status,
+        billing_account_id, po_number, payment_terms_days, prepaid,
+        reissued_from
+    )
+    VALUES (
+        p_invoice->>'invoice_number',
+        p_invoice->>'number_series',
+        (p_invoice->>'user_id')::UUID,
+        (p_invoice->>'transaction_id')::UUID,
+        (p_invoice->>'amount')::DECIMAL,
+        COALESCE((p_invoice->>'tax')::DECIMAL, 0),
+        (p_invoice->>'total')::DECIMAL,
+        COALESCE((p_invoice->>'tax_withheld')::DECIMAL, 0),
+        COALESCE(p_invoice->'tax_details', '[]'::JSONB),
+        (p_invoice->>'due_date')::TIMESTAMP WITH TIME ZONE,
+        p_invoice->>'status',
+        (p_invoice->>'billing_account_id')::UUID,
+        p_invoice->>'po_number',
+        (p_invoice->>'payment_terms_days')::INTEGER,
+        COALESCE((p_invoice->>'prepaid')::BOOLEAN, false),
+        (p_invoice->>'reissued_from')::UUID
+    )
+    RETURNING * INTO v_invoice;
+
+    FOR v_line IN
+        SELECT line FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB))
+            WITH ORDINALITY AS lines(line, position)
+        ORDER BY position
+    LOOP
+        INSERT INTO invoice_items (
+            invoice_id, description, quantity, unit_price, total, item_type,
+            tax_category, tax_rule_code, tax_rate, site_label
+        )
+        VALUES (
+            v_invoice.id,
+            v_line->>'description',
+            (v_line->>'quantity')::INTEGER,
+            (v_line->>'unit_price')::DECIMAL,
+            (v_line->>'total')::DECIMAL,
+            COALESCE(v_line->>'item_type', 'charge'),
+            v_line->>'tax_category',
+            v_line->>'tax_rule_code',
+            (v_line->>'tax_rate')::DECIMAL,
+            v_line->>'site_label'
+        )
+        RETURNING * INTO v_item;
+
+        v_items := v_items || jsonb_build_array(to_jsonb(v_item));
+    END LOOP;
+
+    IF p_settlement IS NOT NULL THEN
+        -- Credit left over from a downgrade
+        FOR v_entry IN
+            SELECT entry FROM jsonb_array_elements(COALESCE(p_settlement->'plan_change_credits', '[]'::JSONB)) AS entries(entry)
+        LOOP
+            v_amount := (v_entry->>'amount')::DECIMAL;
+
+            UPDATE service_subscriptions
+            SET proration_credit = proration_credit - v_amount
+            WHERE id = (v_entry->>'subscription_id')::UUID
+              AND proration_credit >= v_amount;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Plan change credit on subscription % is no longer available', v_entry->>'subscription_id';
+            END IF;
+        END LOOP;
+
+        -- Credit balance from credit notes; raises if the balance ran short
+        v_amount := COALESCE((p_settlement->>'account_credit')::DECIMAL, 0);
+        IF v_amount > 0 THEN
+            PERFORM record_customer_credit_entry(
+                v_invoice.user_id, 'invoice_application', v_amount, -v_amount,
+                NULL, v_invoice.id, NULL,
+                'Applied to invoice ' || v_invoice.invoice_number, NULL
+            );
+        END IF;
+
+        SELECT COALESCE(array_agg(id::UUID), '{}') INTO v_ids
+        FROM jsonb_array_elements_text(COALESCE(p_settlement->'overage_charge_ids', '[]'::JSONB)) AS ids(id);
+
+        UPDATE usage_overage_charges
+        SET invoice_id = v_invoice.id
+        WHERE id = ANY(v_ids) AND invoice_id IS NULL;
+
+        GET DIAGNOSTICS v_updated = ROW_COUNT;
+        IF v_updated <> COALESCE(array_length(v_ids, 1), 0) THEN
+            RAISE EXCEPTION 'Overage charges for invoice % were already billed', v_invoice.invoice_number;
+        END IF;
+
+        -- One-time charges are completed, and billed deposits start being tracked
+        SELECT COALESCE(array_agg(id::UUID), '{}') INTO v_ids
+        FROM jsonb_array_elements_text(COALESCE(p_settlement->'charge_ids', '[]'::JSONB)) AS ids(id);
+
+        UPDATE customer_charges
+        SET last_billed_period = (p_settlement->>'period')::DATE,
+            last_invoice_id = v_invoice.id,
+            status = CASE WHEN frequency = 'one_time' THEN 'completed' ELSE 'active' END
+        WHERE id = ANY(v_ids);
+
+        INSERT INTO customer_deposits (user_id, charge_id, invoice_id, amount)
+        SELECT user_id, id, v_invoice.id, unit_price * quantity
+        FROM customer_charges
+        WHERE id = ANY(v_ids) AND charge_type = 'deposit';
+
+        -- A promotion period is used up; the first discounted invoice of a
+        -- referred customer earns the referrer their credit
+        FOR v_entry IN
+            SELECT entry FROM jsonb_array_elements(COALESCE(p_settlement->'promotions', '[]'::JSONB)) AS entries(entry)
+        LOOP
+            SELECT * INTO v_redemption
+            FROM promotion_redemptions
+            WHERE id = (v_entry->>'redemption_id')::UUID
+            FOR UPDATE;
+
+            SELECT * INTO v_promotion
+            FROM promotions
+            WHERE id = v_redemption.promotion_id;
+
+            IF v_redemption.referred_by IS NOT NULL
+               AND v_redemption.referrer_credit_note_id IS NULL
+               AND v_promotion.referrer_credit_amount > 0 THEN
+                INSERT INTO credit_notes (user_id, amount, reason, description)
+                VALUES (
+                    v_redemption.referred_by,
+                    v_promotion.referrer_credit_amount,
+                    'referral',
+                    'Referral reward - referred customer billed on ' || v_invoice.invoice_number
+                )
+                RETURNING * INTO v_credit_note;
+
+                PERFORM record_customer_credit_entry(
+                    v_redemption.referred_by, 'credit_note',
+                    v_promotion.referrer_credit_amount, v_promotion.referrer_credit_amount,
+                    v_credit_note.id, NULL, NULL,
+                    'Credit note ' || v_credit_note.credit_note_number, NULL
+                );
+                v_redemption.referrer_credit_note_id := v_credit_note.id;
+            END IF;
+
+            UPDATE promotion_redemptions
+            SET subscription_id = COALESCE(subscription_id, (v_entry->>'subscription_id')::UUID),
+                periods_applied = periods_applied + 1,
+                total_discount = total_discount + (v_entry->>'amount')::DECIMAL,
+                status = CASE
+                    WHEN v_promotion.duration_months IS NOT NULL
+                         AND periods_applied + 1 >= v_promotion.duration_months
+                    THEN 'completed'
+                    ELSE 'active'
+                END,
+                referrer_credit_note_id = v_redemption.referrer_credit_note_id
+            WHERE id = v_redemption.id;
+        END LOOP;
+    END IF;
+
+    RETURN to_jsonb(v_invoice) || jsonb_build_object('invoice_items', v_items);
+END;
+$$ LANGUAGE plpgsql;
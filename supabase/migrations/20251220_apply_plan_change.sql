@@ -0,0 +1,88 @@
+-- Atomic Plan Change
+-- An upgrade's proration invoice, the switch to the new package and the
+-- plan change record are written in one transaction. A failure part way
+-- through can no longer bill a customer for a package they were never
+-- moved to, and two changes made at once cannot both apply.
+
+-- Returns the updated subscription, the proration invoice (with
+-- invoice_items, NULL when nothing is due) and the plan change record, or
+-- NULL if the subscription is no longer active on p_from_package_id.
+-- Raises if the new package was withdrawn meanwhile.
+CREATE OR REPLACE FUNCTION apply_plan_change(
+    p_subscription_id UUID,
+    p_from_package_id UUID,
+    p_to_package_id UUID,
+    p_monthly_amount DECIMAL,
+    p_price_plan_id UUID,
+    p_carried_credit DECIMAL,
+    p_change JSONB,
+    p_invoice JSONB DEFAULT NULL,
+    p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_subscription service_subscriptions;
+    v_old_amount DECIMAL(12,2);
+    v_invoice JSONB;
+    v_change subscription_plan_changes;
+BEGIN
+    SELECT * INTO v_subscription
+    FROM service_subscriptions
+    WHERE id = p_subscription_id
+      AND package_id = p_from_package_id
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM packages WHERE id = p_to_package_id AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Package % is no longer available', p_to_package_id;
+    END IF;
+
+    v_old_amount := v_subscription.monthly_amount;
+
+    IF p_invoice IS NOT NULL THEN
+        v_invoice := create_invoice_with_items(p_invoice, p_items);
+    END IF;
+
+    UPDATE service_subscriptions
+    SET package_id = p_to_package_id,
+        monthly_amount = p_monthly_amount,
+        price_plan_id = p_price_plan_id,
+        proration_credit = proration_credit + p_carried_credit,
+        updated_at = NOW()
+    WHERE id = p_subscription_id
+    RETURNING * INTO v_subscription;
+
+    INSERT INTO subscription_plan_changes (
+        subscription_id, user_id, from_package_id, to_package_id,
+        old_monthly_amount, new_monthly_amount, days_remaining, days_in_cycle,
+        credit_amount, charge_amount, invoice_id, effective_date
+    )
+    VALUES (
+        p_subscription_id,
+        v_subscription.user_id,
+        p_from_package_id,
+        p_to_package_id,
+        v_old_amount,
+        p_monthly_amount,
+        (p_change->>'days_remaining')::INTEGER,
+        (p_change->>'days_in_cycle')::INTEGER,
+        (p_change->>'credit_amount')::DECIMAL,
+        (p_change->>'charge_amount')::DECIMAL,
+        (v_invoice->>'id')::UUID,
+        (p_change->>'effective_date')::TIMESTAMP WITH TIME ZONE
+    )
+    RETURNING * INTO v_change;
+
+    RETURN jsonb_build_object(
+        'subscription', to_jsonb(v_subscription),
+        'invoice', v_invoice,
+        'plan_change', to_jsonb(v_change)
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_CHART_OF_ACCOUNTS,
+  EMPTY_NPWP,
+  buildCreditNoteJournal,
+  buildInvoiceJournal,
+  buildPaymentJournal,
+  efakturRows,
+  generalJournalRows,
+  normalizeNpwp,
+  type JournalLine,
+} from '../src/lib/billing/accounting';
+import { AccountingExportService } from '../src/lib/billing/accounting-export-service';
+import type { Invoice, PaymentTransaction } from '../src/lib/payments/types';
+import type { CreditNote } from '../src/lib/billing/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// Rp 300.000 service and Rp 100.000 installation less Rp 40.000 credit,
+// PPN 11% on the net and PPh 23 withheld by a corporate customer
+const invoice: Invoice = {
+  id: 'inv-1',
+  invoiceNumber: 'INV2025060001',
+  userId: 'user-1',
+  transactionId: 'txn-1',
+  amount: 360000,
+  subtotal: 360000,
+  tax: 39600,
+  taxWithheld: 7200,
+  total: 392400,
+  dueDate: new Date('2025-06-20T00:00:00Z'),
+  status: 'sent',
+  items: [
+    {
+      id: 'item-1',
+      description: 'Internet 50 Mbps - June 2025',
+      quantity: 1,
+      unitPrice: 300000,
+      total: 300000,
+      itemType: 'charge',
+      taxCategory: 'recurring_service',
+      taxRate: 0.11,
+    },
+    {
+      id: 'item-2',
+      description: 'Installation',
+      quantity: 1,
+      unitPrice: 100000,
+      total: 100000,
+      itemType: 'charge',
+      taxCategory: 'installation',
+      taxRate: 0.11,
+    },
+    {
+      id: 'item-3',
+      description: 'Account credit applied',
+      quantity: 1,
+      unitPrice: -40000,
+      total: -40000,
+      itemType: 'credit',
+      taxCategory: 'recurring_service',
+    },
+    {
+      id: 'item-4',
+      description: 'PPN 11%',
+      quantity: 1,
+      unitPrice: 39600,
+      total: 39600,
+      itemType: 'tax',
+    },
+  ],
+  createdAt: new Date('2025-06-05T02:00:00Z'),
+  updatedAt: new Date('2025-06-05T02:00:00Z'),
+};
+
+function totals(lines: JournalLine[]) {
+  return lines.reduce(
+    (sum, line) => ({
+      debit: sum.debit + line.debit,
+      credit: sum.credit + line.credit,
+    }),
+    { debit: 0, credit: 0 }
+  );
+}
+
+describe('Accounting exports', () => {
+  it('should post a balanced invoice journal by revenue category', () => {
+    const lines = buildInvoiceJournal(invoice);
+    const byAccount = Object.fromEntries(
+      lines.map(line => [line.accountKey, [line.debit, line.credit]])
+    );
+
+    expect(byAccount).toEqual({
+      accounts_receivable: [392400, 0],
+      pph23_prepaid: [7200, 0],
+      customer_credits: [40000, 0],
+      revenue_recurring_service: [0, 300000],
+      revenue_installation: [0, 100000],
+      vat_output: [0, 39600],
+    });
+
+    const { debit, credit } = totals(lines);
+    expect(debit).toBe(credit);
+  });
+
+  it('should post payments and credit notes as balanced pairs', () => {
+    const payment = {
+      id: 'txn-1',
+      orderId: 'ORDER-1',
+      userId: 'user-1',
+      amount: 392400,
+      currency: 'IDR',
+      status: 'success',
+      paymentMethod: { name: 'BCA Virtual Account' },
+      createdAt: new Date('2025-06-10T00:00:00Z'),
+      updatedAt: new Date('2025-06-10T00:00:00Z'),
+    } as PaymentTransaction;
+
+    expect(
+      buildPaymentJournal(payment).map(line => [
+        line.accountKey,
+        line.debit,
+        line.credit,
+      ])
+    ).toEqual([
+      ['cash_clearing', 392400, 0],
+      ['accounts_receivable', 0, 392400],
+    ]);
+
+    const note = {
+      credit_note_number: 'CN-1',
+      amount: 50000,
+      reason: 'service_outage',
+      created_at: '2025-06-12T00:00:00Z',
+    } as CreditNote;
+    expect(buildCreditNoteJournal(note)[0].accountKey).toBe('sales_discounts');
+    expect(
+      buildCreditNoteJournal({ ...note, reason: 'overpayment' })[0].accountKey
+    ).toBe('accounts_receivable');
+  });
+
+  it('should map journal lines to the configured account codes', () => {
+    const rows = generalJournalRows(buildInvoiceJournal(invoice), {
+      ...DEFAULT_CHART_OF_ACCOUNTS,
+      accounts_receivable: { code: '113', name: 'AR' },
+    });
+
+    expect(rows[0]).toEqual([
+      '2025-06-05',
+      'INV2025060001',
+      'Invoice INV2025060001',
+      '113',
+      'AR',
+      '392400.00',
+      '0.00',
+    ]);
+  });
+
+  it('should build e-Faktur rows with credit spread as discount', () => {
+    const [fk, ...objects] = efakturRows(invoice, {
+      name: 'PT Maju Jaya',
+      npwp: '01.234.567.8-901.000',
+      address: 'Jl. Sudirman 1, Jakarta',
+    });
+
+    expect(fk).toEqual([
+      'FK',
+      '01',
+      '0',
+      '',
+      6,
+      2025,
+      '05/06/2025',
+      '012345678901000',
+      'PT Maju Jaya',
+      'Jl. Sudirman 1, Jakarta',
+      360000,
+      39600,
+      0,
+      '',
+      0,
+      0,
+      0,
+      0,
+      'INV2025060001',
+      '',
+    ]);
+    expect(objects.map(row => row.slice(5, 9))).toEqual([
+      [300000, 30000, 270000, 29700],
+      [100000, 10000, 90000, 9900],
+    ]);
+  });
+
+  it('should skip invoices without PPN and blank out missing NPWP', () => {
+    expect(efakturRows({ ...invoice, tax: 0 }, { name: 'Budi' })).toEqual([]);
+    expect(normalizeNpwp(undefined)).toBe(EMPTY_NPWP);
+    expect(normalizeNpwp('12.345')).toBe(EMPTY_NPWP);
+  });
+
+  it('should refuse a period that overlaps a live export', async () => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      is: () => query,
+      lte: () => query,
+      gte: () => query,
+      limit: () => query,
+      maybeSingle: async () => ({
+        data: { period_start: '2025-06-01', period_end: '2025-06-30' },
+        error: null,
+      }),
+    };
+    const rpc = vi.fn();
+    const supabase = { from: () => query, rpc } as unknown as SupabaseClient;
+
+    await expect(
+      new AccountingExportService(supabase).createExport({
+        exportType: 'efaktur',
+        periodStart: '2025-06-15',
+        periodEnd: '2025-07-15',
+      })
+    ).rejects.toThrow(/overlaps the 2025-06-01 to 2025-06-30 export/);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed period dates', async () => {
+    const supabase = {} as SupabaseClient;
+
+    await expect(
+      new AccountingExportService(supabase).createExport({
+        exportType: 'general_journal',
+        periodStart: '2025-13-01',
+        periodEnd: '2025-06-30',
+      })
+    ).rejects.toThrow(/period_start/);
+  });
+});
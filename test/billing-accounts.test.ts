@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BillingAccountService,
+  firstBillingDate,
+  siteLabel,
+} from '../src/lib/billing/billing-account-service';
+import {
+  calculateTax,
+  DEFAULT_TAX_PROFILE,
+  DEFAULT_TAX_RULES,
+} from '../src/lib/billing/tax';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function contactsClient(contacts: unknown[]): SupabaseClient {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    then: (resolve: (value: unknown) => void) =>
+      resolve({ data: contacts, error: null }),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+describe('Billing accounts', () => {
+  it('should start billing on the next occurrence of the billing day', () => {
+    expect(firstBillingDate(new Date(2025, 5, 3), 5)).toEqual(
+      new Date(2025, 5, 5)
+    );
+    expect(firstBillingDate(new Date(2025, 5, 5, 14), 5)).toEqual(
+      new Date(2025, 5, 5)
+    );
+    expect(firstBillingDate(new Date(2025, 11, 20), 1)).toEqual(
+      new Date(2026, 0, 1)
+    );
+  });
+
+  it('should label sites by service address', () => {
+    expect(
+      siteLabel('3f2a9c1e-0000-4000-8000-000000000000', {
+        address_line1: 'Jl. Sudirman No. 1',
+        city: 'Jakarta',
+      })
+    ).toBe('Jl. Sudirman No. 1, Jakarta');
+    expect(siteLabel('3f2a9c1e-0000-4000-8000-000000000000', null)).toBe(
+      'Subscription 3f2a9c1e'
+    );
+  });
+
+  it('should keep the site on each taxed invoice line', () => {
+    const result = calculateTax(
+      [
+        {
+          description: 'Fiber 100 Mbps - Monthly Subscription',
+          quantity: 1,
+          unitPrice: 500000,
+          total: 500000,
+          category: 'recurring_service',
+          siteLabel: 'Jl. Sudirman No. 1, Jakarta',
+        },
+        {
+          description: 'Account credit',
+          quantity: 1,
+          unitPrice: -50000,
+          total: -50000,
+          category: 'recurring_service',
+          itemType: 'credit',
+        },
+      ],
+      DEFAULT_TAX_RULES,
+      DEFAULT_TAX_PROFILE,
+      new Date('2025-06-01')
+    );
+
+    expect(result.items[0].siteLabel).toBe('Jl. Sudirman No. 1, Jakarta');
+    expect(result.items[1].siteLabel).toBeUndefined();
+  });
+
+  it('should send invoices to the first contact receiving them', async () => {
+    const service = new BillingAccountService(
+      contactsClient([
+        { id: 'c-1', email: 'cfo@example.co.id', receives_invoices: false },
+        { id: 'c-2', email: 'ap@example.co.id', receives_invoices: true },
+      ])
+    );
+
+    expect((await service.getInvoiceContact('acct-1'))?.email).toBe(
+      'ap@example.co.id'
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCohorts,
+  buildRevenueReport,
+  computeMonth,
+  monthRange,
+  type RevenueData,
+  type RevenueSubscription,
+  type ServiceLifecycle,
+} from '../src/lib/billing/analytics';
+
+function subscription(
+  overrides: Partial<RevenueSubscription> = {}
+): RevenueSubscription {
+  return {
+    userId: 'user-1',
+    monthlyAmount: 300000,
+    category: 'home',
+    region: 'Jawa Barat',
+    startedAt: new Date('2025-01-10T00:00:00Z'),
+    endedAt: null,
+    ...overrides,
+  };
+}
+
+function lifecycle(
+  overrides: Partial<ServiceLifecycle> = {}
+): ServiceLifecycle {
+  return {
+    userId: 'user-1',
+    region: 'Jawa Barat',
+    startedAt: new Date('2025-01-10T00:00:00Z'),
+    endedAt: null,
+    ...overrides,
+  };
+}
+
+const data: RevenueData = {
+  subscriptions: [
+    subscription(),
+    subscription({
+      userId: 'user-2',
+      monthlyAmount: 1500000,
+      category: 'soho',
+      region: 'DKI Jakarta',
+      startedAt: new Date('2025-02-05T00:00:00Z'),
+    }),
+    subscription({
+      userId: 'user-3',
+      monthlyAmount: 200000,
+      endedAt: new Date('2025-02-20T00:00:00Z'),
+    }),
+  ],
+  lifecycles: [
+    lifecycle(),
+    lifecycle({
+      userId: 'user-2',
+      region: 'DKI Jakarta',
+      startedAt: new Date('2025-02-05T00:00:00Z'),
+    }),
+    lifecycle({
+      userId: 'user-3',
+      endedAt: new Date('2025-02-20T00:00:00Z'),
+    }),
+  ],
+  invoices: [
+    {
+      userId: 'user-1',
+      region: 'Jawa Barat',
+      total: 333000,
+      status: 'paid',
+      issuedAt: new Date('2025-02-10T00:00:00Z'),
+    },
+    {
+      userId: 'user-2',
+      region: 'DKI Jakarta',
+      total: 1665000,
+      status: 'overdue',
+      issuedAt: new Date('2025-02-05T00:00:00Z'),
+    },
+    {
+      userId: 'user-3',
+      region: 'Jawa Barat',
+      total: 222000,
+      status: 'void',
+      issuedAt: new Date('2025-02-10T00:00:00Z'),
+    },
+  ],
+  payments: [
+    {
+      userId: 'user-1',
+      region: 'Jawa Barat',
+      amount: 333000,
+      paidAt: new Date('2025-02-12T00:00:00Z'),
+    },
+  ],
+};
+
+describe('Revenue analytics', () => {
+  it('should list every month in a range across years', () => {
+    expect(monthRange('2024-11', '2025-02')).toEqual([
+      '2024-11',
+      '2024-12',
+      '2025-01',
+      '2025-02',
+    ]);
+    expect(monthRange('2025-03', '2025-02')).toEqual([]);
+  });
+
+  it('should compute MRR movement, churn, ARPU and collection for a month', () => {
+    const february = computeMonth('2025-02', data);
+
+    expect(february).toMatchObject({
+      mrr: 1800000,
+      newMrr: 1500000,
+      churnedMrr: 200000,
+      netNewMrr: 1300000,
+      customers: 2,
+      churnedCustomers: 1,
+      churnRate: 0.5,
+      arpu: 900000,
+      arpuByCategory: { home: 300000, soho: 1500000, corporate: 0 },
+      invoiced: 1998000,
+      collected: 333000,
+      collectionRate: 0.1667,
+      cashReceived: 333000,
+    });
+  });
+
+  it('should break the report down by region and track cohort retention', () => {
+    const report = buildRevenueReport(data, '2025-01', '2025-02');
+
+    expect(report.regions).toEqual(['DKI Jakarta', 'Jawa Barat']);
+    expect(
+      report.byRegion.map(entry => [entry.region, entry.months[1].mrr])
+    ).toEqual([
+      ['DKI Jakarta', 1500000],
+      ['Jawa Barat', 300000],
+    ]);
+    expect(
+      buildRevenueReport(data, '2025-02', '2025-02', 'Jawa Barat').months[0]
+        .churnRate
+    ).toBe(0.5);
+
+    expect(buildCohorts(data.lifecycles, ['2025-01', '2025-02'])).toEqual([
+      { cohort: '2025-01', customers: 2, retention: [1, 0.5] },
+      { cohort: '2025-02', customers: 1, retention: [1] },
+    ]);
+  });
+});
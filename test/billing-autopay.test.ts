@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AutopayService,
+  MAX_AUTOPAY_ATTEMPTS,
+  nextAutopayRetry,
+} from '../src/lib/billing/autopay-service';
+import { isSoftDecline } from '../src/lib/payments/declines';
+import type { PaymentManager } from '../src/lib/payments/manager';
+import type { PaymentResponse } from '../src/lib/payments/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const now = new Date('2025-02-01T02:00:00Z');
+
+const invoice = {
+  id: 'inv-1',
+  user_id: 'user-1',
+  invoice_number: 'INV-2025-0001',
+  total: 222000,
+  status: 'sent',
+};
+
+// Minimal Supabase stand-in: each table resolves to fixed rows and inserts
+// are captured for assertions.
+function createSupabase(tables: Record<string, unknown>) {
+  const inserts: Record<string, unknown[]> = {};
+  const from = (table: string) => {
+    const result = { data: tables[table] ?? null, error: null };
+    const query = {
+      select: () => query,
+      eq: () => query,
+      maybeSingle: async () => result,
+      insert: async (row: unknown) => {
+        (inserts[table] ||= []).push(row);
+        return { error: null };
+      },
+    };
+    return query;
+  };
+
+  const supabase = {
+    from,
+    auth: {
+      admin: {
+        getUserById: async () => ({
+          data: { user: { email: 'budi@example.com' } },
+        }),
+      },
+    },
+  } as unknown as SupabaseClient;
+
+  return { supabase, inserts };
+}
+
+const autopayTables = {
+  billing_preferences: { auto_payment: true, default_payment_method: 'pm-1' },
+  payment_methods: {
+    id: 'pm-1',
+    type: 'credit_card',
+    provider: 'midtrans',
+    display_name: 'Card 1114',
+    gateway_token: 'tok-1',
+    token_expires_at: null,
+    metadata: {},
+  },
+  customer_profiles: { first_name: 'Budi', last_name: 'Santoso' },
+};
+
+function managerReturning(response: Partial<PaymentResponse>) {
+  return {
+    chargeSavedMethod: vi.fn(async () => ({
+      transaction: { id: 'txn-1' },
+      paymentResponse: response,
+    })),
+  } as unknown as PaymentManager;
+}
+
+describe('Autopay', () => {
+  describe('decline classification', () => {
+    it('should treat issuer and gateway errors as soft', () => {
+      expect(isSoftDecline('51')).toBe(true);
+      expect(isSoftDecline('91')).toBe(true);
+      expect(isSoftDecline('503')).toBe(true);
+      expect(isSoftDecline(undefined)).toBe(true);
+    });
+
+    it('should treat invalid and stolen cards as hard', () => {
+      expect(isSoftDecline('14')).toBe(false);
+      expect(isSoftDecline('43')).toBe(false);
+    });
+  });
+
+  describe('nextAutopayRetry', () => {
+    it('should back off after soft declines', () => {
+      expect(nextAutopayRetry(1, true, now)).toEqual(
+        new Date('2025-02-02T02:00:00Z')
+      );
+      expect(nextAutopayRetry(2, true, now)).toEqual(
+        new Date('2025-02-04T02:00:00Z')
+      );
+    });
+
+    it('should stop after hard declines and the final attempt', () => {
+      expect(nextAutopayRetry(1, false, now)).toBeNull();
+      expect(nextAutopayRetry(MAX_AUTOPAY_ATTEMPTS, true, now)).toBeNull();
+    });
+  });
+
+  describe('AutopayService.chargeInvoice', () => {
+    it('should skip customers without autopay', async () => {
+      const { supabase, inserts } = createSupabase({
+        billing_preferences: { auto_payment: false },
+      });
+      const paymentManager = managerReturning({ status: 'success' });
+      const service = new AutopayService(supabase, { paymentManager });
+
+      const result = await service.chargeInvoice(invoice);
+
+      expect(result.status).toBe('skipped');
+      expect(paymentManager.chargeSavedMethod).not.toHaveBeenCalled();
+      expect(inserts.autopay_attempts).toBeUndefined();
+    });
+
+    it('should charge the saved method and record success', async () => {
+      const { supabase, inserts } = createSupabase(autopayTables);
+      const paymentManager = managerReturning({ status: 'success' });
+      const service = new AutopayService(supabase, { paymentManager });
+
+      const result = await service.chargeInvoice(invoice, 1, now);
+
+      expect(result.status).toBe('succeeded');
+      expect(paymentManager.chargeSavedMethod).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderId: 'AUTOPAY-INV-2025-0001-1',
+          amount: 222000,
+          invoiceId: 'inv-1',
+        }),
+        'user-1',
+        expect.objectContaining({ id: 'pm-1', token: 'tok-1' })
+      );
+      expect(inserts.autopay_attempts).toEqual([
+        expect.objectContaining({ status: 'succeeded', next_retry_at: null }),
+      ]);
+    });
+
+    it('should schedule a retry after a soft decline', async () => {
+      const { supabase, inserts } = createSupabase(autopayTables);
+      const mailer = { sendServiceNotification: vi.fn() };
+      const service = new AutopayService(supabase, {
+        paymentManager: managerReturning({
+          status: 'failed',
+          declineCode: '51',
+        }),
+        mailer,
+      });
+
+      const result = await service.chargeInvoice(invoice, 1, now);
+
+      expect(result.status).toBe('failed');
+      expect(result.retryAt).toEqual(new Date('2025-02-02T02:00:00Z'));
+      expect(mailer.sendServiceNotification).not.toHaveBeenCalled();
+      expect(inserts.autopay_attempts).toEqual([
+        expect.objectContaining({
+          soft_decline: true,
+          decline_code: '51',
+          customer_notified: false,
+        }),
+      ]);
+    });
+
+    it('should email the customer when autopay finally fails', async () => {
+      const { supabase, inserts } = createSupabase(autopayTables);
+      const mailer = { sendServiceNotification: vi.fn() };
+      const service = new AutopayService(supabase, {
+        paymentManager: managerReturning({
+          status: 'failed',
+          declineCode: '14',
+        }),
+        mailer,
+      });
+
+      const result = await service.chargeInvoice(invoice, 1, now);
+
+      expect(result.retryAt).toBeNull();
+      expect(mailer.sendServiceNotification).toHaveBeenCalledWith(
+        'budi@example.com',
+        expect.stringContaining('INV-2025-0001'),
+        expect.stringContaining('/billing/invoices'),
+        'warning'
+      );
+      expect(inserts.autopay_attempts).toEqual([
+        expect.objectContaining({
+          soft_decline: false,
+          customer_notified: true,
+        }),
+      ]);
+    });
+  });
+});
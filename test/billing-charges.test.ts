@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { chargeDue, chargeLine } from '../src/lib/billing/charges';
+import { CustomerChargeService } from '../src/lib/billing/charge-service';
+import { buildCreditNoteJournal } from '../src/lib/billing/accounting';
+import type { CreditNote, CustomerCharge } from '../src/lib/billing/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function charge(overrides: Partial<CustomerCharge> = {}): CustomerCharge {
+  return {
+    id: 'charge-1',
+    user_id: 'user-1',
+    subscription_id: 'sub-1',
+    charge_type: 'equipment_rental',
+    description: 'ONT rental',
+    tax_category: 'equipment_rental',
+    unit_price: 25000,
+    quantity: 1,
+    frequency: 'monthly',
+    starts_on: '2025-06-01',
+    ends_on: null,
+    status: 'active',
+    last_billed_period: null,
+    last_invoice_id: null,
+    created_by: null,
+    created_at: '2025-06-01T00:00:00Z',
+    updated_at: '2025-06-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Customer charges', () => {
+  it('should bill monthly charges once per cycle until they end', () => {
+    expect(chargeDue(charge(), '2025-06-05')).toBe(true);
+    expect(chargeDue(charge(), '2025-05-05')).toBe(false);
+    expect(
+      chargeDue(charge({ last_billed_period: '2025-06-05' }), '2025-06-05')
+    ).toBe(false);
+    expect(
+      chargeDue(charge({ last_billed_period: '2025-06-05' }), '2025-07-05')
+    ).toBe(true);
+    expect(chargeDue(charge({ ends_on: '2025-07-05' }), '2025-07-05')).toBe(
+      false
+    );
+    expect(chargeDue(charge({ status: 'cancelled' }), '2025-06-05')).toBe(
+      false
+    );
+  });
+
+  it('should bill one-time charges once', () => {
+    const installation = charge({
+      charge_type: 'installation',
+      tax_category: 'installation',
+      frequency: 'one_time',
+      description: 'Installation',
+      unit_price: 500000,
+    });
+
+    expect(chargeDue(installation, '2025-06-05')).toBe(true);
+    expect(
+      chargeDue(
+        { ...installation, last_billed_period: '2025-06-05' },
+        '2025-07-05'
+      )
+    ).toBe(false);
+    expect(chargeLine(installation)).toEqual({
+      description: 'Installation',
+      quantity: 1,
+      unitPrice: 500000,
+      total: 500000,
+      category: 'installation',
+    });
+  });
+
+  it('should bill rentals under their own tax category', () => {
+    expect(chargeLine(charge({ quantity: 2 }))).toEqual({
+      description: 'ONT rental - Monthly',
+      quantity: 2,
+      unitPrice: 25000,
+      total: 50000,
+      category: 'equipment_rental',
+    });
+  });
+
+  it('should refuse recurring deposits', async () => {
+    await expect(
+      new CustomerChargeService({} as SupabaseClient).createCharge({
+        user_id: 'user-1',
+        subscription_id: 'sub-1',
+        charge_type: 'deposit',
+        description: 'Router deposit',
+        unit_price: 300000,
+        frequency: 'monthly',
+      })
+    ).rejects.toThrow(/billed once/);
+  });
+
+  it('should post a released deposit against the deposit liability', () => {
+    const [debit, credit] = buildCreditNoteJournal({
+      credit_note_number: 'CN-7',
+      amount: 300000,
+      reason: 'deposit_release',
+      created_at: '2025-09-01T00:00:00Z',
+    } as CreditNote);
+
+    expect([debit.accountKey, debit.debit]).toEqual([
+      'revenue_deposit',
+      300000,
+    ]);
+    expect([credit.accountKey, credit.credit]).toEqual([
+      'customer_credits',
+      300000,
+    ]);
+  });
+});
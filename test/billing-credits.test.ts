@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CreditService,
+  creditToApply,
+  remainingRefundable,
+} from '../src/lib/billing/credit-service';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// Supabase stand-in whose ledger function behaves like
+// record_customer_credit_entry: running balance, never below zero.
+function createSupabase() {
+  const ledger: Array<Record<string, unknown>> = [];
+  const creditNotes: Array<Record<string, unknown>> = [];
+
+  const rpc = vi.fn(async (_fn: string, args: Record<string, unknown>) => {
+    const balance = ledger.reduce(
+      (sum, entry) => sum + Number(entry.balance_change),
+      0
+    );
+    const balanceAfter = balance + Number(args.p_balance_change);
+    if (balanceAfter < 0) {
+      return { data: null, error: { message: 'Insufficient credit balance' } };
+    }
+
+    const entry = {
+      id: `entry-${ledger.length + 1}`,
+      user_id: args.p_user_id,
+      entry_type: args.p_entry_type,
+      amount: args.p_amount,
+      balance_change: args.p_balance_change,
+      balance_after: balanceAfter,
+      invoice_id: args.p_invoice_id,
+      description: args.p_description,
+    };
+    ledger.push(entry);
+    return { data: entry, error: null };
+  });
+
+  const from = (table: string) => {
+    const rows = () => (table === 'credit_notes' ? creditNotes : ledger);
+    const query = {
+      select: () => query,
+      eq: () => query,
+      order: () => query,
+      limit: () => query,
+      maybeSingle: async () => ({
+        data:
+          table === 'invoices'
+            ? { id: 'inv-1' }
+            : rows()[rows().length - 1] || null,
+        error: null,
+      }),
+      insert: (row: Record<string, unknown>) => {
+        const note = {
+          ...row,
+          id: `cn-${creditNotes.length + 1}`,
+          credit_note_number: `CN-202501-000${creditNotes.length + 1}`,
+        };
+        creditNotes.push(note);
+        return {
+          select: () => ({
+            single: async () => ({ data: note, error: null }),
+          }),
+        };
+      },
+    };
+    return query;
+  };
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, ledger };
+}
+
+describe('Customer credits', () => {
+  it('should apply no more credit than the invoice can absorb', () => {
+    expect(creditToApply(50000, 200000)).toBe(50000);
+    expect(creditToApply(300000, 200000)).toBe(200000);
+    expect(creditToApply(0, 200000)).toBe(0);
+    expect(creditToApply(50000, 0)).toBe(0);
+  });
+
+  it('should track what remains refundable after partial refunds', () => {
+    expect(remainingRefundable(222000, 0)).toBe(222000);
+    expect(remainingRefundable(222000, 100000)).toBe(122000);
+    expect(remainingRefundable(222000, 222000)).toBe(0);
+  });
+
+  it('should issue a credit note and raise the balance', async () => {
+    const { supabase, ledger } = createSupabase();
+    const credits = new CreditService(supabase);
+
+    const { creditNote, entry } = await credits.issueCreditNote({
+      userId: 'user-1',
+      amount: 75000,
+      reason: 'service_outage',
+      invoiceId: 'inv-1',
+      issuedBy: 'admin-1',
+    });
+
+    expect(creditNote.credit_note_number).toBe('CN-202501-0001');
+    expect(entry).toMatchObject({
+      entry_type: 'credit_note',
+      balance_change: 75000,
+      balance_after: 75000,
+      description: 'Credit note CN-202501-0001',
+    });
+    expect(ledger).toHaveLength(1);
+    await expect(credits.getBalance('user-1')).resolves.toBe(75000);
+  });
+
+  it('should reject non-positive credit notes', async () => {
+    const { supabase } = createSupabase();
+    await expect(
+      new CreditService(supabase).issueCreditNote({
+        userId: 'user-1',
+        amount: 0,
+        reason: 'goodwill',
+      })
+    ).rejects.toThrow(/greater than zero/);
+  });
+
+  it('should draw down credit for invoices but record refunds at zero', async () => {
+    const { supabase } = createSupabase();
+    const credits = new CreditService(supabase);
+    await credits.issueCreditNote({
+      userId: 'user-1',
+      amount: 75000,
+      reason: 'goodwill',
+    });
+
+    const applied = await credits.applyToInvoice(
+      'user-1',
+      'inv-2',
+      'INV2025020001',
+      50000
+    );
+    expect(applied).toMatchObject({
+      balance_change: -50000,
+      balance_after: 25000,
+    });
+
+    const refund = await credits.recordRefund({
+      userId: 'user-1',
+      transactionId: 'txn-1',
+      amount: 100000,
+    });
+    expect(refund).toMatchObject({
+      entry_type: 'payment_refund',
+      balance_change: 0,
+      balance_after: 25000,
+    });
+
+    await expect(
+      credits.applyToInvoice('user-1', 'inv-3', 'INV2025030001', 30000)
+    ).rejects.toThrow(/Insufficient credit balance/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DUNNING_POLICY,
+  SUSPENSION_STEP,
+  planDunning,
+  reminderStep,
+} from '../src/lib/billing/dunning';
+
+const dueDate = new Date(2025, 0, 20);
+
+function daysFromDue(days: number): Date {
+  const date = new Date(dueDate);
+  date.setDate(date.getDate() + days);
+  date.setHours(9, 30);
+  return date;
+}
+
+describe('Dunning schedule', () => {
+  it('should name reminder steps by offset', () => {
+    expect(reminderStep(-3)).toBe('reminder_d-3');
+    expect(reminderStep(0)).toBe('reminder_d0');
+    expect(reminderStep(7)).toBe('reminder_d+7');
+  });
+
+  it('should send nothing before the first reminder', () => {
+    const plan = planDunning(
+      DEFAULT_DUNNING_POLICY,
+      dueDate,
+      daysFromDue(-5),
+      []
+    );
+    expect(plan.reminder).toBeUndefined();
+    expect(plan.suspend).toBe(false);
+  });
+
+  it('should send each reminder on its day and only once', () => {
+    for (const offset of [-3, 0, 3, 7]) {
+      const plan = planDunning(
+        DEFAULT_DUNNING_POLICY,
+        dueDate,
+        daysFromDue(offset),
+        []
+      );
+      expect(plan.reminder).toEqual({
+        step: reminderStep(offset),
+        offsetDays: offset,
+      });
+    }
+
+    const repeat = planDunning(
+      DEFAULT_DUNNING_POLICY,
+      dueDate,
+      daysFromDue(1),
+      ['reminder_d-3', 'reminder_d0']
+    );
+    expect(repeat.reminder).toBeUndefined();
+    expect(repeat.daysPastDue).toBe(1);
+  });
+
+  it('should only send the latest reminder after a missed run', () => {
+    const plan = planDunning(DEFAULT_DUNNING_POLICY, dueDate, daysFromDue(4), [
+      'reminder_d-3',
+    ]);
+    expect(plan.reminder?.step).toBe('reminder_d+3');
+  });
+
+  it('should suspend the day after the grace period ends', () => {
+    expect(
+      planDunning(DEFAULT_DUNNING_POLICY, dueDate, daysFromDue(7), []).suspend
+    ).toBe(false);
+    expect(
+      planDunning(DEFAULT_DUNNING_POLICY, dueDate, daysFromDue(8), []).suspend
+    ).toBe(true);
+    expect(
+      planDunning(DEFAULT_DUNNING_POLICY, dueDate, daysFromDue(9), [
+        SUSPENSION_STEP,
+      ]).suspend
+    ).toBe(false);
+  });
+
+  it('should follow a custom policy', () => {
+    const policy = { reminderOffsets: [0, 14], gracePeriodDays: 14 };
+    expect(planDunning(policy, dueDate, daysFromDue(-3), []).reminder).toBe(
+      undefined
+    );
+    expect(planDunning(policy, dueDate, daysFromDue(8), []).suspend).toBe(
+      false
+    );
+    expect(planDunning(policy, dueDate, daysFromDue(15), []).suspend).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from 'vitest';
+import { existsSync } from 'node:fs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateLateFee,
+  dueLateFeeRules,
+} from '../src/lib/billing/late-fees';
+import {
+  installmentPaymentUrl,
+  isPlanHonored,
+  scheduleProblem,
+  splitInstallments,
+} from '../src/lib/billing/installments';
+import { InstallmentService } from '../src/lib/billing/installment-service';
+import { paymentLinkRequest } from '../src/lib/billing/payment-link';
+import type { LateFeeRule } from '../src/lib/billing/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/email/service', () => ({ emailService: {} }));
+
+function rule(overrides: Partial<LateFeeRule> = {}): LateFeeRule {
+  return {
+    id: 'rule-1',
+    name: 'Late payment',
+    fee_type: 'flat',
+    amount: 25000,
+    rate: null,
+    max_amount: null,
+    days_after_due: 1,
+    is_active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Late fees', () => {
+  it('should charge flat fees as is and cap percentage fees', () => {
+    expect(calculateLateFee(rule(), 333000)).toBe(25000);
+
+    const percentage = rule({
+      fee_type: 'percentage',
+      amount: null,
+      rate: 0.02,
+      max_amount: 50000,
+    });
+    expect(calculateLateFee(percentage, 333000)).toBe(6660);
+    expect(calculateLateFee(percentage, 5000000)).toBe(50000);
+    expect(calculateLateFee({ ...percentage, max_amount: null }, 5000000)).toBe(
+      100000
+    );
+  });
+
+  it('should apply each rule once its waiting period has passed', () => {
+    const rules = [
+      rule(),
+      rule({ id: 'rule-2', days_after_due: 30 }),
+      rule({ id: 'rule-3', is_active: false }),
+    ];
+
+    expect(dueLateFeeRules(rules, 0, []).map(r => r.id)).toEqual([]);
+    expect(dueLateFeeRules(rules, 5, []).map(r => r.id)).toEqual(['rule-1']);
+    expect(dueLateFeeRules(rules, 30, ['rule-1']).map(r => r.id)).toEqual([
+      'rule-2',
+    ]);
+  });
+});
+
+describe('Installment plans', () => {
+  it('should split a balance into whole-rupiah installments', () => {
+    const schedule = splitInstallments(333000.5, 3, '2025-07-10', 30);
+
+    expect(schedule).toEqual([
+      { amount: 111000, dueDate: '2025-07-10' },
+      { amount: 111000, dueDate: '2025-08-09' },
+      { amount: 111000.5, dueDate: '2025-09-08' },
+    ]);
+    expect(scheduleProblem(333000.5, schedule, '2025-07-01')).toBeNull();
+  });
+
+  it('should reject schedules that do not cover the balance', () => {
+    const schedule = [
+      { amount: 100000, dueDate: '2025-07-10' },
+      { amount: 100000, dueDate: '2025-08-10' },
+    ];
+
+    expect(scheduleProblem(250000, schedule, '2025-07-01')).toMatch(
+      /add up to 200000/
+    );
+    expect(scheduleProblem(200000, schedule, '2025-07-15')).toMatch(/past/);
+    expect(
+      scheduleProblem(200000, [...schedule].reverse(), '2025-07-01')
+    ).toMatch(/in order/);
+    expect(scheduleProblem(200000, schedule.slice(0, 1), '2025-07-01')).toMatch(
+      /2 to 12/
+    );
+  });
+
+  it('should stop honoring a plan once an installment is missed', () => {
+    const installments = [
+      { status: 'paid' as const, due_date: '2025-07-10' },
+      { status: 'pending' as const, due_date: '2025-08-10' },
+    ];
+
+    expect(isPlanHonored(installments, new Date(2025, 7, 10))).toBe(true);
+    expect(isPlanHonored(installments, new Date(2025, 7, 11))).toBe(false);
+    expect(
+      installmentPaymentUrl('https://example.com', {
+        id: 'inst-2',
+        invoice_id: 'inv-1',
+      })
+    ).toBe(
+      'https://example.com/billing/payment?invoice_id=inv-1&installment_id=inst-2'
+    );
+  });
+
+  it('should complete the plan when the last installment is paid', async () => {
+    const paid = {
+      id: 'inst-2',
+      plan_id: 'plan-1',
+      invoice_id: 'inv-1',
+      status: 'paid',
+    };
+    const planUpdate = vi.fn();
+
+    const client = {
+      from: (table: string) => {
+        if (table === 'installment_plans') {
+          planUpdate.mockReturnValue({
+            eq: () => ({
+              eq: () => ({
+                select: () =>
+                  Promise.resolve({ data: [{ id: 'plan-1' }], error: null }),
+              }),
+            }),
+          });
+          return { update: planUpdate };
+        }
+        return {
+          // Claiming the installment
+          update: () => ({
+            eq: () => ({
+              eq: () => ({
+                select: () => ({
+                  maybeSingle: () =>
+                    Promise.resolve({ data: paid, error: null }),
+                }),
+              }),
+            }),
+          }),
+          // Remaining installments on the plan
+          select: () => ({
+            eq: () => ({
+              order: () =>
+                Promise.resolve({
+                  data: [{ ...paid, id: 'inst-1' }, paid],
+                  error: null,
+                }),
+            }),
+          }),
+        };
+      },
+    } as unknown as SupabaseClient;
+
+    const result = await new InstallmentService(client).recordPayment(
+      'inst-2',
+      'txn-1'
+    );
+
+    expect(result).toEqual({ invoiceId: 'inv-1', planCompleted: true });
+    expect(planUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'completed' })
+    );
+  });
+
+  it('should link each installment to a page that pays exactly that installment', async () => {
+    const link = new URL(
+      installmentPaymentUrl('https://example.com', {
+        id: 'inst-2',
+        invoice_id: 'inv-1',
+      })
+    );
+    // Tests run from the project root
+    expect(existsSync(`src/pages${link.pathname}.astro`)).toBe(true);
+
+    const request = paymentLinkRequest(
+      {
+        invoiceId: link.searchParams.get('invoice_id') || '',
+        invoiceNumber: 'INV/2025/000042',
+        amount: 150000,
+        installmentId: link.searchParams.get('installment_id') || '',
+        installmentSequence: 2,
+      },
+      {
+        firstName: 'Budi',
+        lastName: 'Santoso',
+        email: 'budi@example.com',
+        phone: '08123456789',
+      },
+      'bank_transfer',
+      1751328000000
+    );
+    expect(request).toMatchObject({
+      orderId: 'INST-1751328000000-inst-2',
+      invoiceId: 'inv-1',
+      installmentId: 'inst-2',
+      amount: 150000,
+      itemDetails: [{ price: 150000, quantity: 1 }],
+    });
+
+    // The page's request passes the check /api/payments/create makes
+    const client = {
+      from: () => ({
+        select: () => ({
+          eq: () => ({
+            maybeSingle: () =>
+              Promise.resolve({
+                data: {
+                  id: 'inst-2',
+                  invoice_id: 'inv-1',
+                  user_id: 'user-1',
+                  sequence: 2,
+                  amount: '150000.00',
+                  status: 'pending',
+                  installment_plans: { status: 'active' },
+                },
+                error: null,
+              }),
+          }),
+        }),
+      }),
+    } as unknown as SupabaseClient;
+
+    await expect(
+      new InstallmentService(client).assertPayable(
+        request.installmentId || '',
+        'user-1',
+        request.amount
+      )
+    ).resolves.toMatchObject({ invoice_id: 'inv-1' });
+  });
+});
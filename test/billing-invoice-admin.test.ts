@@ -0,0 +1,253 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  adjustmentProblem,
+  correctionProblem,
+  reissueLines,
+} from '../src/lib/billing/invoice-admin';
+import { InvoiceAdminService } from '../src/lib/billing/invoice-admin-service';
+import type { Invoice } from '../src/lib/payments/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/email/service', () => ({ emailService: {} }));
+vi.mock('../src/lib/security/audit', () => ({ securityAuditLogger: {} }));
+vi.mock('../src/lib/security/middleware', () => ({ SecurityMiddleware: {} }));
+vi.mock('../src/lib/billing/tax-service', () => ({
+  TaxService: class {
+    async calculateInvoiceTax() {
+      return {
+        subtotal: 250000,
+        vat: 27500,
+        withheld: 0,
+        total: 277500,
+        applied: [],
+        items: [],
+      };
+    }
+  },
+}));
+
+const original: Pick<Invoice, 'items'> = {
+  items: [
+    {
+      id: 'item-1',
+      description: 'Home 50 Mbps',
+      quantity: 1,
+      unitPrice: 300000,
+      total: 300000,
+      itemType: 'charge',
+      taxCategory: 'recurring_service',
+    },
+    {
+      id: 'item-2',
+      description: 'Account credit',
+      quantity: 1,
+      unitPrice: -50000,
+      total: -50000,
+      itemType: 'credit',
+      taxCategory: 'recurring_service',
+    },
+    {
+      id: 'item-3',
+      description: 'PPN 11%',
+      quantity: 1,
+      unitPrice: 27500,
+      total: 27500,
+      itemType: 'tax',
+    },
+  ],
+};
+
+const actor = { userId: 'admin-1', ipAddress: '10.0.0.1', userAgent: 'test' };
+
+/** A client holding one invoice in the given status */
+function invoiceClient(status: Invoice['status']) {
+  const rpc = vi.fn(() => Promise.resolve({ data: 'adj-1', error: null }));
+  const single = (data: unknown) => Promise.resolve({ data, error: null });
+
+  const client = {
+    rpc,
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => {
+          if (table === 'installment_plans') {
+            return { eq: () => ({ maybeSingle: () => single(null) }) };
+          }
+          if (table === 'invoice_adjustments') {
+            return { single: () => single({ id: 'adj-1', amount: -25000 }) };
+          }
+          return {
+            single: () =>
+              single({
+                id: 'inv-1',
+                invoice_number: 'INV-1',
+                user_id: 'user-1',
+                amount: 250000,
+                tax: 27500,
+                total: 277500,
+                due_date: '2025-03-10',
+                status,
+                created_at: '2025-02-10',
+                updated_at: '2025-02-10',
+                invoice_items: [],
+              }),
+          };
+        },
+      }),
+    }),
+  } as unknown as SupabaseClient;
+
+  return { client, rpc };
+}
+
+describe('Invoice admin operations', () => {
+  it('should carry credit over to a reissued invoice and drop the old tax lines', () => {
+    expect(reissueLines(original).map(line => line.total)).toEqual([
+      300000, -50000,
+    ]);
+
+    const corrected = [
+      { description: 'Home 30 Mbps', quantity: 1, unitPrice: 200000 },
+      {
+        description: 'Goodwill discount',
+        quantity: 1,
+        unitPrice: 20000,
+        itemType: 'discount' as const,
+      },
+    ];
+    const lines = reissueLines(original, corrected);
+
+    expect(lines.map(line => [line.total, line.itemType])).toEqual([
+      [200000, 'charge'],
+      [-20000, 'discount'],
+      [-50000, 'credit'],
+    ]);
+    expect(correctionProblem(corrected, lines)).toBeNull();
+
+    const tooSmall = [{ description: 'Home', quantity: 1, unitPrice: 10000 }];
+    expect(correctionProblem(tooSmall, reissueLines(original, tooSmall))).toBe(
+      'The corrected lines must cover the credit already applied to the invoice'
+    );
+  });
+
+  it('should refuse adjustments that are zero or take the invoice below zero', () => {
+    expect(adjustmentProblem(277500, 25000)).toBeNull();
+    expect(adjustmentProblem(277500, -277500)).toBeNull();
+    expect(adjustmentProblem(277500, 0)).toBe(
+      'amount must be a non-zero number'
+    );
+    expect(adjustmentProblem(277500, -300000)).toMatch(/below zero/);
+  });
+
+  it('should audit adjustments, including ones that are refused', async () => {
+    const auditor = { logSecurityAction: vi.fn() };
+
+    const open = invoiceClient('overdue');
+    const adjustment = await new InvoiceAdminService(
+      open.client,
+      { sendServiceNotification: vi.fn() },
+      auditor
+    ).adjust('inv-1', { description: 'Outage rebate', amount: -25000 }, actor);
+
+    expect(adjustment.id).toBe('adj-1');
+    expect(open.rpc).toHaveBeenCalledWith('add_invoice_adjustment', {
+      p_invoice_id: 'inv-1',
+      p_amount: -25000,
+      p_description: 'Outage rebate',
+      p_created_by: 'admin-1',
+    });
+    expect(auditor.logSecurityAction).toHaveBeenLastCalledWith(
+      'admin-1',
+      'admin_action',
+      'invoices/inv-1',
+      '10.0.0.1',
+      'test',
+      true,
+      expect.objectContaining({ operation: 'adjust', adjustment_id: 'adj-1' })
+    );
+
+    const paid = invoiceClient('paid');
+    await expect(
+      new InvoiceAdminService(
+        paid.client,
+        { sendServiceNotification: vi.fn() },
+        auditor
+      ).adjust('inv-1', { description: 'Late', amount: 10000 }, actor)
+    ).rejects.toThrow('Invoice INV-1 is paid and cannot be adjusted');
+
+    expect(paid.rpc).not.toHaveBeenCalled();
+    expect(auditor.logSecurityAction).toHaveBeenLastCalledWith(
+      'admin-1',
+      'admin_action',
+      'invoices/inv-1',
+      '10.0.0.1',
+      'test',
+      false,
+      expect.objectContaining({
+        operation: 'adjust',
+        error: 'Invoice INV-1 is paid and cannot be adjusted',
+      })
+    );
+  });
+
+  it('should void and reissue in one call, leaving the original alone if it was settled', async () => {
+    const auditor = { logSecurityAction: vi.fn() };
+    const { client, rpc } = invoiceClient('overdue');
+    const service = new InvoiceAdminService(
+      client,
+      { sendServiceNotification: vi.fn() },
+      auditor
+    );
+    const row = (id: string, status: string) => ({
+      id,
+      invoice_number: id.toUpperCase(),
+      user_id: 'user-1',
+      amount: 250000,
+      tax: 27500,
+      total: 277500,
+      due_date: '2025-03-10',
+      status,
+      invoice_items: [],
+      created_at: '2025-02-10',
+      updated_at: '2025-02-10',
+    });
+
+    rpc.mockResolvedValueOnce({
+      data: {
+        original: row('inv-1', 'void'),
+        invoice: row('inv-2', 'sent'),
+        credit_returned: 50000,
+      },
+      error: null,
+    } as never);
+    const { invoice, original } = await service.reissue(
+      'inv-1',
+      { reason: 'Wrong package' },
+      actor
+    );
+
+    expect(invoice.id).toBe('inv-2');
+    expect(original.status).toBe('void');
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'reissue_invoice',
+      expect.objectContaining({
+        p_original_id: 'inv-1',
+        p_reason: 'Reissued: Wrong package',
+        p_voided_by: 'admin-1',
+        p_invoice: expect.objectContaining({
+          total: 277500,
+          reissued_from: 'inv-1',
+        }),
+      })
+    );
+
+    rpc.mockResolvedValueOnce({ data: null, error: null } as never);
+    await expect(
+      service.reissue('inv-1', { reason: 'Wrong package' }, actor)
+    ).rejects.toThrow('Invoice INV-1 was settled before it could be reissued');
+  });
+});
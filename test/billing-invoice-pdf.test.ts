@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renderInvoicePdf,
+  renderReceiptPdf,
+  type InvoiceDocumentData,
+} from '../src/lib/billing/invoice-pdf';
+import { terbilang } from '../src/lib/billing/terbilang';
+import { PdfDocument } from '../src/lib/pdf/document';
+
+const decode = (bytes: Uint8Array): string =>
+  String.fromCharCode(...Array.from(bytes));
+
+const invoice: InvoiceDocumentData = {
+  invoiceNumber: 'INV-202505-0001',
+  status: 'sent',
+  issuedAt: new Date('2025-05-01T00:00:00Z'),
+  dueDate: new Date('2025-05-31T00:00:00Z'),
+  customer: {
+    name: 'Budi Santoso',
+    email: 'budi@example.com',
+    npwp: '01.234.567.8-901.000',
+  },
+  items: [
+    {
+      id: '1',
+      description: 'Home Access - Monthly Subscription',
+      quantity: 1,
+      unitPrice: 200000,
+      total: 200000,
+      itemType: 'charge',
+    },
+    {
+      id: '2',
+      description: 'PPN 11%',
+      quantity: 1,
+      unitPrice: 22000,
+      total: 22000,
+      itemType: 'tax',
+    },
+  ],
+  subtotal: 200000,
+  tax: 22000,
+  taxWithheld: 0,
+  taxDetails: [
+    {
+      code: 'PPN',
+      name: 'PPN 11%',
+      kind: 'vat',
+      rate: 0.11,
+      taxableAmount: 200000,
+      amount: 22000,
+    },
+  ],
+  total: 222000,
+};
+
+const payment = {
+  orderId: 'ORDER-123',
+  method: 'Bank Transfer',
+  gatewayTransactionId: 'f4b1c2d3',
+  amount: 222000,
+  paidAt: new Date('2025-05-03T04:00:00Z'),
+};
+
+describe('Billing documents', () => {
+  describe('terbilang', () => {
+    it('should spell out rupiah amounts in Indonesian', () => {
+      expect(terbilang(0)).toBe('Nol Rupiah');
+      expect(terbilang(11)).toBe('Sebelas Rupiah');
+      expect(terbilang(1000)).toBe('Seribu Rupiah');
+      expect(terbilang(222000)).toBe('Dua Ratus Dua Puluh Dua Ribu Rupiah');
+      expect(terbilang(1150000)).toBe(
+        'Satu Juta Seratus Lima Puluh Ribu Rupiah'
+      );
+    });
+  });
+
+  describe('PdfDocument', () => {
+    it('should write a well-formed PDF with a valid xref table', () => {
+      const doc = new PdfDocument({ title: 'Test (1)' });
+      doc.text('Hello', 40, 40);
+      const output = decode(doc.toBytes());
+
+      expect(output.startsWith('%PDF-1.4')).toBe(true);
+      expect(output.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(output).toContain('/Title (Test \\(1\\))');
+
+      const startxref = Number(output.match(/startxref\n(\d+)/)?.[1]);
+      expect(output.slice(startxref, startxref + 4)).toBe('xref');
+
+      const firstOffset = Number(output.match(/\n(\d{10}) 00000 n/)?.[1]);
+      expect(output.slice(firstOffset, firstOffset + 7)).toBe('1 0 obj');
+    });
+  });
+
+  describe('renderInvoicePdf', () => {
+    it('should list charge lines and tax totals', () => {
+      const output = decode(renderInvoicePdf(invoice));
+
+      expect(output).toContain('(INV-202505-0001) Tj');
+      expect(output).toContain('(Home Access - Monthly Subscription) Tj');
+      expect(output).toContain('(PPN 11%) Tj');
+      expect(output).toContain('(NPWP: 01.234.567.8-901.000) Tj');
+      expect(output).not.toContain('(LUNAS) Tj');
+    });
+
+    it('should stamp paid invoices and print the payment reference', () => {
+      const output = decode(
+        renderInvoicePdf({ ...invoice, status: 'paid', payment })
+      );
+
+      expect(output).toContain('(LUNAS) Tj');
+      expect(output).toContain('(ORDER-123) Tj');
+      expect(output).toContain('(f4b1c2d3) Tj');
+    });
+  });
+
+  describe('renderReceiptPdf', () => {
+    it('should include the amount in words and the payment reference', () => {
+      const output = decode(
+        renderReceiptPdf({
+          receiptNumber: 'KW-ORDER-123',
+          customer: invoice.customer,
+          payment,
+          description: 'Home Access - Monthly Subscription',
+          invoiceNumber: invoice.invoiceNumber,
+        })
+      );
+
+      expect(output).toContain('(KW-ORDER-123) Tj');
+      expect(output).toContain('Dua Ratus Dua Puluh Dua Ribu Rupiah');
+      expect(output).toContain('(ORDER-123 / f4b1c2d3) Tj');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentService } from '../src/lib/payments/service';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const voidedRow = {
+  id: 'inv-1',
+  invoice_number: 'INV/2025/000042',
+  user_id: 'user-1',
+  amount: 300000,
+  subtotal: 300000,
+  tax: 33000,
+  total: 333000,
+  due_date: '2025-06-20T00:00:00Z',
+  status: 'void',
+  void_reason: 'Duplicate',
+  voided_at: '2025-06-06T00:00:00Z',
+  invoice_items: [],
+  created_at: '2025-06-05T00:00:00Z',
+  updated_at: '2025-06-06T00:00:00Z',
+};
+
+describe('Invoice voiding', () => {
+  it('should void and return applied credit in one call, keeping the number', async () => {
+    const rpc = vi.fn(async () => ({
+      data: {
+        invoice: voidedRow,
+        credit_note: { id: 'cn-1', amount: 40000, invoice_id: 'inv-1' },
+      },
+      error: null,
+    }));
+    const supabase = { rpc } as unknown as SupabaseClient;
+
+    const result = await new PaymentService(supabase).voidInvoice(
+      'inv-1',
+      'Duplicate',
+      'admin-1'
+    );
+
+    expect(result?.invoice.invoiceNumber).toBe('INV/2025/000042');
+    expect(result?.invoice.status).toBe('void');
+    expect(result?.invoice.voidReason).toBe('Duplicate');
+    expect(result?.creditNote).toMatchObject({ id: 'cn-1', amount: 40000 });
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('void_invoice', {
+      p_invoice_id: 'inv-1',
+      p_reason: 'Duplicate',
+      p_voided_by: 'admin-1',
+    });
+  });
+
+  it('should return null when the invoice can no longer be voided', async () => {
+    const supabase = {
+      rpc: async () => ({ data: null, error: null }),
+    } as unknown as SupabaseClient;
+
+    await expect(
+      new PaymentService(supabase).voidInvoice('inv-1', 'Duplicate')
+    ).resolves.toBeNull();
+  });
+
+  it('should report no credit note when no credit was applied', async () => {
+    const supabase = {
+      rpc: async () => ({
+        data: { invoice: voidedRow, credit_note: null },
+        error: null,
+      }),
+    } as unknown as SupabaseClient;
+
+    const result = await new PaymentService(supabase).voidInvoice(
+      'inv-1',
+      'Duplicate'
+    );
+
+    expect(result?.creditNote).toBeNull();
+  });
+});
+
+describe('Invoice creation', () => {
+  it('should insert the invoice and its lines in one call', async () => {
+    const rpc = vi.fn(async () => ({
+      data: {
+        id: 'inv-1',
+        invoice_number: 'INV/2025/000043',
+        user_id: 'user-1',
+        amount: 300000,
+        tax: 33000,
+        total: 333000,
+        due_date: '2025-06-20T00:00:00Z',
+        status: 'sent',
+        invoice_items: [
+          {
+            id: 'item-1',
+            description: 'Home 50 Mbps',
+            quantity: 1,
+            unit_price: 300000,
+            total: 300000,
+            item_type: 'charge',
+          },
+        ],
+        created_at: '2025-06-05T00:00:00Z',
+        updated_at: '2025-06-05T00:00:00Z',
+      },
+      error: null,
+    }));
+    const from = vi.fn();
+    const supabase = { rpc, from } as unknown as SupabaseClient;
+
+    const invoice = await new PaymentService(supabase).createInvoice({
+      userId: 'user-1',
+      transactionId: null,
+      amount: 300000,
+      subtotal: 300000,
+      tax: 33000,
+      total: 333000,
+      dueDate: new Date('2025-06-20T00:00:00Z'),
+      status: 'sent',
+      items: [
+        {
+          id: '',
+          description: 'Home 50 Mbps',
+          quantity: 1,
+          unitPrice: 300000,
+          total: 300000,
+        },
+      ],
+    });
+
+    expect(invoice.invoiceNumber).toBe('INV/2025/000043');
+    expect(invoice.items).toHaveLength(1);
+    expect(from).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith('create_invoice_with_items', {
+      p_invoice: expect.objectContaining({ user_id: 'user-1', total: 333000 }),
+      p_items: [
+        expect.objectContaining({
+          description: 'Home 50 Mbps',
+          unit_price: 300000,
+          item_type: 'charge',
+        }),
+      ],
+    });
+  });
+
+  it('should settle what a billing cycle invoice uses up in the same call', async () => {
+    const rpc = vi.fn(async () => ({
+      data: {
+        id: 'inv-2',
+        invoice_number: 'INV/2025/000044',
+        user_id: 'user-1',
+        amount: 250000,
+        tax: 27500,
+        total: 277500,
+        due_date: '2025-06-20T00:00:00Z',
+        status: 'sent',
+        invoice_items: [],
+        created_at: '2025-06-05T00:00:00Z',
+        updated_at: '2025-06-05T00:00:00Z',
+      },
+      error: null,
+    }));
+    const from = vi.fn();
+    const supabase = { rpc, from } as unknown as SupabaseClient;
+
+    await new PaymentService(supabase).createInvoice({
+      userId: 'user-1',
+      transactionId: null,
+      amount: 250000,
+      subtotal: 250000,
+      tax: 27500,
+      total: 277500,
+      dueDate: new Date('2025-06-20T00:00:00Z'),
+      status: 'sent',
+      items: [],
+      settlement: {
+        period: '2025-06-01',
+        planChangeCredits: [{ subscriptionId: 'sub-1', amount: 20000 }],
+        accountCredit: 30000,
+        overageChargeIds: ['overage-1'],
+        chargeIds: ['charge-1'],
+        promotions: [
+          { redemptionId: 'red-1', subscriptionId: 'sub-1', amount: 50000 },
+        ],
+      },
+    });
+
+    // Nothing is written outside the invoice's transaction
+    expect(from).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'create_invoice_with_items',
+      expect.objectContaining({
+        p_settlement: {
+          period: '2025-06-01',
+          plan_change_credits: [{ subscription_id: 'sub-1', amount: 20000 }],
+          account_credit: 30000,
+          overage_charge_ids: ['overage-1'],
+          charge_ids: ['charge-1'],
+          promotions: [
+            { redemption_id: 'red-1', subscription_id: 'sub-1', amount: 50000 },
+          ],
+        },
+      })
+    );
+  });
+});
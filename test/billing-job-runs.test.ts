@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  JobRunService,
+  billingPeriod,
+} from '../src/lib/billing/job-run-service';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+describe('Billing job runs', () => {
+  it('should key runs by the Jakarta calendar day', () => {
+    // 18:30 UTC is already the next day in WIB (UTC+7)
+    expect(billingPeriod(new Date('2025-06-30T18:30:00Z'))).toBe('2025-07-01');
+    expect(billingPeriod(new Date('2025-06-30T16:00:00Z'))).toBe('2025-06-30');
+  });
+
+  it('should not claim a billing period twice', async () => {
+    const insert = vi
+      .fn()
+      .mockResolvedValueOnce({ error: null })
+      .mockResolvedValueOnce({
+        error: { code: '23505', message: 'duplicate key value' },
+      });
+    const service = new JobRunService({
+      from: () => ({ insert }),
+    } as unknown as SupabaseClient);
+
+    expect(await service.claimPeriod(['sub-1', 'sub-2'], '2025-07-01')).toBe(
+      true
+    );
+    expect(await service.claimPeriod(['sub-2'], '2025-07-01')).toBe(false);
+    expect(insert).toHaveBeenCalledWith([
+      { subscription_id: 'sub-1', period: '2025-07-01', job_run_id: null },
+      { subscription_id: 'sub-2', period: '2025-07-01', job_run_id: null },
+    ]);
+  });
+
+  it('should only hold the lock when the lease was granted', async () => {
+    const rpc = vi
+      .fn()
+      .mockResolvedValueOnce({ data: true, error: null })
+      .mockResolvedValueOnce({ data: false, error: null });
+    const service = new JobRunService({ rpc } as unknown as SupabaseClient);
+
+    expect(await service.acquireLock('run-a')).toBe(true);
+    expect(await service.acquireLock('run-b')).toBe(false);
+    expect(rpc).toHaveBeenLastCalledWith('acquire_billing_job_lock', {
+      p_lock_name: 'scheduled_billing',
+      p_holder: 'run-b',
+      p_lease_seconds: 900,
+    });
+  });
+
+  it('should renew the lease during a long job and stop once it is lost', async () => {
+    vi.useFakeTimers();
+    try {
+      const rpc = vi
+        .fn()
+        .mockResolvedValueOnce({ data: true, error: null })
+        .mockResolvedValueOnce({ data: false, error: null });
+      const keepLease = new JobRunService({
+        rpc,
+      } as unknown as SupabaseClient).keepLease('run-a');
+
+      await keepLease();
+      expect(rpc).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      await keepLease();
+      expect(rpc).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      await expect(keepLease()).rejects.toThrow('Billing run lock was lost');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should record a run with item errors as partial', async () => {
+    const update = vi.fn((values: Record<string, unknown>) => ({
+      eq: () => ({
+        select: () => ({
+          single: async () => ({ data: { id: 'run-1', ...values } }),
+        }),
+      }),
+    }));
+    const service = new JobRunService({
+      from: () => ({
+        select: () => ({
+          eq: () => ({
+            eq: () => ({
+              eq: () => ({ limit: async () => ({ data: [], error: null }) }),
+            }),
+          }),
+        }),
+        insert: () => ({
+          select: () => ({
+            single: async () => ({ data: { id: 'run-1' }, error: null }),
+          }),
+        }),
+        update,
+      }),
+    } as unknown as SupabaseClient);
+
+    const run = await service.runJob(
+      'invoice_generation',
+      '2025-07-01',
+      { trigger: 'cron' },
+      async () => ({
+        success: true,
+        processed: 41,
+        errors: ['Failed to generate invoice for subscription sub-9'],
+      })
+    );
+
+    expect(run.status).toBe('partial');
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'partial', error_count: 1 })
+    );
+  });
+});
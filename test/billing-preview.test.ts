@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findAnomalies,
+  previewCsvRows,
+  summarizePreview,
+  type BillingPreviewEntry,
+} from '../src/lib/billing/preview';
+
+function entry(
+  overrides: Partial<BillingPreviewEntry> = {}
+): BillingPreviewEntry {
+  return {
+    userId: 'user-1',
+    billingAccountId: null,
+    subscriptionIds: ['sub-1'],
+    period: '2025-07-01',
+    subtotal: 300000,
+    tax: 33000,
+    taxWithheld: 0,
+    total: 333000,
+    items: [],
+    previousTotal: 333000,
+    anomalies: [],
+    ...overrides,
+  };
+}
+
+describe('Billing preview', () => {
+  it('should flag zero invoices and large swings from last month', () => {
+    expect(findAnomalies(333000, 333000)).toEqual([]);
+    expect(findAnomalies(0, 333000)).toEqual(['zero_amount', 'large_change']);
+    expect(findAnomalies(600000, 333000)).toEqual(['large_change']);
+    expect(findAnomalies(450000, 333000)).toEqual([]);
+    // First invoice: nothing to compare against
+    expect(findAnomalies(2500000, null)).toEqual([]);
+  });
+
+  it('should total only the invoices that could be computed', () => {
+    const preview = summarizePreview(
+      [
+        entry(),
+        entry({ userId: 'user-2', total: 0, anomalies: ['zero_amount'] }),
+        entry({
+          userId: 'user-3',
+          subtotal: 0,
+          tax: 0,
+          total: 0,
+          anomalies: ['missing_package'],
+          error: 'Package not found',
+        }),
+      ],
+      new Date('2025-07-01T00:00:00Z')
+    );
+
+    expect(preview).toMatchObject({
+      generatedAt: '2025-07-01T00:00:00.000Z',
+      invoiceCount: 2,
+      subtotal: 600000,
+      tax: 66000,
+      total: 333000,
+      flaggedCount: 2,
+    });
+  });
+
+  it('should export one CSV row per invoice', () => {
+    const rows = previewCsvRows(
+      summarizePreview([
+        entry({
+          billingAccountId: 'acct-1',
+          subscriptionIds: ['sub-1', 'sub-2'],
+          previousTotal: null,
+        }),
+      ])
+    );
+
+    expect(rows).toEqual([
+      [
+        'user-1',
+        'acct-1',
+        'sub-1 sub-2',
+        '2025-07-01',
+        '300000.00',
+        '33000.00',
+        '0.00',
+        '333000.00',
+        undefined,
+        '',
+        undefined,
+      ],
+    ]);
+  });
+});
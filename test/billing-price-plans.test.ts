@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  existingSubscriberEffectiveDate,
+  planInEffect,
+} from '../src/lib/billing/price-plans';
+import { PricePlanService } from '../src/lib/billing/price-plan-service';
+import type { PackagePricePlan } from '../src/lib/billing/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/email/service', () => ({ emailService: {} }));
+
+function plan(overrides: Partial<PackagePricePlan> = {}): PackagePricePlan {
+  return {
+    id: 'plan-1',
+    package_id: 'pkg-1',
+    monthly_price: 200000,
+    effective_from: '2025-01-01',
+    notice_days: 30,
+    grandfather_existing: false,
+    description: null,
+    status: 'active',
+    created_by: null,
+    created_at: '2024-12-01T00:00:00Z',
+    updated_at: '2024-12-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Package price plans', () => {
+  it('should price new subscriptions from the latest plan in effect', () => {
+    const plans = [
+      plan(),
+      plan({
+        id: 'plan-2',
+        monthly_price: 225000,
+        effective_from: '2025-07-01',
+      }),
+      plan({
+        id: 'plan-3',
+        monthly_price: 250000,
+        effective_from: '2025-06-01',
+        status: 'cancelled',
+      }),
+    ];
+
+    expect(planInEffect(plans, '2024-12-31')).toBeNull();
+    expect(planInEffect(plans, '2025-06-15')?.id).toBe('plan-1');
+    expect(planInEffect(plans, '2025-07-01')?.id).toBe('plan-2');
+  });
+
+  it('should give existing subscribers the full notice period', () => {
+    const increase = plan({ effective_from: '2025-07-01', notice_days: 30 });
+
+    // Announced well ahead: the plan date stands
+    expect(
+      existingSubscriberEffectiveDate(
+        increase,
+        new Date('2025-05-01T03:00:00Z')
+      )
+    ).toBe('2025-07-01');
+    // Announced late: pushed back to the end of the notice period
+    expect(
+      existingSubscriberEffectiveDate(
+        increase,
+        new Date('2025-06-20T03:00:00Z')
+      )
+    ).toBe('2025-07-20');
+  });
+
+  it('should email notice and fix the effective date when it is sent', async () => {
+    const update = vi.fn();
+    const updateQuery = {
+      eq: () => updateQuery,
+      is: () => Promise.resolve({ error: null }),
+    };
+    update.mockReturnValue(updateQuery);
+
+    const pending = [
+      {
+        id: 'change-1',
+        user_id: 'user-1',
+        old_amount: 200000,
+        new_amount: 225000,
+        package_price_plans: {
+          effective_from: '2025-07-01',
+          notice_days: 30,
+          packages: { name: 'Home Access' },
+        },
+      },
+    ];
+    const selectQuery = {
+      eq: () => selectQuery,
+      is: () => Promise.resolve({ data: pending, error: null }),
+    };
+
+    const client = {
+      from: () => ({ select: () => selectQuery, update }),
+      auth: {
+        admin: {
+          getUserById: async () => ({
+            data: { user: { email: 'customer@example.com' } },
+            error: null,
+          }),
+        },
+      },
+    } as unknown as SupabaseClient;
+    const mailer = {
+      sendPriceChangeNotice: vi.fn().mockResolvedValue('email-1'),
+    };
+
+    const sent = await new PricePlanService(client, mailer).sendNotices(
+      new Date('2025-06-20T03:00:00Z')
+    );
+
+    expect(sent).toBe(1);
+    expect(mailer.sendPriceChangeNotice).toHaveBeenCalledWith(
+      'customer@example.com',
+      expect.objectContaining({
+        packageName: 'Home Access',
+        oldAmount: 200000,
+        newAmount: 225000,
+      })
+    );
+    expect(update).toHaveBeenCalledWith({
+      notice_sent_at: '2025-06-20T03:00:00.000Z',
+      effective_on: '2025-07-20',
+    });
+  });
+});
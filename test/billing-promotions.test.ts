@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  appliesToSubscription,
+  buildDiscountLines,
+  discountAmount,
+  generateReferralCode,
+  normalizePromoCode,
+  promotionUnavailableReason,
+} from '../src/lib/billing/promotions';
+import { PromotionService } from '../src/lib/billing/promotion-service';
+import type { TaxableLine } from '../src/lib/billing/tax';
+import type { Promotion, PromotionRedemption } from '../src/lib/billing/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function promotion(overrides: Partial<Promotion> = {}): Promotion {
+  return {
+    id: 'promo-1',
+    code: 'HOME50',
+    name: 'Home Access 50% off',
+    description: null,
+    discount_type: 'percentage',
+    discount_value: 50,
+    applies_to: 'recurring_service',
+    duration_months: 3,
+    eligible_package_ids: [],
+    max_redemptions: null,
+    redemption_count: 0,
+    starts_at: null,
+    ends_at: null,
+    is_active: true,
+    is_referral: false,
+    referrer_credit_amount: 0,
+    created_by: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function redemption(
+  overrides: Partial<PromotionRedemption> = {}
+): PromotionRedemption {
+  return {
+    id: 'red-1',
+    promotion_id: 'promo-1',
+    user_id: 'user-1',
+    subscription_id: null,
+    referred_by: null,
+    status: 'active',
+    periods_applied: 0,
+    total_discount: 0,
+    referrer_credit_note_id: null,
+    redeemed_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const serviceLine: TaxableLine = {
+  description: 'Home Access - Monthly Subscription',
+  quantity: 1,
+  unitPrice: 300000,
+  total: 300000,
+  category: 'recurring_service',
+};
+
+describe('Promotions', () => {
+  it('should compute percentage and capped fixed discounts', () => {
+    expect(discountAmount(promotion(), 300000)).toBe(150000);
+    expect(
+      discountAmount(
+        promotion({ discount_type: 'fixed', discount_value: 500000 }),
+        300000
+      )
+    ).toBe(300000);
+    expect(discountAmount(promotion(), 0)).toBe(0);
+  });
+
+  it('should stack discounts without taking a category below zero', () => {
+    const { lines, applied } = buildDiscountLines(
+      [serviceLine],
+      [
+        { redemption: redemption(), promotion: promotion() },
+        {
+          redemption: redemption({ id: 'red-2' }),
+          promotion: promotion({
+            id: 'promo-2',
+            code: 'FLAT200',
+            name: 'Flat discount',
+            discount_type: 'fixed',
+            discount_value: 200000,
+          }),
+        },
+        {
+          redemption: redemption({ id: 'red-3' }),
+          promotion: promotion({
+            id: 'promo-3',
+            code: 'FREEINSTALL',
+            name: 'Free installation',
+            applies_to: 'installation',
+            discount_value: 100,
+          }),
+        },
+      ]
+    );
+
+    expect(lines).toEqual([
+      {
+        description: 'Home Access 50% off (HOME50)',
+        quantity: 1,
+        unitPrice: -150000,
+        total: -150000,
+        category: 'recurring_service',
+        itemType: 'discount',
+      },
+      expect.objectContaining({ total: -150000, itemType: 'discount' }),
+    ]);
+    expect(
+      applied.map(discount => [discount.redemption.id, discount.amount])
+    ).toEqual([
+      ['red-1', 150000],
+      ['red-2', 150000],
+    ]);
+  });
+
+  it('should only apply within duration, package and bound subscription', () => {
+    const subscription = { id: 'sub-1', package_id: 'pkg-home' };
+    const held = { redemption: redemption(), promotion: promotion() };
+
+    expect(appliesToSubscription(held, subscription)).toBe(true);
+    expect(
+      appliesToSubscription(
+        { ...held, redemption: redemption({ periods_applied: 3 }) },
+        subscription
+      )
+    ).toBe(false);
+    expect(
+      appliesToSubscription(
+        {
+          ...held,
+          promotion: promotion({ eligible_package_ids: ['pkg-biz'] }),
+        },
+        subscription
+      )
+    ).toBe(false);
+    expect(
+      appliesToSubscription(
+        { ...held, redemption: redemption({ subscription_id: 'sub-2' }) },
+        subscription
+      )
+    ).toBe(false);
+  });
+
+  it('should refuse redemption outside the window or over the limit', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+
+    expect(promotionUnavailableReason(promotion(), now)).toBeNull();
+    expect(
+      promotionUnavailableReason(
+        promotion({ ends_at: '2025-05-31T00:00:00Z' }),
+        now
+      )
+    ).toMatch(/ended/);
+    expect(
+      promotionUnavailableReason(
+        promotion({ max_redemptions: 10, redemption_count: 10 }),
+        now
+      )
+    ).toMatch(/fully redeemed/);
+  });
+
+  it('should normalise codes and generate unambiguous referral codes', () => {
+    expect(normalizePromoCode('  home50 ')).toBe('HOME50');
+    expect(generateReferralCode()).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+  });
+
+  it('should not let customers redeem their own referral code', async () => {
+    // No promo code matches; the referral code belongs to the customer
+    const results: Record<string, unknown[]> = {
+      promotions: [null, promotion({ code: null, is_referral: true })],
+      customer_referral_codes: [{ user_id: 'user-1' }],
+    };
+    const rpc = vi.fn();
+    const supabase = {
+      from: (table: string) => {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          order: () => query,
+          limit: () => query,
+          maybeSingle: async () => ({
+            data: results[table].shift(),
+            error: null,
+          }),
+        };
+        return query;
+      },
+      rpc,
+    } as unknown as SupabaseClient;
+
+    await expect(
+      new PromotionService(supabase).redeemCode('user-1', 'abcd2345')
+    ).rejects.toThrow(/own referral code/);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
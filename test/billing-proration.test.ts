@@ -0,0 +1,309 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateProration,
+  daysBetween,
+  getCycleStart,
+} from '../src/lib/billing/proration';
+import { PlanChangeService } from '../src/lib/billing/plan-change';
+import type { TaxableLine } from '../src/lib/billing/tax';
+
+const packages: Record<
+  string,
+  { id: string; name: string; price: number; is_active: boolean }
+> = {
+  'pkg-home': { id: 'pkg-home', name: 'Home', price: 200000, is_active: true },
+  'pkg-pro': { id: 'pkg-pro', name: 'Pro', price: 750000, is_active: true },
+  'pkg-basic': {
+    id: 'pkg-basic',
+    name: 'Basic',
+    price: 100000,
+    is_active: true,
+  },
+  'pkg-legacy': {
+    id: 'pkg-legacy',
+    name: 'Legacy',
+    price: 900000,
+    is_active: false,
+  },
+};
+
+const cancelPendingChanges = vi.fn();
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/billing/price-plan-service', () => ({
+  PricePlanService: class {
+    async getPackagePrice(packageId: string) {
+      return { price: packages[packageId].price, pricePlanId: null };
+    }
+
+    cancelPendingChanges = cancelPendingChanges;
+  },
+}));
+
+vi.mock('../src/lib/billing/tax-service', () => ({
+  TaxService: class {
+    async calculateInvoiceTax(_userId: string, lines: TaxableLine[]) {
+      const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+      const vat = Math.round(subtotal * 0.11);
+      return {
+        subtotal,
+        vat,
+        withheld: 0,
+        total: subtotal + vat,
+        applied: [],
+        items: lines.map(line => ({ id: '', ...line })),
+      };
+    }
+  },
+}));
+
+/** A customer on Home halfway through a cycle ending May 1 */
+function planChangeSupabase(rpcData: unknown) {
+  const subscription = {
+    id: 'sub-1',
+    user_id: 'user-1',
+    package_id: 'pkg-home',
+    monthly_amount: 200000,
+    next_billing_date: '2025-05-01',
+    proration_credit: 0,
+    is_active: true,
+  };
+  const rpc = vi.fn(async () => ({ data: rpcData, error: null }));
+  const from = vi.fn((table: string) => {
+    const filters: Record<string, unknown> = {};
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters[column] = value;
+        return query;
+      },
+      single: async () => {
+        const row =
+          table === 'packages'
+            ? packages[filters.id as string]
+            : filters.id === subscription.id
+              ? subscription
+              : null;
+        return { data: row ?? null, error: row ? null : { message: 'none' } };
+      },
+    };
+    return query;
+  });
+
+  return { supabase: { rpc, from } as unknown as SupabaseClient, rpc };
+}
+
+describe('Billing Proration', () => {
+  describe('daysBetween', () => {
+    it('should count whole calendar days', () => {
+      expect(
+        daysBetween(new Date(2025, 0, 1, 23, 0), new Date(2025, 0, 31, 1, 0))
+      ).toBe(30);
+    });
+
+    it('should return negative values for past dates', () => {
+      expect(daysBetween(new Date(2025, 0, 10), new Date(2025, 0, 5))).toBe(-5);
+    });
+  });
+
+  describe('getCycleStart', () => {
+    it('should start the cycle one month before the next billing date', () => {
+      const start = getCycleStart(new Date(2025, 2, 1));
+      expect(start.getFullYear()).toBe(2025);
+      expect(start.getMonth()).toBe(1);
+      expect(start.getDate()).toBe(1);
+    });
+
+    it('should clamp to the last day of a shorter previous month', () => {
+      const fromMarch = getCycleStart(new Date(2025, 2, 31));
+      expect([fromMarch.getMonth(), fromMarch.getDate()]).toEqual([1, 28]);
+
+      const leapYear = getCycleStart(new Date(2024, 2, 31));
+      expect([leapYear.getMonth(), leapYear.getDate()]).toEqual([1, 29]);
+
+      const fromMay = getCycleStart(new Date(2025, 4, 31));
+      expect([fromMay.getMonth(), fromMay.getDate()]).toEqual([3, 30]);
+    });
+
+    it('should start a January 31 cycle on December 31 of the previous year', () => {
+      const start = getCycleStart(new Date(2025, 0, 31));
+      expect(start.getFullYear()).toBe(2024);
+      expect(start.getMonth()).toBe(11);
+      expect(start.getDate()).toBe(31);
+    });
+
+    it('should count the days of a month-end cycle', () => {
+      const result = calculateProration({
+        oldMonthlyAmount: 280000,
+        newMonthlyAmount: 560000,
+        changeDate: new Date(2025, 2, 17),
+        nextBillingDate: new Date(2025, 2, 31),
+      });
+
+      expect(result.daysInCycle).toBe(31);
+      expect(result.daysRemaining).toBe(14);
+    });
+  });
+
+  describe('calculateProration', () => {
+    it('should credit the old plan and charge the new plan for the remaining days', () => {
+      const result = calculateProration({
+        oldMonthlyAmount: 200000,
+        newMonthlyAmount: 750000,
+        changeDate: new Date(2025, 3, 16),
+        nextBillingDate: new Date(2025, 4, 1),
+      });
+
+      expect(result.daysInCycle).toBe(30);
+      expect(result.daysRemaining).toBe(15);
+      expect(result.credit).toBe(100000);
+      expect(result.charge).toBe(375000);
+      expect(result.net).toBe(275000);
+    });
+
+    it('should produce a negative net for downgrades', () => {
+      const result = calculateProration({
+        oldMonthlyAmount: 750000,
+        newMonthlyAmount: 200000,
+        changeDate: new Date(2025, 3, 16),
+        nextBillingDate: new Date(2025, 4, 1),
+      });
+
+      expect(result.net).toBe(-275000);
+    });
+
+    it('should charge nothing when the change happens on the billing date', () => {
+      const result = calculateProration({
+        oldMonthlyAmount: 200000,
+        newMonthlyAmount: 750000,
+        changeDate: new Date(2025, 4, 1),
+        nextBillingDate: new Date(2025, 4, 1),
+      });
+
+      expect(result.daysRemaining).toBe(0);
+      expect(result.credit).toBe(0);
+      expect(result.charge).toBe(0);
+    });
+
+    it('should cap remaining days at the cycle length', () => {
+      const result = calculateProration({
+        oldMonthlyAmount: 200000,
+        newMonthlyAmount: 300000,
+        changeDate: new Date(2025, 0, 1),
+        nextBillingDate: new Date(2025, 4, 1),
+      });
+
+      expect(result.daysRemaining).toBe(result.daysInCycle);
+      expect(result.credit).toBe(200000);
+      expect(result.charge).toBe(300000);
+    });
+  });
+});
+
+describe('Plan changes', () => {
+  const changeDate = new Date(2025, 3, 16);
+
+  it('should not change to a package that is no longer offered', async () => {
+    const { supabase, rpc } = planChangeSupabase(null);
+
+    await expect(
+      new PlanChangeService(supabase).applyPlanChange(
+        'user-1',
+        'sub-1',
+        'pkg-legacy',
+        changeDate
+      )
+    ).rejects.toThrow('no longer available');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should invoice an upgrade and switch the package in one call', async () => {
+    const { supabase, rpc } = planChangeSupabase({
+      subscription: { id: 'sub-1', package_id: 'pkg-pro' },
+      invoice: {
+        id: 'inv-1',
+        invoice_number: 'INV/2025/000050',
+        user_id: 'user-1',
+        amount: 275000,
+        tax: 30250,
+        total: 305250,
+        due_date: '2025-04-23T00:00:00Z',
+        status: 'sent',
+        invoice_items: [],
+        created_at: '2025-04-16T00:00:00Z',
+        updated_at: '2025-04-16T00:00:00Z',
+      },
+      plan_change: { id: 'change-1' },
+    });
+
+    const { invoice } = await new PlanChangeService(supabase).applyPlanChange(
+      'user-1',
+      'sub-1',
+      'pkg-pro',
+      changeDate
+    );
+
+    expect(invoice?.invoiceNumber).toBe('INV/2025/000050');
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith(
+      'apply_plan_change',
+      expect.objectContaining({
+        p_subscription_id: 'sub-1',
+        p_from_package_id: 'pkg-home',
+        p_to_package_id: 'pkg-pro',
+        p_monthly_amount: 750000,
+        p_carried_credit: 0,
+        p_invoice: expect.objectContaining({ total: 305250, status: 'sent' }),
+        p_items: [
+          expect.objectContaining({ total: -100000, item_type: 'credit' }),
+          expect.objectContaining({ total: 375000 }),
+        ],
+      })
+    );
+    expect(cancelPendingChanges).toHaveBeenCalledWith('sub-1');
+  });
+
+  it('should carry a downgrade credit without an invoice', async () => {
+    const { supabase, rpc } = planChangeSupabase({
+      subscription: { id: 'sub-1', package_id: 'pkg-basic' },
+      invoice: null,
+      plan_change: { id: 'change-2' },
+    });
+
+    const { invoice } = await new PlanChangeService(supabase).applyPlanChange(
+      'user-1',
+      'sub-1',
+      'pkg-basic',
+      changeDate
+    );
+
+    expect(invoice).toBeNull();
+    expect(rpc).toHaveBeenCalledWith(
+      'apply_plan_change',
+      expect.not.objectContaining({ p_invoice: expect.anything() })
+    );
+    expect(rpc).toHaveBeenCalledWith(
+      'apply_plan_change',
+      expect.objectContaining({ p_carried_credit: 50000 })
+    );
+  });
+
+  it('should change nothing when the subscription moved package meanwhile', async () => {
+    cancelPendingChanges.mockClear();
+    const { supabase } = planChangeSupabase(null);
+
+    await expect(
+      new PlanChangeService(supabase).applyPlanChange(
+        'user-1',
+        'sub-1',
+        'pkg-pro',
+        changeDate
+      )
+    ).rejects.toThrow('changed while the plan change was being applied');
+    expect(cancelPendingChanges).not.toHaveBeenCalled();
+  });
+});
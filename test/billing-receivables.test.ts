@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import {
+  agingBucket,
+  buildAgingReport,
+  buildStatementLines,
+  buildStatementOfAccount,
+  type StatementLedgerEntry,
+} from '../src/lib/billing/receivables';
+import {
+  renderAgingReportPdf,
+  renderStatementPdf,
+} from '../src/lib/billing/invoice-pdf';
+import { toCsv } from '../src/lib/billing/csv';
+import type { Invoice, PaymentTransaction } from '../src/lib/payments/types';
+
+const decode = (bytes: Uint8Array): string =>
+  String.fromCharCode(...Array.from(bytes));
+
+const asOf = new Date(2025, 5, 30);
+
+function daysAgo(days: number): Date {
+  const date = new Date(asOf);
+  date.setDate(date.getDate() - days);
+  return date;
+}
+
+function invoice(
+  invoiceNumber: string,
+  total: number,
+  createdAt: Date,
+  status: Invoice['status'] = 'sent'
+): Invoice {
+  return {
+    id: invoiceNumber,
+    invoiceNumber,
+    userId: 'user-1',
+    transactionId: null,
+    amount: total,
+    subtotal: total,
+    tax: 0,
+    total,
+    dueDate: createdAt,
+    status,
+    items: [],
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+function payment(orderId: string, amount: number, paidAt: Date) {
+  return {
+    id: orderId,
+    orderId,
+    userId: 'user-1',
+    amount,
+    currency: 'IDR',
+    status: 'success',
+    paymentMethod: { name: 'Bank Transfer' },
+    createdAt: paidAt,
+    updatedAt: paidAt,
+  } as PaymentTransaction;
+}
+
+describe('Accounts receivable', () => {
+  describe('agingBucket', () => {
+    it('should bucket by days past due', () => {
+      expect(agingBucket(daysAgo(-5), asOf)).toBe('current');
+      expect(agingBucket(daysAgo(0), asOf)).toBe('current');
+      expect(agingBucket(daysAgo(1), asOf)).toBe('1_30');
+      expect(agingBucket(daysAgo(30), asOf)).toBe('1_30');
+      expect(agingBucket(daysAgo(31), asOf)).toBe('31_60');
+      expect(agingBucket(daysAgo(90), asOf)).toBe('61_90');
+      expect(agingBucket(daysAgo(91), asOf)).toBe('90_plus');
+    });
+  });
+
+  describe('buildAgingReport', () => {
+    it('should total each customer and bucket', () => {
+      const report = buildAgingReport(
+        [
+          {
+            id: 'a',
+            userId: 'user-1',
+            invoiceNumber: 'A',
+            total: 100000,
+            dueDate: daysAgo(-3),
+          },
+          {
+            id: 'b',
+            userId: 'user-1',
+            invoiceNumber: 'B',
+            total: 150000,
+            dueDate: daysAgo(45),
+          },
+          {
+            id: 'c',
+            userId: 'user-2',
+            invoiceNumber: 'C',
+            total: 400000,
+            dueDate: daysAgo(120),
+          },
+        ],
+        asOf,
+        { 'user-1': 'Budi Santoso' }
+      );
+
+      expect(report.customers.map(c => c.customerName)).toEqual([
+        'user-2',
+        'Budi Santoso',
+      ]);
+      expect(report.customers[1]).toMatchObject({
+        invoiceCount: 2,
+        total: 250000,
+        buckets: { current: 100000, '31_60': 150000 },
+      });
+      expect(report.totals).toMatchObject({
+        current: 100000,
+        '1_30': 0,
+        '31_60': 150000,
+        '90_plus': 400000,
+        total: 650000,
+      });
+    });
+  });
+
+  describe('statement of account', () => {
+    const ledger = [
+      {
+        entry_type: 'credit_note',
+        amount: 50000,
+        created_at: daysAgo(20).toISOString(),
+        credit_notes: {
+          credit_note_number: 'CN-202506-0001',
+          reason: 'service_outage',
+        },
+      },
+      {
+        entry_type: 'invoice_application',
+        amount: 50000,
+        description: 'Applied to invoice INV-2',
+        created_at: daysAgo(9).toISOString(),
+      },
+    ] as StatementLedgerEntry[];
+
+    const lines = buildStatementLines(
+      [
+        invoice('INV-1', 222000, daysAgo(40), 'paid'),
+        invoice('INV-2', 172000, daysAgo(10)),
+        invoice('INV-X', 99000, daysAgo(5), 'cancelled'),
+      ],
+      [payment('ORDER-1', 222000, daysAgo(35))],
+      ledger
+    );
+
+    it('should list activity in date order and skip cancelled invoices', () => {
+      expect(lines.map(line => line.type)).toEqual([
+        'invoice',
+        'payment',
+        'credit_note',
+        'invoice',
+        'credit_applied',
+      ]);
+      expect(lines[2]).toMatchObject({
+        reference: 'CN-202506-0001',
+        description: 'Credit note - service outage',
+        credit: 50000,
+      });
+    });
+
+    it('should carry earlier activity into the opening balance', () => {
+      const full = buildStatementOfAccount(lines, {
+        userId: 'user-1',
+        customerName: 'Budi Santoso',
+        to: asOf,
+      });
+      expect(full.openingBalance).toBe(0);
+      expect(full.lines.map(line => line.balance)).toEqual([
+        222000, 0, -50000, 122000, 172000,
+      ]);
+      expect(full.closingBalance).toBe(172000);
+
+      const period = buildStatementOfAccount(lines, {
+        userId: 'user-1',
+        customerName: 'Budi Santoso',
+        from: daysAgo(15),
+        to: asOf,
+      });
+      expect(period.openingBalance).toBe(-50000);
+      expect(period.lines).toHaveLength(2);
+      expect(period.closingBalance).toBe(172000);
+    });
+
+    it('should render the statement and aging report as PDF', () => {
+      const statement = decode(
+        renderStatementPdf(
+          buildStatementOfAccount(lines, {
+            userId: 'user-1',
+            customerName: 'Budi Santoso',
+            to: asOf,
+          })
+        )
+      );
+      expect(statement.startsWith('%PDF-1.4')).toBe(true);
+      expect(statement).toContain('(CN-202506-0001) Tj');
+      expect(statement).toContain('(Amount due: Rp 172.000) Tj');
+
+      const aging = decode(
+        renderAgingReportPdf(
+          buildAgingReport(
+            [
+              {
+                id: 'a',
+                userId: 'user-1',
+                invoiceNumber: 'A',
+                total: 100000,
+                dueDate: daysAgo(10),
+              },
+            ],
+            asOf,
+            { 'user-1': 'Budi Santoso' }
+          )
+        )
+      );
+      expect(aging).toContain('(Budi Santoso) Tj');
+      expect(aging).toContain('(1-30 days) Tj');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote values containing separators', () => {
+      expect(
+        toCsv(
+          ['Name', 'Note'],
+          [
+            ['PT Maju, Tbk', 'said "hi"'],
+            [1, null],
+          ]
+        )
+      ).toBe('Name,Note\r\n"PT Maju, Tbk","said ""hi"""\r\n1,');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_TAX_PROFILE,
+  DEFAULT_TAX_RULES,
+  calculateTax,
+  getRulesInEffect,
+  type CustomerTaxProfile,
+  type TaxableLine,
+} from '../src/lib/billing/tax';
+import { TaxService } from '../src/lib/billing/tax-service';
+import { POST as saveBillingSettings } from '../src/pages/api/billing/settings';
+
+const savedPreferences = vi.fn();
+
+vi.mock('../src/lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      upsert: (row: Record<string, unknown>) => {
+        savedPreferences(row);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  },
+}));
+
+vi.mock('../src/lib/utils/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/lib/utils/api')>()),
+  authenticateRequest: async () => ({
+    id: 'user-1',
+    email: 'budi@example.com',
+  }),
+}));
+
+/**
+ * A client with the default tax rules, the given tax profile row for the
+ * customer and billing preferences claiming every tax status there is.
+ */
+function taxClient(profile: Record<string, unknown> | null) {
+  const tables: Record<string, unknown> = {
+    tax_rules: { data: [], error: null },
+    customer_tax_profiles: { data: profile, error: null },
+    billing_preferences: {
+      data: {
+        tax_information: {
+          is_business: true,
+          tax_exempt: true,
+          withholds_pph23: true,
+        },
+      },
+      error: null,
+    },
+  };
+  const query = (result: unknown): unknown => {
+    const resolved = Promise.resolve(result);
+    return Object.assign(resolved, {
+      select: () => query(result),
+      eq: () => query(result),
+      order: () => query(result),
+      single: () => resolved,
+      maybeSingle: () => resolved,
+    });
+  };
+
+  return {
+    from: (table: string) => query(tables[table]),
+  } as unknown as SupabaseClient;
+}
+
+const serviceLine: TaxableLine = {
+  description: 'Home Access - Monthly Subscription',
+  quantity: 1,
+  unitPrice: 200000,
+  total: 200000,
+  category: 'recurring_service',
+};
+
+const corporateProfile: CustomerTaxProfile = {
+  customerType: 'corporate',
+  taxExempt: false,
+  npwp: '01.234.567.8-901.000',
+  withholdsPph23: true,
+};
+
+describe('Tax Engine', () => {
+  describe('getRulesInEffect', () => {
+    it('should pick the PPN rate in force on the invoice date', () => {
+      const before = getRulesInEffect(
+        DEFAULT_TAX_RULES,
+        new Date('2022-03-31')
+      );
+      const after = getRulesInEffect(DEFAULT_TAX_RULES, new Date('2022-04-01'));
+
+      expect(before.find(rule => rule.code === 'PPN')?.rate).toBe(0.1);
+      expect(after.find(rule => rule.code === 'PPN')?.rate).toBe(0.11);
+    });
+  });
+
+  describe('calculateTax', () => {
+    it('should apply PPN to recurring service lines', () => {
+      const result = calculateTax(
+        [serviceLine],
+        DEFAULT_TAX_RULES,
+        DEFAULT_TAX_PROFILE,
+        new Date('2025-05-01')
+      );
+
+      expect(result.subtotal).toBe(200000);
+      expect(result.vat).toBe(22000);
+      expect(result.withheld).toBe(0);
+      expect(result.total).toBe(222000);
+      expect(result.items[0]).toMatchObject({
+        taxCategory: 'recurring_service',
+        taxRuleCode: 'PPN',
+        taxRate: 0.11,
+      });
+      expect(result.items[1]).toMatchObject({
+        description: 'PPN 11%',
+        itemType: 'tax',
+        total: 22000,
+      });
+    });
+
+    it('should not charge PPN to tax-exempt customers', () => {
+      const result = calculateTax(
+        [serviceLine],
+        DEFAULT_TAX_RULES,
+        { ...DEFAULT_TAX_PROFILE, taxExempt: true },
+        new Date('2025-05-01')
+      );
+
+      expect(result.vat).toBe(0);
+      expect(result.total).toBe(200000);
+      expect(result.items).toHaveLength(1);
+    });
+
+    it('should withhold PPh 23 for corporate customers', () => {
+      const result = calculateTax(
+        [serviceLine],
+        DEFAULT_TAX_RULES,
+        corporateProfile,
+        new Date('2025-05-01')
+      );
+
+      expect(result.vat).toBe(22000);
+      expect(result.withheld).toBe(4000);
+      expect(result.total).toBe(218000);
+      expect(result.applied.map(tax => tax.code)).toEqual(['PPN', 'PPH23']);
+      expect(result.items[2]).toMatchObject({ total: -4000, itemType: 'tax' });
+    });
+
+    it('should leave untaxed categories such as deposits out of the taxable base', () => {
+      const result = calculateTax(
+        [
+          serviceLine,
+          {
+            description: 'Refundable deposit',
+            quantity: 1,
+            unitPrice: 500000,
+            total: 500000,
+            category: 'deposit',
+          },
+        ],
+        DEFAULT_TAX_RULES,
+        DEFAULT_TAX_PROFILE,
+        new Date('2025-05-01')
+      );
+
+      expect(result.subtotal).toBe(700000);
+      expect(result.vat).toBe(22000);
+      expect(result.items[1].taxRate).toBe(0);
+    });
+
+    it('should reduce the taxable base by credit lines', () => {
+      const result = calculateTax(
+        [
+          serviceLine,
+          {
+            description: 'Plan change credit',
+            quantity: 1,
+            unitPrice: -50000,
+            total: -50000,
+            category: 'recurring_service',
+            itemType: 'credit',
+          },
+        ],
+        DEFAULT_TAX_RULES,
+        DEFAULT_TAX_PROFILE,
+        new Date('2025-05-01')
+      );
+
+      expect(result.vat).toBe(16500);
+      expect(result.items[1].itemType).toBe('credit');
+    });
+  });
+
+  describe('Customer tax profiles', () => {
+    it('should ignore tax status customers claim in their billing settings', async () => {
+      const result = await new TaxService(taxClient(null)).calculateInvoiceTax(
+        'user-1',
+        [serviceLine],
+        new Date('2025-05-01')
+      );
+
+      expect(result.vat).toBe(22000);
+      expect(result.withheld).toBe(0);
+      expect(result.total).toBe(222000);
+    });
+
+    it('should tax customers by the profile finance keeps for them', async () => {
+      const service = new TaxService(
+        taxClient({
+          user_id: 'user-1',
+          customer_type: 'corporate',
+          tax_exempt: false,
+          exemption_reference: null,
+          npwp: '01.234.567.8-901.000',
+          withholds_pph23: true,
+        })
+      );
+
+      expect(await service.getCustomerTaxProfile('user-1')).toEqual(
+        corporateProfile
+      );
+    });
+
+    it('should drop tax status sent with billing settings', async () => {
+      const response = await saveBillingSettings({
+        request: new Request('https://example.com/api/billing/settings', {
+          method: 'POST',
+          body: JSON.stringify({
+            email_notifications: true,
+            tax_information: {
+              tax_id: '01.234.567.8-901.000',
+              business_name: 'PT Maju',
+              is_business: true,
+              tax_exempt: true,
+              exemption_reference: 'SKB-1',
+              withholds_pph23: true,
+            },
+          }),
+        }),
+      } as never);
+
+      expect(response.status).toBe(200);
+      expect(savedPreferences).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          tax_information: {
+            tax_id: '01.234.567.8-901.000',
+            business_name: 'PT Maju',
+            is_business: true,
+          },
+        })
+      );
+    });
+  });
+});
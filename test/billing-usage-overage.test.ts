@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateOverage,
+  cycleEnd,
+  overageLine,
+} from '../src/lib/billing/usage';
+import { UsageBillingService } from '../src/lib/billing/usage-service';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const perGb = {
+  pricing_model: 'per_gb' as const,
+  price_per_gb: 5000,
+  block_size_gb: null,
+  block_price: null,
+};
+const blocks = {
+  pricing_model: 'block' as const,
+  price_per_gb: null,
+  block_size_gb: 10,
+  block_price: 25000,
+};
+
+describe('Usage overage', () => {
+  it('should charge per started GB or per started block', () => {
+    expect(calculateOverage(perGb, 112.3, 100)).toEqual({
+      overageGb: 12.3,
+      units: 13,
+      unitPrice: 5000,
+      amount: 65000,
+    });
+    expect(calculateOverage(blocks, 112.3, 100)).toEqual({
+      overageGb: 12.3,
+      units: 2,
+      unitPrice: 25000,
+      amount: 50000,
+    });
+    expect(calculateOverage(perGb, 100, 100)).toBeNull();
+  });
+
+  it('should end cycles a month later, clamping to month end', () => {
+    expect(cycleEnd('2025-03-15')).toBe('2025-04-15');
+    expect(cycleEnd('2025-01-31')).toBe('2025-02-28');
+    expect(cycleEnd('2025-12-01')).toBe('2026-01-01');
+  });
+
+  it('should put the usage breakdown on the invoice line', () => {
+    const line = overageLine({
+      period_start: '2025-03-01',
+      period_end: '2025-04-01',
+      usage_gb: 112.3,
+      cap_gb: 100,
+      overage_gb: 12.3,
+      pricing_model: 'block',
+      block_size_gb: 10,
+      units: 2,
+      unit_price: 25000,
+      amount: 50000,
+    });
+
+    expect(line).toEqual({
+      description:
+        'Data overage 2025-03-01 to 2025-03-31\n' +
+        '112.30 GB used of 100 GB cap, 12.30 GB over, billed per started 10 GB block',
+      quantity: 2,
+      unitPrice: 25000,
+      total: 50000,
+      category: 'recurring_service',
+    });
+  });
+
+  it('should close each ended cycle once and start the next', async () => {
+    const inserts: unknown[] = [];
+    const cycleUpdates: unknown[] = [];
+    const cap = {
+      id: 'cap-1',
+      user_id: 'user-1',
+      package_id: 'home-a',
+      monthly_cap_gb: 100,
+      current_usage_gb: 0,
+      billing_cycle_start: '2025-03-01',
+    };
+
+    const supabase = {
+      from: (table: string) => {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          is: () => query,
+          in: () => query,
+          insert: (row: unknown) => {
+            inserts.push(row);
+            return query;
+          },
+          update: (values: unknown) => {
+            cycleUpdates.push(values);
+            return query;
+          },
+          maybeSingle: async () => ({
+            data: { ...perGb, package_id: 'home-a', is_active: true },
+            error: null,
+          }),
+          single: async () => ({ data: { id: 'charge-1' }, error: null }),
+          then: (resolve: (value: unknown) => void) =>
+            resolve(
+              table === 'data_caps' && cycleUpdates.length === 0
+                ? { data: [cap], error: null }
+                : { data: [{ id: 'cap-1' }], error: null }
+            ),
+        };
+        return query;
+      },
+      rpc: vi.fn(async (_name: string, args: { p_start_date: string }) => ({
+        data: args.p_start_date === '2025-03-01' ? 104.5 : 20,
+        error: null,
+      })),
+    } as unknown as SupabaseClient;
+
+    const charges = await new UsageBillingService(supabase).closeEndedCycles(
+      'user-1',
+      new Date('2025-04-10T00:00:00Z')
+    );
+
+    expect(charges).toHaveLength(1);
+    expect(inserts).toEqual([
+      expect.objectContaining({
+        period_start: '2025-03-01',
+        period_end: '2025-04-01',
+        overage_gb: 4.5,
+        units: 5,
+        amount: 25000,
+      }),
+    ]);
+    expect(cycleUpdates).toEqual([
+      {
+        billing_cycle_start: '2025-04-01',
+        current_usage_gb: 20,
+        last_notified_at: {},
+      },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  VirtualAccountService,
+  allocatePayment,
+  creditForCash,
+  verifyCallbackToken,
+} from '../src/lib/billing/virtual-account-service';
+
+const paidInvoices: string[] = [];
+const creditedAmounts: number[] = [];
+const handleInvoicePaid = vi.fn();
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/payments/service', () => ({
+  PaymentService: class {
+    async getTransactionByOrderId() {
+      return null;
+    }
+
+    async createTransaction(data: { orderId: string }) {
+      return { ...data, id: 'txn-1' };
+    }
+  },
+}));
+
+vi.mock('../src/lib/billing/dunning-service', () => ({
+  DunningService: class {
+    handleInvoicePaid = handleInvoicePaid;
+  },
+}));
+
+vi.mock('../src/lib/billing/tax-service', () => ({
+  TaxService: class {
+    async calculateInvoiceTax(
+      _userId: string,
+      lines: Array<{ total: number }>
+    ) {
+      const subtotal = lines[0].total;
+      return { subtotal, total: subtotal * 1.11 };
+    }
+  },
+}));
+
+const openInvoices = [
+  { id: 'inv-1', invoiceNumber: 'INV-1', total: 222000 },
+  { id: 'inv-2', invoiceNumber: 'INV-2', total: 222000 },
+];
+
+// Supabase stand-in holding one VA and the payments recorded against it.
+// The allocation RPC pays invoices and credits the rest unless the payment
+// was allocated already; `failAllocation` makes its next call fail.
+function createSupabase() {
+  const payments: Array<Record<string, unknown>> = [];
+  const state = { failAllocation: false };
+
+  const from = (table: string) => {
+    let pending: Record<string, unknown> | null = null;
+    const matching = () =>
+      payments.filter(
+        p =>
+          p.transaction_id == null &&
+          (!pending?.processing_started_at || p.processing_started_at == null)
+      );
+    const query = {
+      select: () => query,
+      eq: () => query,
+      in: () => query,
+      is: () => query,
+      or: () => query,
+      order: () => query,
+      maybeSingle: async () => {
+        if (table === 'customer_virtual_accounts') {
+          return {
+            data: { id: 'va-1', user_id: 'user-1', bank: 'bca' },
+            error: null,
+          };
+        }
+        // A conditional claim of the payment
+        const claimed = matching()[0] ?? null;
+        if (claimed && pending) Object.assign(claimed, pending);
+        return { data: claimed, error: null };
+      },
+      single: async () => ({ data: payments[0], error: null }),
+      then: (resolve: (value: unknown) => void) => {
+        if (pending) {
+          for (const payment of matching()) Object.assign(payment, pending);
+        }
+        resolve({
+          data: openInvoices
+            .filter(invoice => !paidInvoices.includes(invoice.id))
+            .map(invoice => ({
+              id: invoice.id,
+              invoice_number: invoice.invoiceNumber,
+              total: invoice.total,
+            })),
+          error: null,
+        });
+      },
+      insert: (row: Record<string, unknown>) => ({
+        select: () => ({
+          single: async () => {
+            if (payments.some(p => p.reference === row.reference)) {
+              return { data: null, error: { code: '23505', message: 'dup' } };
+            }
+            const payment = {
+              ...row,
+              id: `vap-${payments.length + 1}`,
+              transaction_id: null,
+            };
+            payments.push(payment);
+            return { data: payment, error: null };
+          },
+        }),
+      }),
+      update: (changes: Record<string, unknown>) => {
+        pending = changes;
+        return query;
+      },
+    };
+    return query;
+  };
+
+  const rpc = async (_name: string, params: Record<string, unknown>) => {
+    if (state.failAllocation) {
+      state.failAllocation = false;
+      return { data: null, error: { message: 'connection reset' } };
+    }
+    const payment = payments.find(p => p.id === params.p_payment_id);
+    if (!payment || payment.transaction_id) {
+      return { data: null, error: null };
+    }
+    paidInvoices.push(...(params.p_invoice_ids as string[]));
+    if (Number(params.p_credited) > 0) {
+      creditedAmounts.push(Number(params.p_credited));
+    }
+    Object.assign(payment, {
+      transaction_id: params.p_transaction_id,
+      invoice_ids: params.p_invoice_ids,
+      applied_amount: params.p_applied,
+      credited_amount: params.p_credited,
+      credit_note_id: Number(params.p_credited) > 0 ? 'cn-1' : null,
+      processing_started_at: null,
+    });
+    return { data: payment, error: null };
+  };
+
+  return {
+    client: { from, rpc } as unknown as SupabaseClient,
+    payments,
+    state,
+  };
+}
+
+describe('Static virtual accounts', () => {
+  beforeEach(() => {
+    paidInvoices.length = 0;
+    creditedAmounts.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('should settle the oldest invoices it covers in full', () => {
+    expect(allocatePayment(500000, openInvoices)).toEqual({
+      invoices: openInvoices,
+      applied: 444000,
+      remainder: 56000,
+    });
+    expect(allocatePayment(300000, openInvoices)).toMatchObject({
+      invoices: [openInvoices[0]],
+      remainder: 78000,
+    });
+    expect(allocatePayment(100000, openInvoices)).toMatchObject({
+      invoices: [],
+      applied: 0,
+      remainder: 100000,
+    });
+  });
+
+  it('should credit leftover cash at its pre-tax value', () => {
+    expect(creditForCash(111000, { subtotal: 100000, total: 111000 })).toBe(
+      100000
+    );
+    expect(creditForCash(50000, { subtotal: 0, total: 0 })).toBe(50000);
+  });
+
+  it('should only accept the configured callback token', () => {
+    expect(verifyCallbackToken('secret-token', 'secret-token')).toBe(true);
+    expect(verifyCallbackToken('secret-tokeX', 'secret-token')).toBe(false);
+    expect(verifyCallbackToken(null, 'secret-token')).toBe(false);
+    expect(verifyCallbackToken('secret-token', undefined)).toBe(false);
+  });
+
+  it('should pay open invoices and credit the overpayment once', async () => {
+    const service = new VirtualAccountService(createSupabase().client, {
+      companyCodes: { bca: '12345' },
+    });
+    const incoming = {
+      bank: 'bca' as const,
+      vaNumber: '123450000000042',
+      amount: 555000,
+      reference: 'BCA-REF-1',
+      paidAt: new Date('2025-06-10T03:00:00Z'),
+    };
+
+    const result = await service.recordPayment(incoming);
+
+    expect(result.duplicate).toBe(false);
+    expect(result.paidInvoices).toEqual(['INV-1', 'INV-2']);
+    expect(paidInvoices).toEqual(['inv-1', 'inv-2']);
+    expect(handleInvoicePaid).toHaveBeenCalledTimes(2);
+    expect(creditedAmounts).toEqual([100000]);
+    expect(result.payment).toMatchObject({
+      transaction_id: 'txn-1',
+      applied_amount: 444000,
+      credited_amount: 100000,
+      credit_note_id: 'cn-1',
+    });
+
+    const redelivered = await service.recordPayment(incoming);
+    expect(redelivered.duplicate).toBe(true);
+    expect(paidInvoices).toHaveLength(2);
+    expect(creditedAmounts).toHaveLength(1);
+  });
+
+  it('should not allocate a transfer again while or after another delivery does', async () => {
+    const supabase = createSupabase();
+    const service = new VirtualAccountService(supabase.client, {
+      companyCodes: { bca: '12345' },
+    });
+    const incoming = {
+      bank: 'bca' as const,
+      vaNumber: '123450000000042',
+      amount: 555000,
+      reference: 'BCA-REF-2',
+      paidAt: new Date('2025-06-10T03:00:00Z'),
+    };
+
+    // The first delivery fails writing its allocation and lets go
+    supabase.state.failAllocation = true;
+    await expect(service.recordPayment(incoming)).rejects.toThrow(
+      'connection reset'
+    );
+    expect(paidInvoices).toHaveLength(0);
+    expect(supabase.payments[0].processing_started_at).toBeNull();
+
+    // A delivery still in flight keeps others out
+    supabase.payments[0].processing_started_at = new Date().toISOString();
+    await expect(service.recordPayment(incoming)).rejects.toThrow(
+      'already being processed'
+    );
+    expect(paidInvoices).toHaveLength(0);
+
+    supabase.payments[0].processing_started_at = null;
+    const retried = await service.recordPayment(incoming);
+    expect(retried.duplicate).toBe(false);
+    expect(paidInvoices).toEqual(['inv-1', 'inv-2']);
+    expect(creditedAmounts).toEqual([100000]);
+
+    const redelivered = await service.recordPayment(incoming);
+    expect(redelivered.duplicate).toBe(true);
+    expect(paidInvoices).toHaveLength(2);
+    expect(creditedAmounts).toHaveLength(1);
+  });
+
+  it('should only offer banks with a company code', () => {
+    const service = new VirtualAccountService(createSupabase().client, {
+      companyCodes: { bca: '12345', mandiri: '88908' },
+    });
+    expect(service.getEnabledBanks()).toEqual(['bca', 'mandiri']);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  MAX_TOP_UP,
+  MIN_TOP_UP,
+  WalletService,
+  topUpProblem,
+  walletShortfall,
+} from '../src/lib/billing/wallet-service';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/email/service', () => ({ emailService: {} }));
+
+const openInvoices = [
+  { id: 'inv-1', user_id: 'user-1', invoice_number: 'INV-1', total: 111000 },
+  { id: 'inv-2', user_id: 'user-1', invoice_number: 'INV-2', total: 111000 },
+];
+
+/**
+ * A client whose wallet pays the first `payable` invoices. Records the
+ * RPCs called and whether suspended service was reactivated.
+ */
+function walletClient(payable: number, topUpError?: { code: string }) {
+  const rpc = vi.fn((name: string, args: Record<string, unknown>) => {
+    if (name === 'record_wallet_entry') {
+      return Promise.resolve(
+        topUpError
+          ? { data: null, error: { ...topUpError, message: 'duplicate' } }
+          : { data: { id: 'entry-top-up' }, error: null }
+      );
+    }
+    const index = openInvoices.findIndex(i => i.id === args.p_invoice_id);
+    return Promise.resolve({
+      data:
+        index < payable
+          ? { id: `entry-${index}`, amount: 111000, balance_after: 0 }
+          : null,
+      error: null,
+    });
+  });
+  const reactivate = vi.fn();
+
+  const client = {
+    rpc,
+    from: (table: string) => {
+      if (table === 'customer_subscriptions') {
+        reactivate.mockReturnValue({
+          eq: () => ({
+            eq: () => ({
+              eq: () => ({
+                select: () =>
+                  Promise.resolve({ data: [{ id: 'sub-1' }], error: null }),
+              }),
+            }),
+          }),
+        });
+        return { update: reactivate };
+      }
+      // Open prepaid invoices, oldest first
+      return {
+        select: () => ({
+          eq: () => ({
+            eq: () => ({
+              in: () => ({
+                order: () =>
+                  Promise.resolve({ data: openInvoices, error: null }),
+              }),
+            }),
+          }),
+        }),
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, rpc, reactivate };
+}
+
+describe('Prepaid wallet', () => {
+  it('should only accept whole top-ups within the limits', () => {
+    expect(topUpProblem(MIN_TOP_UP)).toBeNull();
+    expect(topUpProblem(MAX_TOP_UP)).toBeNull();
+    expect(topUpProblem(MIN_TOP_UP - 1)).toMatch(/between/);
+    expect(topUpProblem(MAX_TOP_UP + 1)).toMatch(/between/);
+    expect(topUpProblem(50000.5)).toMatch(/whole/);
+
+    expect(walletShortfall(50000, 111000)).toBe(61000);
+    expect(walletShortfall(150000, 111000)).toBe(0);
+  });
+
+  it('should pay open invoices oldest first until the balance runs out', async () => {
+    const { client, rpc, reactivate } = walletClient(1);
+
+    const result = await new WalletService(client).settleOpenInvoices('user-1');
+
+    expect(result).toEqual({ paid: 1, reactivated: false });
+    expect(rpc).toHaveBeenNthCalledWith(1, 'pay_invoice_from_wallet', {
+      p_invoice_id: 'inv-1',
+    });
+    expect(reactivate).not.toHaveBeenCalled();
+  });
+
+  it('should restore service once a top-up clears every open invoice', async () => {
+    const { client, rpc, reactivate } = walletClient(2);
+
+    const entry = await new WalletService(client).recordTopUp({
+      id: 'txn-1',
+      userId: 'user-1',
+      amount: 222000,
+    });
+
+    expect(entry).toEqual({ id: 'entry-top-up' });
+    expect(rpc).toHaveBeenCalledWith(
+      'record_wallet_entry',
+      expect.objectContaining({
+        p_entry_type: 'top_up',
+        p_balance_change: 222000,
+        p_transaction_id: 'txn-1',
+      })
+    );
+    expect(rpc).toHaveBeenCalledTimes(3);
+    expect(reactivate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'active', suspension_reason: null })
+    );
+  });
+
+  it('should credit a repeated top-up notification only once', async () => {
+    const { client, rpc } = walletClient(2, { code: '23505' });
+
+    const entry = await new WalletService(client).recordTopUp({
+      id: 'txn-1',
+      userId: 'user-1',
+      amount: 222000,
+    });
+
+    expect(entry).toBeNull();
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+});
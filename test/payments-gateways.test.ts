@@ -0,0 +1,900 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  MidtransGateway,
+  createMidtransSignature,
+} from '../src/lib/payments/gateways/midtrans';
+import {
+  MOCK_SOFT_DECLINE_TOKEN,
+  MockGateway,
+} from '../src/lib/payments/gateways/mock';
+import { XenditGateway } from '../src/lib/payments/gateways/xendit';
+import { createPaymentGateway } from '../src/lib/payments/gateways';
+import { PaymentManager } from '../src/lib/payments/manager';
+import type {
+  GatewayWebhookEvent,
+  PaymentRequest,
+  PaymentTransaction,
+  SavedCardToken,
+  SavedPaymentMethod,
+  WebhookPayload,
+} from '../src/lib/payments/types';
+import type { WebhookEventRecord } from '../src/lib/payments/webhook-events';
+
+const transactions = new Map<string, PaymentTransaction>();
+const invoices: Array<{ transactionId: string; status: string }> = [];
+const webhookEvents = new Map<string, WebhookEventRecord>();
+const paidInvoices: string[] = [];
+const savedTokens: Array<{ userId: string; token: SavedCardToken }> = [];
+const handleInvoicePaid = vi.fn();
+const recordInstallmentPayment = vi.fn();
+const refundEntries: Array<{ transactionId: string; amount: number }> = [];
+let openInvoiceTotal = 222000;
+let openInvoiceStatus = 'overdue';
+const otherInvoices = new Map<
+  string,
+  {
+    id: string;
+    userId: string;
+    invoiceNumber: string;
+    status: string;
+    total: number;
+    reissuedFrom?: string;
+  }
+>();
+const creditedPayments: Array<{ transactionId: string; amount: number }> = [];
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/payments/service', () => ({
+  PaymentService: class {
+    async createTransaction(data: Omit<PaymentTransaction, 'id'>) {
+      const transaction = {
+        ...data,
+        id: `txn-${transactions.size + 1}`,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as PaymentTransaction;
+      transactions.set(transaction.id, transaction);
+      return transaction;
+    }
+
+    async updateTransactionStatus(
+      id: string,
+      status: PaymentTransaction['status']
+    ) {
+      const transaction = transactions.get(id);
+      if (transaction) transaction.status = status;
+      return transaction;
+    }
+
+    async transitionTransactionStatus(
+      id: string,
+      from: PaymentTransaction['status'],
+      to: PaymentTransaction['status']
+    ) {
+      const transaction = transactions.get(id);
+      if (!transaction || transaction.status !== from) return null;
+      transaction.status = to;
+      return transaction;
+    }
+
+    // A copy, as read from the database at the time
+    async getTransactionByOrderId(orderId: string) {
+      const transaction = [...transactions.values()].find(
+        t => t.orderId === orderId
+      );
+      return transaction ? { ...transaction } : null;
+    }
+
+    async createInvoice(data: { transactionId: string; status: string }) {
+      invoices.push(data);
+      return data;
+    }
+
+    async getInvoiceById(id: string) {
+      return id === 'inv-open'
+        ? {
+            id,
+            userId: 'user-1',
+            invoiceNumber: 'INV-OPEN',
+            status: openInvoiceStatus,
+            total: openInvoiceTotal,
+          }
+        : otherInvoices.get(id) || null;
+    }
+
+    async getReissuedInvoice(id: string) {
+      return (
+        [...otherInvoices.values()].find(i => i.reissuedFrom === id) || null
+      );
+    }
+
+    async markInvoicePaid(invoiceId: string) {
+      const invoice = await this.getInvoiceById(invoiceId);
+      if (!invoice || !['sent', 'overdue'].includes(invoice.status)) {
+        return null;
+      }
+      paidInvoices.push(invoiceId);
+      return invoice;
+    }
+
+    async getInvoiceByTransactionId(transactionId: string) {
+      return invoices.find(i => i.transactionId === transactionId) || null;
+    }
+
+    async saveCardToken(
+      userId: string,
+      _provider: string,
+      token: SavedCardToken
+    ) {
+      savedTokens.push({ userId, token });
+    }
+  },
+}));
+
+vi.mock('../src/lib/payments/webhook-events', async importOriginal => ({
+  ...(await importOriginal<
+    typeof import('../src/lib/payments/webhook-events')
+  >()),
+  WebhookEventStore: class {
+    async record(event: GatewayWebhookEvent, payload: WebhookPayload) {
+      const key = `${event.orderId}:${event.rawStatus}:${event.signature}`;
+      const existing = [...webhookEvents.values()].find(
+        e => e.dedupe_key === key
+      );
+      if (existing) {
+        existing.duplicate_count++;
+        return { record: existing, duplicate: true };
+      }
+
+      const record = {
+        id: `evt-${webhookEvents.size + 1}`,
+        provider: event.provider,
+        order_id: event.orderId,
+        gateway_status: event.rawStatus,
+        mapped_status: event.status,
+        dedupe_key: key,
+        payload,
+        processing_status: 'received',
+        transaction_id: null,
+        attempts: 0,
+        duplicate_count: 0,
+        last_error: null,
+      } as unknown as WebhookEventRecord;
+      webhookEvents.set(record.id, record);
+      return { record, duplicate: false };
+    }
+
+    async claim(record: WebhookEventRecord) {
+      const stored = webhookEvents.get(record.id);
+      if (
+        !stored ||
+        !['received', 'failed'].includes(stored.processing_status)
+      ) {
+        return null;
+      }
+      stored.processing_status = 'processing';
+      stored.attempts++;
+      return stored;
+    }
+
+    async complete(
+      id: string,
+      status: 'processed' | 'rejected',
+      details: { transactionId?: string; error?: string } = {}
+    ) {
+      const stored = webhookEvents.get(id);
+      if (!stored) return;
+      stored.processing_status = status;
+      stored.transaction_id = details.transactionId ?? null;
+      stored.last_error = details.error ?? null;
+    }
+
+    async fail(id: string, message: string) {
+      const stored = webhookEvents.get(id);
+      if (!stored) return;
+      stored.processing_status = 'failed';
+      stored.last_error = message;
+    }
+
+    async getById(id: string) {
+      return webhookEvents.get(id) || null;
+    }
+  },
+}));
+
+vi.mock('../src/lib/billing/dunning-service', () => ({
+  DunningService: class {
+    handleInvoicePaid = handleInvoicePaid;
+  },
+}));
+
+vi.mock('../src/lib/billing/installment-service', () => ({
+  InstallmentService: class {
+    async getPlanStanding() {
+      return 'none';
+    }
+
+    async assertPayable(installmentId: string) {
+      return { id: installmentId, invoice_id: 'inv-open' };
+    }
+
+    recordPayment = recordInstallmentPayment;
+  },
+}));
+
+vi.mock('../src/lib/payments/risk', () => ({
+  PaymentRiskService: class {
+    async check() {
+      return { id: 'check-1', decision: 'allow' };
+    }
+  },
+}));
+
+vi.mock('../src/lib/billing/credit-service', async importOriginal => ({
+  ...(await importOriginal<
+    typeof import('../src/lib/billing/credit-service')
+  >()),
+  CreditService: class {
+    async getRefundedAmount(transactionId: string) {
+      return refundEntries
+        .filter(e => e.transactionId === transactionId)
+        .reduce((sum, e) => sum + e.amount, 0);
+    }
+
+    async recordRefund(input: { transactionId: string; amount: number }) {
+      refundEntries.push(input);
+    }
+
+    async creditPayment(input: { transactionId: string; amount: number }) {
+      creditedPayments.push({
+        transactionId: input.transactionId,
+        amount: input.amount,
+      });
+      return { id: 'cn-1' };
+    }
+  },
+}));
+
+vi.mock('../src/lib/billing/tax-service', () => ({
+  TaxService: class {
+    async calculateInvoiceTax() {
+      return {
+        subtotal: 200000,
+        vat: 22000,
+        withheld: 0,
+        total: 222000,
+        applied: [],
+        items: [],
+      };
+    }
+  },
+}));
+
+const paymentRequest: PaymentRequest = {
+  orderId: 'ORDER-1',
+  amount: 222000,
+  customerDetails: {
+    firstName: 'Budi',
+    lastName: 'Santoso',
+    email: 'budi@example.com',
+    phone: '08123456789',
+  },
+  itemDetails: [{ id: 'pkg', price: 222000, quantity: 1, name: 'Home Access' }],
+  paymentMethod: 'bank_transfer',
+};
+
+describe('Payment gateways', () => {
+  beforeEach(() => {
+    transactions.clear();
+    invoices.length = 0;
+    webhookEvents.clear();
+    paidInvoices.length = 0;
+    savedTokens.length = 0;
+    refundEntries.length = 0;
+    handleInvoicePaid.mockClear();
+    recordInstallmentPayment.mockReset();
+    openInvoiceTotal = 222000;
+    openInvoiceStatus = 'overdue';
+    otherInvoices.clear();
+    creditedPayments.length = 0;
+  });
+
+  describe('MockGateway', () => {
+    it('should emit a signed settlement notification', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const created = await gateway.createTransaction(paymentRequest);
+      expect(created.status).toBe('pending');
+
+      const notification = gateway.simulate('ORDER-1', 'settlement');
+      expect(gateway.verifyWebhookSignature(notification)).toBe(true);
+      expect(gateway.parseWebhook(notification)).toMatchObject({
+        provider: 'mock',
+        orderId: 'ORDER-1',
+        status: 'success',
+        grossAmount: 222000,
+      });
+
+      const status = await gateway.getTransactionStatus('ORDER-1');
+      expect(status.status).toBe('success');
+    });
+
+    it('should map expiry and denial to failed payments', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      await gateway.createTransaction(paymentRequest);
+      await gateway.createTransaction({
+        ...paymentRequest,
+        orderId: 'ORDER-2',
+      });
+
+      const expired = gateway.simulate('ORDER-1', 'expire');
+      const denied = gateway.simulate('ORDER-2', 'deny');
+
+      expect(gateway.parseWebhook(expired).status).toBe('failed');
+      expect(gateway.parseWebhook(denied).status).toBe('failed');
+      expect(() => gateway.simulate('ORDER-1', 'settlement')).toThrow(
+        /already expire/
+      );
+    });
+
+    it('should reject tampered notifications', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      await gateway.createTransaction(paymentRequest);
+      const notification = gateway.simulate('ORDER-1', 'settlement');
+
+      expect(
+        gateway.verifyWebhookSignature({
+          ...notification,
+          gross_amount: '1.00',
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('MidtransGateway', () => {
+    it('should verify and normalize Midtrans notifications', () => {
+      const gateway = new MidtransGateway({
+        serverKey: 'server-key',
+        clientKey: 'client-key',
+        environment: 'sandbox',
+        merchantId: 'M1',
+      });
+      const payload = {
+        order_id: 'ORDER-1',
+        status_code: '200',
+        gross_amount: '222000.00',
+        transaction_status: 'settlement',
+        transaction_id: 'mt-1',
+        payment_type: 'gopay',
+        signature_key: createMidtransSignature(
+          'ORDER-1',
+          '200',
+          '222000.00',
+          'server-key'
+        ),
+      };
+
+      expect(gateway.verifyWebhookSignature(payload)).toBe(true);
+      expect(gateway.parseWebhook(payload)).toMatchObject({
+        provider: 'midtrans',
+        transactionId: 'mt-1',
+        status: 'success',
+        paymentType: 'gopay',
+      });
+    });
+  });
+
+  describe('XenditGateway', () => {
+    const gateway = new XenditGateway({
+      secretKey: 'xnd_development_key',
+      callbackToken: 'callback-token',
+      environment: 'sandbox',
+    });
+
+    it('should authenticate callbacks with the x-callback-token header', () => {
+      const payload = { external_id: 'ORDER-1', status: 'PAID' };
+
+      expect(
+        gateway.verifyWebhookSignature(
+          payload,
+          new Headers({ 'x-callback-token': 'callback-token' })
+        )
+      ).toBe(true);
+      expect(
+        gateway.verifyWebhookSignature(
+          payload,
+          new Headers({ 'x-callback-token': 'wrong-token' })
+        )
+      ).toBe(false);
+      expect(gateway.verifyWebhookSignature(payload)).toBe(false);
+    });
+
+    it('should normalize invoice callbacks', () => {
+      expect(
+        gateway.parseWebhook({
+          id: 'inv-1',
+          external_id: 'ORDER-1',
+          status: 'PAID',
+          paid_amount: 222000,
+          payment_method: 'BANK_TRANSFER',
+        })
+      ).toMatchObject({
+        provider: 'xendit',
+        orderId: 'ORDER-1',
+        transactionId: 'inv-1',
+        status: 'success',
+        paymentType: 'bank_transfer',
+      });
+      expect(
+        gateway.parseWebhook({ external_id: 'ORDER-1', status: 'EXPIRED' })
+          .status
+      ).toBe('failed');
+    });
+  });
+
+  describe('createPaymentGateway', () => {
+    it('should build the configured provider', () => {
+      expect(
+        createPaymentGateway({
+          PAYMENT_GATEWAY: 'xendit',
+          XENDIT_API_KEY: 'key',
+          XENDIT_CALLBACK_TOKEN: 'token',
+        }).provider
+      ).toBe('xendit');
+      expect(createPaymentGateway({ PAYMENT_GATEWAY: 'mock' }).provider).toBe(
+        'mock'
+      );
+    });
+
+    it('should refuse missing credentials and the mock in production', () => {
+      expect(() => createPaymentGateway({})).toThrow(/Midtrans credentials/);
+      expect(() =>
+        createPaymentGateway({
+          PAYMENT_GATEWAY: 'mock',
+          NODE_ENV: 'production',
+        })
+      ).toThrow(/cannot run in production/);
+      expect(() => createPaymentGateway({ PAYMENT_GATEWAY: 'paypal' })).toThrow(
+        /Unsupported payment gateway/
+      );
+    });
+  });
+
+  describe('PaymentManager with the mock gateway', () => {
+    it('should settle a payment end to end and issue a paid invoice', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      const { transaction } = await manager.processPayment(
+        paymentRequest,
+        'user-1'
+      );
+      expect(transaction.paymentMethod.provider).toBe('Mock Gateway');
+
+      const notification = gateway.simulate('ORDER-1', 'settlement');
+      await manager.handleWebhook(notification);
+
+      expect(transactions.get(transaction.id)?.status).toBe('success');
+      expect(invoices).toEqual([
+        expect.objectContaining({
+          transactionId: transaction.id,
+          status: 'paid',
+        }),
+      ]);
+    });
+
+    it('should settle an outstanding invoice and lift dunning', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      await expect(
+        manager.processPayment(
+          { ...paymentRequest, invoiceId: 'inv-missing' },
+          'user-1'
+        )
+      ).rejects.toThrow();
+
+      await manager.processPayment(
+        { ...paymentRequest, invoiceId: 'inv-open' },
+        'user-1'
+      );
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+
+      expect(paidInvoices).toEqual(['inv-open']);
+      expect(handleInvoicePaid).toHaveBeenCalledWith('inv-open');
+      expect(invoices).toHaveLength(0);
+    });
+
+    it('should only settle an invoice for its full total', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      await expect(
+        manager.processPayment(
+          { ...paymentRequest, amount: 1, invoiceId: 'inv-open' },
+          'user-1'
+        )
+      ).rejects.toThrow('Invoice INV-OPEN is for 222000');
+      expect(transactions.size).toBe(0);
+
+      await manager.processPayment(
+        { ...paymentRequest, invoiceId: 'inv-open' },
+        'user-1'
+      );
+      // Adjusted upwards while the customer was paying
+      openInvoiceTotal = 250000;
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+
+      expect(paidInvoices).toHaveLength(0);
+      expect(handleInvoicePaid).not.toHaveBeenCalled();
+      // Credited at its pre-tax value rather than left unaccounted for
+      expect(creditedPayments).toEqual([
+        { transactionId: 'txn-1', amount: 200000 },
+      ]);
+    });
+
+    it('should credit a second payment for an installment that is already paid', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      const installment = {
+        ...paymentRequest,
+        amount: 74000,
+        installmentId: 'inst-1',
+      };
+
+      await manager.processPayment(installment, 'user-1');
+      await manager.processPayment(
+        { ...installment, orderId: 'ORDER-2' },
+        'user-1'
+      );
+      recordInstallmentPayment
+        .mockResolvedValueOnce({ invoiceId: 'inv-open', planCompleted: false })
+        .mockResolvedValueOnce(null);
+
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+      await manager.handleWebhook(gateway.simulate('ORDER-2', 'settlement'));
+
+      expect(recordInstallmentPayment).toHaveBeenCalledTimes(2);
+      expect(handleInvoicePaid).toHaveBeenCalledTimes(1);
+      expect(creditedPayments).toEqual([
+        { transactionId: 'txn-2', amount: 66666.67 },
+      ]);
+    });
+
+    it('should settle once when two notifications for the same status arrive together', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      await manager.processPayment(
+        { ...paymentRequest, invoiceId: 'inv-open' },
+        'user-1'
+      );
+      const settlement = gateway.simulate('ORDER-1', 'settlement');
+      const capture = { ...settlement, transaction_status: 'capture' };
+
+      const results = await Promise.all([
+        manager.handleWebhook(settlement),
+        manager.handleWebhook(capture),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual([
+        'processed',
+        'processed',
+      ]);
+      expect(webhookEvents.size).toBe(2);
+      expect(paidInvoices).toEqual(['inv-open']);
+      expect(handleInvoicePaid).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pay the reissued copy or credit the customer when a payment settles after a void', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      // Both started before the invoice was voided and reissued
+      await manager.processPayment(
+        { ...paymentRequest, invoiceId: 'inv-open' },
+        'user-1'
+      );
+      await manager.processPayment(
+        { ...paymentRequest, orderId: 'ORDER-2', invoiceId: 'inv-open' },
+        'user-1'
+      );
+      const copy = {
+        id: 'inv-copy',
+        userId: 'user-1',
+        invoiceNumber: 'INV-COPY',
+        status: 'sent',
+        total: 222000,
+        reissuedFrom: 'inv-open',
+      };
+      openInvoiceStatus = 'void';
+      otherInvoices.set(copy.id, copy);
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+
+      expect(paidInvoices).toEqual(['inv-copy']);
+      expect(handleInvoicePaid).toHaveBeenCalledWith('inv-copy');
+      expect(creditedPayments).toHaveLength(0);
+
+      // The copy is paid now, so the second payment goes to the balance
+      copy.status = 'paid';
+      await manager.handleWebhook(gateway.simulate('ORDER-2', 'settlement'));
+
+      expect(paidInvoices).toEqual(['inv-copy']);
+      expect(creditedPayments).toEqual([
+        { transactionId: 'txn-2', amount: 200000 },
+      ]);
+    });
+
+    it('should save the card token when the customer opts in', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      await manager.processPayment(
+        { ...paymentRequest, paymentMethod: 'credit_card', saveCard: true },
+        'user-1'
+      );
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+
+      expect(savedTokens).toEqual([
+        {
+          userId: 'user-1',
+          token: expect.objectContaining({ maskedCard: '481111-1114' }),
+        },
+      ]);
+    });
+
+    it('should charge a saved method for an outstanding invoice', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      const card: SavedPaymentMethod = {
+        id: 'pm-1',
+        type: 'credit_card',
+        provider: 'mock',
+        token: 'mock-token-1',
+        displayName: 'Card 1114',
+      };
+
+      const { transaction, paymentResponse } = await manager.chargeSavedMethod(
+        { ...paymentRequest, invoiceId: 'inv-open' },
+        'user-1',
+        card
+      );
+
+      expect(paymentResponse.status).toBe('success');
+      expect(transaction.metadata).toMatchObject({
+        autopay: true,
+        paymentMethodId: 'pm-1',
+      });
+      expect(paidInvoices).toEqual(['inv-open']);
+
+      const declined = await manager.chargeSavedMethod(
+        { ...paymentRequest, orderId: 'ORDER-2', invoiceId: 'inv-open' },
+        'user-1',
+        { ...card, token: MOCK_SOFT_DECLINE_TOKEN }
+      );
+      expect(declined.paymentResponse.declineCode).toBe('51');
+      expect(transactions.get(declined.transaction.id)?.status).toBe('failed');
+      expect(paidInvoices).toHaveLength(1);
+    });
+
+    it('should refuse saved-method charges on gateways without support', async () => {
+      const gateway = new XenditGateway({
+        secretKey: 'xnd_test',
+        callbackToken: 'token',
+        environment: 'sandbox',
+      });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      await expect(
+        manager.chargeSavedMethod(paymentRequest, 'user-1', {
+          id: 'pm-1',
+          type: 'credit_card',
+          provider: 'xendit',
+          token: 'tok',
+          displayName: 'Card',
+        })
+      ).rejects.toThrow(/does not support/);
+    });
+
+    it('should record partial refunds and stop at the paid amount', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+
+      const { transaction } = await manager.processPayment(
+        paymentRequest,
+        'user-1'
+      );
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+
+      await manager.refundPayment('ORDER-1', 100000, 'Outage compensation');
+      await expect(manager.refundPayment('ORDER-1', 200000)).rejects.toThrow(
+        /exceeds the refundable amount of 122000/
+      );
+      await manager.refundPayment('ORDER-1');
+
+      expect(refundEntries).toEqual([
+        expect.objectContaining({
+          transactionId: transaction.id,
+          amount: 100000,
+          description: 'Refund for ORDER-1: Outage compensation',
+        }),
+        expect.objectContaining({
+          transactionId: transaction.id,
+          amount: 122000,
+        }),
+      ]);
+      expect(transactions.get(transaction.id)?.status).toBe('refund');
+    });
+
+    it('should reject notifications with a bad signature', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      await manager.processPayment(paymentRequest, 'user-1');
+
+      const notification = gateway.simulate('ORDER-1', 'deny');
+      await expect(
+        manager.handleWebhook({ ...notification, signature_key: 'forged' })
+      ).rejects.toThrow('Invalid webhook signature');
+      expect(invoices).toHaveLength(0);
+      expect(webhookEvents.size).toBe(0);
+    });
+
+    it('should apply a redelivered notification only once', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      await manager.processPayment(paymentRequest, 'user-1');
+
+      const notification = gateway.simulate('ORDER-1', 'settlement');
+      const first = await manager.handleWebhook(notification);
+      const second = await manager.handleWebhook(notification);
+
+      expect(first).toMatchObject({ duplicate: false, status: 'processed' });
+      expect(second).toMatchObject({ duplicate: true, status: 'processed' });
+      expect(invoices).toHaveLength(1);
+      expect(webhookEvents.get(first.eventId)?.duplicate_count).toBe(1);
+    });
+
+    it('should reject illegal status transitions', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      const { transaction } = await manager.processPayment(
+        paymentRequest,
+        'user-1'
+      );
+      const settlement = gateway.simulate('ORDER-1', 'settlement');
+      await manager.handleWebhook(settlement);
+
+      const pending = {
+        ...settlement,
+        transaction_status: 'pending',
+        status_code: '201',
+        signature_key: createMidtransSignature(
+          'ORDER-1',
+          '201',
+          String(settlement.gross_amount),
+          'test-key'
+        ),
+      };
+      const result = await manager.handleWebhook(pending);
+
+      expect(result.status).toBe('rejected');
+      expect(transactions.get(transaction.id)?.status).toBe('success');
+      expect(webhookEvents.get(result.eventId)?.last_error).toMatch(
+        /success -> pending/
+      );
+    });
+
+    it('should apply a polled status through the webhook path', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      const { transaction } = await manager.processPayment(
+        paymentRequest,
+        'user-1'
+      );
+
+      // Settled at the gateway, but the notification never arrives
+      gateway.simulate('ORDER-1', 'settlement');
+      const polled = await gateway.getTransactionStatus('ORDER-1');
+
+      const first = await manager.applyPolledStatus(polled);
+      const second = await manager.applyPolledStatus(polled);
+
+      expect(first).toMatchObject({ duplicate: false, status: 'processed' });
+      expect(second).toMatchObject({ duplicate: true });
+      expect(transactions.get(transaction.id)?.status).toBe('success');
+      expect(invoices).toHaveLength(1);
+      expect(webhookEvents.get(first.eventId)?.payload).toMatchObject({
+        source: 'reconciliation',
+        mapped_status: 'success',
+      });
+    });
+
+    it('should settle the invoice when a status poll finds the payment paid', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      const { transaction } = await manager.processPayment(
+        { ...paymentRequest, invoiceId: 'inv-open' },
+        'user-1'
+      );
+
+      const notification = gateway.simulate('ORDER-1', 'settlement');
+      await manager.getTransactionStatus('ORDER-1');
+
+      expect(transactions.get(transaction.id)?.status).toBe('success');
+      expect(paidInvoices).toEqual(['inv-open']);
+      expect(handleInvoicePaid).toHaveBeenCalledWith('inv-open');
+
+      // The late notification finds the payment already settled
+      await manager.handleWebhook(notification);
+      expect(paidInvoices).toEqual(['inv-open']);
+    });
+
+    it('should only cancel pending payments', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      const { transaction } = await manager.processPayment(
+        paymentRequest,
+        'user-1'
+      );
+
+      await manager.handleWebhook(gateway.simulate('ORDER-1', 'settlement'));
+      await expect(manager.cancelPayment('ORDER-1')).rejects.toThrow(
+        'Payment ORDER-1 is success and cannot be cancelled'
+      );
+      expect(transactions.get(transaction.id)?.status).toBe('success');
+
+      const pending = await manager.processPayment(
+        { ...paymentRequest, orderId: 'ORDER-2' },
+        'user-1'
+      );
+      await manager.cancelPayment('ORDER-2');
+      expect(transactions.get(pending.transaction.id)?.status).toBe(
+        'cancelled'
+      );
+    });
+
+    it('should replay failed events and refuse processed ones', async () => {
+      const gateway = new MockGateway({ serverKey: 'test-key' });
+      const manager = new PaymentManager({} as SupabaseClient, gateway);
+      await gateway.createTransaction(paymentRequest);
+
+      // Notification arrives before the local transaction exists
+      const notification = gateway.simulate('ORDER-1', 'settlement');
+      await expect(manager.handleWebhook(notification)).rejects.toThrow(
+        'Transaction not found'
+      );
+      const [event] = [...webhookEvents.values()];
+      expect(event.processing_status).toBe('failed');
+
+      transactions.set('txn-1', {
+        id: 'txn-1',
+        orderId: 'ORDER-1',
+        userId: 'user-1',
+        amount: 222000,
+        currency: 'IDR',
+        status: 'pending',
+        paymentMethod: {
+          id: 'temp',
+          type: 'bank_transfer',
+          name: 'Pending',
+          provider: 'Mock Gateway',
+          isActive: true,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const replayed = await manager.replayWebhookEvent(event.id);
+      expect(replayed.status).toBe('processed');
+      expect(transactions.get('txn-1')?.status).toBe('success');
+      expect(event.attempts).toBe(2);
+
+      await expect(manager.replayWebhookEvent(event.id)).rejects.toThrow(
+        /cannot be replayed/
+      );
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ReconciliationService,
+  assessGatewayStatus,
+} from '../src/lib/payments/reconciliation';
+import type { PaymentManager } from '../src/lib/payments/manager';
+import type {
+  PaymentResponse,
+  PaymentTransaction,
+} from '../src/lib/payments/types';
+
+const staleTransactions: PaymentTransaction[] = [];
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/payments/index', () => ({
+  getPaymentManager: vi.fn(),
+}));
+
+vi.mock('../src/lib/payments/service', () => ({
+  PaymentService: class {
+    async getStalePendingTransactions() {
+      return staleTransactions;
+    }
+  },
+}));
+
+const now = new Date('2025-06-30T12:00:00Z');
+
+function transaction(
+  orderId: string,
+  hoursAgo = 2,
+  amount = 222000
+): PaymentTransaction {
+  const createdAt = new Date(now.getTime() - hoursAgo * 60 * 60 * 1000);
+  return {
+    id: `txn-${orderId}`,
+    orderId,
+    userId: 'user-1',
+    amount,
+    currency: 'IDR',
+    status: 'pending',
+    paymentMethod: {
+      id: 'temp',
+      type: 'bank_transfer',
+      name: 'Pending',
+      provider: 'Midtrans',
+      isActive: true,
+    },
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+function response(
+  orderId: string,
+  transactionStatus: string,
+  status: PaymentTransaction['status'],
+  grossAmount = 222000
+): PaymentResponse {
+  return {
+    transactionId: `gw-${orderId}`,
+    orderId,
+    statusCode: '200',
+    statusMessage: 'Success',
+    transactionStatus,
+    grossAmount,
+    status,
+  };
+}
+
+describe('Payment reconciliation', () => {
+  describe('assessGatewayStatus', () => {
+    it('should apply final statuses and wait on recent pending ones', () => {
+      expect(
+        assessGatewayStatus(
+          transaction('A'),
+          response('A', 'settlement', 'success'),
+          now
+        )
+      ).toEqual({ action: 'apply' });
+      expect(
+        assessGatewayStatus(
+          transaction('A'),
+          response('A', 'pending', 'pending'),
+          now
+        )
+      ).toEqual({ action: 'wait' });
+    });
+
+    it('should flag what cannot be applied automatically', () => {
+      expect(
+        assessGatewayStatus(
+          transaction('A', 72),
+          response('A', 'pending', 'pending'),
+          now
+        )
+      ).toMatchObject({ action: 'flag', type: 'stuck_pending' });
+      expect(
+        assessGatewayStatus(
+          transaction('A'),
+          response('A', 'authorize', 'pending'),
+          now
+        )
+      ).toMatchObject({ action: 'flag', type: 'unknown_status' });
+      expect(
+        assessGatewayStatus(
+          transaction('A'),
+          response('A', 'settlement', 'success', 111000),
+          now
+        )
+      ).toMatchObject({ action: 'flag', type: 'amount_mismatch' });
+      expect(
+        assessGatewayStatus(
+          transaction('A'),
+          { ...response('A', '', 'pending'), statusCode: '404' },
+          now
+        )
+      ).toMatchObject({ action: 'flag', type: 'not_found' });
+    });
+  });
+
+  describe('ReconciliationService', () => {
+    it('should resolve what it can and report the rest', async () => {
+      staleTransactions.splice(
+        0,
+        staleTransactions.length,
+        transaction('PAID'),
+        transaction('WAITING'),
+        transaction('LOST'),
+        transaction('REFUNDED')
+      );
+
+      const statuses: Record<string, PaymentResponse> = {
+        PAID: response('PAID', 'settlement', 'success'),
+        WAITING: response('WAITING', 'pending', 'pending'),
+        REFUNDED: response('REFUNDED', 'refund', 'refund'),
+      };
+      const applyPolledStatus = vi.fn(async (polled: PaymentResponse) => ({
+        status: polled.status === 'refund' ? 'rejected' : 'processed',
+      }));
+      const manager = {
+        getGateway: () => ({
+          provider: 'midtrans',
+          getTransactionStatus: async (orderId: string) => {
+            if (!statuses[orderId]) throw new Error('Midtrans API error: 500');
+            return statuses[orderId];
+          },
+        }),
+        applyPolledStatus,
+      } as unknown as PaymentManager;
+
+      const inserts: Record<string, unknown[]> = {};
+      const supabase = {
+        from: (table: string) => ({
+          insert: (rows: unknown) => {
+            inserts[table] = Array.isArray(rows) ? rows : [rows];
+            return {
+              select: () => ({
+                single: async () => ({ data: { id: 'run-1' }, error: null }),
+              }),
+              then: (resolve: (value: unknown) => void) =>
+                resolve({ error: null }),
+            };
+          },
+        }),
+      } as unknown as SupabaseClient;
+
+      const report = await new ReconciliationService(supabase, {
+        paymentManager: manager,
+      }).run(now);
+
+      expect(report).toMatchObject({
+        runId: 'run-1',
+        checked: 4,
+        resolved: 1,
+        unchanged: 1,
+      });
+      expect(applyPolledStatus).toHaveBeenCalledTimes(2);
+      expect(report.discrepancies.map(d => [d.orderId, d.type])).toEqual([
+        ['LOST', 'gateway_error'],
+        ['REFUNDED', 'rejected_transition'],
+      ]);
+      expect(inserts.payment_reconciliation_runs).toEqual([
+        expect.objectContaining({ checked: 4, discrepancy_count: 2 }),
+      ]);
+      expect(inserts.payment_reconciliation_discrepancies).toHaveLength(2);
+    });
+  });
+});
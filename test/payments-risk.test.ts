@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_RISK_POLICY,
+  PaymentRiskService,
+  assessPaymentRisk,
+  type RiskSignals,
+} from '../src/lib/payments/risk';
+import type { PaymentRequest } from '../src/lib/payments/types';
+
+vi.mock('../src/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../src/lib/security/audit', () => ({ securityAuditLogger: {} }));
+
+const quiet: RiskSignals = {
+  userAttempts: 0,
+  ipAttempts: 0,
+  ipAccounts: 1,
+  recentDenials: 0,
+  emailMismatch: false,
+};
+
+const request: PaymentRequest = {
+  amount: 333000,
+  orderId: 'ORDER-1',
+  customerDetails: {
+    firstName: 'Budi',
+    lastName: 'Santoso',
+    email: 'someone-else@example.com',
+    phone: '08123456789',
+  },
+  itemDetails: [],
+};
+
+/**
+ * A client reporting `attempts` earlier attempts by the user and from the
+ * IP, and `denials` declined transactions. Records the check inserted.
+ */
+function riskClient(attempts: number, denials: number) {
+  const insert = vi.fn((row: Record<string, unknown>) => ({
+    select: () => ({
+      single: () =>
+        Promise.resolve({ data: { id: 'check-1', ...row }, error: null }),
+    }),
+  }));
+  const counted = (count: number) => {
+    const result = Promise.resolve({ count, data: [], error: null });
+    return Object.assign(result, {
+      eq: () => counted(count),
+      gte: () => counted(count),
+      limit: () => counted(count),
+    });
+  };
+
+  const client = {
+    from: (table: string) => ({
+      insert,
+      select: () =>
+        counted(table === 'payment_transactions' ? denials : attempts),
+    }),
+  } as unknown as SupabaseClient;
+
+  return { client, insert };
+}
+
+describe('Payment risk checks', () => {
+  it('should allow quiet attempts and step up a single risk signal', () => {
+    expect(assessPaymentRisk(quiet)).toEqual({
+      decision: 'allow',
+      reasons: [],
+    });
+
+    const mismatch = assessPaymentRisk({ ...quiet, emailMismatch: true });
+    expect(mismatch.decision).toBe('step_up');
+    expect(mismatch.reasons.map(reason => reason.code)).toEqual([
+      'email_mismatch',
+    ]);
+
+    expect(assessPaymentRisk({ ...quiet, userAttempts: 5 }).decision).toBe(
+      'step_up'
+    );
+    expect(assessPaymentRisk({ ...quiet, ipAccounts: 10 }).decision).toBe(
+      'step_up'
+    );
+  });
+
+  it('should not block a shared IP alone or stacked with another signal', () => {
+    expect(assessPaymentRisk({ ...quiet, ipAccounts: 3 }).decision).toBe(
+      'allow'
+    );
+
+    const natted = assessPaymentRisk({
+      ...quiet,
+      ipAccounts: 40,
+      emailMismatch: true,
+    });
+    expect(natted.decision).toBe('step_up');
+    expect(natted.reasons.map(reason => reason.code)).toEqual([
+      'shared_ip',
+      'email_mismatch',
+    ]);
+  });
+
+  it('should block attempts needing step-up on methods without 3-D Secure', () => {
+    const mismatch = { ...quiet, emailMismatch: true };
+
+    for (const method of ['bank_transfer', 'virtual_account', 'ewallet']) {
+      expect(
+        assessPaymentRisk(mismatch, DEFAULT_RISK_POLICY, method).decision
+      ).toBe('block');
+    }
+    expect(
+      assessPaymentRisk(mismatch, DEFAULT_RISK_POLICY, 'credit_card').decision
+    ).toBe('step_up');
+    expect(assessPaymentRisk(quiet, DEFAULT_RISK_POLICY, 'ewallet')).toEqual({
+      decision: 'allow',
+      reasons: [],
+    });
+  });
+
+  it('should block past a block threshold or when signals add up', () => {
+    expect(assessPaymentRisk({ ...quiet, userAttempts: 10 }).decision).toBe(
+      'block'
+    );
+    expect(assessPaymentRisk({ ...quiet, recentDenials: 5 }).decision).toBe(
+      'block'
+    );
+    expect(
+      assessPaymentRisk({ ...quiet, recentDenials: 3, emailMismatch: true })
+        .decision
+    ).toBe('block');
+  });
+
+  it('should record each attempt and raise a security event when blocking', async () => {
+    const events = { createSecurityEvent: vi.fn() };
+
+    const quietClient = riskClient(0, 0);
+    const allowed = await new PaymentRiskService(
+      quietClient.client,
+      events
+    ).check(
+      {
+        ...request,
+        customerDetails: {
+          ...request.customerDetails,
+          email: 'budi@example.com',
+        },
+      },
+      'user-1',
+      { ipAddress: '203.0.113.7', accountEmail: 'Budi@example.com' }
+    );
+    expect(allowed.decision).toBe('allow');
+    expect(events.createSecurityEvent).not.toHaveBeenCalled();
+
+    const busy = riskClient(12, 4);
+    const blocked = await new PaymentRiskService(busy.client, events).check(
+      request,
+      'user-1',
+      { ipAddress: '203.0.113.7', accountEmail: 'budi@example.com' }
+    );
+
+    expect(blocked.decision).toBe('block');
+    expect(busy.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        order_id: 'ORDER-1',
+        ip_address: '203.0.113.7',
+        decision: 'block',
+        reasons: [
+          'user_velocity',
+          'ip_velocity',
+          'repeated_denials',
+          'email_mismatch',
+        ],
+      })
+    );
+    expect(events.createSecurityEvent).toHaveBeenCalledWith(
+      'suspicious_activity',
+      'high',
+      'user-1',
+      '203.0.113.7',
+      expect.stringContaining('Payment blocked'),
+      expect.objectContaining({ risk_check_id: 'check-1', decision: 'block' })
+    );
+  });
+});
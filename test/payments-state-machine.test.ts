@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { checkTransition } from '../src/lib/payments/state-machine';
+import { buildDedupeKey } from '../src/lib/payments/webhook-events';
+import type { GatewayWebhookEvent } from '../src/lib/payments/types';
+
+const event: GatewayWebhookEvent = {
+  provider: 'midtrans',
+  orderId: 'ORDER-1',
+  transactionId: 'mt-1',
+  rawStatus: 'settlement',
+  status: 'success',
+  grossAmount: 222000,
+  signature: 'sig-1',
+};
+
+describe('Payment status state machine', () => {
+  it('should allow pending payments to settle, fail or be cancelled', () => {
+    expect(checkTransition('pending', 'success')).toBe('apply');
+    expect(checkTransition('pending', 'failed')).toBe('apply');
+    expect(checkTransition('pending', 'cancelled')).toBe('apply');
+  });
+
+  it('should only allow settled payments to be refunded', () => {
+    expect(checkTransition('success', 'refund')).toBe('apply');
+    expect(checkTransition('success', 'pending')).toBe('illegal');
+    expect(checkTransition('success', 'failed')).toBe('illegal');
+  });
+
+  it('should treat final states as terminal', () => {
+    expect(checkTransition('failed', 'success')).toBe('illegal');
+    expect(checkTransition('cancelled', 'pending')).toBe('illegal');
+    expect(checkTransition('refund', 'success')).toBe('illegal');
+  });
+
+  it('should treat a repeated status as a no-op', () => {
+    expect(checkTransition('success', 'success')).toBe('noop');
+  });
+});
+
+describe('buildDedupeKey', () => {
+  it('should be stable for the same notification', () => {
+    expect(buildDedupeKey(event, {})).toBe(buildDedupeKey(event, {}));
+  });
+
+  it('should differ by status and signature', () => {
+    const key = buildDedupeKey(event, {});
+    expect(buildDedupeKey({ ...event, rawStatus: 'capture' }, {})).not.toBe(
+      key
+    );
+    expect(buildDedupeKey({ ...event, signature: 'sig-2' }, {})).not.toBe(key);
+  });
+
+  it('should fall back to the payload for unsigned providers', () => {
+    const unsigned = { ...event, provider: 'xendit' as const, signature: '' };
+    expect(buildDedupeKey(unsigned, { id: 'a' })).not.toBe(
+      buildDedupeKey(unsigned, { id: 'b' })
+    );
+  });
+});